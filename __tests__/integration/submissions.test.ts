@@ -8,12 +8,13 @@
  * 4. WEBSITE submissions
  * 5. SCREENSHOT submissions
  *
- * To run: npm test -- submissions.test.ts
+ * To run: npm run test:integration (needs DATABASE_URL)
  */
 
 import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
 import { prisma } from '@/lib/prisma';
 import { submitAssessment } from '@/lib/actions/submission-actions';
+import { drainAssessmentQueue } from '@/lib/services/assessment-queue';
 
 // Test data
 const TEST_USER_ID = 'test-user-123';
@@ -123,6 +124,9 @@ describe('Submission Integration Tests', () => {
       expect(result.success).toBe(true);
       expect(result.submissionId).toBeDefined();
 
+      // Assessments are queued; run the worker before checking results
+      await drainAssessmentQueue();
+
       // Verify submission was created in database
       const submission = await prisma.submission.findUnique({
         where: { id: result.submissionId },
@@ -178,6 +182,9 @@ describe('Submission Integration Tests', () => {
       expect(result.success).toBe(true);
       expect(result.submissionId).toBeDefined();
 
+      // Assessments are queued; run the worker before checking results
+      await drainAssessmentQueue();
+
       // Verify assessment includes GitHub metadata
       const submission = await prisma.submission.findUnique({
         where: { id: result.submissionId },
@@ -245,11 +252,24 @@ describe('Submission Integration Tests', () => {
   });
 
   describe('DOCUMENT Submissions', () => {
-    it('should reject PDF files with clear error message', async () => {
+    it('should accept PDF files', async () => {
       // Note: We can't actually upload files in this test,
-      // but we can verify the backend rejects PDFs
-      // This would be tested in an E2E test with actual file uploads
-      expect(true).toBe(true);
+      // so we verify the document service configuration
+      // Extraction itself would be tested in an E2E test with actual file uploads
+      const { documentService } = await import('@/lib/services/document-service');
+      const supportedTypes = documentService.getSupportedFileTypes();
+
+      expect(supportedTypes.some(t => t.extension === '.pdf')).toBe(true);
+    });
+
+    it('should report PDFs without extractable text as non-retryable', async () => {
+      const { NoExtractableTextError } = await import('@/lib/services/document-service');
+      const { categorizeError } = await import('@/lib/utils/error-handling');
+
+      const appError = categorizeError(new NoExtractableTextError('scan.pdf', true));
+
+      expect(appError.retryable).toBe(false);
+      expect(appError.message).toContain('No extractable text');
     });
 
     it('should accept DOCX files', async () => {
@@ -259,7 +279,6 @@ describe('Submission Integration Tests', () => {
       const supportedTypes = documentService.getSupportedFileTypes();
 
       expect(supportedTypes.some(t => t.extension === '.docx')).toBe(true);
-      expect(supportedTypes.some(t => t.extension === '.pdf')).toBe(false);
     });
 
     it('should accept TXT files', async () => {
@@ -268,6 +287,15 @@ describe('Submission Integration Tests', () => {
 
       expect(supportedTypes.some(t => t.extension === '.txt')).toBe(true);
     });
+
+    it('should accept notebooks, slides, spreadsheets and other text formats', async () => {
+      const { documentService } = await import('@/lib/services/document-service');
+      const extensions = documentService.getSupportedFileTypes().map(t => t.extension);
+
+      for (const extension of ['.ipynb', '.pptx', '.xlsx', '.csv', '.odt', '.md']) {
+        expect(extensions).toContain(extension);
+      }
+    });
   });
 
   describe('WEBSITE Submissions', () => {
@@ -282,6 +310,9 @@ describe('Submission Integration Tests', () => {
       expect(result.success).toBe(true);
       expect(result.submissionId).toBeDefined();
 
+      // Assessments are queued; run the worker before checking results
+      await drainAssessmentQueue();
+
       // Verify assessment includes website metadata
       const submission = await prisma.submission.findUnique({
         where: { id: result.submissionId },
@@ -0,0 +1,103 @@
+/**
+ * Unit tests for the accessibility audit of website submissions and its mapping
+ * onto rubric criteria.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { auditAccessibility, contrastRatio, mapAuditToCriteria } from '@/lib/services/accessibility-service';
+
+const ACCESSIBLE_PAGE = `<!DOCTYPE html>
+<html lang="en">
+<head><title>Recipes</title><meta name="viewport" content="width=device-width, initial-scale=1"></head>
+<body>
+  <main>
+    <h1>Recipes</h1>
+    <h2>Search</h2>
+    <img src="hero.png" alt="A table of dishes">
+    <label for="q">Ingredient</label><input id="q" type="text">
+    <button>Search</button>
+    <a href="/about">About us</a>
+  </main>
+</body>
+</html>`;
+
+const BROKEN_PAGE = `<html>
+<head><meta name="viewport" content="width=device-width, user-scalable=no"></head>
+<body>
+  <h2>Recipes</h2>
+  <h4>Search</h4>
+  <img src="hero.png">
+  <img src="logo.png">
+  <input type="text" placeholder="Ingredient">
+  <button><svg></svg></button>
+  <a href="/about"></a>
+  <div role="banana" aria-lable="x" tabindex="3">Odd</div>
+</body>
+</html>`;
+
+describe('auditAccessibility', () => {
+  it('passes an accessible page', () => {
+    const audit = auditAccessibility(ACCESSIBLE_PAGE);
+
+    expect(audit.violations).toEqual([]);
+    expect(audit.passes).toEqual(expect.arrayContaining(['image-alt', 'label', 'button-name', 'link-name', 'heading-order', 'landmark-one-main']));
+    expect(audit.contrastChecked).toBe(false);
+  });
+
+  it('reports each broken rule with its affected elements, most severe first', () => {
+    const audit = auditAccessibility(BROKEN_PAGE);
+    const rules = audit.violations.map(violation => violation.rule);
+
+    expect(rules).toEqual(expect.arrayContaining([
+      'image-alt', 'label', 'button-name', 'aria-roles', 'aria-valid-attr', 'meta-viewport',
+      'link-name', 'html-has-lang', 'document-title', 'tabindex', 'heading-order', 'page-has-heading-one', 'landmark-one-main',
+    ]));
+    expect(audit.violations[0].impact).toBe('critical');
+
+    const imageAlt = audit.violations.find(violation => violation.rule === 'image-alt')!;
+    expect(imageAlt.count).toBe(2);
+    expect(imageAlt.nodes[0].snippet).toBe('<img src="hero.png">');
+    expect(imageAlt.wcag).toEqual(['1.1.1 Non-text Content']);
+  });
+
+  it('checks contrast only from rendered samples', () => {
+    const audit = auditAccessibility(ACCESSIBLE_PAGE, {
+      source: 'rendered',
+      contrastSamples: [
+        { selector: 'main > p', snippet: '<p>', color: 'rgb(170, 170, 170)', background: 'rgb(255, 255, 255)', fontSize: 16, fontWeight: 400 },
+        { selector: 'main > h1', snippet: '<h1>', color: 'rgb(0, 0, 0)', background: 'rgb(255, 255, 255)', fontSize: 32, fontWeight: 700 },
+      ],
+    });
+
+    expect(audit.contrastChecked).toBe(true);
+    expect(audit.violations.map(violation => violation.rule)).toEqual(['color-contrast']);
+    expect(audit.violations[0].nodes[0].selector).toBe('main > p');
+  });
+});
+
+describe('contrastRatio', () => {
+  it('follows the WCAG formula', () => {
+    expect(contrastRatio('rgb(0, 0, 0)', 'rgb(255, 255, 255)')).toBeCloseTo(21, 1);
+    expect(contrastRatio('rgb(119, 119, 119)', 'rgb(255, 255, 255)')).toBeCloseTo(4.48, 2);
+    expect(contrastRatio('not a colour', 'rgb(255, 255, 255)')).toBeNull();
+  });
+});
+
+describe('mapAuditToCriteria', () => {
+  const audit = auditAccessibility(BROKEN_PAGE);
+
+  it('checks topical criteria against their rules only', () => {
+    const [images, contrast] = mapAuditToCriteria(['All images have alt text', 'Meets WCAG AA colour contrast'], audit);
+
+    expect(images).toMatchObject({ rules: ['image-alt'], passed: false, detail: 'image-alt (2)' });
+    expect(contrast).toMatchObject({
+      rules: ['color-contrast'],
+      passed: true,
+      detail: 'No applicable elements found; colour contrast was not checked because the page was not rendered',
+    });
+  });
+
+  it('ignores criteria that are not about accessibility', () => {
+    expect(mapAuditToCriteria(['Uses a responsive layout'], audit)).toEqual([]);
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Renders the single-page app fixture (scripts/fixtures/spa) in a headless browser.
+ *
+ * Needs playwright-core with Chromium (`npx playwright install chromium`) or
+ * BROWSER_WS_ENDPOINT; the suite is skipped when neither is available.
+ */
+
+import { describe, it, expect, jest, beforeAll, afterAll } from '@jest/globals';
+import { existsSync } from 'fs';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { join } from 'path';
+import { renderPage, type RenderedPage } from '@/lib/services/browser-render-service';
+import { serveDirectory } from '../../scripts/static-server';
+
+function browserAvailable(): boolean {
+  if (process.env.BROWSER_WS_ENDPOINT) return true;
+  try {
+    // playwright-core is an optional dependency and ships without the browser itself
+    const { chromium } = jest.requireActual<{ chromium: { executablePath(): string } }>('playwright-core');
+    return existsSync(chromium.executablePath());
+  } catch {
+    return false;
+  }
+}
+
+const describeWithBrowser = browserAvailable() ? describe : describe.skip;
+
+describeWithBrowser('renderPage on the SPA fixture', () => {
+  let server: Server;
+  let rendered: RenderedPage | null;
+
+  beforeAll(async () => {
+    server = await serveDirectory(join(__dirname, '../../scripts/fixtures/spa'));
+    rendered = await renderPage(`http://127.0.0.1:${(server.address() as AddressInfo).port}/`);
+  }, 120000);
+
+  afterAll(() => {
+    server?.close();
+  });
+
+  it('sees the content the script renders', () => {
+    expect(rendered).not.toBeNull();
+    expect(rendered!.status).toBe(200);
+    expect(rendered!.title).toBe('Recipe Finder');
+    expect(rendered!.text).toContain('Search thousands of recipes');
+    expect(rendered!.html).toContain('<h1>Recipe Finder</h1>');
+  });
+
+  it('records console errors and failed requests', () => {
+    expect(rendered!.consoleErrors).toEqual(expect.arrayContaining([
+      'Failed to load recipes: 404',
+      'Uncaught Error: recipes is undefined',
+    ]));
+    expect(rendered!.failedRequests.map(request => [new URL(request.url).pathname, request.status])).toEqual(
+      expect.arrayContaining([['/missing-hero.png', 404], ['/api/recipes', 404]])
+    );
+  });
+
+  it('captures both viewports and the mobile overflow', () => {
+    expect(rendered!.screenshots.map(screenshot => screenshot.viewport)).toEqual(['desktop', 'mobile']);
+    expect(rendered!.screenshots.every(screenshot => screenshot.image.length > 0)).toBe(true);
+    expect(rendered!.horizontalOverflow).toBe(true);
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Unit tests for the ZIP reader and the PowerPoint, Excel and OpenDocument extractors
+ * built on it. Archives are assembled in memory from small XML parts.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { deflateRawSync } from 'zlib';
+import { listZipEntries, readZipText } from '@/lib/utils/zip';
+import { extractOpenDocumentText, extractPresentation, extractWorkbook } from '@/lib/services/document-format-service';
+
+// A ZIP archive of the given files, deflated unless stored is set. CRCs are left at zero;
+// the reader does not check them.
+function zip(files: Record<string, string | Buffer>, { stored = false } = {}): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = Buffer.from(name);
+    const raw = Buffer.from(content);
+    const data = stored ? raw : deflateRawSync(raw);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(stored ? 0 : 8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(stored ? 0 : 8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, nameBytes, data);
+    centrals.push(central, nameBytes);
+    offset += local.length + nameBytes.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, end]);
+}
+
+describe('ZIP reader', () => {
+  it('reads stored and deflated entries', () => {
+    const files = { 'a.txt': 'alpha', 'dir/b.xml': '<b>beta</b>'.repeat(50) };
+
+    for (const archive of [zip(files), zip(files, { stored: true })]) {
+      expect(listZipEntries(archive)).toEqual(['a.txt', 'dir/b.xml']);
+      expect(readZipText(archive, 'dir/b.xml')).toBe('<b>beta</b>'.repeat(50));
+      expect(readZipText(archive, 'missing.txt')).toBeNull();
+    }
+  });
+
+  it('rejects files that are not archives, truncated archives and damaged entries', () => {
+    const archive = zip({ 'a.txt': 'alpha'.repeat(100) });
+    const damaged = Buffer.from(archive);
+    damaged.fill(0xff, 30 + 'a.txt'.length, 40 + 'a.txt'.length);
+
+    expect(() => listZipEntries(Buffer.from('just some text'))).toThrow('Not a valid ZIP archive');
+    expect(() => listZipEntries(Buffer.concat([Buffer.alloc(10), archive.subarray(archive.length - 22)]))).toThrow('Corrupt ZIP archive: central directory ends after 0 of 1 entries');
+    expect(() => readZipText(damaged, 'a.txt')).toThrow('Corrupt ZIP archive: a.txt could not be decompressed');
+  });
+
+  it('rejects ZIP64 archives', () => {
+    const archive = zip({ 'a.txt': 'alpha' });
+    archive.writeUInt32LE(0xffffffff, archive.length - 6);
+
+    expect(() => listZipEntries(archive)).toThrow('ZIP64 archives are not supported');
+  });
+
+  it('stops inflating an entry at 50 MB', () => {
+    const bomb = zip({ 'bomb.xml': Buffer.alloc(50 * 1024 * 1024 + 1) });
+
+    expect(bomb.length).toBeLessThan(100 * 1024);
+    expect(() => readZipText(bomb, 'bomb.xml')).toThrow('bomb.xml is larger than 52428800 bytes');
+  });
+});
+
+const PRESENTATION = {
+  'ppt/presentation.xml': '<p:presentation><p:sldIdLst><p:sldId id="257" r:id="rId3"/><p:sldId id="256" r:id="rId2"/></p:sldIdLst></p:presentation>',
+  'ppt/_rels/presentation.xml.rels': '<Relationships><Relationship Id="rId2" Target="slides/slide1.xml"/><Relationship Id="rId3" Target="slides/slide2.xml"/></Relationships>',
+  'ppt/slides/slide1.xml': `<p:sld>
+    <p:sp><p:nvSpPr><p:nvPr><p:ph type="title"/></p:nvPr></p:nvSpPr><a:p><a:r><a:t>Results</a:t></a:r></a:p></p:sp>
+    <p:sp><a:p><a:r><a:t>Accuracy rose to 94%</a:t></a:r></a:p></p:sp>
+    <p:pic><p:cNvPr id="4" name="Chart" descr="Accuracy by epoch"/></p:pic>
+  </p:sld>`,
+  'ppt/slides/_rels/slide1.xml.rels': '<Relationships><Relationship Id="rId1" Target="../notesSlides/notesSlide1.xml"/></Relationships>',
+  'ppt/notesSlides/notesSlide1.xml': '<p:notes><p:sp><p:nvSpPr><p:nvPr><p:ph type="body"/></p:nvPr></p:nvSpPr><a:p><a:r><a:t>Mention the test set</a:t></a:r></a:p></p:sp></p:notes>',
+  'ppt/slides/slide2.xml': `<p:sld>
+    <p:sp><p:nvSpPr><p:nvPr><p:ph type="ctrTitle"/></p:nvPr></p:nvSpPr><a:p><a:r><a:t>Intro &amp; aims</a:t></a:r></a:p></p:sp>
+    <a:tbl><a:tr><a:tc><a:p><a:r><a:t>Model</a:t></a:r></a:p></a:tc><a:tc><a:p><a:r><a:t>F1</a:t></a:r></a:p></a:tc></a:tr></a:tbl>
+  </p:sld>`,
+};
+
+describe('extractPresentation', () => {
+  it('reads slides in presentation order with titles, tables, images and speaker notes', () => {
+    const deck = extractPresentation(zip(PRESENTATION));
+
+    expect(deck.content).toBe('[Slide 1: Intro & aims]\n[Table]\nModel | F1\n\n[Slide 2: Results]\nAccuracy rose to 94%\nSpeaker notes: Mention the test set');
+    expect(deck.pageCount).toBe(2);
+    expect(deck.formatSummary).toBe('2 slides, 1 with speaker notes');
+    expect(deck.structure.outline.map(heading => heading.text)).toEqual(['Intro & aims', 'Results']);
+    expect(deck.structure.images).toEqual({ count: 1, captions: ['Accuracy by epoch'] });
+  });
+
+  it('falls back to slide file order without a slide list, and rejects other archives', () => {
+    const unlisted = Object.fromEntries(Object.entries(PRESENTATION).filter(([name]) => name !== 'ppt/_rels/presentation.xml.rels'));
+
+    expect(extractPresentation(zip(unlisted)).content).toMatch(/^\[Slide 1: Results\][\s\S]*\[Slide 2: Intro & aims\]/);
+    expect(() => extractPresentation(zip({ 'word/document.xml': '<w:document/>' }))).toThrow('Not a PowerPoint presentation');
+  });
+});
+
+describe('extractWorkbook', () => {
+  it('summarises each sheet from shared and inline strings, numbers and booleans', () => {
+    const workbook = extractWorkbook(zip({
+      'xl/workbook.xml': '<workbook><sheets><sheet name="Scores" sheetId="1" r:id="rId1"/></sheets></workbook>',
+      'xl/_rels/workbook.xml.rels': '<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/></Relationships>',
+      'xl/sharedStrings.xml': '<sst><si><t>Student</t></si><si><t>Score</t></si><si><t>Passed</t></si><si><t>Ada</t></si></sst>',
+      'xl/worksheets/sheet1.xml': `<worksheet><sheetData>
+        <row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="C1" t="s"><v>2</v></c></row>
+        <row r="2"><c r="A2" t="s"><v>3</v></c><c r="B2"><v>91</v></c><c r="C2" t="b"><v>1</v></c></row>
+        <row r="3"><c r="A3" t="inlineStr"><is><t>Grace</t></is></c><c r="B3"><f>B2-4</f><v>87</v></c><c r="C3" t="b"><v>0</v></c></row>
+      </sheetData></worksheet>`,
+      'xl/charts/chart1.xml': '<c:chartSpace><c:title><a:p><a:r><a:t>Scores</a:t></a:r></a:p></c:title></c:chartSpace>',
+    }));
+
+    expect(workbook.formatSummary).toBe('1 sheet: Scores (3 x 3); 1 chart');
+    expect(workbook.content).toContain('[Sheet: Scores] 2 data rows x 3 columns (header: Student, Score, Passed)');
+    expect(workbook.content).toContain('Formulas: 1 cell');
+    expect(workbook.content).toContain('- Score: numeric, min 87, max 91, mean 89');
+    expect(workbook.content).toContain('Ada | 91 | TRUE\nGrace | 87 | FALSE');
+    expect(workbook.structure.images).toEqual({ count: 1, captions: ['Chart: Scores'] });
+  });
+});
+
+describe('extractOpenDocumentText', () => {
+  it('keeps heading levels, tables, image descriptions and the page count', () => {
+    const document = extractOpenDocumentText(zip({
+      'content.xml': `<office:document-content><office:body><office:text>
+        <text:h text:outline-level="1">Method</text:h>
+        <text:p>We  sampled<text:s text:c="2"/>200 users.</text:p>
+        <text:h text:outline-level="2">Data</text:h>
+        <table:table table:name="T1"><table:table-row><table:table-cell><text:p>Group</text:p></table:table-cell><table:table-cell><text:p>n</text:p></table:table-cell></table:table-row></table:table>
+        <text:p><draw:frame><draw:image/><svg:title>Survey flow</svg:title></draw:frame></text:p>
+        <text:p/>
+      </office:text></office:body></office:document-content>`,
+      'meta.xml': '<office:meta><meta:document-statistic meta:page-count="3"/></office:meta>',
+    }, { stored: true }));
+
+    expect(document.content).toBe('Method\nWe sampled 200 users.\nData\nGroup | n');
+    expect(document.pageCount).toBe(3);
+    expect(document.formatSummary).toBe('2 headings, 1 table');
+    expect(document.structure.outline.map(heading => [heading.level, heading.text])).toEqual([[1, 'Method'], [2, 'Data']]);
+    expect(document.structure.images).toEqual({ count: 1, captions: ['Survey flow'] });
+  });
+});
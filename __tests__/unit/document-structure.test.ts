@@ -0,0 +1,120 @@
+/**
+ * Unit tests for document structure parsing and the structural criterion checks
+ * run against it before the assessor sees the document.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  parseMarkdownStructure,
+  parseTextStructure,
+  runStructuralChecks,
+} from '@/lib/services/document-structure-service';
+
+const REPORT = `# Project Report
+
+## Table of Contents
+
+## 1. Introduction
+This report looks at caching.
+
+## 2. Methodology
+We measured response times.
+
+| Run | Time |
+| --- | ---- |
+| 1   | 20ms |
+
+![Response times](chart.png)
+
+## 3. Conclusion
+Caching helps.
+
+## References
+[1] Smith, J. (2020). Caching. https://example.com
+[2] Jones, A. (2021). More caching.
+`;
+
+describe('parseMarkdownStructure', () => {
+  const structure = parseMarkdownStructure(REPORT);
+
+  it('builds the outline from headings', () => {
+    expect(structure.outline.map(heading => [heading.level, heading.text])).toEqual([
+      [1, 'Project Report'],
+      [2, 'Table of Contents'],
+      [2, '1. Introduction'],
+      [2, '2. Methodology'],
+      [2, '3. Conclusion'],
+      [2, 'References'],
+    ]);
+  });
+
+  it('finds tables, images and the reference list', () => {
+    expect(structure.tables).toEqual([{ caption: null, rows: [['Run', 'Time'], ['1', '20ms']] }]);
+    expect(structure.images).toEqual({ count: 1, captions: ['Response times'] });
+    expect(structure.references).toEqual({ detected: true, heading: 'References', entryCount: 2 });
+  });
+
+  it('never reads fenced code as headings', () => {
+    const { outline } = parseMarkdownStructure('# Setup\n```\n# not a heading\n```\n');
+
+    expect(outline.map(heading => heading.text)).toEqual(['Setup']);
+  });
+});
+
+describe('parseTextStructure', () => {
+  it('recognises common section names and keeps page numbers', () => {
+    const structure = parseTextStructure([
+      { pageNumber: 1, text: 'INTRODUCTION\nSome text about the project.' },
+      { pageNumber: 2, text: 'Methodology\nTable 1: Results\nFigure 1: Architecture' },
+    ]);
+
+    expect(structure.outline).toEqual([
+      { level: 1, text: 'INTRODUCTION', page: 1 },
+      { level: 1, text: 'Methodology', page: 2 },
+    ]);
+    expect(structure.tables).toEqual([{ caption: 'Table 1: Results', rows: [] }]);
+    expect(structure.images).toEqual({ count: null, captions: ['Figure 1: Architecture'] });
+  });
+});
+
+describe('runStructuralChecks', () => {
+  const structure = parseMarkdownStructure(REPORT);
+  const check = (criterion: string) => runStructuralChecks([criterion], structure);
+
+  it('checks explicitly named sections', () => {
+    expect(check('Includes a Methodology section')).toEqual([{
+      criterion: 'Includes a Methodology section',
+      requirement: 'Section "Methodology"',
+      passed: true,
+      detail: 'Found heading "2. Methodology"',
+    }]);
+    expect(check('Has a "Future Work" heading')[0]).toMatchObject({ requirement: 'Section "Future Work"', passed: false });
+    expect(check('Introduction and Conclusion sections are present')[0]).toMatchObject({
+      requirement: 'Sections "Introduction", "Conclusion"',
+      passed: true,
+    });
+  });
+
+  it('checks the table of contents, reference list, tables and figures', () => {
+    expect(check('Has a table of contents')[0]).toMatchObject({ requirement: 'Table of contents', passed: true });
+    expect(check('Includes a reference list with at least 5 references')[0]).toMatchObject({
+      requirement: 'Reference list with at least 5 entries',
+      passed: false,
+      detail: '"References" lists 2 entries',
+    });
+    expect(check('Includes a bibliography')[0]).toMatchObject({ requirement: 'Reference list', passed: true });
+    expect(check('Includes a table of results')[0]).toMatchObject({ requirement: 'At least 1 table', passed: true });
+    expect(check('Includes at least two figures')[0]).toMatchObject({ requirement: 'At least 2 figures', passed: false });
+  });
+
+  it('leaves criteria that only mention structure to the assessor', () => {
+    expect(runStructuralChecks([
+      'Discusses limitations in each section',
+      'Uses references appropriately',
+      'Each section ends with a short summary',
+      'Explains what the charts show',
+      'Interprets the data in the results table accurately',
+      'Clear argument',
+    ], structure)).toEqual([]);
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Unit tests for reading GitHub submissions: which repository, branch or commit a
+ * submitted URL points at, how a ref is resolved against a scripted API, and what the
+ * commit history says about how the work was done.
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import type { GitHubCommitSummary, GitHubRepoInfo } from '@/lib/services/github-service';
+
+// Commits the scripted API knows, by branch name or SHA; anything else is a 404
+const commitsByRef: Record<string, string> = {};
+
+const getRepo = jest.fn(async () => ({ data: { default_branch: 'main' } }));
+const getCommit = jest.fn(async ({ ref }: { ref: string }) => {
+  const sha = commitsByRef[ref];
+  if (!sha) throw Object.assign(new Error('Not Found'), { status: 404 });
+  return {
+    data: {
+      sha,
+      html_url: `https://github.com/ada/project/commit/${sha}`,
+      commit: { message: `Work on ${ref}\n\nDetails`, committer: { date: '2026-03-01T12:00:00Z' }, author: { date: '2026-03-01T11:00:00Z' } },
+    },
+  };
+});
+
+jest.mock('@octokit/rest', () => ({
+  Octokit: class {
+    rest = { repos: { get: getRepo, getCommit } };
+  },
+}));
+
+const loadService = async () => (await import('@/lib/services/github-service')).githubService;
+
+describe('parseGitHubUrl', () => {
+  it('reads the owner and repository, dropping a .git suffix and trailing slashes', async () => {
+    const github = await loadService();
+
+    expect(github.parseGitHubUrl('https://github.com/ada/project')).toEqual({ owner: 'ada', repo: 'project' });
+    expect(github.parseGitHubUrl('https://github.com/ada/project.git')).toEqual({ owner: 'ada', repo: 'project' });
+    expect(github.parseGitHubUrl('https://github.com/ada/project/')).toEqual({ owner: 'ada', repo: 'project' });
+    expect(github.parseGitHubUrl('https://github.com/ada/project?tab=readme#top')).toEqual({ owner: 'ada', repo: 'project' });
+  });
+
+  it('keeps every segment of a /tree/ branch, decoded', async () => {
+    const github = await loadService();
+
+    expect(github.parseGitHubUrl('https://github.com/ada/project/tree/feature/login/form/')).toEqual({
+      owner: 'ada',
+      repo: 'project',
+      ref: 'feature/login/form',
+      refType: 'branch',
+    });
+    expect(github.parseGitHubUrl('https://github.com/ada/project/tree/fix%2312')?.ref).toBe('fix#12');
+  });
+
+  it('reads a /commit/ SHA, and ignores other pages of the repository', async () => {
+    const github = await loadService();
+
+    expect(github.parseGitHubUrl('https://github.com/ada/project/commit/9fceb02d0ae598e95dc970b74767f19372d61af8/')).toEqual({
+      owner: 'ada',
+      repo: 'project',
+      ref: '9fceb02d0ae598e95dc970b74767f19372d61af8',
+      refType: 'commit',
+    });
+    expect(github.parseGitHubUrl('https://github.com/ada/project/commit/not-a-sha')).toEqual({ owner: 'ada', repo: 'project' });
+    expect(github.parseGitHubUrl('https://github.com/ada/project/issues/3')).toEqual({ owner: 'ada', repo: 'project' });
+  });
+
+  it('rejects URLs without a repository', async () => {
+    const github = await loadService();
+
+    expect(github.parseGitHubUrl('https://github.com/ada')).toBeNull();
+    expect(github.parseGitHubUrl('https://github.com/ada/.git')).toBeNull();
+    expect(github.parseGitHubUrl('https://gitlab.com/ada')).toBeNull();
+  });
+});
+
+describe('resolveCommit', () => {
+  beforeEach(() => {
+    for (const ref of Object.keys(commitsByRef)) delete commitsByRef[ref];
+    getRepo.mockClear();
+    getCommit.mockClear();
+  });
+
+  it('resolves the default branch when no ref is given', async () => {
+    const github = await loadService();
+    commitsByRef.main = 'a'.repeat(40);
+
+    expect(await github.resolveCommit('ada', 'project')).toEqual({
+      commit: {
+        sha: 'a'.repeat(40),
+        message: 'Work on main',
+        committedAt: '2026-03-01T12:00:00Z',
+        url: `https://github.com/ada/project/commit/${'a'.repeat(40)}`,
+      },
+      ref: 'main',
+    });
+    expect(getRepo).toHaveBeenCalledTimes(1);
+  });
+
+  it('takes the longest prefix of a /tree/ path that is a branch', async () => {
+    const github = await loadService();
+    commitsByRef.feature = 'b'.repeat(40);
+    commitsByRef['feature/login'] = 'c'.repeat(40);
+
+    const resolved = await github.resolveCommit('ada', 'project', 'feature/login/src/app');
+
+    expect(resolved.ref).toBe('feature/login');
+    expect(resolved.commit.sha).toBe('c'.repeat(40));
+    expect(getCommit.mock.calls.map(([args]) => args.ref)).toEqual(['feature/login/src/app', 'feature/login/src', 'feature/login']);
+  });
+
+  it('names the full ref when no prefix exists, and stops at errors other than not found', async () => {
+    const github = await loadService();
+
+    await expect(github.resolveCommit('ada', 'project', 'gone/away')).rejects.toThrow('Could not find branch or commit "gone/away" in ada/project');
+    expect(getCommit).toHaveBeenCalledTimes(2);
+
+    getCommit.mockClear();
+    getCommit.mockRejectedValueOnce(Object.assign(new Error('Rate limited'), { status: 403 }));
+    await expect(github.resolveCommit('ada', 'project', 'feature/login')).rejects.toThrow('Rate limited');
+    expect(getCommit).toHaveBeenCalledTimes(1);
+  });
+});
+
+// Only the commit history matters to analyzeCommitHistory
+const history = (commits: Partial<GitHubCommitSummary>[], truncated = false) => ({
+  commits: commits.map((commit, i) => ({ sha: `${i}`, message: 'Add a feature', author: 'ada', authoredAt: '', isMerge: false, ...commit })),
+  commitsTruncated: truncated,
+}) as GitHubRepoInfo;
+
+// Newest first, as the API returns them. The deadline is 2026-03-10 12:00 UTC.
+const COMMITS: Partial<GitHubCommitSummary>[] = [
+  { message: 'Add input validation to the form', authoredAt: '2026-03-10T15:00:00Z' },
+  { message: 'Merge pull request #2 from grace/docs', author: 'grace', authoredAt: '2026-03-10T11:30:00Z', isMerge: true },
+  { message: 'fix', authoredAt: '2026-03-10T11:00:00Z' },
+  { message: 'Update README.md', author: 'grace', authoredAt: '2026-03-09T20:00:00Z' },
+  { message: 'wip', authoredAt: '2026-03-09T09:00:00Z' },
+  { message: 'Set up project structure', authoredAt: '2026-03-01T10:00:00Z' },
+  { message: 'No date', authoredAt: '' },
+];
+
+describe('analyzeCommitHistory', () => {
+  it('summarises dated commits, contributors and message quality', async () => {
+    const github = await loadService();
+    const stats = github.analyzeCommitHistory(history(COMMITS, true));
+
+    expect(stats).toMatchObject({
+      commitCount: 6,
+      historyTruncated: true,
+      firstCommitAt: '2026-03-01T10:00:00.000Z',
+      lastCommitAt: '2026-03-10T15:00:00.000Z',
+      spanDays: 9.2,
+      activeDays: 3,
+      contributors: [{ name: 'ada', commits: 4 }, { name: 'grace', commits: 2 }],
+      messages: { meaningful: 2, lowQuality: 3, merges: 1, averageLength: 16, lowQualityExamples: ['fix', 'Update README.md', 'wip'] },
+    });
+  });
+
+  it('measures the final window back from the last commit without a deadline', async () => {
+    const github = await loadService();
+    const stats = github.analyzeCommitHistory(history(COMMITS));
+
+    expect(stats).toMatchObject({
+      deadline: null,
+      lastCommitBeforeDeadline: null,
+      commitsAfterDeadline: 0,
+      finalWindowShare: 0.83,
+      burstBeforeDeadline: true,
+    });
+  });
+
+  it('splits commits at the deadline and measures the final window back from it', async () => {
+    const github = await loadService();
+    const stats = github.analyzeCommitHistory(history(COMMITS), '2026-03-10T12:00:00Z');
+
+    expect(stats).toMatchObject({
+      deadline: '2026-03-10T12:00:00.000Z',
+      lastCommitBeforeDeadline: '2026-03-10T11:30:00.000Z',
+      commitsAfterDeadline: 1,
+      finalWindowShare: 0.67,
+      burstBeforeDeadline: true,
+    });
+  });
+
+  it('needs enough commits, mostly in the final window, to call it a burst', async () => {
+    const github = await loadService();
+    const spread = COMMITS.slice(0, 5).map((commit, i) => ({ ...commit, authoredAt: `2026-02-0${i + 1}T12:00:00Z` }));
+
+    expect(github.analyzeCommitHistory(history(COMMITS.slice(0, 3)), new Date('2026-03-11T00:00:00Z')).burstBeforeDeadline).toBe(false);
+    expect(github.analyzeCommitHistory(history(spread), '2026-02-05T12:00:00Z')).toMatchObject({ finalWindowShare: 0.4, burstBeforeDeadline: false });
+  });
+
+  it('flags generic and web UI messages, however they are cased', async () => {
+    const github = await loadService();
+    const messages = ['WIP', 'Updated', 'fixes', 'Create index.html', 'Add files via upload', 'Initial commit', 'asdfff', 'Fix login redirect loop', 'Update the grading rubric'];
+    const stats = github.analyzeCommitHistory(history(messages.map(message => ({ message, authoredAt: '2026-03-01T10:00:00Z' }))));
+
+    expect(stats.messages.lowQuality).toBe(7);
+    expect(stats.messages.meaningful).toBe(2);
+  });
+});
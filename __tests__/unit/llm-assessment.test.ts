@@ -0,0 +1,188 @@
+/**
+ * Unit tests for a single assessment against a scripted mock provider: the output budget,
+ * the bounded repair loop, and what happens to responses that cannot be used.
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { Prisma } from '@prisma/client';
+import { MockLLMProvider, registerLLMProvider, type MockResponder } from '@/lib/services/llm-providers';
+import { createCriterion } from '@/lib/types/rubric';
+import type { AssessmentRunInput } from '@/lib/services/assessment-run-service';
+
+// Tables a test reads and writes. Any other table behaves as if there were no database,
+// so template and routing lookups fall back to the built-in defaults.
+const tables: Record<string, object> = {};
+const noDatabase = new Proxy({}, { get: () => async () => { throw new Error('No database in unit tests'); } });
+
+jest.mock('@/lib/prisma', () => {
+  const prisma: object = new Proxy({}, {
+    get: (_, table: string) => (table === '$transaction' ? (run: (tx: object) => unknown) => run(prisma) : tables[table] ?? noDatabase),
+  });
+  return { prisma };
+});
+
+const recordAssessmentRun = jest.fn<(run: AssessmentRunInput) => Promise<void>>(async () => {});
+
+jest.mock('@/lib/services/assessment-run-service', () => ({
+  recordAssessmentRun: (run: AssessmentRunInput) => recordAssessmentRun(run),
+}));
+
+const request = {
+  submissionId: 'submission-1',
+  submissionContent: 'Photosynthesis turns light into chemical energy.',
+  submissionType: 'TEXT' as const,
+  questionTitle: 'Photosynthesis',
+  questionDescription: 'Explain photosynthesis.',
+  criteria: ['Explains the light reactions'],
+  redFlags: [],
+  conditionalChecks: [],
+  provider: 'mock',
+};
+
+// The queue pulls in the GitHub assessor; its ESM-only client is never called here
+jest.mock('@octokit/rest', () => ({ Octokit: class {} }));
+
+// Swap the scripted provider in for "mock" and count its calls
+function script(responder: MockResponder) {
+  const responses = jest.fn(responder);
+  registerLLMProvider(new MockLLMProvider(responses));
+  return responses;
+}
+
+// Answers with each response in turn, repeating the last
+function inTurn(...responses: string[]): MockResponder {
+  let call = 0;
+  return () => responses[Math.min(call++, responses.length - 1)];
+}
+
+const VALID = JSON.stringify({
+  remark: 'Good',
+  feedback: 'Clear explanation of the light reactions.',
+  detailedFeedback: { summary: 'A clear, short answer.', strengths: ['Accurate'], weaknesses: ['Brief'], recommendations: ['Add detail'] },
+  scoreBreakdown: { contentQuality: 75, completeness: 70, technicalAccuracy: 80, structure: 70 },
+  criteria_met: ['Explains the light reactions'],
+  areas_for_improvement: [],
+  confidence: 0.8,
+});
+
+// Parses, but breaks the schema: unknown remark, no detailedFeedback
+const OFF_SCHEMA = JSON.stringify({ ...JSON.parse(VALID), remark: 'Great', detailedFeedback: undefined });
+
+const outcomes = () => recordAssessmentRun.mock.calls.map(([run]) => run.outcome);
+
+describe('assessmentMaxTokens', () => {
+  it('grows with the rubric and attached images, up to a cap', async () => {
+    const { assessmentMaxTokens } = await import('@/lib/services/llm-service');
+    const rubric = (count: number) => Array.from({ length: count }, (_, i) => createCriterion(`Criterion ${i + 1}`));
+    const image = { data: 'aW1hZ2U=', mediaType: 'image/png' };
+
+    expect(assessmentMaxTokens({})).toBe(2000);
+    expect(assessmentMaxTokens({ rubric: rubric(8) })).toBe(4000);
+    expect(assessmentMaxTokens({ rubric: rubric(8), images: [image, image] })).toBe(4500);
+    expect(assessmentMaxTokens({ rubric: rubric(40) })).toBe(8000);
+  });
+});
+
+describe('assessSubmission with unusable responses', () => {
+  beforeEach(() => {
+    recordAssessmentRun.mockClear();
+    delete tables.submission;
+    delete tables.assessmentJob;
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('fails a response cut off at the token limit without asking for a repair', async () => {
+    const { assessSubmission, AssessmentTruncatedError } = await import('@/lib/services/llm-service');
+    const responses = script(() => `{"remark": "Good", "feedback": "${'very '.repeat(5000)}`);
+
+    await expect(assessSubmission(request)).rejects.toThrow(AssessmentTruncatedError);
+    expect(responses).toHaveBeenCalledTimes(1);
+    expect(recordAssessmentRun.mock.calls.map(([run]) => [run.outcome, run.maxTokens])).toEqual([['ERROR', 2000]]);
+  });
+
+  it('sends invalid JSON back with the problem listed and accepts the repaired response', async () => {
+    const { assessSubmission } = await import('@/lib/services/llm-service');
+    const responses = script(inTurn('Here is my assessment: Good', VALID));
+
+    const result = await assessSubmission(request);
+
+    expect(result.remark).toBe('Good');
+    expect(responses).toHaveBeenCalledTimes(2);
+    expect(responses.mock.calls[1][0].prompt).toContain('**YOUR PREVIOUS RESPONSE WAS REJECTED:**\n- The response was not valid JSON');
+    expect(outcomes()).toEqual(['REJECTED', 'ACCEPTED']);
+  });
+
+  it('lists schema violations for the repair', async () => {
+    const { assessSubmission } = await import('@/lib/services/llm-service');
+    const responses = script(inTurn(OFF_SCHEMA, VALID));
+
+    await assessSubmission(request);
+
+    const repairPrompt = responses.mock.calls[1][0].prompt;
+    expect(repairPrompt).toContain('- remark: Invalid enum value');
+    expect(repairPrompt).toContain('- detailedFeedback: Required');
+    expect(recordAssessmentRun.mock.calls[0][0].parseErrors).toHaveLength(2);
+  });
+
+  it('gives up after two repairs with AssessmentValidationError and returns no grade', async () => {
+    const { assessSubmission, AssessmentValidationError } = await import('@/lib/services/llm-service');
+    const responses = script(inTurn('not json', OFF_SCHEMA, OFF_SCHEMA, VALID));
+
+    const failure = await assessSubmission(request).catch((error: unknown) => error);
+
+    expect(failure).toBeInstanceOf(AssessmentValidationError);
+    expect((failure as InstanceType<typeof AssessmentValidationError>).problems).toContain('detailedFeedback: Required');
+    expect(responses).toHaveBeenCalledTimes(3);
+    expect(outcomes()).toEqual(['REJECTED', 'REJECTED', 'REJECTED']);
+  });
+
+  it('fails the queued job and its submission without storing a fallback grade', async () => {
+    const { processAssessmentJob } = await import('@/lib/services/assessment-queue');
+    script(() => OFF_SCHEMA);
+    const updateSubmission = jest.fn(async (args: { data: Record<string, unknown> }) => args);
+    tables.submission = {
+      findUnique: async () => ({
+        id: 'submission-1',
+        submissionContent: request.submissionContent,
+        commitSha: null,
+        question: {
+          id: 'question-1',
+          courseId: 'course-1',
+          title: request.questionTitle,
+          description: request.questionDescription,
+          submissionType: 'TEXT',
+          assessmentMode: 'AI_ONLY',
+          criteria: request.criteria,
+          redFlags: [],
+          conditionalChecks: [],
+          consensusRuns: 1,
+          consensusModels: [],
+          baseExamples: [],
+          rubric: null,
+          course: { llmProvider: 'mock' },
+        },
+      }),
+      update: updateSubmission,
+    };
+    tables.assessmentJob = { updateMany: async () => ({ count: 1 }) };
+
+    const status = await processAssessmentJob({
+      id: 'job-1',
+      submissionId: 'submission-1',
+      payload: { content: request.submissionContent },
+      attempts: 1,
+      maxAttempts: 3,
+      lockedBy: 'worker-1',
+    });
+
+    expect(status).toBe('FAILED');
+    expect(updateSubmission).toHaveBeenCalledTimes(1);
+    expect(updateSubmission.mock.calls[0][0].data).toMatchObject({
+      status: 'FAILED',
+      assessmentResult: Prisma.DbNull,
+      failureReason: expect.stringContaining('failed validation after 3 attempts'),
+    });
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Unit tests for consensus grading with attached images: runs only go to
+ * providers that can see the images.
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import type { LLMProvider } from '@/lib/services/llm-providers';
+
+// No database: template and routing lookups fall back to the built-in defaults
+jest.mock('@/lib/prisma', () => ({
+  prisma: new Proxy({}, {
+    get: () => new Proxy({}, { get: () => async () => { throw new Error('No database in unit tests'); } }),
+  }),
+}));
+
+const textOnlyComplete = jest.fn(async () => {
+  throw new Error('A text-only model must not be sent images');
+});
+
+// Mock provider for "mock", and a text-only provider with no vision model for "groq"
+jest.mock('@/lib/services/llm-providers', () => {
+  const actual = jest.requireActual<typeof import('@/lib/services/llm-providers')>('@/lib/services/llm-providers');
+  const vision = new actual.MockLLMProvider();
+  const textOnly = Object.assign(new actual.MockLLMProvider(), {
+    name: 'groq',
+    defaultVisionModel: null,
+    supportsImages: () => false,
+    complete: textOnlyComplete,
+  }) as unknown as LLMProvider;
+
+  return { ...actual, getLLMProvider: (name?: string | null) => (name === 'groq' ? textOnly : vision) };
+});
+
+const request = {
+  submissionContent: 'Screenshot of a landing page.',
+  submissionType: 'SCREENSHOT' as const,
+  questionTitle: 'Landing page',
+  questionDescription: 'Build a landing page with a navigation bar.',
+  criteria: ['Has a navigation bar'],
+  redFlags: [],
+  conditionalChecks: [],
+  images: [{ data: 'aW1hZ2U=', mediaType: 'image/png' }],
+};
+
+describe('consensus with images', () => {
+  it('skips runs on providers without a vision model', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    // Loaded after the mocks above are registered
+    const { assessSubmission } = await import('@/lib/services/llm-service');
+
+    const result = await assessSubmission({
+      ...request,
+      consensus: { runs: 4, models: ['mock:mock-assessor', 'groq:text-only-model'] },
+    });
+
+    expect(textOnlyComplete).not.toHaveBeenCalled();
+    expect(result.consensus?.requestedRuns).toBe(2);
+    expect(result.consensus?.runs).toBe(2);
+  });
+
+  it('falls back to the routed model when no consensus model can see the images', async () => {
+    const { assessSubmission } = await import('@/lib/services/llm-service');
+
+    const result = await assessSubmission({
+      ...request,
+      consensus: { runs: 2, models: ['groq:text-only-model'] },
+    });
+
+    expect(textOnlyComplete).not.toHaveBeenCalled();
+    expect(result.consensus?.runs).toBe(1);
+  });
+});
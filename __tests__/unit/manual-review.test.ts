@@ -0,0 +1,76 @@
+/**
+ * Unit tests for escalation to manual review, including the confidence an
+ * assessment hands to the escalation check.
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import type { LLMCompletionRequest } from '@/lib/services/llm-providers';
+import { manualReviewReason, type ManualReviewThresholds } from '@/lib/services/manual-review-service';
+
+// No database: template and routing lookups fall back to the built-in defaults
+jest.mock('@/lib/prisma', () => ({
+  prisma: new Proxy({}, {
+    get: () => new Proxy({}, { get: () => async () => { throw new Error('No database in unit tests'); } }),
+  }),
+}));
+
+// The mock provider, reporting a low self-assessed confidence
+jest.mock('@/lib/services/llm-providers', () => {
+  const actual = jest.requireActual<typeof import('@/lib/services/llm-providers')>('@/lib/services/llm-providers');
+
+  class LowConfidenceProvider extends actual.MockLLMProvider {
+    async complete(request: LLMCompletionRequest) {
+      const response = await super.complete(request);
+      return { ...response, content: JSON.stringify({ ...JSON.parse(response.content), confidence: 0.3 }) };
+    }
+  }
+  const provider = new LowConfidenceProvider();
+
+  return { ...actual, getLLMProvider: () => provider };
+});
+
+const aiOnly: ManualReviewThresholds = { assessmentMode: 'AI_ONLY', minConfidence: 0.5, minConsensusAgreement: 0.7 };
+
+describe('manualReviewReason', () => {
+  it('lets a confident result stand', () => {
+    expect(manualReviewReason({ confidence: 0.8 }, aiOnly)).toBeNull();
+  });
+
+  it('escalates a result below the confidence threshold', () => {
+    expect(manualReviewReason({ confidence: 0.3 }, aiOnly)).toBe('Escalated: AI confidence 30% is below the 50% threshold');
+  });
+
+  it('ignores confidence when escalation is disabled or the mode is reviewed anyway', () => {
+    expect(manualReviewReason({ confidence: 0.3 }, { ...aiOnly, minConfidence: null })).toBeNull();
+    expect(manualReviewReason({ confidence: 0.3 }, { ...aiOnly, assessmentMode: 'BOTH' })).toBeNull();
+  });
+
+  it('escalates a triggered red flag', () => {
+    const reason = manualReviewReason({
+      confidence: 0.9,
+      criterion_scores: [{ index: 1, criterion: 'Plagiarism', kind: 'RED_FLAG', status: 'met', points: -5, max_points: 0, evidence: '', justification: '' }],
+    }, aiOnly);
+
+    expect(reason).toBe('Escalated: red flag triggered: Plagiarism');
+  });
+
+  it('escalates an assessment whose model reported 0.3 confidence', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    // Loaded after the mocks above are registered
+    const { assessSubmission } = await import('@/lib/services/llm-service');
+
+    const result = await assessSubmission({
+      submissionContent: 'A short essay on binary search trees.',
+      submissionType: 'TEXT',
+      questionTitle: 'Binary search trees',
+      questionDescription: 'Explain how insertion works.',
+      criteria: ['Explains insertion'],
+      redFlags: [],
+      conditionalChecks: [],
+    });
+
+    expect(result.confidence).toBe(0.3);
+    expect(manualReviewReason(result, aiOnly)).toBe('Escalated: AI confidence 30% is below the 50% threshold');
+  });
+});
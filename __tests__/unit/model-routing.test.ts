@@ -0,0 +1,107 @@
+/**
+ * Unit tests for choosing the provider and model that grade a submission: stored rules by
+ * scope and priority, the course provider, and the built-in table.
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import type { RoutingContext, RoutingRule } from '@/lib/services/model-routing-service';
+
+const findMany = jest.fn<() => Promise<RoutingRule[]>>();
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: { modelRoutingRule: { findMany: () => findMany() } },
+}));
+
+const context: RoutingContext = {
+  submissionType: 'DOCUMENT',
+  contentLength: 2000,
+  hasBaseExample: false,
+  courseId: 'course-1',
+  questionId: 'question-1',
+};
+
+const rule = (name: string, overrides: Partial<RoutingRule> = {}): RoutingRule => ({
+  id: name,
+  name,
+  provider: 'openai',
+  model: 'gpt-4o-mini',
+  priority: 0,
+  ...overrides,
+});
+
+const GLOBAL = rule('Global', { provider: 'anthropic', model: 'claude-3-5-haiku-latest', priority: 90 });
+const COURSE = rule('Course', { courseId: 'course-1', priority: 10 });
+const QUESTION = rule('Question', { questionId: 'question-1', model: 'gpt-4o' });
+
+describe('matchRoutingRule', () => {
+  it('prefers question rules, then course rules, then global rules, whatever their priority', async () => {
+    const { matchRoutingRule } = await import('@/lib/services/model-routing-service');
+
+    expect(matchRoutingRule([GLOBAL, COURSE, QUESTION], context)?.name).toBe('Question');
+    expect(matchRoutingRule([GLOBAL, COURSE], context)?.name).toBe('Course');
+    expect(matchRoutingRule([GLOBAL], context)?.name).toBe('Global');
+  });
+
+  it('breaks ties within a scope by priority and skips rules whose conditions fail', async () => {
+    const { matchRoutingRule } = await import('@/lib/services/model-routing-service');
+    const rules = [
+      rule('Documents', { courseId: 'course-1', submissionType: 'DOCUMENT', priority: 20 }),
+      rule('Long', { courseId: 'course-1', minContentLength: 5001, priority: 50 }),
+      rule('Fallback', { courseId: 'course-1', priority: 5 }),
+      rule('Other course', { courseId: 'course-2', priority: 100 }),
+    ];
+
+    expect(matchRoutingRule(rules, context)?.name).toBe('Documents');
+    expect(matchRoutingRule(rules, { ...context, contentLength: 8000 })?.name).toBe('Long');
+    expect(matchRoutingRule(rules, { ...context, submissionType: 'TEXT' })?.name).toBe('Fallback');
+    expect(matchRoutingRule(rules, { ...context, courseId: 'course-3' })).toBeNull();
+  });
+});
+
+describe('resolveModelRoute', () => {
+  beforeEach(() => {
+    findMany.mockReset();
+  });
+
+  it('uses a global rule when the course has no provider of its own', async () => {
+    const { resolveModelRoute } = await import('@/lib/services/model-routing-service');
+    findMany.mockResolvedValue([GLOBAL]);
+
+    expect(await resolveModelRoute(context)).toEqual({ provider: 'anthropic', model: 'claude-3-5-haiku-latest', ruleId: 'Global', ruleName: 'Global' });
+  });
+
+  it('keeps the course provider over global rules for other providers', async () => {
+    const { resolveModelRoute } = await import('@/lib/services/model-routing-service');
+    findMany.mockResolvedValue([GLOBAL]);
+
+    expect(await resolveModelRoute({ ...context, provider: 'mock' })).toEqual({ provider: 'mock', model: 'mock-assessor', ruleName: 'Documents' });
+  });
+
+  it('applies global rules for the course provider, and course and question rules for any provider', async () => {
+    const { resolveModelRoute } = await import('@/lib/services/model-routing-service');
+    const sameProvider = rule('Global mock', { provider: 'mock', model: 'mock-assessor' });
+
+    findMany.mockResolvedValue([GLOBAL, sameProvider]);
+    expect((await resolveModelRoute({ ...context, provider: 'mock' })).ruleName).toBe('Global mock');
+
+    findMany.mockResolvedValue([GLOBAL, COURSE, QUESTION]);
+    expect(await resolveModelRoute({ ...context, provider: 'mock' })).toMatchObject({ provider: 'openai', model: 'gpt-4o', ruleName: 'Question' });
+    expect((await resolveModelRoute({ ...context, questionId: undefined, provider: 'mock' })).ruleName).toBe('Course');
+  });
+
+  it('skips stored rules entirely when asked to route on the provider alone', async () => {
+    const { resolveModelRoute } = await import('@/lib/services/model-routing-service');
+    findMany.mockResolvedValue([GLOBAL, COURSE, QUESTION]);
+
+    expect(await resolveModelRoute({ ...context, provider: 'mock', ignoreStoredRules: true })).toEqual({ provider: 'mock', model: 'mock-assessor', ruleName: 'Documents' });
+    expect(findMany).not.toHaveBeenCalled();
+  });
+
+  it('falls back to the built-in table when the rules cannot be loaded', async () => {
+    const { resolveModelRoute } = await import('@/lib/services/model-routing-service');
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    findMany.mockRejectedValue(new Error('No database in unit tests'));
+
+    expect(await resolveModelRoute({ ...context, provider: 'groq' })).toMatchObject({ provider: 'groq', ruleName: 'Documents' });
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Unit tests for winnowed fingerprints and the shared passages shown in the
+ * similarity review screen.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { findOverlappingPassages, fingerprint, repositoryContent } from '@/lib/services/plagiarism-service';
+
+// Share of the smaller fingerprint found in the other one, as compareSubmissionFingerprint scores pairs
+const overlap = (a: number[], b: number[]) => {
+  const other = new Set(b);
+  return a.filter(hash => other.has(hash)).length / Math.min(a.length, b.length);
+};
+
+const ESSAY = 'Caching stores the results of expensive operations so that repeated requests can be served ' +
+  'quickly from memory instead of recomputing them, which reduces latency and the load on the database.';
+
+describe('fingerprint', () => {
+  it('is the same for the same text, ignoring case and punctuation', () => {
+    expect(fingerprint(ESSAY, 'TEXT')).toEqual(fingerprint(ESSAY.toUpperCase().replace(/,/g, ';'), 'TEXT'));
+  });
+
+  it('scores copied text high and unrelated text low', () => {
+    const copied = `In my view, ${ESSAY} That is why we added a cache.`;
+    const unrelated = 'Watercolour painting relies on transparent layers of pigment, so artists plan the lightest ' +
+      'areas first and build up darker tones gradually while the paper is still damp.';
+
+    expect(overlap(fingerprint(ESSAY, 'TEXT'), fingerprint(copied, 'TEXT'))).toBeGreaterThan(0.9);
+    expect(overlap(fingerprint(ESSAY, 'TEXT'), fingerprint(unrelated, 'TEXT'))).toBe(0);
+  });
+
+  it('sees through renamed variables, literals and comments in code', () => {
+    const original = `function total(items) {
+  let sum = 0;
+  for (const item of items) { sum += item.price * 2; }
+  return sum;
+}`;
+    const renamed = `// Adds up the basket
+function basketTotal(products) {
+  let result = 0; /* running total */
+  for (const product of products) { result += product.cost * 3; }
+  return result;
+}`;
+
+    expect(fingerprint(renamed, 'CODE')).toEqual(fingerprint(original, 'CODE'));
+  });
+});
+
+describe('repositoryContent', () => {
+  it('keeps only code files, each under a header', () => {
+    const content = repositoryContent([
+      { path: 'src/index.ts', content: 'export const a = 1', size: 18, type: 'file' },
+      { path: 'README.md', content: '# Readme', size: 8, type: 'file' },
+    ]);
+
+    expect(content).toBe('// ==== src/index.ts ====\nexport const a = 1');
+  });
+});
+
+describe('findOverlappingPassages', () => {
+  it('returns the shared passage as character ranges in both texts', () => {
+    const prefix = 'Introduction to my answer. ';
+    const passages = findOverlappingPassages(`${prefix}${ESSAY}`, `${ESSAY} The end.`, 'TEXT');
+
+    expect(passages).toHaveLength(1);
+    expect(passages[0].a).toEqual({ start: prefix.length, end: prefix.length + ESSAY.length - 1 });
+    expect(passages[0].b).toEqual({ start: 0, end: ESSAY.length - 1 });
+  });
+
+  it('finds nothing in unrelated texts', () => {
+    expect(findOverlappingPassages(ESSAY, 'Completely different words about gardening and spring flowers here.', 'TEXT')).toEqual([]);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Unit tests for the prompt template syntax: how templates render, and that
+ * validation only accepts templates that render cleanly.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  DEFAULT_PROMPT_TEMPLATES,
+  renderPromptTemplate,
+  validatePromptTemplate,
+  type PromptVariables,
+} from '@/lib/services/prompt-template-service';
+
+const render = (body: string, variables: Partial<PromptVariables> = {}) => renderPromptTemplate(body, variables);
+
+// Every tag left behind after rendering with all variables set, and with none
+const leftoverTags = (body: string) => {
+  const filled = render(body, { questionTitle: 'T', baseExampleContent: 'B', submissionDetails: 'D', submissionContent: 'S' });
+  return [...`${filled}${render(body)}`.matchAll(/\{\{[^}]*\}\}/g)].map(match => match[0]);
+};
+
+describe('renderPromptTemplate', () => {
+  it('fills in variables and leaves unknown or missing ones empty', () => {
+    expect(render('Title: {{questionTitle}}; {{notAVariable}}; {{baseExampleContent}}.', { questionTitle: 'Essay' })).toBe('Title: Essay; ; .');
+  });
+
+  it('renders {{#var}} blocks only for non-empty values and {{^var}} blocks only for empty ones', () => {
+    const body = '{{#baseExampleContent}}Compare with: {{baseExampleContent}}{{/baseExampleContent}}{{^baseExampleContent}}No example.{{/baseExampleContent}}';
+
+    expect(render(body, { baseExampleContent: 'the model answer' })).toBe('Compare with: the model answer');
+    expect(render(body, { baseExampleContent: '  ' })).toBe('No example.');
+    expect(render(body)).toBe('No example.');
+  });
+
+  it('drops lines that hold only a block tag', () => {
+    const body = 'Start\n{{#submissionDetails}}\nDetails: {{submissionDetails}}\n{{/submissionDetails}}\nEnd';
+
+    expect(render(body, { submissionDetails: '3 pages' })).toBe('Start\nDetails: 3 pages\nEnd');
+    expect(render(body)).toBe('Start\nEnd');
+  });
+
+  it('resolves nested blocks, including blocks nested in one for the same variable', () => {
+    expect(render('{{#questionTitle}}A{{^baseExampleContent}}B{{/baseExampleContent}}C{{/questionTitle}}', { questionTitle: 'x' })).toBe('ABC');
+    expect(render('{{#questionTitle}}A{{#questionTitle}}B{{/questionTitle}}C{{/questionTitle}}', { questionTitle: 'x' })).toBe('ABC');
+    expect(render('{{#questionTitle}}A{{#questionTitle}}B{{/questionTitle}}C{{/questionTitle}}D')).toBe('D');
+  });
+
+  it('leaves an unclosed block as written', () => {
+    expect(render('{{#questionTitle}}A', { questionTitle: 'x' })).toBe('{{#questionTitle}}A');
+  });
+});
+
+describe('validatePromptTemplate', () => {
+  it('accepts every built-in template', () => {
+    for (const template of Object.values(DEFAULT_PROMPT_TEMPLATES)) {
+      expect(validatePromptTemplate(template.body)).toEqual([]);
+    }
+  });
+
+  it('rejects empty templates and templates without the submission', () => {
+    expect(validatePromptTemplate('  ')).toEqual(['Template body is empty']);
+    expect(validatePromptTemplate('Grade {{questionTitle}}')).toEqual(['Template must include {{submissionContent}} so the model sees the submission']);
+  });
+
+  it('names unknown variables, including those on block tags', () => {
+    expect(validatePromptTemplate('{{submissionContent}} {{studentName}} {{#rubric}}x{{/rubric}} {{}}')).toEqual(['Unknown variable(s): studentName, rubric, (empty)']);
+  });
+
+  it('rejects tags it cannot read', () => {
+    expect(validatePromptTemplate('{{submissionContent}} {{ questionTitle }} {{question-title}}')).toEqual(['Malformed tag(s): {{ questionTitle }}, {{question-title}}']);
+  });
+
+  it('reports unclosed, stray and crossed block tags', () => {
+    expect(validatePromptTemplate('{{submissionContent}} {{#questionTitle}}A')).toEqual(['Unbalanced block tag(s): {{#questionTitle}}']);
+    expect(validatePromptTemplate('{{submissionContent}} A{{/questionTitle}}')).toEqual(['Unbalanced block tag(s): {{/questionTitle}}']);
+    expect(validatePromptTemplate('{{submissionContent}} {{#questionTitle}}{{^submissionDetails}}{{/questionTitle}}{{/submissionDetails}}')).toEqual([
+      'Unbalanced block tag(s): {{#questionTitle}}, {{^submissionDetails}}, {{/questionTitle}}, {{/submissionDetails}}',
+    ]);
+  });
+
+  it('accepts only templates that render without leftover tags', () => {
+    const bodies = [
+      '{{submissionContent}} {{#questionTitle}}A{{#questionTitle}}B{{/questionTitle}}C{{/questionTitle}}',
+      '{{submissionContent}}\n{{#baseExampleContent}}\n{{^submissionDetails}}\nB\n{{/submissionDetails}}\n{{/baseExampleContent}}',
+      '{{submissionContent}} {{#questionTitle}}A{{^questionTitle}}B{{/questionTitle}}C{{/questionTitle}}',
+      '{{submissionContent}} {{#questionTitle}}{{^submissionDetails}}{{/questionTitle}}{{/submissionDetails}}',
+      '{{submissionContent}} {{#questionTitle}}A',
+      '{{submissionContent}} {{ questionTitle }}',
+    ];
+
+    for (const body of bodies) {
+      expect({ body, valid: validatePromptTemplate(body).length === 0 }).toEqual({ body, valid: leftoverTags(body).length === 0 });
+    }
+  });
+});
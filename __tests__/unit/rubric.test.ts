@@ -0,0 +1,112 @@
+/**
+ * Unit tests for rubric validation and scoring: the editor/action schema, the
+ * legacy-array conversion, and how model scores are checked against the rubric.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { rubricSchema } from '@/lib/services/rubric-service';
+import { validateCriterionScores } from '@/lib/services/llm-service';
+import {
+  createCriterion,
+  remarkFromPercentage,
+  rubricFromLegacyArrays,
+  rubricMaxPoints,
+} from '@/lib/types/rubric';
+
+describe('rubricSchema', () => {
+  it('accepts criteria with every level exactly once', () => {
+    const result = rubricSchema.safeParse(rubricFromLegacyArrays(['Clear argument'], ['Plagiarism'], ['Extra research']));
+
+    expect(result.success).toBe(true);
+  });
+
+  it('rejects a criterion missing a level', () => {
+    const criterion = createCriterion('Clear argument');
+    criterion.levels = criterion.levels.filter(level => level.label !== 'Good');
+
+    const result = rubricSchema.safeParse([criterion]);
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues.map(issue => issue.message)).toEqual(['"Clear argument" is missing level(s): Good']);
+  });
+
+  it('rejects a criterion repeating a level', () => {
+    const criterion = createCriterion('Clear argument');
+    criterion.levels[1] = { ...criterion.levels[1], label: 'Excellent' };
+
+    const result = rubricSchema.safeParse([criterion]);
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues.map(issue => issue.message)).toEqual([
+      '"Clear argument" repeats level(s): Excellent',
+      '"Clear argument" is missing level(s): Good',
+    ]);
+  });
+
+  it('rejects a criterion with no levels', () => {
+    const result = rubricSchema.safeParse([{ ...createCriterion('Clear argument'), levels: [] }]);
+
+    expect(result.success).toBe(false);
+  });
+
+  it('rejects level points above the criterion maximum', () => {
+    const criterion = createCriterion('Clear argument', 10);
+    criterion.levels[0] = { ...criterion.levels[0], points: 12 };
+
+    const result = rubricSchema.safeParse([criterion]);
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].message).toBe('Level points cannot exceed the criterion maximum');
+  });
+});
+
+describe('rubric helpers', () => {
+  it('builds criteria, red flags and bonuses from legacy arrays', () => {
+    const rubric = rubricFromLegacyArrays([' Clear argument ', ''], ['Plagiarism'], ['Extra research']);
+
+    expect(rubric.map(c => [c.kind, c.title])).toEqual([
+      ['CRITERION', 'Clear argument'],
+      ['RED_FLAG', 'Plagiarism'],
+      ['BONUS', 'Extra research'],
+    ]);
+    expect(rubricMaxPoints(rubric)).toBe(10);
+  });
+
+  it('maps percentages to remarks', () => {
+    expect(remarkFromPercentage(90)).toBe('Excellent');
+    expect(remarkFromPercentage(70)).toBe('Good');
+    expect(remarkFromPercentage(50)).toBe('Can Improve');
+    expect(remarkFromPercentage(10)).toBe('Needs Improvement');
+  });
+});
+
+describe('validateCriterionScores', () => {
+  const rubric = rubricFromLegacyArrays(['Clear argument'], ['Plagiarism'], []);
+
+  it('takes points from the rubric level the model picked', () => {
+    const { scores, problems } = validateCriterionScores([
+      { index: 1, criterion: 'Clear argument', level: 'Good', points: 99 },
+      { index: 2, criterion: 'Plagiarism', status: 'met' },
+    ], rubric);
+
+    expect(problems).toEqual([]);
+    expect(scores.map(s => [s.status, s.points, s.max_points])).toEqual([
+      ['met', rubric[0].levels.find(l => l.label === 'Good')?.points, 10],
+      ['met', -5, 0],
+    ]);
+  });
+
+  it('reports unscored, duplicate and unknown items', () => {
+    const { problems } = validateCriterionScores([
+      { index: 1, criterion: 'Clear argument', level: 'Good' },
+      { index: 1, criterion: 'Clear argument', level: 'Excellent' },
+      { criterion: 'Uses diagrams', level: 'Good' },
+    ], rubric);
+
+    expect(problems).toEqual([
+      'Rubric item 1 ("Clear argument") was scored more than once',
+      '"Uses diagrams" is not in the rubric',
+      'Rubric item 2 ("Plagiarism") was not scored',
+    ]);
+  });
+});
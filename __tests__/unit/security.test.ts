@@ -0,0 +1,177 @@
+/**
+ * Unit tests for grading the security posture of a website submission, and for the
+ * probes that read it from a site (against a local server).
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { analyzeSecurity, findMixedContent, formatSecurityReport, type SecurityProbe } from '@/lib/services/security-service';
+import { createRequestPool, websiteService } from '@/lib/services/website-service';
+import { parseHtml } from '@/lib/utils/html';
+
+const NOW = new Date('2026-03-01T00:00:00Z');
+
+const HARDENED: SecurityProbe = {
+  url: 'https://shop.example.com/',
+  headers: {
+    'content-security-policy': "default-src 'self'; frame-ancestors 'none'",
+    'strict-transport-security': 'max-age=31536000; includeSubDomains',
+    'referrer-policy': 'strict-origin-when-cross-origin',
+    'x-content-type-options': 'nosniff',
+  },
+  cookies: ['sessionid=abc; Secure; HttpOnly; SameSite=Lax'],
+  tls: { protocol: 'TLSv1.3', authorized: true, issuer: "Let's Encrypt", validTo: '2026-09-01T00:00:00.000Z' },
+  httpRedirect: 'https',
+  mixedContent: [],
+  sourceMaps: [],
+  gitExposed: null,
+};
+
+const probe = (overrides: Partial<SecurityProbe>, headers: Record<string, string | undefined> = {}): SecurityProbe => ({
+  ...HARDENED,
+  ...overrides,
+  headers: Object.fromEntries(Object.entries({ ...HARDENED.headers, ...headers }).filter((entry): entry is [string, string] => entry[1] !== undefined)),
+});
+
+const finding = (report: ReturnType<typeof analyzeSecurity>, check: string) => report.findings.find(f => f.check === check);
+
+describe('analyzeSecurity', () => {
+  it('gives a hardened HTTPS site full marks', () => {
+    const report = analyzeSecurity(HARDENED, NOW);
+
+    expect(report).toMatchObject({ https: true, score: 100, grade: 'A' });
+    expect(report.findings.every(f => f.status === 'pass')).toBe(true);
+    expect(finding(report, 'tls-certificate')?.detail).toBe("Trusted, issued by Let's Encrypt, 184 days left");
+  });
+
+  it('takes each failure at its severity and each warning at half', () => {
+    expect(analyzeSecurity(probe({}, { 'referrer-policy': undefined }), NOW).score).toBe(98); // low warning: 2.5, rounded
+    expect(analyzeSecurity(probe({ sourceMaps: ['https://shop.example.com/app.js.map'] }, { 'x-content-type-options': undefined }), NOW)).toMatchObject({ score: 85, grade: 'B' });
+    expect(analyzeSecurity(probe({ httpRedirect: 'none' }, { 'x-content-type-options': undefined, 'strict-transport-security': undefined }), NOW)).toMatchObject({ score: 75, grade: 'C' });
+    expect(analyzeSecurity(probe({ tls: { ...HARDENED.tls!, protocol: 'TLSv1' } }, { 'x-content-type-options': undefined, 'referrer-policy': 'unsafe-url' }), NOW)).toMatchObject({ score: 70, grade: 'C' });
+    expect(analyzeSecurity(probe({}, { 'content-security-policy': undefined, 'x-content-type-options': undefined, 'referrer-policy': undefined, 'strict-transport-security': 'max-age=600' }), NOW)).toMatchObject({ score: 68, grade: 'D' });
+  });
+
+  it('fails any critical finding outright', () => {
+    const exposed = analyzeSecurity(probe({ gitExposed: 'https://shop.example.com/.git/HEAD' }), NOW);
+    const untrusted = analyzeSecurity(probe({ tls: { ...HARDENED.tls!, authorized: false, authorizationError: 'CERT_HAS_EXPIRED' } }), NOW);
+
+    expect(exposed.grade).toBe('F');
+    expect(untrusted.grade).toBe('F');
+    expect(finding(untrusted, 'tls-certificate')?.detail).toBe('Certificate is not trusted: CERT_HAS_EXPIRED');
+  });
+
+  it('grades a bare HTTP site without the HTTPS-only checks', () => {
+    const report = analyzeSecurity({
+      url: 'http://shop.example.com/',
+      headers: { server: 'nginx/1.18.0' },
+      cookies: ['sessionid=abc'],
+      tls: null,
+      httpRedirect: null,
+      mixedContent: [],
+      sourceMaps: [],
+      gitExposed: null,
+    }, NOW);
+
+    expect(report).toMatchObject({ https: false, score: 30, grade: 'F' });
+    expect(report.findings.map(f => f.check)).not.toEqual(expect.arrayContaining(['tls', 'strict-transport-security', 'mixed-content']));
+    expect(finding(report, 'cookie-flags')).toMatchObject({ status: 'fail', detail: 'Missing HttpOnly, SameSite on what looks like a session cookie' });
+    expect(finding(report, 'version-disclosure')?.status).toBe('warn');
+  });
+
+  it('tells weak script policies and expiring certificates apart from failures', () => {
+    const report = analyzeSecurity(probe({ tls: { ...HARDENED.tls!, validTo: '2026-03-06T00:00:00.000Z' } }, {
+      'content-security-policy': "script-src 'self' 'unsafe-inline' 'unsafe-eval'",
+      'x-frame-options': 'DENY',
+    }), NOW);
+
+    expect(finding(report, 'content-security-policy')).toMatchObject({ status: 'warn', detail: "Script policy is weak: 'unsafe-inline' allows injected inline scripts; 'unsafe-eval' allows eval()" });
+    expect(finding(report, 'tls-certificate')).toMatchObject({ status: 'warn', severity: 'medium', detail: 'Certificate expires in 5 day(s)' });
+    expect(finding(report, 'x-frame-options')?.status).toBe('pass');
+    expect(analyzeSecurity(probe({}, { 'content-security-policy': "script-src 'nonce-abc' 'unsafe-inline'; frame-ancestors 'self'" }), NOW).grade).toBe('A');
+  });
+
+  it('fails active mixed content and warns about passive', () => {
+    const active = analyzeSecurity(probe({ mixedContent: [{ url: 'http://cdn.example.com/app.js', kind: 'active', element: 'script' }] }), NOW);
+    const passive = analyzeSecurity(probe({ mixedContent: [{ url: 'http://cdn.example.com/logo.png', kind: 'passive', element: 'img' }] }), NOW);
+
+    expect(finding(active, 'mixed-content')).toMatchObject({ status: 'fail', severity: 'high' });
+    expect(finding(passive, 'mixed-content')).toMatchObject({ status: 'warn', severity: 'low' });
+  });
+});
+
+describe('findMixedContent', () => {
+  it('finds plain-HTTP resources on HTTPS pages only', () => {
+    const document = parseHtml(`<html><head><link rel="stylesheet" href="http://cdn.example.com/site.css"></head>
+      <body><img src="http://cdn.example.com/logo.png"><img src="/local.png"><form action="http://api.example.com/login"></form></body></html>`);
+
+    expect(findMixedContent(document, 'https://shop.example.com/')).toEqual([
+      { url: 'http://cdn.example.com/site.css', kind: 'active', element: 'link' },
+      { url: 'http://cdn.example.com/logo.png', kind: 'passive', element: 'img' },
+      { url: 'http://api.example.com/login', kind: 'active', element: 'form action' },
+    ]);
+    expect(findMixedContent(document, 'http://shop.example.com/')).toEqual([]);
+  });
+});
+
+describe('formatSecurityReport', () => {
+  it('lists the grade, TLS details and advice for failed checks', () => {
+    const text = formatSecurityReport(analyzeSecurity(probe({}, { 'x-content-type-options': undefined }), NOW));
+
+    expect(text).toContain('Grade: A (95/100)');
+    expect(text).toContain("TLS: TLSv1.3, certificate from Let's Encrypt, valid until 2026-09-01");
+    expect(text).toContain('- ❌ [low] X-Content-Type-Options: Missing nosniff, so browsers may guess content types\n  → Send X-Content-Type-Options: nosniff');
+  });
+});
+
+describe('checkSecurity against a site', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const INDEX = '<html><head><script src="/app.js"></script><script src="/vendor.js"></script></head><body>Shop</body></html>';
+    server = createServer((request, response) => {
+      const send = (type: string, body: string) => {
+        response.writeHead(200, { 'Content-Type': type });
+        response.end(body);
+      };
+      if (request.url === '/app.js') return send('text/javascript', `${'console.log(1);\n'.repeat(20000)}//# sourceMappingURL=maps/app.js.map\n`);
+      if (request.url === '/maps/app.js.map') return send('application/json', '{"version":3,"sources":["app.ts"],"mappings":"AAAA"}');
+      if (request.url === '/vendor.js') return send('text/javascript', 'console.log(2);');
+      if (request.url === '/endless') {
+        // Streams HTML until the client goes away
+        response.writeHead(200, { 'Content-Type': 'text/html' });
+        const write = () => {
+          if (response.destroyed) return;
+          if (response.write(`<p>${'x'.repeat(65536)}</p>`)) setImmediate(write);
+          else response.once('drain', write);
+        };
+        return write();
+      }
+      // Like a single-page app host: every other path gets the index page
+      send('text/html', INDEX);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+
+  it('finds a map named at the end of a script, and not the index page served for a guessed one', async () => {
+    const report = await websiteService.checkSecurity(`${baseUrl}/`, null, createRequestPool(5000));
+
+    expect(report?.findings.find(f => f.check === 'source-maps')?.detail).toBe(`1 source map(s) are public: ${baseUrl}/maps/app.js.map`);
+  });
+
+  it('reads no more of a page than it keeps', async () => {
+    const pool = createRequestPool(5000);
+    const report = await websiteService.checkSecurity(`${baseUrl}/endless`, null, pool);
+
+    expect(report).not.toBeNull();
+    expect(pool.expired()).toBe(false);
+  });
+});
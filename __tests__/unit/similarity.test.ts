@@ -0,0 +1,73 @@
+/**
+ * Unit tests for the section-aligned exemplar comparison, in particular the
+ * TF-IDF fallback used when no embeddings are available.
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { getLLMProvider } from '@/lib/services/llm-providers';
+import { compareWithExemplar, formatExemplarComparison, splitIntoSections } from '@/lib/services/similarity-service';
+
+const EXEMPLAR = `# Introduction
+Caching stores responses so repeated requests are served quickly from memory.
+
+# Methodology
+We benchmarked throughput with and without Redis under synthetic load.
+
+# Conclusion
+The cache reduced median latency and database load considerably.
+`;
+
+const SUBMISSION = `# Introduction
+Caching keeps responses in memory so repeated requests are served quickly.
+
+# Conclusion
+Median latency dropped once the cache was added.
+
+# Personal Reflection
+I enjoyed working on this project with my team.
+`;
+
+describe('splitIntoSections', () => {
+  it('splits at headings', () => {
+    expect(splitIntoSections(EXEMPLAR).map(section => section.title)).toEqual(['Introduction', 'Methodology', 'Conclusion']);
+  });
+
+  it('cuts text without headings into parts', () => {
+    const text = Array.from({ length: 200 }, (_, i) => `word${i}`).join(' ');
+
+    expect(splitIntoSections(text).map(section => section.title)).toEqual(['Part 1', 'Part 2']);
+  });
+});
+
+describe('compareWithExemplar with the TF-IDF fallback', () => {
+  it('is used when the provider has no embeddings API', async () => {
+    const comparison = await compareWithExemplar(SUBMISSION, EXEMPLAR, { provider: 'groq' });
+
+    expect(comparison?.method).toBe('tfidf');
+    expect(comparison?.model).toBeNull();
+    expect(comparison?.alignments.map(a => [a.exemplarSection, a.submissionSection, a.coverage])).toEqual([
+      ['Introduction', 'Introduction', 'covered'],
+      ['Methodology', null, 'missing'],
+      ['Conclusion', 'Conclusion', 'covered'],
+    ]);
+    expect(comparison?.alignments[1].missingTerms).toEqual(expect.arrayContaining(['benchmarked', 'throughput', 'synthetic']));
+    expect(comparison?.extraSections).toEqual(['Personal Reflection']);
+    expect(formatExemplarComparison(comparison!)).toContain('TF-IDF word weighting');
+  });
+
+  it('is used when the embeddings call fails', async () => {
+    const provider = getLLMProvider('mock');
+    const embed = jest.spyOn(provider, 'embed').mockRejectedValue(new Error('rate limited'));
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const comparison = await compareWithExemplar(SUBMISSION, EXEMPLAR, { provider: 'mock' });
+
+    expect(embed).toHaveBeenCalled();
+    expect(comparison?.method).toBe('tfidf');
+    embed.mockRestore();
+  });
+
+  it('returns null when there is nothing to compare', async () => {
+    expect(await compareWithExemplar('', EXEMPLAR, { provider: 'groq' })).toBeNull();
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Unit tests for the offline static analysis of fetched repository files.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import type { GitHubFile } from '@/lib/services/github-service';
+import { analyzeRepository, formatStaticAnalysis } from '@/lib/services/static-analysis-service';
+
+const file = (path: string, content: string): GitHubFile => ({ path, content, size: content.length, type: 'file' });
+
+const SERVER = `const express = require('express')
+const app = express()
+
+function price(order) {
+  if (order.items.length == 0) return 0
+  let total = 0
+  for (const item of order.items) {
+    if (item.discount && item.discount > 0) total += item.price * (1 - item.discount)
+    else total += item.price
+  }
+  // TODO: shipping
+  return order.express ? total + 10 : total
+}
+
+app.get('/price', (req, res) => {
+  try {
+    res.json({ total: price(req.body) })
+  } catch (error) {}
+})
+
+app.listen(3000)
+`;
+
+describe('analyzeRepository', () => {
+  const report = analyzeRepository([
+    file('server.js', SERVER),
+    file('server.test.js', `test('prices an empty order', () => { expect(1).toBe(1) })\n`),
+    file('package.json', JSON.stringify({
+      dependencies: { express: '^4.18.0', lodash: '*' },
+      devDependencies: { jest: '^29.0.0' },
+      scripts: { test: 'echo "Error: no test specified" && exit 1' },
+    })),
+    file('config.js', `module.exports = new OpenAI("sk-proj-abcdefghijklmnopqrstuvwxyz123456")\n`),
+  ], ['server.js', 'server.test.js', 'package.json', 'config.js', '.env'], 'express-api');
+
+  it('reports lint findings, most severe first', () => {
+    const rules = report.findings.map(finding => finding.rule);
+
+    expect(rules).toEqual(expect.arrayContaining(['empty-catch', 'eqeqeq', 'todo', 'hardcoded-port', 'gitignore', 'lockfile']));
+    expect(report.findings[0].severity).toBe('warning');
+    expect(report.findings.find(finding => finding.rule === 'empty-catch')).toMatchObject({ file: 'server.js', line: 18 });
+  });
+
+  it('measures function complexity', () => {
+    expect(report.functions.mostComplex[0]).toMatchObject({ file: 'server.js', name: 'price', line: 4 });
+    expect(report.functions.mostComplex[0].complexity).toBeGreaterThanOrEqual(6);
+  });
+
+  it('reads dependency manifests and test evidence', () => {
+    expect(report.dependencies).toEqual([{
+      file: 'package.json',
+      ecosystem: 'npm',
+      dependencies: [
+        { name: 'express', version: '^4.18.0', dev: false },
+        { name: 'lodash', version: '*', dev: false },
+        { name: 'jest', version: '^29.0.0', dev: true },
+      ],
+      issues: ['Unbounded versions: lodash', 'No test script'],
+    }]);
+    expect(report.tests).toEqual({ testFiles: 1, testCases: 1, frameworks: ['Jest'] });
+  });
+
+  it('finds committed secrets without storing them', () => {
+    expect(report.secrets.map(secret => secret.kind)).toEqual(['OpenAI/Anthropic API key', 'Committed env file']);
+    expect(report.secrets[0].preview).not.toContain('abcdefghijklmnop');
+    expect(formatStaticAnalysis(report)).toContain('Committed Secrets: 2 possible');
+  });
+
+  it('reports a package.json that is not a JSON object', () => {
+    const { dependencies } = analyzeRepository([file('package.json', '[]')], ['package.json'], 'unknown');
+
+    expect(dependencies[0].issues).toEqual(['Not a JSON object']);
+  });
+});
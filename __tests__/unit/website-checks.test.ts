@@ -0,0 +1,93 @@
+/**
+ * Unit tests for the scripted checks question authors write for website submissions.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { checkedPaths, runWebsiteChecks } from '@/lib/services/website-check-service';
+import type { CrawledPage, WebsiteCrawl } from '@/lib/services/website-service';
+
+const page = (path: string, html: string, overrides: Partial<CrawledPage> = {}): CrawledPage => ({
+  url: `https://example.com${path}`,
+  path,
+  depth: path === '/' ? 0 : 1,
+  status: 200,
+  contentType: 'text/html',
+  title: html.match(/<title>(.*)<\/title>/)?.[1],
+  loadTime: 20,
+  links: [],
+  html,
+  ...overrides,
+});
+
+const crawl = (pages: CrawledPage[], overrides: Partial<WebsiteCrawl> = {}): WebsiteCrawl => ({
+  startUrl: 'https://example.com/',
+  maxDepth: 1,
+  maxPages: 10,
+  pages,
+  brokenLinks: [],
+  uncheckedLinks: 0,
+  externalLinks: 0,
+  timedOut: false,
+  ...overrides,
+});
+
+const NAVIGATION = '<nav><a href="/">Home</a><a href="/about">About</a><a href="/contact">Contact</a></nav>';
+
+const SITE = crawl([
+  page('/', `<html><head><title>Bakery</title></head><body>${NAVIGATION}<h1>Fresh bread daily</h1></body></html>`),
+  page('/about', `<html><head><title>About</title></head><body>${NAVIGATION}<img src="a.jpg" alt="Shop"><img src="b.jpg" alt="Oven"></body></html>`),
+  page('/contact', `<html><head><title>Contact</title></head><body>${NAVIGATION}
+    <form><label for="email">Email</label><input id="email" type="email"><button>Send</button></form></body></html>`),
+]);
+
+const statusOf = (check: string, site: WebsiteCrawl = SITE) => runWebsiteChecks([check], site)[0];
+
+describe('runWebsiteChecks', () => {
+  it('finds elements on a named page', () => {
+    expect(statusOf('page /contact has a form with an email field')).toMatchObject({ status: 'passed', detail: '/contact found 1 form with email field' });
+    expect(statusOf('page /about has at least 3 images')).toMatchObject({ status: 'failed', detail: '/about has only 2 image (needs 3)' });
+  });
+
+  it('checks the navigation, the start page and every page', () => {
+    expect(statusOf('navigation contains About').status).toBe('passed');
+    expect(statusOf('navigation links to /menu').status).toBe('failed');
+    expect(statusOf('home page contains "fresh bread"').status).toBe('passed');
+    expect(statusOf('every page has a title').status).toBe('passed');
+    expect(statusOf('some page has a button "Send"')).toMatchObject({ status: 'passed', detail: '/contact: found 1 button "Send"' });
+  });
+
+  it('reports broken links and the page count', () => {
+    const broken = crawl(SITE.pages, { brokenLinks: [{ url: 'https://example.com/menu', status: 404, foundOn: ['/'] }] });
+
+    expect(statusOf('no broken links').status).toBe('passed');
+    expect(statusOf('no broken links', broken)).toMatchObject({ status: 'failed', detail: '1 broken link: https://example.com/menu (404)' });
+    expect(statusOf('the site has at least 4 pages').status).toBe('failed');
+  });
+
+  it('fails pages that did not load or were not reached', () => {
+    const withError = crawl([...SITE.pages, page('/menu', '', { status: 500, html: undefined })]);
+
+    expect(statusOf('page /menu exists', withError)).toMatchObject({ status: 'failed', detail: '/menu returned 500' });
+    expect(statusOf('page /gallery exists')).toMatchObject({ status: 'failed', detail: '/gallery was not reached by the crawl' });
+    expect(statusOf('page /gallery exists', crawl(SITE.pages, { timedOut: true })).detail).toBe('/gallery was not reached by the crawl before it ran out of time');
+  });
+
+  it('marks checks outside the syntax as unsupported and skips blank lines', () => {
+    const results = runWebsiteChecks(['', 'the design looks professional'], SITE);
+
+    expect(results).toHaveLength(1);
+    expect(results[0].status).toBe('unsupported');
+  });
+});
+
+describe('checkedPaths', () => {
+  it('lists each page named by a check once', () => {
+    expect(checkedPaths([
+      'page /contact has a form',
+      'page /contact/ has a button',
+      'page /Contact contains "email"',
+      'the page /menu has a table',
+      'every page has a title',
+    ])).toEqual(['/contact', '/menu']);
+  });
+});
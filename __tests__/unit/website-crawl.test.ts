@@ -0,0 +1,103 @@
+/**
+ * Unit tests for the request pool shared by the website stages, and the partial crawl it
+ * returns when time runs out. The crawl runs against a local server.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { createRequestPool, websiteService } from '@/lib/services/website-service';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('createRequestPool', () => {
+  it('runs at most the given number of tasks at once', async () => {
+    const pool = createRequestPool(5000, 2);
+    let active = 0;
+    let mostActive = 0;
+
+    const results = await Promise.all([1, 2, 3, 4, 5].map(n => pool.run(async () => {
+      mostActive = Math.max(mostActive, ++active);
+      await sleep(10);
+      active--;
+      return n * 2;
+    })));
+
+    expect(results).toEqual([2, 4, 6, 8, 10]);
+    expect(mostActive).toBe(2);
+  });
+
+  it('starts nothing once the time is up, including tasks already waiting', async () => {
+    const pool = createRequestPool(50, 1);
+    const started: number[] = [];
+
+    const results = await Promise.all([1, 2, 3].map(n => pool.run(async () => {
+      started.push(n);
+      await sleep(100);
+      return n;
+    })));
+
+    expect(pool.expired()).toBe(true);
+    expect(started).toEqual([1]);
+    expect(results).toEqual([1, null, null]);
+  });
+});
+
+describe('crawlWebsite with a time limit', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      const html = (body: string) => {
+        response.writeHead(200, { 'Content-Type': 'text/html' });
+        response.end(`<html><head><title>${request.url}</title></head><body>${body}</body></html>`);
+      };
+      if (request.url === '/') return html('<a href="/fast">Fast</a> <a href="/slow">Slow</a> <a href="/missing">Missing</a>');
+      if (request.url === '/fast') return html('<p>Quick</p>');
+      if (request.url === '/slow') return; // Never answers
+      if (request.url === '/endless') {
+        // Streams HTML until the client goes away
+        response.writeHead(200, { 'Content-Type': 'text/html' });
+        const write = () => {
+          if (response.destroyed) return;
+          if (response.write(`<p>${'x'.repeat(65536)}</p>`)) setImmediate(write);
+          else response.once('drain', write);
+        };
+        return write();
+      }
+      response.writeHead(404);
+      response.end();
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+
+  it('returns the pages fetched in time, without reporting the cut-off ones as broken', async () => {
+    const crawl = await websiteService.crawlWebsite(`${baseUrl}/`, { pool: createRequestPool(1000) });
+
+    expect(crawl.timedOut).toBe(true);
+    expect(crawl.pages.map(page => [page.path, page.status])).toEqual([['/', 200], ['/fast', 200], ['/missing', 404]]);
+    expect(crawl.brokenLinks.map(link => new URL(link.url).pathname)).toEqual(['/missing']);
+    expect(crawl.uncheckedLinks).toBe(1);
+  });
+
+  it('fetches each included path once', async () => {
+    const crawl = await websiteService.crawlWebsite(`${baseUrl}/fast`, { include: ['/extra', '/extra/', '/extra'] });
+
+    expect(crawl.timedOut).toBe(false);
+    expect(crawl.pages.map(page => [page.path, page.depth, page.status])).toEqual([['/fast', 0, 200], ['/extra', null, 404]]);
+  });
+
+  it('stops reading a page at the HTML length limit', async () => {
+    const crawl = await websiteService.crawlWebsite(`${baseUrl}/endless`, { maxDepth: 0, pool: createRequestPool(5000) });
+
+    expect(crawl.timedOut).toBe(false);
+    expect(crawl.pages[0].html).toHaveLength(500000);
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Unit tests for weighing a page without a browser: the start page and its assets are
+ * fetched from a local server, including one that never stops sending.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { websiteService } from '@/lib/services/website-service';
+
+const SCRIPT = 'console.log("hello");\n'.repeat(100);
+
+describe('measurePerformance from fetched resources', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      if (request.url === '/') {
+        response.writeHead(200, { 'Content-Type': 'text/html' });
+        response.end('<html><head><script src="/app.js"></script></head><body><img src="/endless.png"></body></html>');
+      } else if (request.url === '/app.js') {
+        response.writeHead(200, { 'Content-Type': 'text/javascript', 'Content-Length': Buffer.byteLength(SCRIPT) });
+        response.end(SCRIPT);
+      } else if (request.url === '/endless.png') {
+        // Chunked, so there is no Content-Length, and it never ends
+        response.writeHead(200, { 'Content-Type': 'image/png' });
+        const chunk = Buffer.alloc(64 * 1024);
+        const send = () => {
+          while (!response.destroyed && response.write(chunk));
+        };
+        response.on('drain', send);
+        send();
+      } else {
+        response.writeHead(404);
+        response.end();
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+
+  it('uses Content-Length when sent and stops counting an endless body at the cap', async () => {
+    const report = await websiteService.measurePerformance(`${baseUrl}/`, null);
+    const sizeOf = (path: string) => report!.largestAssets.find(resource => new URL(resource.url).pathname === path)?.transferSize;
+
+    expect(report?.source).toBe('fetched');
+    expect(report?.requestCount).toBe(3);
+    expect(sizeOf('/app.js')).toBe(Buffer.byteLength(SCRIPT));
+    expect(sizeOf('/endless.png')).toBe(5 * 1024 * 1024);
+  });
+});
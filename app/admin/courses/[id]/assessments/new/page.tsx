@@ -10,6 +10,7 @@ import { Label } from '@/components/ui/label'
 import { Input } from '@/components/ui/input'
 import { Textarea } from '@/components/ui/textarea'
 import RubricManager from '@/components/admin/RubricManager'
+import { rubricFromLegacyArrays, type RubricCriterionInput } from '@/lib/types/rubric'
 import Link from 'next/link'
 import { ArrowLeft, FileText, GitBranch, Globe, Image, FileIcon, Loader2, CheckCircle } from 'lucide-react'
 import { toast } from 'sonner'
@@ -34,11 +35,22 @@ export default function NewAssessmentPage({ params }: NewAssessmentPageProps) {
     submissionType: '',
     assessmentMode: 'AI_ONLY' as 'AI_ONLY' | 'MANUAL_ONLY' | 'BOTH',
     assessmentPrompt: '',
-    guidance: ''
+    guidance: '',
+    dueAt: '', // datetime-local value; empty means no deadline
+    crawlDepth: 1,
+    crawlMaxPages: 10,
+    websiteChecks: '', // One check per line
+    maxPageWeightKb: '', // Empty means not graded
+    maxRequests: '',
+    maxLoadTimeMs: '',
+    consensusRuns: 1,
+    consensusModels: '',
+    minConsensusAgreement: 70, // Percent
+    minConfidence: '' // Percent; empty disables escalation
   })
 
   // Rubric state
-  const [formCriteria, setFormCriteria] = useState<string[]>([])
+  const [formCriteria, setFormCriteria] = useState<RubricCriterionInput[]>([])
   const [formRedFlags, setFormRedFlags] = useState<string[]>([])
   const [formConditionalChecks, setFormConditionalChecks] = useState<string[]>([])
 
@@ -83,10 +95,22 @@ export default function NewAssessmentPage({ params }: NewAssessmentPageProps) {
         submissionType: formData.submissionType as any,
         assessmentMode: formData.assessmentMode,
         assessmentPrompt: formData.assessmentPrompt || undefined,
-        criteria: formCriteria,
+        criteria: formCriteria.map(criterion => criterion.title),
         redFlags: formRedFlags,
         conditionalChecks: formConditionalChecks,
-        guidance: formData.guidance || undefined
+        rubric: [...formCriteria, ...rubricFromLegacyArrays([], formRedFlags, formConditionalChecks)],
+        guidance: formData.guidance || undefined,
+        dueAt: formData.dueAt ? new Date(formData.dueAt) : null,
+        crawlDepth: formData.crawlDepth,
+        crawlMaxPages: formData.crawlMaxPages,
+        websiteChecks: formData.websiteChecks.split('\n').map(check => check.trim()).filter(Boolean),
+        maxPageWeightKb: formData.maxPageWeightKb === '' ? null : Number(formData.maxPageWeightKb),
+        maxRequests: formData.maxRequests === '' ? null : Number(formData.maxRequests),
+        maxLoadTimeMs: formData.maxLoadTimeMs === '' ? null : Number(formData.maxLoadTimeMs),
+        consensusRuns: formData.consensusRuns,
+        consensusModels: formData.consensusModels.split(',').map(model => model.trim()).filter(Boolean),
+        minConsensusAgreement: formData.minConsensusAgreement / 100,
+        minConfidence: formData.minConfidence === '' ? null : Number(formData.minConfidence) / 100
       })
 
       if (result.success) {
@@ -204,6 +228,113 @@ export default function NewAssessmentPage({ params }: NewAssessmentPageProps) {
                   </select>
                 </div>
 
+                <div className="space-y-2">
+                  <Label htmlFor="dueAt" className="text-base font-medium">
+                    Due Date
+                  </Label>
+                  <Input
+                    id="dueAt"
+                    type="datetime-local"
+                    value={formData.dueAt}
+                    onChange={(e) => setFormData(prev => ({ ...prev, dueAt: e.target.value }))}
+                  />
+                  <p className="text-sm text-gray-600">
+                    Optional. For GitHub submissions, commit history is compared with it to spot last-minute work.
+                  </p>
+                </div>
+
+                {formData.submissionType === 'WEBSITE' && (
+                  <div className="space-y-4 rounded-md border p-4">
+                    <div>
+                      <p className="text-base font-medium">Site Crawl</p>
+                      <p className="text-sm text-gray-600">
+                        Follow links on the student&apos;s site to find broken links and error pages, and run checks against the pages found.
+                      </p>
+                    </div>
+                    <div className="grid gap-4 md:grid-cols-2">
+                      <div className="space-y-2">
+                        <Label htmlFor="crawlDepth">Link depth</Label>
+                        <Input
+                          id="crawlDepth"
+                          type="number"
+                          min={0}
+                          max={3}
+                          value={formData.crawlDepth}
+                          onChange={(e) => setFormData(prev => ({ ...prev, crawlDepth: parseInt(e.target.value) || 0 }))}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="crawlMaxPages">Maximum pages</Label>
+                        <Input
+                          id="crawlMaxPages"
+                          type="number"
+                          min={1}
+                          max={30}
+                          value={formData.crawlMaxPages}
+                          onChange={(e) => setFormData(prev => ({ ...prev, crawlMaxPages: parseInt(e.target.value) || 1 }))}
+                        />
+                      </div>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="websiteChecks">Checks (optional)</Label>
+                      <Textarea
+                        id="websiteChecks"
+                        value={formData.websiteChecks}
+                        onChange={(e) => setFormData(prev => ({ ...prev, websiteChecks: e.target.value }))}
+                        rows={4}
+                        placeholder={'page /contact has a form with an email field\nnavigation contains About\nevery page has a title\nno broken links'}
+                        className="font-mono text-sm"
+                      />
+                      <p className="text-sm text-gray-600">
+                        One per line. Each check is reported as passed or failed in the assessment.
+                      </p>
+                    </div>
+                  </div>
+                )}
+
+                {formData.submissionType === 'WEBSITE' && (
+                  <div className="space-y-4 rounded-md border p-4">
+                    <div>
+                      <p className="text-base font-medium">Performance Budget</p>
+                      <p className="text-sm text-gray-600">
+                        Optional limits the site is graded against, e.g. a page weight of 2048 KB for &quot;loads under 2MB&quot;. Leave a field empty to report that metric without grading it.
+                      </p>
+                    </div>
+                    <div className="grid gap-4 md:grid-cols-3">
+                      <div className="space-y-2">
+                        <Label htmlFor="maxPageWeightKb">Page weight (KB)</Label>
+                        <Input
+                          id="maxPageWeightKb"
+                          type="number"
+                          min={1}
+                          value={formData.maxPageWeightKb}
+                          onChange={(e) => setFormData(prev => ({ ...prev, maxPageWeightKb: e.target.value }))}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="maxRequests">Requests</Label>
+                        <Input
+                          id="maxRequests"
+                          type="number"
+                          min={1}
+                          value={formData.maxRequests}
+                          onChange={(e) => setFormData(prev => ({ ...prev, maxRequests: e.target.value }))}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="maxLoadTimeMs">Load time (ms)</Label>
+                        <Input
+                          id="maxLoadTimeMs"
+                          type="number"
+                          min={1}
+                          value={formData.maxLoadTimeMs}
+                          onChange={(e) => setFormData(prev => ({ ...prev, maxLoadTimeMs: e.target.value }))}
+                        />
+                      </div>
+                    </div>
+                  </div>
+                )}
+
                 <div className="space-y-2">
                   <Label htmlFor="assessmentMode" className="text-base font-medium">
                     Assessment Mode *
@@ -225,6 +356,75 @@ export default function NewAssessmentPage({ params }: NewAssessmentPageProps) {
                   </p>
                 </div>
 
+                {formData.assessmentMode === 'AI_ONLY' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="minConfidence" className="text-base font-medium">
+                      Escalate Below Confidence (%)
+                    </Label>
+                    <Input
+                      id="minConfidence"
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={formData.minConfidence}
+                      onChange={(e) => setFormData(prev => ({ ...prev, minConfidence: e.target.value }))}
+                      placeholder="e.g., 60"
+                    />
+                    <p className="text-sm text-gray-600">
+                      AI results below this confidence, or that trigger a red flag, go to an instructor before the student sees them. Leave empty to turn escalation off.
+                    </p>
+                  </div>
+                )}
+
+                {formData.assessmentMode !== 'MANUAL_ONLY' && (
+                  <div className="space-y-4 rounded-md border p-4">
+                    <div>
+                      <p className="text-base font-medium">Consensus Grading</p>
+                      <p className="text-sm text-gray-600">
+                        Grade each submission with several independent AI runs. Submissions where the runs disagree are sent to manual review.
+                      </p>
+                    </div>
+                    <div className="grid gap-4 md:grid-cols-2">
+                      <div className="space-y-2">
+                        <Label htmlFor="consensusRuns">AI runs per submission</Label>
+                        <Input
+                          id="consensusRuns"
+                          type="number"
+                          min={1}
+                          max={5}
+                          value={formData.consensusRuns}
+                          onChange={(e) => setFormData(prev => ({ ...prev, consensusRuns: parseInt(e.target.value) || 1 }))}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="minConsensusAgreement">Minimum agreement (%)</Label>
+                        <Input
+                          id="minConsensusAgreement"
+                          type="number"
+                          min={0}
+                          max={100}
+                          value={formData.minConsensusAgreement}
+                          disabled={formData.consensusRuns < 2}
+                          onChange={(e) => setFormData(prev => ({ ...prev, minConsensusAgreement: parseInt(e.target.value) || 0 }))}
+                        />
+                      </div>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="consensusModels">Models (optional)</Label>
+                      <Input
+                        id="consensusModels"
+                        value={formData.consensusModels}
+                        disabled={formData.consensusRuns < 2}
+                        onChange={(e) => setFormData(prev => ({ ...prev, consensusModels: e.target.value }))}
+                        placeholder="e.g., groq:llama-3.3-70b-versatile, openai:gpt-4o-mini"
+                      />
+                      <p className="text-sm text-gray-600">
+                        Comma-separated, used in turn for each run. Leave empty to use the routed model for every run.
+                      </p>
+                    </div>
+                  </div>
+                )}
+
                 <div className="space-y-2">
                   <Label htmlFor="description" className="text-base font-medium">
                     Assessment Description *
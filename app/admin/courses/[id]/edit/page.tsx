@@ -1,6 +1,7 @@
 // app/admin/courses/[id]/edit/page.tsx
 import { redirect } from 'next/navigation'
 import { getCourse, updateCourse } from '@/lib/actions/course-actions'
+import { getAvailableLLMProviders } from '@/lib/services/llm-service'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Label } from '@/components/ui/label'
@@ -55,6 +56,8 @@ export default async function EditCoursePage({ params }: EditCoursePageProps) {
   }
 
   const course = courseResult.data
+  const llmProviders = getAvailableLLMProviders()
+  const defaultProvider = llmProviders.find(p => p.isDefault)
 
   return (
     <div className="space-y-6">
@@ -107,6 +110,26 @@ export default async function EditCoursePage({ params }: EditCoursePageProps) {
                   />
                 </div>
 
+                <div className="space-y-2">
+                  <Label htmlFor="llmProvider">AI Provider</Label>
+                  <select
+                    id="llmProvider"
+                    name="llmProvider"
+                    defaultValue={course.llmProvider || ''}
+                    className="w-full px-3 py-2 border border-input rounded-md text-sm"
+                  >
+                    <option value="">Deployment default ({defaultProvider?.name})</option>
+                    {llmProviders.map(provider => (
+                      <option key={provider.name} value={provider.name} disabled={!provider.configured}>
+                        {provider.name}{provider.configured ? '' : ' (not configured)'}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-sm text-muted-foreground">
+                    Which LLM provider grades AI assessments in this course
+                  </p>
+                </div>
+
                 <div className="flex items-center space-x-2">
                   <Checkbox 
                     id="isActive" 
@@ -9,10 +9,11 @@ import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
 import { Badge } from '@/components/ui/badge'
 import { Alert, AlertDescription } from '@/components/ui/alert'
-import { Loader2, ArrowLeft, User, Calendar, FileText, Send, CheckCircle, Github, Globe, Image as ImageIcon } from 'lucide-react'
+import { Loader2, ArrowLeft, User, Calendar, FileText, Send, CheckCircle, Github, Globe, Image as ImageIcon, AlertTriangle } from 'lucide-react'
 import Link from 'next/link'
 import { formatDistanceToNow, format } from 'date-fns'
 import { toast } from 'sonner'
+import { AssessmentRunsPanel } from '@/components/admin/AssessmentRunsPanel'
 
 interface SubmissionData {
   id: string
@@ -25,6 +26,8 @@ interface SubmissionData {
   manualFeedback: string | null
   manualScore: string | null
   manualGrade: number | null
+  needsManualReview: boolean
+  manualReviewReason: string | null
   user: {
     id: string
     name: string | null
@@ -192,6 +195,15 @@ export default function SubmissionReviewPage({ params }: PageProps) {
         )}
       </div>
 
+      {submission.needsManualReview && !isReviewed && (
+        <Alert className="border-amber-200 bg-amber-50">
+          <AlertTriangle className="h-4 w-4 text-amber-600" />
+          <AlertDescription className="text-amber-800">
+            {submission.manualReviewReason}
+          </AlertDescription>
+        </Alert>
+      )}
+
       <div className="grid gap-6 lg:grid-cols-3">
         {/* Main Content */}
         <div className="lg:col-span-2 space-y-6">
@@ -375,6 +387,9 @@ export default function SubmissionReviewPage({ params }: PageProps) {
               </div>
             </CardContent>
           </Card>
+
+          {/* LLM call audit trail */}
+          <AssessmentRunsPanel submissionId={submission.id} />
         </div>
 
         {/* Sidebar */}
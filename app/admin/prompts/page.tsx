@@ -0,0 +1,128 @@
+// app/admin/prompts/page.tsx
+import { prisma } from '@/lib/prisma'
+import { requireAdmin } from '@/lib/auth/utils'
+import { getPromptTemplates } from '@/lib/actions/prompt-template-actions'
+import { DEFAULT_PROMPT_TEMPLATES, PROMPT_VARIABLES } from '@/lib/services/prompt-template-service'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Plus, Edit } from 'lucide-react'
+import PromptTemplateDialog from '@/components/admin/PromptTemplateDialog'
+import { ActivatePromptTemplateButton, RestoreBuiltInPromptTemplateButton } from '@/components/admin/PromptTemplateActions'
+
+const SUBMISSION_TYPES = ['TEXT', 'DOCUMENT', 'GITHUB_REPO', 'SCREENSHOT', 'WEBSITE'] as const
+
+export default async function PromptsPage() {
+  const user = await requireAdmin()
+  const canEdit = user.role === 'SUPER_ADMIN'
+
+  const templatesResult = await getPromptTemplates()
+  const templates = templatesResult.data ?? []
+
+  const questions = await prisma.question.findMany({
+    where: user.role === 'SUPER_ADMIN' ? {} : { course: { creatorId: user.id } },
+    select: { id: true, title: true, submissionType: true, course: { select: { name: true } } },
+    orderBy: [{ course: { name: 'asc' } }, { questionNumber: 'asc' }]
+  })
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Prompt Templates</h1>
+        <p className="text-gray-600">
+          Versioned prompts the AI assessor uses for each kind of submission
+        </p>
+      </div>
+
+      {!templatesResult.success && (
+        <p className="text-red-600">Error: {templatesResult.error}</p>
+      )}
+
+      {SUBMISSION_TYPES.map(submissionType => {
+        const builtIn = DEFAULT_PROMPT_TEMPLATES[submissionType]
+        const versions = templates.filter(template => template.submissionType === submissionType)
+        const active = versions.find(template => template.isActive)
+        const previewQuestions = questions
+          .filter(question => question.submissionType === submissionType)
+          .map(question => ({ id: question.id, title: question.title, courseName: question.course.name }))
+
+        return (
+          <Card key={submissionType}>
+            <CardHeader>
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <CardTitle>{submissionType.replace('_', ' ')}</CardTitle>
+                  <CardDescription>
+                    In use:{' '}
+                    <span className="font-mono">
+                      {active ? `${active.name} v${active.version}` : `${builtIn.name} (built-in)`}
+                    </span>
+                  </CardDescription>
+                </div>
+                {canEdit && (
+                  <div className="flex items-center gap-2 shrink-0">
+                    {active && <RestoreBuiltInPromptTemplateButton submissionType={submissionType} />}
+                    <PromptTemplateDialog
+                      submissionType={submissionType}
+                      template={active ? { name: active.name, body: active.body } : { name: builtIn.name, body: builtIn.body }}
+                      variables={PROMPT_VARIABLES}
+                      questions={previewQuestions}
+                    >
+                      <Button size="sm">
+                        <Plus className="mr-1 h-3 w-3" />
+                        New Version
+                      </Button>
+                    </PromptTemplateDialog>
+                  </div>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent>
+              {versions.length === 0 ? (
+                <p className="text-sm text-gray-600">No stored versions; the built-in template is in effect.</p>
+              ) : (
+                <div className="divide-y">
+                  {versions.map(template => (
+                    <div key={template.id} className="flex items-center justify-between gap-4 py-2 text-sm">
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="font-mono">{template.name} v{template.version}</span>
+                          {template.isActive && <Badge className="text-xs">Active</Badge>}
+                        </div>
+                        <p className="text-xs text-gray-500 truncate">
+                          {new Date(template.createdAt).toLocaleString()} by {template.creator?.name || template.creator?.email}
+                          {template.description ? ` · ${template.description}` : ''}
+                        </p>
+                      </div>
+                      {canEdit && (
+                        <div className="flex items-center gap-2 shrink-0">
+                          <PromptTemplateDialog
+                            submissionType={submissionType}
+                            template={template}
+                            variables={PROMPT_VARIABLES}
+                            questions={previewQuestions}
+                          >
+                            <Button variant="outline" size="sm">
+                              <Edit className="mr-1 h-3 w-3" />
+                              Edit
+                            </Button>
+                          </PromptTemplateDialog>
+                          {!template.isActive && (
+                            <ActivatePromptTemplateButton
+                              templateId={template.id}
+                              label={`${template.name} v${template.version}`}
+                            />
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,165 @@
+// app/admin/settings/page.tsx
+import { prisma } from '@/lib/prisma'
+import { requireAdmin } from '@/lib/auth/utils'
+import { getRoutingRules } from '@/lib/actions/model-routing-actions'
+import { getAvailableLLMProviders } from '@/lib/services/llm-service'
+import { DEFAULT_ROUTING_RULES } from '@/lib/services/model-routing-service'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Plus, Edit, Route, CheckCircle, XCircle } from 'lucide-react'
+import RoutingRuleDialog from '@/components/admin/RoutingRuleDialog'
+import { DeleteRoutingRuleButton, RevalidateRoutingRulesButton } from '@/components/admin/RoutingRuleActions'
+
+// Human-readable summary of the conditions a rule matches on
+function describeConditions(rule: {
+  submissionType?: string | null
+  minContentLength?: number | null
+  maxContentLength?: number | null
+  hasBaseExample?: boolean | null
+}): string {
+  const parts: string[] = []
+  if (rule.submissionType) parts.push(rule.submissionType.replace('_', ' ').toLowerCase())
+  if (rule.minContentLength != null && rule.maxContentLength != null) {
+    parts.push(`${rule.minContentLength}–${rule.maxContentLength} chars`)
+  } else if (rule.minContentLength != null) {
+    parts.push(`≥ ${rule.minContentLength} chars`)
+  } else if (rule.maxContentLength != null) {
+    parts.push(`≤ ${rule.maxContentLength} chars`)
+  }
+  if (rule.hasBaseExample != null) parts.push(rule.hasBaseExample ? 'with base example' : 'no base example')
+  return parts.length > 0 ? parts.join(', ') : 'any submission'
+}
+
+export default async function SettingsPage() {
+  const user = await requireAdmin()
+
+  const rulesResult = await getRoutingRules()
+  const rules = rulesResult.success ? rulesResult.data ?? [] : []
+  const providers = getAvailableLLMProviders()
+
+  const courses = await prisma.course.findMany({
+    where: user.role === 'SUPER_ADMIN' ? {} : { creatorId: user.id },
+    select: {
+      id: true,
+      name: true,
+      questions: {
+        select: { id: true, title: true, questionNumber: true },
+        orderBy: { questionNumber: 'asc' }
+      }
+    },
+    orderBy: { name: 'asc' }
+  })
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Settings</h1>
+          <p className="text-gray-600">
+            Choose which AI model grades each kind of submission
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <RevalidateRoutingRulesButton />
+          <RoutingRuleDialog courses={courses} providers={providers}>
+            <Button>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Rule
+            </Button>
+          </RoutingRuleDialog>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Model Routing Rules</CardTitle>
+          <CardDescription>
+            Assessment-specific rules win over course rules, which win over global rules.
+            Within the same scope the highest priority matching rule is used.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!rulesResult.success ? (
+            <p className="text-red-600">Error: {rulesResult.error}</p>
+          ) : rules.length === 0 ? (
+            <div className="text-center py-12">
+              <Route className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No routing rules yet</h3>
+              <p className="text-gray-600">The built-in defaults below are in effect</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {rules.map(rule => (
+                <div key={rule.id} className="border rounded-lg p-4 hover:bg-gray-50 transition-colors">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 mb-1">
+                        <h4 className="font-medium">{rule.name}</h4>
+                        <Badge variant={rule.isActive ? 'default' : 'secondary'} className="text-xs">
+                          {rule.isActive ? 'Active' : 'Inactive'}
+                        </Badge>
+                        <Badge variant="outline" className="text-xs">
+                          {rule.question
+                            ? `${rule.course?.name} · Assessment ${rule.question.questionNumber}`
+                            : rule.course?.name || 'Global'}
+                        </Badge>
+                      </div>
+                      <p className="text-sm text-gray-600">
+                        {describeConditions(rule)} → <span className="font-mono">{rule.provider}/{rule.model}</span>
+                      </p>
+                      <div className="flex items-center gap-4 mt-2 text-xs text-gray-500">
+                        <span>Priority {rule.priority}</span>
+                        {rule.validatedAt ? (
+                          <span className="flex items-center gap-1">
+                            <CheckCircle className="h-3 w-3 text-green-600" />
+                            Model checked {new Date(rule.validatedAt).toLocaleDateString()}
+                          </span>
+                        ) : (
+                          <span className="flex items-center gap-1">
+                            <XCircle className="h-3 w-3 text-red-600" />
+                            Model not checked
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <RoutingRuleDialog rule={rule} courses={courses} providers={providers}>
+                        <Button variant="outline" size="sm">
+                          <Edit className="mr-1 h-3 w-3" />
+                          Edit
+                        </Button>
+                      </RoutingRuleDialog>
+                      <DeleteRoutingRuleButton ruleId={rule.id} />
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Built-in Defaults</CardTitle>
+          <CardDescription>
+            Used when no rule above matches. Courses on a non-Groq provider use that provider&apos;s default model.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="divide-y">
+            {DEFAULT_ROUTING_RULES.map(rule => (
+              <div key={rule.name} className="flex items-center justify-between py-2 text-sm">
+                <span className="font-medium">{rule.name}</span>
+                <span className="text-gray-600">
+                  {describeConditions(rule)} → <span className="font-mono">{rule.model}</span>
+                </span>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
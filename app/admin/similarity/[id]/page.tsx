@@ -0,0 +1,151 @@
+// app/admin/similarity/[id]/page.tsx
+import Link from 'next/link'
+import { format } from 'date-fns'
+import { getSimilarityMatch } from '@/lib/actions/similarity-actions'
+import type { SimilarityPassage } from '@/lib/services/plagiarism-service'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { ArrowLeft, ExternalLink } from 'lucide-react'
+import { SimilarityReviewActions, RescanQuestionSimilarityButton } from '@/components/admin/SimilarityReviewActions'
+
+const CONTEXT_LENGTH = 160 // Characters shown either side of a shared passage
+
+const STATUS_BADGES: Record<string, { label: string; className: string }> = {
+  PENDING: { label: 'To review', className: 'bg-amber-100 text-amber-800 border-amber-300' },
+  CONFIRMED: { label: 'Confirmed', className: 'bg-red-100 text-red-800 border-red-300' },
+  DISMISSED: { label: 'Dismissed', className: 'bg-gray-100 text-gray-700 border-gray-300' },
+}
+
+interface PageProps {
+  params: Promise<{
+    id: string
+  }>
+}
+
+function Excerpt({ content, range, code }: { content: string; range: { start: number; end: number }; code: boolean }) {
+  const before = content.slice(Math.max(0, range.start - CONTEXT_LENGTH), range.start)
+  const after = content.slice(range.end, range.end + CONTEXT_LENGTH)
+
+  return (
+    <div className={`whitespace-pre-wrap break-words rounded border bg-white p-3 text-sm text-gray-600 ${code ? 'font-mono text-xs' : ''}`}>
+      {range.start > CONTEXT_LENGTH && '…'}
+      {before}
+      <mark className="bg-red-100 text-gray-900">{content.slice(range.start, range.end)}</mark>
+      {after}
+      {range.end + CONTEXT_LENGTH < content.length && '…'}
+    </div>
+  )
+}
+
+export default async function SimilarityMatchPage({ params }: PageProps) {
+  const { id } = await params
+  const matchResult = await getSimilarityMatch(id)
+
+  if (!matchResult.success) {
+    return (
+      <div className="space-y-6">
+        <Button variant="outline" size="sm" asChild>
+          <Link href="/admin/similarity">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Similarity
+          </Link>
+        </Button>
+        <p className="text-red-600">Error: {matchResult.error}</p>
+      </div>
+    )
+  }
+
+  const match = matchResult.data
+  const passages = (match.passages || []) as SimilarityPassage[]
+  const contentA: string = match.submission.fingerprint?.content || ''
+  const contentB: string = match.matchedSubmission.fingerprint?.content || ''
+  const code = match.kind === 'CODE'
+  const status = STATUS_BADGES[match.status]
+  const students = [
+    { label: 'Submission', submission: match.submission },
+    { label: 'Similar to', submission: match.matchedSubmission },
+  ]
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <Button variant="outline" size="sm" asChild>
+          <Link href="/admin/similarity">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Similarity
+          </Link>
+        </Button>
+        <RescanQuestionSimilarityButton questionId={match.questionId} />
+      </div>
+
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">
+          Q{match.submission.question.questionNumber}: {match.submission.question.title}
+        </h1>
+        <p className="text-gray-600">{match.submission.question.course.name}</p>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between gap-2">
+              <span>{Math.round(match.score * 100)}% similar</span>
+              <Badge className={`${status.className} border`}>{status.label}</Badge>
+            </CardTitle>
+            <CardDescription>
+              {match.sharedFingerprints} shared {code ? 'code' : 'text'} fingerprints, {passages.length} overlapping
+              passage{passages.length === 1 ? '' : 's'}. {code && 'Code is compared with names and literals ignored, so renamed variables still match.'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid gap-4 sm:grid-cols-2">
+              {students.map(({ label, submission }) => (
+                <div key={label} className="text-sm">
+                  <div className="text-xs uppercase tracking-wide text-gray-500">{label}</div>
+                  <div className="font-medium text-gray-900">{submission.user.name || submission.user.email}</div>
+                  <div className="text-xs text-gray-500">Submitted {format(new Date(submission.createdAt), 'PPp')}</div>
+                  <Link href={`/admin/manual-submissions/${submission.id}`} className="inline-flex items-center gap-1 text-xs text-blue-600 hover:underline">
+                    Open submission
+                    <ExternalLink className="h-3 w-3" />
+                  </Link>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Review</CardTitle>
+            <CardDescription>Dismiss pairs that only share starter code or quoted material</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <SimilarityReviewActions matchId={match.id} status={match.status} note={match.reviewNote} />
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Overlapping Passages</CardTitle>
+          <CardDescription>Shared passages are highlighted, with the surrounding text of each submission</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {passages.length === 0 ? (
+            <p className="text-sm text-gray-500">No passages recorded for this pair.</p>
+          ) : (
+            <div className="space-y-6">
+              {passages.map((passage, index) => (
+                <div key={index} className="grid gap-3 md:grid-cols-2">
+                  <Excerpt content={contentA} range={passage.a} code={code} />
+                  <Excerpt content={contentB} range={passage.b} code={code} />
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,121 @@
+// app/admin/similarity/page.tsx
+import Link from 'next/link'
+import { formatDistanceToNow } from 'date-fns'
+import { requireAdmin } from '@/lib/auth/utils'
+import { getSimilarityMatches } from '@/lib/actions/similarity-actions'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Eye } from 'lucide-react'
+
+const STATUSES = [
+  { value: 'PENDING', label: 'To Review' },
+  { value: 'CONFIRMED', label: 'Confirmed' },
+  { value: 'DISMISSED', label: 'Dismissed' },
+] as const
+
+type Status = typeof STATUSES[number]['value']
+
+interface PageProps {
+  searchParams: Promise<{ status?: string }>
+}
+
+export default async function SimilarityPage({ searchParams }: PageProps) {
+  await requireAdmin()
+
+  const { status: requestedStatus } = await searchParams
+  const status: Status = STATUSES.find(option => option.value === requestedStatus)?.value ?? 'PENDING'
+
+  const matchesResult = await getSimilarityMatches({ status })
+  const matches = matchesResult.data ?? []
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Similarity</h1>
+        <p className="text-gray-600">
+          Pairs of submissions to the same question that share much of their text or code
+        </p>
+      </div>
+
+      <div className="flex gap-2">
+        {STATUSES.map(option => (
+          <Button key={option.value} asChild size="sm" variant={option.value === status ? 'default' : 'outline'}>
+            <Link href={`/admin/similarity?status=${option.value}`}>{option.label}</Link>
+          </Button>
+        ))}
+      </div>
+
+      {!matchesResult.success && (
+        <p className="text-red-600">Error: {matchesResult.error}</p>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{STATUSES.find(option => option.value === status)?.label}</CardTitle>
+          <CardDescription>
+            Similarity is the share of the smaller submission&apos;s fingerprints found in the other one.
+            Text shared with the base example, and text most submissions share, is ignored.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {matches.length === 0 ? (
+            <p className="text-sm text-gray-500">No pairs here.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Question</TableHead>
+                  <TableHead>Submission</TableHead>
+                  <TableHead>Similar To</TableHead>
+                  <TableHead>Content</TableHead>
+                  <TableHead className="text-right">Similarity</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {matches.map(match => (
+                  <TableRow key={match.id}>
+                    <TableCell className="whitespace-normal">
+                      <div className="font-medium text-gray-900">
+                        Q{match.submission.question.questionNumber}: {match.submission.question.title}
+                      </div>
+                      <div className="text-xs text-gray-500">{match.submission.question.course.name}</div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="text-sm">{match.submission.user.name || match.submission.user.email}</div>
+                      <div className="text-xs text-gray-500">
+                        {formatDistanceToNow(new Date(match.submission.createdAt), { addSuffix: true })}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="text-sm">{match.matchedSubmission.user.name || match.matchedSubmission.user.email}</div>
+                      <div className="text-xs text-gray-500">
+                        {formatDistanceToNow(new Date(match.matchedSubmission.createdAt), { addSuffix: true })}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{match.kind === 'CODE' ? 'Code' : 'Text'}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right font-medium">
+                      {Math.round(match.score * 100)}%
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button asChild size="sm" variant="outline">
+                        <Link href={`/admin/similarity/${match.id}`}>
+                          <Eye className="mr-1 h-3 w-3" />
+                          Compare
+                        </Link>
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { documentService } from '@/lib/services/document-service';
+import { documentService, NoExtractableTextError } from '@/lib/services/document-service';
 import { auth } from '@/lib/auth/config';
 import { headers } from 'next/headers';
 import { checkRateLimit, RateLimits, getRateLimitKey } from '@/lib/utils/rate-limit';
@@ -58,11 +58,10 @@ export async function POST(request: NextRequest) {
       userId
     });
 
-    // Process document with user context
+    // Process document with user context; size limits depend on the format
     const documentInfo = await documentService.processDocument(file, {
       userId,
       submissionId: submissionId || undefined,
-      maxFileSize: 10 * 1024 * 1024, // 10MB limit
     });
 
     console.log('✅ Document uploaded successfully:', documentInfo.fileUrl);
@@ -79,6 +78,15 @@ export async function POST(request: NextRequest) {
 
   } catch (error) {
     console.error('❌ Document upload error:', error);
+
+    // The file was read fine but has nothing to assess, e.g. a scanned PDF
+    if (error instanceof NoExtractableTextError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 422 }
+      );
+    }
+
     return NextResponse.json(
       {
         success: false,
@@ -97,17 +105,16 @@ export async function GET() {
   const supportedTypes = documentService.getSupportedFileTypes();
 
   return NextResponse.json({
-    supportedTypes,
-    maxFileSize: '10MB',
-    instructions: 'Upload a DOCX or TXT file. PDF support temporarily disabled.'
+    supportedTypes, // Each type lists its own maxFileSize
+    instructions: 'Upload a document (PDF, DOCX, ODT, TXT, Markdown), a slide deck (PPTX), data (XLSX, CSV) or a Jupyter notebook (IPYNB). PDFs need selectable text; scanned pages cannot be read.'
   });
 }
 
-// Limit file upload size (10MB)
+// Limit file upload size (largest per-format limit, for slide decks)
 export const config = {
   api: {
     bodyParser: {
-      sizeLimit: '10mb',
+      sizeLimit: '25mb',
     },
   },
 };
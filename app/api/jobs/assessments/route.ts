@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server'
+import { drainAssessmentQueue } from '@/lib/services/assessment-queue'
+import { ASSESSMENT_TIMEOUT_MS } from '@/lib/services/assessment-pipeline'
+
+// Long enough to finish a batch of assessments on serverless hosts
+export const maxDuration = 300
+
+// Jobs run one after another, each bounded by ASSESSMENT_TIMEOUT_MS, so only take
+// as many as fit in maxDuration; the rest wait for the next invocation
+const MAX_JOBS_PER_RUN = Math.floor((maxDuration * 1000) / ASSESSMENT_TIMEOUT_MS)
+
+// Drains the assessment queue. Intended for a scheduler (e.g. Vercel Cron) so jobs
+// left behind by a crashed or timed-out invocation are still processed.
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const processed = await drainAssessmentQueue({ maxJobs: MAX_JOBS_PER_RUN })
+    return NextResponse.json({ success: true, processed })
+  } catch (error) {
+    console.error('Failed to drain assessment queue:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to drain assessment queue' },
+      { status: 500 }
+    )
+  }
+}
@@ -2,6 +2,7 @@ import { NextResponse } from 'next/server'
 import { auth } from '@/lib/auth/config'
 import { prisma } from '@/lib/prisma'
 import { headers } from 'next/headers'
+import { withholdUnreviewedAssessment } from '@/lib/services/manual-review-service'
 
 export async function GET() {
   try {
@@ -37,9 +38,10 @@ export async function GET() {
       }
     })
 
+    // Escalated AI verdicts stay hidden until an instructor has reviewed them
     return NextResponse.json({
       success: true,
-      submissions
+      submissions: submissions.map(withholdUnreviewedAssessment)
     })
   } catch (error) {
     console.error('Failed to fetch submissions:', error)
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { UserRole } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { canManageCourse, getCurrentUser } from '@/lib/auth/utils'
+import { buildAssessmentPrompt } from '@/lib/services/llm-service'
+import { RUBRIC_INCLUDE, resolveQuestionRubric } from '@/lib/services/rubric-service'
+import {
+  defaultPromptTemplate,
+  resolvePromptTemplate,
+  validatePromptTemplate,
+  type ResolvedPromptTemplate,
+} from '@/lib/services/prompt-template-service'
+
+const previewSchema = z.object({
+  submissionType: z.enum(['TEXT', 'DOCUMENT', 'GITHUB_REPO', 'SCREENSHOT', 'WEBSITE']),
+  body: z.string().optional(), // Unsaved template text
+  templateId: z.string().optional(), // A stored version; neither = the template currently in use
+  questionId: z.string().optional(), // Fill the prompt from a real assessment
+  sampleSubmission: z.string().optional(),
+  sampleDetails: z.string().optional(),
+})
+
+const SAMPLE_QUESTION = {
+  title: 'Sample Assessment',
+  description: 'Explain the difference between a process and a thread.',
+}
+
+/**
+ * Render the full assessment prompt a template would produce, without calling a model
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser()
+    if (!user || (user.role !== UserRole.SUPER_ADMIN && user.role !== UserRole.COURSE_ADMIN)) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const parsed = previewSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid preview request: ' + parsed.error.errors.map(e => e.message).join(', ') },
+        { status: 400 }
+      )
+    }
+    const { submissionType, body, templateId, questionId, sampleSubmission, sampleDetails } = parsed.data
+
+    let template: ResolvedPromptTemplate
+    if (body !== undefined) {
+      template = { ...defaultPromptTemplate(submissionType), body }
+    } else if (templateId) {
+      const stored = await prisma.promptTemplate.findUnique({
+        where: { id: templateId },
+        select: { id: true, name: true, version: true, body: true }
+      })
+      if (!stored) {
+        return NextResponse.json(
+          { success: false, error: 'Prompt template not found' },
+          { status: 404 }
+        )
+      }
+      template = stored
+    } else {
+      template = await resolvePromptTemplate(submissionType)
+    }
+
+    const question = questionId
+      ? await prisma.question.findUnique({
+          where: { id: questionId },
+          include: {
+            course: { select: { creatorId: true } },
+            rubric: { include: RUBRIC_INCLUDE },
+            baseExamples: { orderBy: { createdAt: 'asc' }, take: 1 }
+          }
+        })
+      : null
+    if (questionId && !question) {
+      return NextResponse.json(
+        { success: false, error: 'Assessment not found' },
+        { status: 404 }
+      )
+    }
+    // A real assessment's rubric and base example are only shown to admins of its course
+    if (question && !canManageCourse(user.role, question.course.creatorId, user.id)) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to preview this assessment' },
+        { status: 403 }
+      )
+    }
+
+    const prompt = buildAssessmentPrompt({
+      submissionContent: sampleSubmission || '[The student submission will appear here]',
+      submissionDetails: sampleDetails,
+      submissionType,
+      questionTitle: question?.title ?? SAMPLE_QUESTION.title,
+      questionDescription: question?.description ?? SAMPLE_QUESTION.description,
+      assessmentPrompt: question?.assessmentPrompt || undefined,
+      criteria: question?.criteria ?? [],
+      redFlags: question?.redFlags ?? [],
+      conditionalChecks: question?.conditionalChecks ?? [],
+      rubric: question ? resolveQuestionRubric(question) : undefined,
+      baseExampleContent: question?.baseExamples[0]?.content,
+      baseExampleMetadata: question?.baseExamples[0]?.metadata,
+      baseExampleDescription: question?.baseExamples[0]?.description || undefined,
+    }, template)
+
+    return NextResponse.json({
+      success: true,
+      prompt,
+      problems: validatePromptTemplate(template.body),
+    })
+  } catch (error) {
+    console.error('Prompt preview error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to render prompt preview' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server'
+import { getAssessmentJobStatus } from '@/lib/services/assessment-queue'
+
+// Polled by the results page while an assessment is queued or running.
+// Mirrors the results page itself: anyone holding the submission link can read it.
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ submissionId: string }> }
+) {
+  try {
+    const { submissionId } = await params
+    const status = await getAssessmentJobStatus(submissionId)
+
+    if (!status) {
+      return NextResponse.json(
+        { success: false, error: 'Submission not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: true, ...status },
+      { headers: { 'Cache-Control': 'no-store' } }
+    )
+  } catch (error) {
+    console.error('Failed to fetch assessment status:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch assessment status' },
+      { status: 500 }
+    )
+  }
+}
@@ -22,16 +22,18 @@ export async function POST(request: NextRequest) {
     }
 
     // Fetch repository information
-    const repoInfo = await githubService.getRepositoryInfo(parsed.owner, parsed.repo)
+    const repoInfo = await githubService.getRepositoryInfo(parsed.owner, parsed.repo, parsed.ref)
 
     // Generate summary with adaptive file selection (using empty keywords for now)
-    const summary = githubService.generateRepoSummary(repoInfo, [])
+    const commitHistory = githubService.analyzeCommitHistory(repoInfo)
+    const summary = githubService.generateRepoSummary(repoInfo, [], commitHistory)
 
     return NextResponse.json({
       success: true,
       analysis: {
         ...repoInfo,
         summary,
+        commitHistory,
         // Extract project type from summary for easier testing
         projectType: summary.match(/\*\*Project Type:\*\* (.+)/)?.[1] || 'unknown'
       }
@@ -3,7 +3,7 @@ import { websiteService } from '@/lib/services/website-service';
 
 export async function POST(request: NextRequest) {
   try {
-    const { url } = await request.json();
+    const { url, criteria, crawl, checks, budget } = await request.json();
 
     if (!url) {
       return NextResponse.json(
@@ -13,7 +13,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Test website accessibility and get assessment data
-    const assessmentData = await websiteService.assessWebsite(url);
+    const assessmentData = await websiteService.assessWebsite(url, criteria, { crawl, checks, budget });
 
     // Generate website summary
     const websiteSummary = websiteService.generateWebsiteSummary(assessmentData);
@@ -22,6 +22,17 @@ export async function POST(request: NextRequest) {
       success: true,
       data: {
         websiteInfo: assessmentData.websiteInfo,
+        // Screenshot bytes are left out of the response
+        rendered: assessmentData.rendered ? {
+          ...assessmentData.rendered,
+          screenshots: assessmentData.rendered.screenshots.map(({ image, ...screenshot }) => ({ ...screenshot, byteSize: image.length })),
+        } : null,
+        accessibility: assessmentData.accessibility,
+        accessibilityChecks: assessmentData.accessibilityChecks,
+        crawl: { ...assessmentData.crawl, pages: assessmentData.crawl.pages.map(page => ({ ...page, html: undefined })) },
+        checks: assessmentData.checks,
+        performance: assessmentData.performance,
+        security: assessmentData.security,
         issues: assessmentData.issues,
         strengths: assessmentData.strengths,
         summary: websiteSummary,
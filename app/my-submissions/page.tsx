@@ -32,6 +32,7 @@ interface Submission {
   manualScore: string | null
   manualGrade: number | null
   reviewedAt: Date | null
+  needsManualReview: boolean // AI result escalated to an instructor; withheld until reviewed
   question: {
     id: string
     title: string
@@ -45,9 +46,9 @@ interface Submission {
   }
 }
 
-function getStatusIcon(status: string, assessmentMode?: string, reviewedAt?: Date | null) {
-  // Show pending review icon for manual-only submissions
-  if (status === 'PENDING' && (assessmentMode === 'MANUAL_ONLY' || assessmentMode === 'BOTH')) {
+function getStatusIcon(status: string, assessmentMode?: string, reviewedAt?: Date | null, escalated?: boolean) {
+  // Show pending review icon for manual-only and escalated submissions
+  if (status === 'PENDING' && (assessmentMode === 'MANUAL_ONLY' || assessmentMode === 'BOTH' || escalated)) {
     return <FileEdit className="h-4 w-4 text-amber-600" />
   }
   
@@ -63,8 +64,8 @@ function getStatusIcon(status: string, assessmentMode?: string, reviewedAt?: Dat
   }
 }
 
-function getStatusColor(status: string, assessmentMode?: string) {
-  if (status === 'PENDING' && (assessmentMode === 'MANUAL_ONLY' || assessmentMode === 'BOTH')) {
+function getStatusColor(status: string, assessmentMode?: string, escalated?: boolean) {
+  if (status === 'PENDING' && (assessmentMode === 'MANUAL_ONLY' || assessmentMode === 'BOTH' || escalated)) {
     return 'secondary'
   }
   
@@ -280,7 +281,8 @@ export default function MySubmissionsPage() {
                       const assessmentResult = submission.assessmentResult as any
                       const hasManualReview = !!submission.manualFeedback
                       const assessmentMode = submission.question.assessmentMode
-                      const isPendingReview = submission.status === 'PENDING' && (assessmentMode === 'MANUAL_ONLY' || assessmentMode === 'BOTH')
+                      const isEscalated = submission.needsManualReview && !submission.reviewedAt
+                      const isPendingReview = submission.status === 'PENDING' && (assessmentMode === 'MANUAL_ONLY' || assessmentMode === 'BOTH' || isEscalated)
                       
                       return (
                         <div
@@ -290,16 +292,16 @@ export default function MySubmissionsPage() {
                           <div className="flex items-start justify-between">
                             <div className="flex-1">
                               <div className="flex items-center gap-3 mb-2">
-                                {getStatusIcon(submission.status, assessmentMode, submission.reviewedAt)}
+                                {getStatusIcon(submission.status, assessmentMode, submission.reviewedAt, isEscalated)}
                                 <div className="flex items-center gap-2 flex-wrap">
                                   <h4 className="font-medium text-sm">
                                     {submission.question.course.name} - Q{submission.question.questionNumber}
                                   </h4>
                                   <Badge
-                                    variant={getStatusColor(submission.status, assessmentMode) as any}
+                                    variant={getStatusColor(submission.status, assessmentMode, isEscalated) as any}
                                     className="text-xs"
                                   >
-                                    {isPendingReview ? 'Pending Review' : submission.status}
+                                    {isEscalated ? 'Pending Instructor Review' : isPendingReview ? 'Pending Review' : submission.status}
                                   </Badge>
                                   
                                   {/* Assessment Mode Badge */}
@@ -348,6 +350,11 @@ export default function MySubmissionsPage() {
                                     Instructor review added
                                   </span>
                                 )}
+                                {isEscalated && (
+                                  <span className="text-amber-600 font-medium">
+                                    An instructor is checking this result
+                                  </span>
+                                )}
                               </div>
                             </div>
 
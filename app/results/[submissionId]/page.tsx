@@ -1,733 +1,1100 @@
-'use client'
-
-import { useEffect, useState } from 'react'
-import { getAnonymousSubmissionResult } from '@/lib/actions/submission-actions'
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
-import { Badge } from '@/components/ui/badge'
-import { Button } from '@/components/ui/button'
-import { Sidebar } from '@/components/layout/Sidebar'
-import { useSession } from '@/lib/auth-client'
-import {
-  ArrowLeft,
-  Calendar,
-  Clock,
-  Github,
-  Globe,
-  FileText,
-  Image,
-  Upload,
-  CheckCircle2,
-  AlertCircle,
-  Copy,
-  ExternalLink,
-  Share2,
-  Loader2,
-  Edit,
-  User,
-  BookOpen,
-  TrendingUp,
-  LogIn,
-  FileEdit
-} from 'lucide-react'
-import Link from 'next/link'
-import { formatDistanceToNow } from 'date-fns'
-
-interface Props {
-  params: Promise<{
-    submissionId: string
-  }>
-}
-
-export default function ResultsPage({ params }: Props) {
-  const [submission, setSubmission] = useState<any>(null)
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
-  const [submissionId, setSubmissionId] = useState<string>('')
-  const { data: session } = useSession()
-
-  const isAdmin = (session?.user as any)?.role === 'SUPER_ADMIN' || (session?.user as any)?.role === 'COURSE_ADMIN'
-
-  useEffect(() => {
-    async function loadSubmission() {
-      try {
-        const resolvedParams = await params
-        setSubmissionId(resolvedParams.submissionId)
-        const result = await getAnonymousSubmissionResult(resolvedParams.submissionId)
-
-        if (!result) {
-          setError('Submission not found')
-          return
-        }
-
-        setSubmission(result)
-      } catch (err) {
-        setError('Failed to load submission')
-      } finally {
-        setLoading(false)
-      }
-    }
-
-    loadSubmission()
-  }, [params])
-
-  if (loading) {
-    return (
-      <div className="flex min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 items-center justify-center">
-        <div className="text-center space-y-4">
-          <Loader2 className="h-8 w-8 animate-spin mx-auto text-teal-600" />
-          <p className="text-gray-600">Loading assessment results...</p>
-        </div>
-      </div>
-    )
-  }
-
-  if (error || !submission) {
-    return (
-      <div className="flex min-h-screen bg-gradient-to-br from-gray-50 to-gray-100">
-        <Sidebar />
-        <main className="flex-1 lg:pl-72 flex items-center justify-center">
-          <div className="text-center space-y-4">
-            <div className="text-6xl">🔍</div>
-            <h1 className="text-2xl font-bold text-gray-900">Submission Not Found</h1>
-            <p className="text-gray-600 max-w-md">
-              {error || 'The assessment result you\'re looking for could not be found or may have expired.'}
-            </p>
-            <Link href="/">
-              <Button className="bg-teal-600 hover:bg-teal-700 rounded-xl">
-                <ArrowLeft className="mr-2 h-4 w-4" />
-                Back to Home
-              </Button>
-            </Link>
-          </div>
-        </main>
-      </div>
-    )
-  }
-
-  const getRemarkColor = (remark: string) => {
-    switch (remark) {
-      case 'Excellent': return 'bg-green-100 text-green-800 border-green-300'
-      case 'Good': return 'bg-blue-100 text-blue-800 border-blue-300'
-      case 'Can Improve': return 'bg-yellow-100 text-yellow-800 border-yellow-300'
-      case 'Needs Improvement': return 'bg-red-100 text-red-800 border-red-300'
-      default: return 'bg-gray-100 text-gray-800 border-gray-300'
-    }
-  }
-
-  const getRemarkIcon = (remark: string) => {
-    switch (remark) {
-      case 'Excellent': return <CheckCircle2 className="h-5 w-5 text-green-600" />
-      case 'Good': return <CheckCircle2 className="h-5 w-5 text-blue-600" />
-      case 'Can Improve': return <AlertCircle className="h-5 w-5 text-yellow-600" />
-      case 'Needs Improvement': return <AlertCircle className="h-5 w-5 text-red-600" />
-      default: return <AlertCircle className="h-5 w-5 text-gray-600" />
-    }
-  }
-
-  const getRemarkScore = (remark: string) => {
-    switch (remark) {
-      case 'Excellent': return 95
-      case 'Good': return 80
-      case 'Can Improve': return 65
-      case 'Needs Improvement': return 45
-      default: return 0
-    }
-  }
-
-  const getSubmissionTypeIcon = (type: string) => {
-    switch (type) {
-      case 'GITHUB_REPO': return <Github className="h-4 w-4" />
-      case 'WEBSITE': return <Globe className="h-4 w-4" />
-      case 'DOCUMENT': return <FileText className="h-4 w-4" />
-      case 'SCREENSHOT': return <Image className="h-4 w-4" />
-      case 'TEXT': return <FileText className="h-4 w-4" />
-      default: return <Upload className="h-4 w-4" />
-    }
-  }
-
-  const getSubmissionTypeLabel = (type: string) => {
-    switch (type) {
-      case 'GITHUB_REPO': return 'GitHub Repository'
-      case 'WEBSITE': return 'Website URL'
-      case 'DOCUMENT': return 'Document Upload'
-      case 'SCREENSHOT': return 'Screenshot Upload'
-      case 'TEXT': return 'Text Submission'
-      default: return 'File Upload'
-    }
-  }
-
-  const copyToClipboard = (text: string) => {
-    navigator.clipboard.writeText(text)
-  }
-
-  const shareResults = () => {
-    if (navigator.share) {
-      navigator.share({
-        title: 'Assessment Results',
-        text: `I got "${(submission.assessmentResult as any)?.remark}" on my assessment!`,
-        url: window.location.href
-      })
-    }
-  }
-
-  const assessmentResult = submission.assessmentResult as any
-  const hasManualReview = !!(submission as any).manualFeedback
-  const assessmentMode = submission.question?.assessmentMode || 'AI_ONLY'
-  const isPendingManualReview = submission.status === 'PENDING' || (assessmentMode === 'BOTH' && !hasManualReview)
-
-  return (
-    <div className="flex min-h-screen bg-gradient-to-br from-gray-50 to-gray-100">
-      <Sidebar />
-      <main className="flex-1 lg:pl-72">
-        <div className="px-6 py-8 md:px-12">
-          <div className="max-w-5xl mx-auto space-y-6">
-            {/* Header with Navigation */}
-            <div className="flex items-center justify-between">
-              <Link href="/my-submissions">
-                <Button variant="outline" size="sm" className="rounded-xl">
-                  <ArrowLeft className="mr-2 h-4 w-4" />
-                  My Submissions
-                </Button>
-              </Link>
-              <div className="flex items-center gap-2">
-                <Button
-                  variant="outline"
-                  size="sm"
-                  className="rounded-xl"
-                  onClick={() => copyToClipboard(window.location.href)}
-                >
-                  <Copy className="h-4 w-4 mr-2" />
-                  Copy Link
-                </Button>
-                {isAdmin && (
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    className="rounded-xl"
-                    asChild
-                  >
-                    <Link href={`/admin/manual-submissions/${submission.id}`}>
-                      <Edit className="mr-2 h-4 w-4" />
-                      {hasManualReview ? 'Edit Review' : 'Add Review'}
-                    </Link>
-                  </Button>
-                )}
-              </div>
-            </div>
-
-            {/* Submission Info Header */}
-            <Card className="border-0 shadow-sm">
-              <CardContent className="pt-6">
-                <div className="flex items-start justify-between mb-4">
-                  <div className="space-y-1">
-                    <div className="flex items-center gap-2 text-sm text-gray-600">
-                      <BookOpen className="h-4 w-4" />
-                      {submission.question.course.name}
-                    </div>
-                    <h1 className="text-2xl font-bold text-gray-900">
-                      Question {submission.question.questionNumber}: {submission.question.title}
-                    </h1>
-                    <div className="flex items-center gap-2 mt-2">
-                      {assessmentMode === 'MANUAL_ONLY' && (
-                        <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-300">
-                          <FileText className="h-3 w-3 mr-1" />
-                          Manual Review Only
-                        </Badge>
-                      )}
-                      {assessmentMode === 'BOTH' && (
-                        <Badge variant="outline" className="bg-purple-50 text-purple-700 border-purple-300">
-                          AI + Manual Review
-                        </Badge>
-                      )}
-                      {isPendingManualReview && !hasManualReview && (
-                        <Badge variant="outline" className="bg-amber-100 text-amber-800 border-amber-400">
-                          <Clock className="h-3 w-3 mr-1" />
-                          Awaiting Instructor Review
-                        </Badge>
-                      )}
-                    </div>
-                  </div>
-                  <Badge className={`${getRemarkColor(assessmentResult?.remark || '')} border`}>
-                    {assessmentResult?.remark || (isPendingManualReview ? 'Pending Review' : 'Processing')}
-                  </Badge>
-                </div>
-
-                <div className="flex items-center gap-6 text-sm text-gray-600">
-                  <div className="flex items-center gap-2">
-                    <Calendar className="h-4 w-4" />
-                    Submitted {formatDistanceToNow(new Date(submission.createdAt), { addSuffix: true })}
-                  </div>
-                  <div className="flex items-center gap-2">
-                    {getSubmissionTypeIcon(submission.question.submissionType)}
-                    {getSubmissionTypeLabel(submission.question.submissionType)}
-                  </div>
-                  {submission.user && (
-                    <div className="flex items-center gap-2">
-                      <User className="h-4 w-4" />
-                      {submission.user.name || submission.user.email}
-                    </div>
-                  )}
-                </div>
-              </CardContent>
-            </Card>
-
-            {/* Two Column Layout */}
-            <div className="grid lg:grid-cols-3 gap-6">
-              {/* Main Content - Left Side (2/3) */}
-              <div className="lg:col-span-2 space-y-6">
-                {/* Manual Review Section - Show First for Manual Mode */}
-                {hasManualReview && (
-                  <Card className="border-0 shadow-lg">
-                    <CardHeader className="pb-4">
-                      <CardTitle className="flex items-center gap-2 text-lg">
-                        <FileEdit className="h-5 w-5 text-teal-600" />
-                        Instructor Review
-                      </CardTitle>
-                    </CardHeader>
-                    <CardContent className="space-y-4">
-                      <div className="flex items-center justify-between">
-                        <div>
-                          <div className="text-4xl font-bold text-teal-600">
-                            {(submission as any).manualScore || 'N/A'}
-                          </div>
-                          <div className="text-sm text-gray-600 mt-1">Review Score</div>
-                        </div>
-                        <div className="flex items-center gap-2">
-                          <CheckCircle2 className="h-5 w-5 text-teal-600" />
-                          <span className="text-lg font-semibold">Complete</span>
-                        </div>
-                      </div>
-
-                      {/* Timestamp */}
-                      <div className="text-sm text-gray-500">
-                        Reviewed {(submission as any).reviewedAt && formatDistanceToNow(new Date((submission as any).reviewedAt), { addSuffix: true })}
-                      </div>
-
-                      {/* Feedback */}
-                      {(submission as any).manualFeedback && (
-                        <div className="mt-4 p-4 bg-teal-50 border-l-4 border-teal-600 rounded-r">
-                          <p className="text-gray-800 leading-relaxed">
-                            {(submission as any).manualFeedback}
-                          </p>
-                        </div>
-                      )}
-                    </CardContent>
-                  </Card>
-                )}
-
-                {/* Pending Manual Review Notice */}
-                {!hasManualReview && (assessmentMode === 'MANUAL_ONLY' || assessmentMode === 'BOTH') && (
-                  <Card>
-                    <CardHeader>
-                      <CardTitle className="text-base">Awaiting Instructor Review</CardTitle>
-                    </CardHeader>
-                    <CardContent>
-                      <p className="text-sm text-gray-600">
-                        Your submission is in the review queue. An instructor will review your work and provide detailed feedback soon.
-                        {assessmentMode === 'BOTH' && ' You can see the AI assessment below while you wait.'}
-                      </p>
-                    </CardContent>
-                  </Card>
-                )}
-
-                {/* AI Assessment Score - Only show for AI modes */}
-                {assessmentResult?.remark && assessmentMode !== 'MANUAL_ONLY' && (
-                  <Card className="border-0 shadow-lg">
-                    <CardHeader className="pb-4">
-                      <CardTitle className="flex items-center gap-2 text-lg">
-                        <TrendingUp className="h-5 w-5 text-teal-600" />
-                        AI Assessment
-                      </CardTitle>
-                    </CardHeader>
-                    <CardContent className="space-y-4">
-                      <div className="flex items-center justify-between">
-                        <div>
-                          <div className="text-4xl font-bold text-teal-600">
-                            {getRemarkScore(assessmentResult.remark)}%
-                          </div>
-                          <div className="text-sm text-gray-600 mt-1">Assessment Score</div>
-                        </div>
-                        <div className="flex items-center gap-2">
-                          {getRemarkIcon(assessmentResult.remark)}
-                          <span className="text-lg font-semibold">{assessmentResult.remark}</span>
-                        </div>
-                      </div>
-
-                      {/* Progress Bar */}
-                      <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
-                        <div
-                          className="h-full bg-gradient-to-r from-teal-500 to-teal-600 transition-all duration-500"
-                          style={{ width: `${getRemarkScore(assessmentResult.remark)}%` }}
-                        />
-                      </div>
-
-                      {/* Detailed Feedback */}
-                      {assessmentResult.detailedFeedback?.summary && (
-                        <div className="mt-4 space-y-4">
-                          {/* Summary */}
-                          <div className="p-4 bg-teal-50 border-l-4 border-teal-600 rounded-r">
-                            <p className="text-gray-800 leading-relaxed">
-                              {assessmentResult.detailedFeedback.summary}
-                            </p>
-                          </div>
-
-                          {/* Score Breakdown */}
-                          {assessmentResult.scoreBreakdown && (
-                            <div className="grid grid-cols-2 gap-3">
-                              <div className="bg-gray-50 p-3 rounded-lg">
-                                <div className="text-xs text-gray-600 mb-1">Content Quality</div>
-                                <div className="flex items-center gap-2">
-                                  <div className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden">
-                                    <div
-                                      className="h-full bg-teal-600 transition-all"
-                                      style={{ width: `${assessmentResult.scoreBreakdown.contentQuality}%` }}
-                                    />
-                                  </div>
-                                  <span className="text-sm font-semibold text-gray-700">
-                                    {assessmentResult.scoreBreakdown.contentQuality}
-                                  </span>
-                                </div>
-                              </div>
-                              <div className="bg-gray-50 p-3 rounded-lg">
-                                <div className="text-xs text-gray-600 mb-1">Completeness</div>
-                                <div className="flex items-center gap-2">
-                                  <div className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden">
-                                    <div
-                                      className="h-full bg-blue-600 transition-all"
-                                      style={{ width: `${assessmentResult.scoreBreakdown.completeness}%` }}
-                                    />
-                                  </div>
-                                  <span className="text-sm font-semibold text-gray-700">
-                                    {assessmentResult.scoreBreakdown.completeness}
-                                  </span>
-                                </div>
-                              </div>
-                              <div className="bg-gray-50 p-3 rounded-lg">
-                                <div className="text-xs text-gray-600 mb-1">Technical Accuracy</div>
-                                <div className="flex items-center gap-2">
-                                  <div className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden">
-                                    <div
-                                      className="h-full bg-purple-600 transition-all"
-                                      style={{ width: `${assessmentResult.scoreBreakdown.technicalAccuracy}%` }}
-                                    />
-                                  </div>
-                                  <span className="text-sm font-semibold text-gray-700">
-                                    {assessmentResult.scoreBreakdown.technicalAccuracy}
-                                  </span>
-                                </div>
-                              </div>
-                              <div className="bg-gray-50 p-3 rounded-lg">
-                                <div className="text-xs text-gray-600 mb-1">Structure</div>
-                                <div className="flex items-center gap-2">
-                                  <div className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden">
-                                    <div
-                                      className="h-full bg-indigo-600 transition-all"
-                                      style={{ width: `${assessmentResult.scoreBreakdown.structure}%` }}
-                                    />
-                                  </div>
-                                  <span className="text-sm font-semibold text-gray-700">
-                                    {assessmentResult.scoreBreakdown.structure}
-                                  </span>
-                                </div>
-                              </div>
-                            </div>
-                          )}
-
-                          {/* Comparison to Example */}
-                          {assessmentResult.detailedFeedback.comparisonToExample && (
-                            <div className="p-4 bg-purple-50 border-l-4 border-purple-600 rounded-r">
-                              <div className="text-xs font-semibold text-purple-900 mb-2">
-                                Comparison to Perfect Example
-                              </div>
-                              <p className="text-sm text-gray-700 leading-relaxed">
-                                {assessmentResult.detailedFeedback.comparisonToExample}
-                              </p>
-                            </div>
-                          )}
-                        </div>
-                      )}
-
-                      {/* Fallback to old feedback if no detailed feedback */}
-                      {!assessmentResult.detailedFeedback?.summary && assessmentResult.feedback && (
-                        <div className="mt-4 p-4 bg-teal-50 border-l-4 border-teal-600 rounded-r">
-                          <p className="text-gray-800 leading-relaxed">
-                            {assessmentResult.feedback}
-                          </p>
-                        </div>
-                      )}
-                    </CardContent>
-                  </Card>
-                )}
-
-                {/* Detailed Strengths, Weaknesses, and Recommendations */}
-                {assessmentResult?.detailedFeedback && (
-                  <div className="space-y-4">
-                    {/* Strengths */}
-                    {assessmentResult.detailedFeedback.strengths?.length > 0 && (
-                      <Card className="border-green-200 bg-gradient-to-br from-green-50 to-emerald-50">
-                        <CardHeader className="pb-3">
-                          <CardTitle className="text-base flex items-center gap-2 text-green-800">
-                            <CheckCircle2 className="h-5 w-5" />
-                            What You Did Well
-                          </CardTitle>
-                        </CardHeader>
-                        <CardContent>
-                          <ul className="space-y-3">
-                            {assessmentResult.detailedFeedback.strengths.map((strength: string, index: number) => (
-                              <li key={index} className="flex items-start gap-3">
-                                <div className="mt-0.5 flex-shrink-0">
-                                  <div className="h-6 w-6 rounded-full bg-green-100 flex items-center justify-center">
-                                    <CheckCircle2 className="h-4 w-4 text-green-600" />
-                                  </div>
-                                </div>
-                                <span className="text-sm text-gray-700 leading-relaxed">{strength}</span>
-                              </li>
-                            ))}
-                          </ul>
-                        </CardContent>
-                      </Card>
-                    )}
-
-                    {/* Weaknesses */}
-                    {assessmentResult.detailedFeedback.weaknesses?.length > 0 && (
-                      <Card className="border-orange-200 bg-gradient-to-br from-orange-50 to-amber-50">
-                        <CardHeader className="pb-3">
-                          <CardTitle className="text-base flex items-center gap-2 text-orange-800">
-                            <AlertCircle className="h-5 w-5" />
-                            Areas That Need Work
-                          </CardTitle>
-                        </CardHeader>
-                        <CardContent>
-                          <ul className="space-y-3">
-                            {assessmentResult.detailedFeedback.weaknesses.map((weakness: string, index: number) => (
-                              <li key={index} className="flex items-start gap-3">
-                                <div className="mt-0.5 flex-shrink-0">
-                                  <div className="h-6 w-6 rounded-full bg-orange-100 flex items-center justify-center">
-                                    <AlertCircle className="h-4 w-4 text-orange-600" />
-                                  </div>
-                                </div>
-                                <span className="text-sm text-gray-700 leading-relaxed">{weakness}</span>
-                              </li>
-                            ))}
-                          </ul>
-                        </CardContent>
-                      </Card>
-                    )}
-
-                    {/* Recommendations */}
-                    {assessmentResult.detailedFeedback.recommendations?.length > 0 && (
-                      <Card className="border-blue-200 bg-gradient-to-br from-blue-50 to-cyan-50">
-                        <CardHeader className="pb-3">
-                          <CardTitle className="text-base flex items-center gap-2 text-blue-800">
-                            <TrendingUp className="h-5 w-5" />
-                            How to Improve
-                          </CardTitle>
-                        </CardHeader>
-                        <CardContent>
-                          <ul className="space-y-3">
-                            {assessmentResult.detailedFeedback.recommendations.map((recommendation: string, index: number) => (
-                              <li key={index} className="flex items-start gap-3">
-                                <div className="mt-0.5 flex-shrink-0">
-                                  <div className="h-6 w-6 rounded-full bg-blue-100 flex items-center justify-center">
-                                    <span className="text-xs font-bold text-blue-600">{index + 1}</span>
-                                  </div>
-                                </div>
-                                <span className="text-sm text-gray-700 leading-relaxed">{recommendation}</span>
-                              </li>
-                            ))}
-                          </ul>
-                        </CardContent>
-                      </Card>
-                    )}
-                  </div>
-                )}
-
-                {/* Fallback to old criteria format if no detailed feedback */}
-                {!assessmentResult?.detailedFeedback && assessmentResult?.criteriaMetAndBroke && (
-                  <div className="grid md:grid-cols-2 gap-4">
-                    {assessmentResult.criteriaMetAndBroke.criteriaMet?.length > 0 && (
-                      <Card className="border-green-200 bg-green-50">
-                        <CardHeader className="pb-3">
-                          <CardTitle className="text-base flex items-center gap-2 text-green-800">
-                            <CheckCircle2 className="h-5 w-5" />
-                            Strengths
-                          </CardTitle>
-                        </CardHeader>
-                        <CardContent>
-                          <ul className="space-y-2">
-                            {assessmentResult.criteriaMetAndBroke.criteriaMet.map((criteria: string, index: number) => (
-                              <li key={index} className="flex items-start gap-2 text-sm">
-                                <CheckCircle2 className="h-4 w-4 text-green-600 mt-0.5 flex-shrink-0" />
-                                <span className="text-gray-700">{criteria}</span>
-                              </li>
-                            ))}
-                          </ul>
-                        </CardContent>
-                      </Card>
-                    )}
-
-                    {assessmentResult.criteriaMetAndBroke.criteriaBroke?.length > 0 && (
-                      <Card className="border-orange-200 bg-orange-50">
-                        <CardHeader className="pb-3">
-                          <CardTitle className="text-base flex items-center gap-2 text-orange-800">
-                            <AlertCircle className="h-5 w-5" />
-                            Areas to Improve
-                          </CardTitle>
-                        </CardHeader>
-                        <CardContent>
-                          <ul className="space-y-2">
-                            {assessmentResult.criteriaMetAndBroke.criteriaBroke.map((criteria: string, index: number) => (
-                              <li key={index} className="flex items-start gap-2 text-sm">
-                                <AlertCircle className="h-4 w-4 text-orange-600 mt-0.5 flex-shrink-0" />
-                                <span className="text-gray-700">{criteria}</span>
-                              </li>
-                            ))}
-                          </ul>
-                        </CardContent>
-                      </Card>
-                    )}
-                  </div>
-                )}
-              </div>
-
-              {/* Sidebar - Right Side (1/3) */}
-              <div className="space-y-6">
-                {/* Instructor Review Status */}
-                {!isAdmin && (
-                  <Card className={hasManualReview ? "border-emerald-200 bg-emerald-50" : "border-amber-200 bg-amber-50"}>
-                    <CardHeader className="pb-3">
-                      <CardTitle className="text-sm font-semibold">Instructor Review</CardTitle>
-                    </CardHeader>
-                    <CardContent>
-                      {hasManualReview ? (
-                        <div className="space-y-2">
-                          <div className="flex items-center gap-2">
-                            <div className="h-8 w-8 rounded-full bg-emerald-100 flex items-center justify-center">
-                              <CheckCircle2 className="h-4 w-4 text-emerald-600" />
-                            </div>
-                            <div className="flex-1">
-                              <div className="text-sm font-semibold text-emerald-900">Complete</div>
-                              <div className="text-xs text-emerald-700">
-                                {(submission as any).reviewedAt && formatDistanceToNow(new Date((submission as any).reviewedAt), { addSuffix: true })}
-                              </div>
-                            </div>
-                          </div>
-                          <div className="pt-2 border-t border-emerald-200">
-                            <div className="text-xs text-gray-600">See feedback below ↓</div>
-                          </div>
-                        </div>
-                      ) : submission.userId ? (
-                        <div className="space-y-3">
-                          <div className="flex items-center gap-2">
-                            <div className="h-8 w-8 rounded-full bg-amber-100 flex items-center justify-center">
-                              <Clock className="h-4 w-4 text-amber-600 animate-pulse" />
-                            </div>
-                            <div className="flex-1">
-                              <div className="text-sm font-semibold text-amber-900">Pending Review</div>
-                              <div className="text-xs text-amber-700">In queue</div>
-                            </div>
-                          </div>
-                          <p className="text-xs text-gray-600 leading-relaxed">
-                            Your instructor will review this submission. You'll receive a notification when feedback is available.
-                          </p>
-                        </div>
-                      ) : (
-                        <div className="space-y-3">
-                          <div className="flex items-center gap-2 p-2 bg-blue-50 rounded-lg border border-blue-200">
-                            <AlertCircle className="h-4 w-4 text-blue-600 flex-shrink-0" />
-                            <p className="text-xs text-blue-900">
-                              Sign in to receive personalized instructor feedback
-                            </p>
-                          </div>
-                          <div className="flex flex-col gap-2">
-                            <Button size="sm" className="bg-teal-600 hover:bg-teal-700 w-full" asChild>
-                              <Link href={`/auth/signin?callbackUrl=${encodeURIComponent(`/results/${submissionId}`)}`}>
-                                <LogIn className="mr-2 h-3 w-3" />
-                                Log In
-                              </Link>
-                            </Button>
-                            <Button size="sm" variant="outline" className="w-full" asChild>
-                              <Link href="/auth/signup">Sign Up</Link>
-                            </Button>
-                          </div>
-                        </div>
-                      )}
-                    </CardContent>
-                  </Card>
-                )}
-
-                {/* Your Submission */}
-                <Card>
-                  <CardHeader className="pb-3">
-                    <CardTitle className="text-base">Your Submission</CardTitle>
-                  </CardHeader>
-                  <CardContent className="space-y-3 text-sm">
-                    {submission.submissionUrl && (
-                      <div>
-                        <div className="text-xs font-medium text-gray-600 mb-1">URL</div>
-                        <a
-                          href={submission.submissionUrl}
-                          target="_blank"
-                          rel="noopener noreferrer"
-                          className="flex items-center gap-2 text-blue-600 hover:underline break-all"
-                        >
-                          <ExternalLink className="h-3 w-3 flex-shrink-0" />
-                          <span className="text-xs">{submission.submissionUrl}</span>
-                        </a>
-                      </div>
-                    )}
-
-                    {submission.submissionContent && (
-                      <div>
-                        <div className="text-xs font-medium text-gray-600 mb-1">Content Preview</div>
-                        <div className="bg-gray-50 p-3 rounded text-xs max-h-32 overflow-y-auto">
-                          <pre className="whitespace-pre-wrap text-gray-700">
-                            {submission.submissionContent.substring(0, 200)}
-                            {submission.submissionContent.length > 200 && '...'}
-                          </pre>
-                        </div>
-                      </div>
-                    )}
-                  </CardContent>
-                </Card>
-
-                {/* Next Actions */}
-                <Card className="bg-teal-50 border-teal-200">
-                  <CardHeader className="pb-3">
-                    <CardTitle className="text-base">Next Steps</CardTitle>
-                  </CardHeader>
-                  <CardContent className="space-y-2">
-                    <Link
-                      href={`/submit?courseName=${encodeURIComponent(submission.question.course.name)}&assessmentNumber=${submission.question.questionNumber}`}
-                      className="block"
-                    >
-                      <Button variant="outline" size="sm" className="w-full justify-start">
-                        <TrendingUp className="mr-2 h-4 w-4" />
-                        Resubmit
-                      </Button>
-                    </Link>
-                    <Link href="/" className="block">
-                      <Button variant="outline" size="sm" className="w-full justify-start">
-                        <BookOpen className="mr-2 h-4 w-4" />
-                        Browse Courses
-                      </Button>
-                    </Link>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      className="w-full justify-start"
-                      onClick={shareResults}
-                    >
-                      <Share2 className="mr-2 h-4 w-4" />
-                      Share Results
-                    </Button>
-                  </CardContent>
-                </Card>
-              </div>
-            </div>
-          </div>
-        </div>
-      </main>
-    </div>
-  )
-}
+'use client'
+
+import { useEffect, useState } from 'react'
+import { getAnonymousSubmissionResult } from '@/lib/actions/submission-actions'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Sidebar } from '@/components/layout/Sidebar'
+import { useSession } from '@/lib/auth-client'
+import {
+  ArrowLeft,
+  Calendar,
+  Clock,
+  Github,
+  Globe,
+  FileText,
+  Image,
+  Upload,
+  CheckCircle2,
+  AlertCircle,
+  Copy,
+  ExternalLink,
+  Share2,
+  Loader2,
+  Edit,
+  User,
+  BookOpen,
+  TrendingUp,
+  LogIn,
+  FileEdit,
+  ListChecks,
+  Eye,
+  GitCompare,
+  GitCommitHorizontal,
+  History
+} from 'lucide-react'
+import Link from 'next/link'
+import { format, formatDistanceToNow } from 'date-fns'
+import type { CriterionScore } from '@/lib/services/llm-service'
+import type { ExemplarComparison, SectionAlignment } from '@/lib/services/similarity-service'
+import type { CommitHistoryStats } from '@/lib/services/github-service'
+import type { AssessmentJobStatus } from '@/lib/services/assessment-queue'
+
+// The status route's JSON body: dates arrive as ISO strings
+type PolledJobStatus = Omit<AssessmentJobStatus, 'runAfter' | 'completedAt'> & {
+  runAfter: string | null
+  completedAt: string | null
+}
+
+interface Props {
+  params: Promise<{
+    submissionId: string
+  }>
+}
+
+export default function ResultsPage({ params }: Props) {
+  const [submission, setSubmission] = useState<any>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [submissionId, setSubmissionId] = useState<string>('')
+  const [jobStatus, setJobStatus] = useState<PolledJobStatus | null>(null)
+  const { data: session } = useSession()
+
+  const isAdmin = (session?.user as any)?.role === 'SUPER_ADMIN' || (session?.user as any)?.role === 'COURSE_ADMIN'
+
+  useEffect(() => {
+    async function loadSubmission() {
+      try {
+        const resolvedParams = await params
+        setSubmissionId(resolvedParams.submissionId)
+        const result = await getAnonymousSubmissionResult(resolvedParams.submissionId)
+
+        if (!result) {
+          setError('Submission not found')
+          return
+        }
+
+        setSubmission(result)
+      } catch (err) {
+        setError('Failed to load submission')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadSubmission()
+  }, [params])
+
+  // Poll the queue while the AI assessment is still running, then reload the result
+  const isAssessing = submission?.status === 'PROCESSING'
+  useEffect(() => {
+    if (!isAssessing || !submissionId) return
+
+    const interval = setInterval(async () => {
+      try {
+        const response = await fetch(`/api/submissions/${submissionId}/status`, { cache: 'no-store' })
+        if (!response.ok) return
+        const status: PolledJobStatus = await response.json()
+        setJobStatus(status)
+
+        if (status.submissionStatus !== 'PROCESSING') {
+          const result = await getAnonymousSubmissionResult(submissionId)
+          if (result) setSubmission(result)
+        }
+      } catch (err) {
+        console.error('Failed to poll assessment status:', err)
+      }
+    }, 3000)
+
+    return () => clearInterval(interval)
+  }, [isAssessing, submissionId])
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 items-center justify-center">
+        <div className="text-center space-y-4">
+          <Loader2 className="h-8 w-8 animate-spin mx-auto text-teal-600" />
+          <p className="text-gray-600">Loading assessment results...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (error || !submission) {
+    return (
+      <div className="flex min-h-screen bg-gradient-to-br from-gray-50 to-gray-100">
+        <Sidebar />
+        <main className="flex-1 lg:pl-72 flex items-center justify-center">
+          <div className="text-center space-y-4">
+            <div className="text-6xl">🔍</div>
+            <h1 className="text-2xl font-bold text-gray-900">Submission Not Found</h1>
+            <p className="text-gray-600 max-w-md">
+              {error || 'The assessment result you\'re looking for could not be found or may have expired.'}
+            </p>
+            <Link href="/">
+              <Button className="bg-teal-600 hover:bg-teal-700 rounded-xl">
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                Back to Home
+              </Button>
+            </Link>
+          </div>
+        </main>
+      </div>
+    )
+  }
+
+  const getRemarkColor = (remark: string) => {
+    switch (remark) {
+      case 'Excellent': return 'bg-green-100 text-green-800 border-green-300'
+      case 'Good': return 'bg-blue-100 text-blue-800 border-blue-300'
+      case 'Can Improve': return 'bg-yellow-100 text-yellow-800 border-yellow-300'
+      case 'Needs Improvement': return 'bg-red-100 text-red-800 border-red-300'
+      default: return 'bg-gray-100 text-gray-800 border-gray-300'
+    }
+  }
+
+  const getRemarkIcon = (remark: string) => {
+    switch (remark) {
+      case 'Excellent': return <CheckCircle2 className="h-5 w-5 text-green-600" />
+      case 'Good': return <CheckCircle2 className="h-5 w-5 text-blue-600" />
+      case 'Can Improve': return <AlertCircle className="h-5 w-5 text-yellow-600" />
+      case 'Needs Improvement': return <AlertCircle className="h-5 w-5 text-red-600" />
+      default: return <AlertCircle className="h-5 w-5 text-gray-600" />
+    }
+  }
+
+  const getRemarkScore = (remark: string) => {
+    switch (remark) {
+      case 'Excellent': return 95
+      case 'Good': return 80
+      case 'Can Improve': return 65
+      case 'Needs Improvement': return 45
+      default: return 0
+    }
+  }
+
+  const getCriterionStatus = (score: CriterionScore) => {
+    if (score.kind === 'RED_FLAG') {
+      return score.status === 'met'
+        ? { label: 'Red flag present', className: 'bg-red-100 text-red-800 border-red-300' }
+        : { label: 'No red flag', className: 'bg-gray-100 text-gray-700 border-gray-300' }
+    }
+    if (score.kind === 'BONUS') {
+      return score.status === 'met'
+        ? { label: 'Bonus earned', className: 'bg-purple-100 text-purple-800 border-purple-300' }
+        : { label: 'No bonus', className: 'bg-gray-100 text-gray-700 border-gray-300' }
+    }
+    switch (score.status) {
+      case 'met': return { label: 'Met', className: 'bg-green-100 text-green-800 border-green-300' }
+      case 'partial': return { label: 'Partially met', className: 'bg-yellow-100 text-yellow-800 border-yellow-300' }
+      default: return { label: 'Not met', className: 'bg-red-100 text-red-800 border-red-300' }
+    }
+  }
+
+  const getCoverageStatus = (coverage: SectionAlignment['coverage']) => {
+    switch (coverage) {
+      case 'covered': return { label: 'Covered', className: 'bg-green-100 text-green-800 border-green-300' }
+      case 'partial': return { label: 'Partly covered', className: 'bg-yellow-100 text-yellow-800 border-yellow-300' }
+      default: return { label: 'Missing', className: 'bg-red-100 text-red-800 border-red-300' }
+    }
+  }
+
+  const getCriterionPoints = (score: CriterionScore) => {
+    if (score.kind === 'CRITERION') return `${score.points} / ${score.max_points}`
+    if (score.points > 0) return `+${score.points}`
+    return `${score.points}`
+  }
+
+  const getSubmissionTypeIcon = (type: string) => {
+    switch (type) {
+      case 'GITHUB_REPO': return <Github className="h-4 w-4" />
+      case 'WEBSITE': return <Globe className="h-4 w-4" />
+      case 'DOCUMENT': return <FileText className="h-4 w-4" />
+      case 'SCREENSHOT': return <Image className="h-4 w-4" />
+      case 'TEXT': return <FileText className="h-4 w-4" />
+      default: return <Upload className="h-4 w-4" />
+    }
+  }
+
+  const getSubmissionTypeLabel = (type: string) => {
+    switch (type) {
+      case 'GITHUB_REPO': return 'GitHub Repository'
+      case 'WEBSITE': return 'Website URL'
+      case 'DOCUMENT': return 'Document Upload'
+      case 'SCREENSHOT': return 'Screenshot Upload'
+      case 'TEXT': return 'Text Submission'
+      default: return 'File Upload'
+    }
+  }
+
+  const copyToClipboard = (text: string) => {
+    navigator.clipboard.writeText(text)
+  }
+
+  const shareResults = () => {
+    if (navigator.share) {
+      navigator.share({
+        title: 'Assessment Results',
+        text: `I got "${(submission.assessmentResult as any)?.remark}" on my assessment!`,
+        url: window.location.href
+      })
+    }
+  }
+
+  const assessmentResult = submission.assessmentResult as any
+  const hasManualReview = !!(submission as any).manualFeedback
+  const assessmentMode = submission.question?.assessmentMode || 'AI_ONLY'
+  const isPendingManualReview = submission.status === 'PENDING' || (assessmentMode === 'BOTH' && !hasManualReview)
+  // AI result escalated to an instructor; students only get it back after the review
+  const isEscalated = submission.needsManualReview && !submission.reviewedAt
+
+  return (
+    <div className="flex min-h-screen bg-gradient-to-br from-gray-50 to-gray-100">
+      <Sidebar />
+      <main className="flex-1 lg:pl-72">
+        <div className="px-6 py-8 md:px-12">
+          <div className="max-w-5xl mx-auto space-y-6">
+            {/* Header with Navigation */}
+            <div className="flex items-center justify-between">
+              <Link href="/my-submissions">
+                <Button variant="outline" size="sm" className="rounded-xl">
+                  <ArrowLeft className="mr-2 h-4 w-4" />
+                  My Submissions
+                </Button>
+              </Link>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="rounded-xl"
+                  onClick={() => copyToClipboard(window.location.href)}
+                >
+                  <Copy className="h-4 w-4 mr-2" />
+                  Copy Link
+                </Button>
+                {isAdmin && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="rounded-xl"
+                    asChild
+                  >
+                    <Link href={`/admin/manual-submissions/${submission.id}`}>
+                      <Edit className="mr-2 h-4 w-4" />
+                      {hasManualReview ? 'Edit Review' : 'Add Review'}
+                    </Link>
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            {/* Submission Info Header */}
+            <Card className="border-0 shadow-sm">
+              <CardContent className="pt-6">
+                <div className="flex items-start justify-between mb-4">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2 text-sm text-gray-600">
+                      <BookOpen className="h-4 w-4" />
+                      {submission.question.course.name}
+                    </div>
+                    <h1 className="text-2xl font-bold text-gray-900">
+                      Question {submission.question.questionNumber}: {submission.question.title}
+                    </h1>
+                    <div className="flex items-center gap-2 mt-2">
+                      {assessmentMode === 'MANUAL_ONLY' && (
+                        <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-300">
+                          <FileText className="h-3 w-3 mr-1" />
+                          Manual Review Only
+                        </Badge>
+                      )}
+                      {assessmentMode === 'BOTH' && (
+                        <Badge variant="outline" className="bg-purple-50 text-purple-700 border-purple-300">
+                          AI + Manual Review
+                        </Badge>
+                      )}
+                      {isPendingManualReview && !hasManualReview && (
+                        <Badge variant="outline" className="bg-amber-100 text-amber-800 border-amber-400">
+                          <Clock className="h-3 w-3 mr-1" />
+                          Awaiting Instructor Review
+                        </Badge>
+                      )}
+                    </div>
+                  </div>
+                  <Badge className={`${getRemarkColor(assessmentResult?.remark || '')} border`}>
+                    {assessmentResult?.remark || (isPendingManualReview ? 'Pending Review' : 'Processing')}
+                  </Badge>
+                </div>
+
+                <div className="flex items-center gap-6 text-sm text-gray-600">
+                  <div className="flex items-center gap-2">
+                    <Calendar className="h-4 w-4" />
+                    Submitted {formatDistanceToNow(new Date(submission.createdAt), { addSuffix: true })}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {getSubmissionTypeIcon(submission.question.submissionType)}
+                    {getSubmissionTypeLabel(submission.question.submissionType)}
+                  </div>
+                  {submission.user && (
+                    <div className="flex items-center gap-2">
+                      <User className="h-4 w-4" />
+                      {submission.user.name || submission.user.email}
+                    </div>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Two Column Layout */}
+            <div className="grid lg:grid-cols-3 gap-6">
+              {/* Main Content - Left Side (2/3) */}
+              <div className="lg:col-span-2 space-y-6">
+                {/* Manual Review Section - Show First for Manual Mode */}
+                {hasManualReview && (
+                  <Card className="border-0 shadow-lg">
+                    <CardHeader className="pb-4">
+                      <CardTitle className="flex items-center gap-2 text-lg">
+                        <FileEdit className="h-5 w-5 text-teal-600" />
+                        Instructor Review
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <div className="text-4xl font-bold text-teal-600">
+                            {(submission as any).manualScore || 'N/A'}
+                          </div>
+                          <div className="text-sm text-gray-600 mt-1">Review Score</div>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <CheckCircle2 className="h-5 w-5 text-teal-600" />
+                          <span className="text-lg font-semibold">Complete</span>
+                        </div>
+                      </div>
+
+                      {/* Timestamp */}
+                      <div className="text-sm text-gray-500">
+                        Reviewed {(submission as any).reviewedAt && formatDistanceToNow(new Date((submission as any).reviewedAt), { addSuffix: true })}
+                      </div>
+
+                      {/* Feedback */}
+                      {(submission as any).manualFeedback && (
+                        <div className="mt-4 p-4 bg-teal-50 border-l-4 border-teal-600 rounded-r">
+                          <p className="text-gray-800 leading-relaxed">
+                            {(submission as any).manualFeedback}
+                          </p>
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+                )}
+
+                {/* Pending Manual Review Notice */}
+                {!hasManualReview && (assessmentMode === 'MANUAL_ONLY' || assessmentMode === 'BOTH' || isEscalated) && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="text-base">Awaiting Instructor Review</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <p className="text-sm text-gray-600">
+                        Your submission is in the review queue. An instructor will review your work and provide detailed feedback soon.
+                        {assessmentMode === 'BOTH' && ' You can see the AI assessment below while you wait.'}
+                        {isEscalated && assessmentMode === 'AI_ONLY' && ' The AI was not confident enough in its assessment, so your result will be shown once an instructor has checked it.'}
+                      </p>
+                    </CardContent>
+                  </Card>
+                )}
+
+                {/* Queued / running AI assessment */}
+                {isAssessing && (
+                  <Card className="border-0 shadow-lg">
+                    <CardContent className="pt-6">
+                      <div className="flex items-center gap-3">
+                        <Loader2 className="h-5 w-5 animate-spin text-teal-600" />
+                        <div>
+                          <p className="font-semibold text-gray-900">
+                            {jobStatus?.jobStatus === 'PROCESSING' ? 'AI assessment in progress...' : 'Waiting for an assessor...'}
+                          </p>
+                          <p className="text-sm text-gray-600">
+                            This page updates automatically when your results are ready.
+                            {jobStatus && jobStatus.attempts > 1 && ` Retrying (attempt ${jobStatus.attempts} of ${jobStatus.maxAttempts}).`}
+                          </p>
+                        </div>
+                      </div>
+                    </CardContent>
+                  </Card>
+                )}
+
+                {/* AI assessment failed - no grade was recorded */}
+                {submission.status === 'FAILED' && (
+                  <Card className="border-red-200 bg-red-50">
+                    <CardContent className="pt-6">
+                      <div className="flex items-start gap-3">
+                        <AlertCircle className="h-5 w-5 text-red-600 mt-0.5 flex-shrink-0" />
+                        <div>
+                          <p className="font-semibold text-red-900">AI assessment could not be completed</p>
+                          <p className="text-sm text-red-800">
+                            No grade was recorded for this submission. This does not reflect the quality of your work; please submit again or ask your instructor to review it.
+                          </p>
+                          {submission.failureReason && (
+                            <p className="text-xs text-red-700 mt-2">Reason: {submission.failureReason}</p>
+                          )}
+                        </div>
+                      </div>
+                    </CardContent>
+                  </Card>
+                )}
+
+                {/* AI Assessment Score - Only show for AI modes */}
+                {assessmentResult?.remark && assessmentMode !== 'MANUAL_ONLY' && (
+                  <Card className="border-0 shadow-lg">
+                    <CardHeader className="pb-4">
+                      <CardTitle className="flex items-center gap-2 text-lg">
+                        <TrendingUp className="h-5 w-5 text-teal-600" />
+                        AI Assessment
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <div className="text-4xl font-bold text-teal-600">
+                            {getRemarkScore(assessmentResult.remark)}%
+                          </div>
+                          <div className="text-sm text-gray-600 mt-1">Assessment Score</div>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          {getRemarkIcon(assessmentResult.remark)}
+                          <span className="text-lg font-semibold">{assessmentResult.remark}</span>
+                        </div>
+                      </div>
+
+                      {/* Progress Bar */}
+                      <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+                        <div
+                          className="h-full bg-gradient-to-r from-teal-500 to-teal-600 transition-all duration-500"
+                          style={{ width: `${getRemarkScore(assessmentResult.remark)}%` }}
+                        />
+                      </div>
+
+                      {/* Detailed Feedback */}
+                      {assessmentResult.detailedFeedback?.summary && (
+                        <div className="mt-4 space-y-4">
+                          {/* Summary */}
+                          <div className="p-4 bg-teal-50 border-l-4 border-teal-600 rounded-r">
+                            <p className="text-gray-800 leading-relaxed">
+                              {assessmentResult.detailedFeedback.summary}
+                            </p>
+                          </div>
+
+                          {/* Score Breakdown */}
+                          {assessmentResult.scoreBreakdown && (
+                            <div className="grid grid-cols-2 gap-3">
+                              <div className="bg-gray-50 p-3 rounded-lg">
+                                <div className="text-xs text-gray-600 mb-1">Content Quality</div>
+                                <div className="flex items-center gap-2">
+                                  <div className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden">
+                                    <div
+                                      className="h-full bg-teal-600 transition-all"
+                                      style={{ width: `${assessmentResult.scoreBreakdown.contentQuality}%` }}
+                                    />
+                                  </div>
+                                  <span className="text-sm font-semibold text-gray-700">
+                                    {assessmentResult.scoreBreakdown.contentQuality}
+                                  </span>
+                                </div>
+                              </div>
+                              <div className="bg-gray-50 p-3 rounded-lg">
+                                <div className="text-xs text-gray-600 mb-1">Completeness</div>
+                                <div className="flex items-center gap-2">
+                                  <div className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden">
+                                    <div
+                                      className="h-full bg-blue-600 transition-all"
+                                      style={{ width: `${assessmentResult.scoreBreakdown.completeness}%` }}
+                                    />
+                                  </div>
+                                  <span className="text-sm font-semibold text-gray-700">
+                                    {assessmentResult.scoreBreakdown.completeness}
+                                  </span>
+                                </div>
+                              </div>
+                              <div className="bg-gray-50 p-3 rounded-lg">
+                                <div className="text-xs text-gray-600 mb-1">Technical Accuracy</div>
+                                <div className="flex items-center gap-2">
+                                  <div className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden">
+                                    <div
+                                      className="h-full bg-purple-600 transition-all"
+                                      style={{ width: `${assessmentResult.scoreBreakdown.technicalAccuracy}%` }}
+                                    />
+                                  </div>
+                                  <span className="text-sm font-semibold text-gray-700">
+                                    {assessmentResult.scoreBreakdown.technicalAccuracy}
+                                  </span>
+                                </div>
+                              </div>
+                              <div className="bg-gray-50 p-3 rounded-lg">
+                                <div className="text-xs text-gray-600 mb-1">Structure</div>
+                                <div className="flex items-center gap-2">
+                                  <div className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden">
+                                    <div
+                                      className="h-full bg-indigo-600 transition-all"
+                                      style={{ width: `${assessmentResult.scoreBreakdown.structure}%` }}
+                                    />
+                                  </div>
+                                  <span className="text-sm font-semibold text-gray-700">
+                                    {assessmentResult.scoreBreakdown.structure}
+                                  </span>
+                                </div>
+                              </div>
+                            </div>
+                          )}
+
+                          {/* Comparison to Example */}
+                          {assessmentResult.detailedFeedback.comparisonToExample && (
+                            <div className="p-4 bg-purple-50 border-l-4 border-purple-600 rounded-r">
+                              <div className="text-xs font-semibold text-purple-900 mb-2">
+                                Comparison to Perfect Example
+                              </div>
+                              <p className="text-sm text-gray-700 leading-relaxed">
+                                {assessmentResult.detailedFeedback.comparisonToExample}
+                              </p>
+                            </div>
+                          )}
+                        </div>
+                      )}
+
+                      {/* Fallback to old feedback if no detailed feedback */}
+                      {!assessmentResult.detailedFeedback?.summary && assessmentResult.feedback && (
+                        <div className="mt-4 p-4 bg-teal-50 border-l-4 border-teal-600 rounded-r">
+                          <p className="text-gray-800 leading-relaxed">
+                            {assessmentResult.feedback}
+                          </p>
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+                )}
+
+                {/* Criterion-by-criterion rubric scores */}
+                {assessmentResult?.criterion_scores?.length > 0 && (
+                  <Card className="border-0 shadow-lg">
+                    <CardHeader className="pb-4">
+                      <CardTitle className="flex items-center justify-between gap-2 text-lg">
+                        <span className="flex items-center gap-2">
+                          <ListChecks className="h-5 w-5 text-teal-600" />
+                          Rubric Scores
+                        </span>
+                        {typeof assessmentResult.total_points === 'number' && (
+                          <span className="text-sm font-medium text-gray-600">
+                            {assessmentResult.total_points} / {assessmentResult.max_points} points
+                          </span>
+                        )}
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead className="w-10">#</TableHead>
+                            <TableHead>Criterion</TableHead>
+                            <TableHead>Result</TableHead>
+                            <TableHead className="text-right">Points</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {assessmentResult.criterion_scores.map((score: CriterionScore) => {
+                            const status = getCriterionStatus(score)
+                            return (
+                              <TableRow key={score.index}>
+                                <TableCell className="align-top text-gray-500">{score.index}</TableCell>
+                                <TableCell className="align-top whitespace-normal">
+                                  <div className="font-medium text-gray-900">{score.criterion}</div>
+                                  {score.level && (
+                                    <div className="text-xs text-gray-500 mt-0.5">{score.level}</div>
+                                  )}
+                                  {score.evidence && (
+                                    <blockquote className="mt-2 border-l-2 border-gray-300 pl-3 text-xs italic text-gray-600">
+                                      &ldquo;{score.evidence}&rdquo;
+                                    </blockquote>
+                                  )}
+                                  {score.justification && (
+                                    <p className="mt-1 text-xs text-gray-600">{score.justification}</p>
+                                  )}
+                                </TableCell>
+                                <TableCell className="align-top">
+                                  <Badge className={`${status.className} border whitespace-nowrap`}>{status.label}</Badge>
+                                </TableCell>
+                                <TableCell className="align-top text-right font-medium whitespace-nowrap">
+                                  {getCriterionPoints(score)}
+                                </TableCell>
+                              </TableRow>
+                            )
+                          })}
+                        </TableBody>
+                      </Table>
+                    </CardContent>
+                  </Card>
+                )}
+
+                {/* Visible elements the model cited for each criterion, when it saw the screenshot */}
+                {assessmentResult?.visual_evidence?.length > 0 && (
+                  <Card className="border-0 shadow-lg">
+                    <CardHeader className="pb-4">
+                      <CardTitle className="flex items-center gap-2 text-lg">
+                        <Eye className="h-5 w-5 text-indigo-600" />
+                        What the Assessor Saw
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="space-y-4">
+                        {assessmentResult.visual_evidence.map((entry: { criterion: string; elements: string[] }, index: number) => (
+                          <div key={index}>
+                            <div className="font-medium text-sm text-gray-900">{entry.criterion}</div>
+                            <ul className="mt-1 space-y-1 list-disc pl-5">
+                              {entry.elements.map((element, elementIndex) => (
+                                <li key={elementIndex} className="text-sm text-gray-600">{element}</li>
+                              ))}
+                            </ul>
+                          </div>
+                        ))}
+                      </div>
+                    </CardContent>
+                  </Card>
+                )}
+
+                {/* How each section of the base example lines up with the submission */}
+                {assessmentResult?.metadata?.exemplarComparison?.alignments?.length > 0 && (() => {
+                  const comparison: ExemplarComparison = assessmentResult.metadata.exemplarComparison
+                  return (
+                    <Card className="border-0 shadow-lg">
+                      <CardHeader className="pb-4">
+                        <CardTitle className="flex items-center justify-between gap-2 text-lg">
+                          <span className="flex items-center gap-2">
+                            <GitCompare className="h-5 w-5 text-sky-600" />
+                            Comparison with the Example
+                          </span>
+                          <span className="text-sm font-medium text-gray-600">
+                            {Math.round(comparison.overallSimilarity * 100)}% similar
+                          </span>
+                        </CardTitle>
+                      </CardHeader>
+                      <CardContent>
+                        <div className="space-y-3">
+                          {comparison.alignments.map((alignment, index) => {
+                            const status = getCoverageStatus(alignment.coverage)
+                            return (
+                              <div key={index} className="flex items-start justify-between gap-3">
+                                <div>
+                                  <div className="font-medium text-sm text-gray-900">{alignment.exemplarSection}</div>
+                                  {alignment.submissionSection && alignment.coverage !== 'missing' && (
+                                    <div className="text-xs text-gray-500 mt-0.5">
+                                      Matched with your &ldquo;{alignment.submissionSection}&rdquo; section ({Math.round(alignment.similarity * 100)}%)
+                                    </div>
+                                  )}
+                                  {alignment.missingTerms.length > 0 && (
+                                    <p className="mt-1 text-xs text-gray-600">
+                                      {alignment.coverage === 'missing'
+                                        ? `Your submission does not mention: ${alignment.missingTerms.join(', ')}`
+                                        : `Your ${alignment.submissionSection} section is missing: ${alignment.missingTerms.join(', ')}`}
+                                    </p>
+                                  )}
+                                </div>
+                                <Badge className={`${status.className} border whitespace-nowrap`}>{status.label}</Badge>
+                              </div>
+                            )
+                          })}
+                        </div>
+                        {comparison.extraSections.length > 0 && (
+                          <p className="mt-4 text-xs text-gray-500">
+                            Sections not in the example: {comparison.extraSections.join(', ')}
+                          </p>
+                        )}
+                      </CardContent>
+                    </Card>
+                  )
+                })()}
+
+                {/* How the repository was built, from its commit history */}
+                {assessmentResult?.metadata?.github?.process?.commitCount > 0 && (() => {
+                  const history: CommitHistoryStats = assessmentResult.metadata.github.process
+                  const stats = [
+                    { label: 'Commits', value: `${history.commitCount}${history.historyTruncated ? '+' : ''}` },
+                    { label: 'Active Days', value: history.activeDays },
+                    { label: 'Span', value: `${history.spanDays} days` },
+                    { label: 'Contributors', value: history.contributors.length },
+                  ]
+                  return (
+                    <Card className="border-0 shadow-lg">
+                      <CardHeader className="pb-4">
+                        <CardTitle className="flex items-center gap-2 text-lg">
+                          <History className="h-5 w-5 text-indigo-600" />
+                          Process
+                        </CardTitle>
+                      </CardHeader>
+                      <CardContent className="space-y-4">
+                        <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+                          {stats.map(stat => (
+                            <div key={stat.label} className="rounded-lg bg-gray-50 p-3">
+                              <div className="text-xs text-gray-500">{stat.label}</div>
+                              <div className="text-lg font-semibold text-gray-900">{stat.value}</div>
+                            </div>
+                          ))}
+                        </div>
+
+                        {history.firstCommitAt && history.lastCommitAt && (
+                          <p className="text-sm text-gray-600">
+                            First commit {format(new Date(history.firstCommitAt), 'PPp')}, last commit {format(new Date(history.lastCommitAt), 'PPp')}
+                          </p>
+                        )}
+                        <p className="text-xs text-gray-500">
+                          Commit dates are the author dates recorded in git. The student sets these (for example with git commit --date), so they are not proof of when the work was done.
+                        </p>
+
+                        <div className="text-sm">
+                          <div className="font-medium text-gray-900">Commit Messages</div>
+                          <p className="text-gray-600">
+                            {history.messages.meaningful} meaningful, {history.messages.lowQuality} low quality
+                            {history.messages.merges > 0 && `, ${history.messages.merges} merges`}
+                          </p>
+                          {history.messages.lowQualityExamples.length > 0 && (
+                            <p className="mt-1 text-xs text-gray-500">
+                              Say what changed and why instead of: {history.messages.lowQualityExamples.map(m => `"${m}"`).join(', ')}
+                            </p>
+                          )}
+                        </div>
+
+                        {history.contributors.length > 1 && (
+                          <div className="text-sm">
+                            <div className="font-medium text-gray-900">Contributors</div>
+                            <p className="text-gray-600">
+                              {history.contributors.map(c => `${c.name} (${c.commits})`).join(', ')}
+                            </p>
+                          </div>
+                        )}
+
+                        {history.deadline && (
+                          <div className="flex items-center justify-between gap-3 text-sm">
+                            <span className="text-gray-600">
+                              Due {format(new Date(history.deadline), 'PPp')}
+                              {history.lastCommitBeforeDeadline && `, last commit dated before it ${format(new Date(history.lastCommitBeforeDeadline), 'PPp')}`}
+                            </span>
+                            {history.commitsAfterDeadline > 0 && (
+                              <Badge className="bg-red-100 text-red-800 border-red-300 border whitespace-nowrap">
+                                {history.commitsAfterDeadline} dated after deadline
+                              </Badge>
+                            )}
+                          </div>
+                        )}
+
+                        {history.burstBeforeDeadline && (
+                          <div className="flex items-start gap-2 rounded-lg bg-amber-50 p-3 text-sm text-amber-800">
+                            <AlertCircle className="mt-0.5 h-4 w-4 flex-shrink-0" />
+                            <span>
+                              {Math.round(history.finalWindowShare * 100)}% of commits are dated in the final 48 hours
+                              {history.deadline ? ' before the deadline' : ''}. Spreading work over time makes problems easier to catch early.
+                            </span>
+                          </div>
+                        )}
+                      </CardContent>
+                    </Card>
+                  )
+                })()}
+
+                {/* Detailed Strengths, Weaknesses, and Recommendations */}
+                {assessmentResult?.detailedFeedback && (
+                  <div className="space-y-4">
+                    {/* Strengths */}
+                    {assessmentResult.detailedFeedback.strengths?.length > 0 && (
+                      <Card className="border-green-200 bg-gradient-to-br from-green-50 to-emerald-50">
+                        <CardHeader className="pb-3">
+                          <CardTitle className="text-base flex items-center gap-2 text-green-800">
+                            <CheckCircle2 className="h-5 w-5" />
+                            What You Did Well
+                          </CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                          <ul className="space-y-3">
+                            {assessmentResult.detailedFeedback.strengths.map((strength: string, index: number) => (
+                              <li key={index} className="flex items-start gap-3">
+                                <div className="mt-0.5 flex-shrink-0">
+                                  <div className="h-6 w-6 rounded-full bg-green-100 flex items-center justify-center">
+                                    <CheckCircle2 className="h-4 w-4 text-green-600" />
+                                  </div>
+                                </div>
+                                <span className="text-sm text-gray-700 leading-relaxed">{strength}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        </CardContent>
+                      </Card>
+                    )}
+
+                    {/* Weaknesses */}
+                    {assessmentResult.detailedFeedback.weaknesses?.length > 0 && (
+                      <Card className="border-orange-200 bg-gradient-to-br from-orange-50 to-amber-50">
+                        <CardHeader className="pb-3">
+                          <CardTitle className="text-base flex items-center gap-2 text-orange-800">
+                            <AlertCircle className="h-5 w-5" />
+                            Areas That Need Work
+                          </CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                          <ul className="space-y-3">
+                            {assessmentResult.detailedFeedback.weaknesses.map((weakness: string, index: number) => (
+                              <li key={index} className="flex items-start gap-3">
+                                <div className="mt-0.5 flex-shrink-0">
+                                  <div className="h-6 w-6 rounded-full bg-orange-100 flex items-center justify-center">
+                                    <AlertCircle className="h-4 w-4 text-orange-600" />
+                                  </div>
+                                </div>
+                                <span className="text-sm text-gray-700 leading-relaxed">{weakness}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        </CardContent>
+                      </Card>
+                    )}
+
+                    {/* Recommendations */}
+                    {assessmentResult.detailedFeedback.recommendations?.length > 0 && (
+                      <Card className="border-blue-200 bg-gradient-to-br from-blue-50 to-cyan-50">
+                        <CardHeader className="pb-3">
+                          <CardTitle className="text-base flex items-center gap-2 text-blue-800">
+                            <TrendingUp className="h-5 w-5" />
+                            How to Improve
+                          </CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                          <ul className="space-y-3">
+                            {assessmentResult.detailedFeedback.recommendations.map((recommendation: string, index: number) => (
+                              <li key={index} className="flex items-start gap-3">
+                                <div className="mt-0.5 flex-shrink-0">
+                                  <div className="h-6 w-6 rounded-full bg-blue-100 flex items-center justify-center">
+                                    <span className="text-xs font-bold text-blue-600">{index + 1}</span>
+                                  </div>
+                                </div>
+                                <span className="text-sm text-gray-700 leading-relaxed">{recommendation}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        </CardContent>
+                      </Card>
+                    )}
+                  </div>
+                )}
+
+                {/* Fallback to old criteria format if no detailed feedback */}
+                {!assessmentResult?.detailedFeedback && assessmentResult?.criteriaMetAndBroke && (
+                  <div className="grid md:grid-cols-2 gap-4">
+                    {assessmentResult.criteriaMetAndBroke.criteriaMet?.length > 0 && (
+                      <Card className="border-green-200 bg-green-50">
+                        <CardHeader className="pb-3">
+                          <CardTitle className="text-base flex items-center gap-2 text-green-800">
+                            <CheckCircle2 className="h-5 w-5" />
+                            Strengths
+                          </CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                          <ul className="space-y-2">
+                            {assessmentResult.criteriaMetAndBroke.criteriaMet.map((criteria: string, index: number) => (
+                              <li key={index} className="flex items-start gap-2 text-sm">
+                                <CheckCircle2 className="h-4 w-4 text-green-600 mt-0.5 flex-shrink-0" />
+                                <span className="text-gray-700">{criteria}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        </CardContent>
+                      </Card>
+                    )}
+
+                    {assessmentResult.criteriaMetAndBroke.criteriaBroke?.length > 0 && (
+                      <Card className="border-orange-200 bg-orange-50">
+                        <CardHeader className="pb-3">
+                          <CardTitle className="text-base flex items-center gap-2 text-orange-800">
+                            <AlertCircle className="h-5 w-5" />
+                            Areas to Improve
+                          </CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                          <ul className="space-y-2">
+                            {assessmentResult.criteriaMetAndBroke.criteriaBroke.map((criteria: string, index: number) => (
+                              <li key={index} className="flex items-start gap-2 text-sm">
+                                <AlertCircle className="h-4 w-4 text-orange-600 mt-0.5 flex-shrink-0" />
+                                <span className="text-gray-700">{criteria}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        </CardContent>
+                      </Card>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              {/* Sidebar - Right Side (1/3) */}
+              <div className="space-y-6">
+                {/* Instructor Review Status */}
+                {!isAdmin && (
+                  <Card className={hasManualReview ? "border-emerald-200 bg-emerald-50" : "border-amber-200 bg-amber-50"}>
+                    <CardHeader className="pb-3">
+                      <CardTitle className="text-sm font-semibold">Instructor Review</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      {hasManualReview ? (
+                        <div className="space-y-2">
+                          <div className="flex items-center gap-2">
+                            <div className="h-8 w-8 rounded-full bg-emerald-100 flex items-center justify-center">
+                              <CheckCircle2 className="h-4 w-4 text-emerald-600" />
+                            </div>
+                            <div className="flex-1">
+                              <div className="text-sm font-semibold text-emerald-900">Complete</div>
+                              <div className="text-xs text-emerald-700">
+                                {(submission as any).reviewedAt && formatDistanceToNow(new Date((submission as any).reviewedAt), { addSuffix: true })}
+                              </div>
+                            </div>
+                          </div>
+                          <div className="pt-2 border-t border-emerald-200">
+                            <div className="text-xs text-gray-600">See feedback below ↓</div>
+                          </div>
+                        </div>
+                      ) : submission.userId ? (
+                        <div className="space-y-3">
+                          <div className="flex items-center gap-2">
+                            <div className="h-8 w-8 rounded-full bg-amber-100 flex items-center justify-center">
+                              <Clock className="h-4 w-4 text-amber-600 animate-pulse" />
+                            </div>
+                            <div className="flex-1">
+                              <div className="text-sm font-semibold text-amber-900">Pending Review</div>
+                              <div className="text-xs text-amber-700">In queue</div>
+                            </div>
+                          </div>
+                          <p className="text-xs text-gray-600 leading-relaxed">
+                            Your instructor will review this submission. You'll receive a notification when feedback is available.
+                          </p>
+                        </div>
+                      ) : (
+                        <div className="space-y-3">
+                          <div className="flex items-center gap-2 p-2 bg-blue-50 rounded-lg border border-blue-200">
+                            <AlertCircle className="h-4 w-4 text-blue-600 flex-shrink-0" />
+                            <p className="text-xs text-blue-900">
+                              Sign in to receive personalized instructor feedback
+                            </p>
+                          </div>
+                          <div className="flex flex-col gap-2">
+                            <Button size="sm" className="bg-teal-600 hover:bg-teal-700 w-full" asChild>
+                              <Link href={`/auth/signin?callbackUrl=${encodeURIComponent(`/results/${submissionId}`)}`}>
+                                <LogIn className="mr-2 h-3 w-3" />
+                                Log In
+                              </Link>
+                            </Button>
+                            <Button size="sm" variant="outline" className="w-full" asChild>
+                              <Link href="/auth/signup">Sign Up</Link>
+                            </Button>
+                          </div>
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+                )}
+
+                {/* Your Submission */}
+                <Card>
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-base">Your Submission</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-3 text-sm">
+                    {submission.submissionUrl && (
+                      <div>
+                        <div className="text-xs font-medium text-gray-600 mb-1">URL</div>
+                        <a
+                          href={submission.submissionUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="flex items-center gap-2 text-blue-600 hover:underline break-all"
+                        >
+                          <ExternalLink className="h-3 w-3 flex-shrink-0" />
+                          <span className="text-xs">{submission.submissionUrl}</span>
+                        </a>
+                      </div>
+                    )}
+
+                    {submission.commitSha && (
+                      <div>
+                        <div className="text-xs font-medium text-gray-600 mb-1">Graded Commit</div>
+                        <div className="flex items-center gap-2 text-xs">
+                          <GitCommitHorizontal className="h-3 w-3 flex-shrink-0 text-gray-500" />
+                          {assessmentResult?.metadata?.github?.commit?.url ? (
+                            <a
+                              href={assessmentResult.metadata.github.commit.url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="font-mono text-blue-600 hover:underline"
+                            >
+                              {submission.commitSha.slice(0, 7)}
+                            </a>
+                          ) : (
+                            <span className="font-mono">{submission.commitSha.slice(0, 7)}</span>
+                          )}
+                          {submission.commitRef && <span className="text-gray-500">on {submission.commitRef}</span>}
+                        </div>
+                        {assessmentResult?.metadata?.github?.commit?.message && (
+                          <p className="mt-1 text-xs text-gray-500">{assessmentResult.metadata.github.commit.message}</p>
+                        )}
+                        <p className="mt-1 text-xs text-gray-400">Commits pushed after you submitted are not included</p>
+                      </div>
+                    )}
+
+                    {submission.submissionContent && (
+                      <div>
+                        <div className="text-xs font-medium text-gray-600 mb-1">Content Preview</div>
+                        <div className="bg-gray-50 p-3 rounded text-xs max-h-32 overflow-y-auto">
+                          <pre className="whitespace-pre-wrap text-gray-700">
+                            {submission.submissionContent.substring(0, 200)}
+                            {submission.submissionContent.length > 200 && '...'}
+                          </pre>
+                        </div>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+
+                {/* Next Actions */}
+                <Card className="bg-teal-50 border-teal-200">
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-base">Next Steps</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-2">
+                    <Link
+                      href={`/submit?courseName=${encodeURIComponent(submission.question.course.name)}&assessmentNumber=${submission.question.questionNumber}`}
+                      className="block"
+                    >
+                      <Button variant="outline" size="sm" className="w-full justify-start">
+                        <TrendingUp className="mr-2 h-4 w-4" />
+                        Resubmit
+                      </Button>
+                    </Link>
+                    <Link href="/" className="block">
+                      <Button variant="outline" size="sm" className="w-full justify-start">
+                        <BookOpen className="mr-2 h-4 w-4" />
+                        Browse Courses
+                      </Button>
+                    </Link>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="w-full justify-start"
+                      onClick={shareResults}
+                    >
+                      <Share2 className="mr-2 h-4 w-4" />
+                      Share Results
+                    </Button>
+                  </CardContent>
+                </Card>
+              </div>
+            </div>
+          </div>
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -13,6 +13,7 @@ import { useSession } from '@/lib/auth-client';
 import Link from 'next/link';
 import { submitAssessment } from '@/lib/actions/submission-actions';
 import { validateGitHubUrl } from '@/lib/utils/github-validation';
+import { DOCUMENT_ACCEPT } from '@/lib/types/document-formats';
 
 interface Question {
   id: string;
@@ -192,6 +193,7 @@ onChange={(e) => handleGitHubUrlChange(e.target.value)}
               <h4 className="font-medium text-blue-900 mb-2">GitHub Repository Requirements:</h4>
               <ul className="text-sm text-blue-800 space-y-1">
                 <li>• Repository must be public and accessible</li>
+                <li>• The latest commit when you submit is graded; link to a branch (/tree/branch) or commit (/commit/sha) to submit that version instead</li>
                 <li>• Include a README.md with project description</li>
                 <li>• Code should be well-organized and documented</li>
                 <li>• Follow the assignment requirements specified above</li>
@@ -237,7 +239,7 @@ onChange={(e) => handleGitHubUrlChange(e.target.value)}
                   <Input
                     id="document-file"
                     type="file"
-                    accept=".docx,.txt"
+                    accept={DOCUMENT_ACCEPT}
                     onChange={async (e) => {
                       const file = e.target.files?.[0];
                       if (file) {
@@ -255,7 +257,12 @@ onChange={(e) => handleGitHubUrlChange(e.target.value)}
                           if (result.success) {
                             // Set the file URL as submission content
                             setSubmissionContent(result.data.fileUrl);
-                            alert(`Document uploaded successfully! ${result.data.metadata.wordCount} words extracted.`);
+                            const { wordCount, pageCount, fileType, emptyPages, formatSummary } = result.data.metadata;
+                            const pageNote = emptyPages?.length
+                              ? ` Pages ${emptyPages.join(', ')} had no readable text and will not be assessed.`
+                              : '';
+                            const source = formatSummary ? ` (${formatSummary})` : fileType === 'application/pdf' ? ` from ${pageCount} pages` : '';
+                            alert(`Document uploaded successfully! ${wordCount} words extracted${source}.${pageNote}`);
                           } else {
                             setError(result.error || 'Upload failed');
                           }
@@ -269,7 +276,7 @@ onChange={(e) => handleGitHubUrlChange(e.target.value)}
                     className="cursor-pointer"
                   />
                   <p className="text-sm text-gray-500 mt-2">
-                    Upload DOCX or TXT (Max 10MB)
+                    Upload PDF, DOCX, ODT, TXT, MD, PPTX, XLSX, CSV or IPYNB (Max 10MB; see limits below)
                   </p>
                 </div>
 
@@ -301,8 +308,8 @@ onChange={(e) => handleGitHubUrlChange(e.target.value)}
             <div className="bg-yellow-50 p-4 rounded-lg">
               <h4 className="font-medium text-yellow-900 mb-2">Document Requirements:</h4>
               <ul className="text-sm text-yellow-800 space-y-1">
-                <li>• Supported formats: DOCX, TXT</li>
-                <li>• Maximum file size: 10MB</li>
+                <li>• Supported formats: PDF (with selectable text), DOCX, ODT, TXT, Markdown, PowerPoint (PPTX), Excel (XLSX), CSV, Jupyter notebooks (IPYNB)</li>
+                <li>• Maximum file size: 10MB (PPTX 25MB, IPYNB 20MB, CSV 5MB, Markdown 2MB)</li>
                 <li>• Document should be well-structured and formatted</li>
                 <li>• Include all required sections as specified</li>
                 <li>• Use proper grammar and professional language</li>
@@ -12,6 +12,7 @@ import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Loader2, Github, Globe, FileText, Image, Upload, CheckCircle, XCircle, ArrowLeft, Info, LogIn } from 'lucide-react'
 import { getCourseByName } from '@/lib/actions/lookup-actions'
 import { submitAssessment } from '@/lib/actions/submission-actions'
+import { DOCUMENT_ACCEPT, documentFormatForFilename, formatFileSize } from '@/lib/types/document-formats'
 import { Sidebar } from '@/components/layout/Sidebar'
 import { useSession } from '@/lib/auth-client'
 import Link from 'next/link'
@@ -114,15 +115,16 @@ function SubmitPageContent() {
         if (!file) {
           errors.push('File upload is required')
         } else {
-          const maxSize = 10 * 1024 * 1024 // 10MB
+          // Documents have per-format limits; screenshots share one
+          const documentFormat = question.submissionType === 'DOCUMENT' ? documentFormatForFilename(file.name) : undefined
+          const maxSize = documentFormat?.maxFileSize ?? 10 * 1024 * 1024 // 10MB
           if (file.size > maxSize) {
-            errors.push('File size must be less than 10MB')
+            errors.push(`File size must be less than ${formatFileSize(maxSize)}`)
           }
           
           if (question.submissionType === 'DOCUMENT') {
-            const allowedTypes = ['application/vnd.openxmlformats-officedocument.wordprocessingml.document', 'text/plain']
-            if (!allowedTypes.includes(file.type)) {
-              errors.push('Document must be Word document (.docx) or text file (.txt)')
+            if (!documentFormat) {
+              errors.push('Document must be a PDF, Word (.docx), OpenDocument (.odt), text (.txt/.md), slide deck (.pptx), spreadsheet (.xlsx/.csv) or Jupyter notebook (.ipynb)')
             }
           } else if (question.submissionType === 'SCREENSHOT') {
             const allowedTypes = ['image/jpeg', 'image/png', 'image/gif', 'image/webp']
@@ -191,7 +193,7 @@ function SubmitPageContent() {
       )
 
       if (result.success && result.submissionId) {
-        setSuccess('Assessment completed successfully!')
+        setSuccess('Submission received! Your assessment is being processed.')
         setSubmissionId(result.submissionId)
         // Redirect to results page after 2 seconds
         setTimeout(() => {
@@ -249,6 +251,9 @@ function SubmitPageContent() {
               <Info className="h-4 w-4 inline mr-1" />
               Make sure your repository is public or provide access to our assessment bot
             </div>
+            <div className="text-sm text-muted-foreground">
+              The latest commit when you submit is graded. To submit another version, link to its branch (/tree/branch) or commit (/commit/sha).
+            </div>
           </div>
         )
 
@@ -296,12 +301,12 @@ function SubmitPageContent() {
             <Input
               id="document-file"
               type="file"
-              accept=".docx,.txt"
+              accept={DOCUMENT_ACCEPT}
               onChange={(e) => setFile(e.target.files?.[0] || null)}
             />
             <div className="text-sm text-muted-foreground">
               <Info className="h-4 w-4 inline mr-1" />
-              Accepted formats: Word documents (.docx) or text files (.txt) - max 10MB
+              Accepted formats: PDF (with selectable text), Word (.docx), OpenDocument (.odt), text (.txt, .md), slides (.pptx), spreadsheets (.xlsx, .csv) and Jupyter notebooks (.ipynb). Max size: 25MB for slides, 20MB for notebooks, 5MB for CSV, 2MB for Markdown, 10MB otherwise
             </div>
           </div>
         )
@@ -15,13 +15,15 @@ import {
   Search,
   LogOut,
   ArrowLeft,
-  ClipboardCheck
+  ClipboardCheck,
+  Fingerprint
 } from 'lucide-react'
 
 const navigation = [
   { name: 'Dashboard', href: '/admin', icon: Home },
   { name: 'Courses', href: '/admin/courses', icon: BookOpen },
   { name: 'Submissions', href: '/admin/submissions', icon: ClipboardCheck },
+  { name: 'Similarity', href: '/admin/similarity', icon: Fingerprint },
   { name: 'Analytics', href: '/admin/analytics', icon: BarChart3 },
 ]
 
@@ -32,6 +34,7 @@ const quickLinks = [
 const adminNavigation = [
   { name: 'Users', href: '/admin/users', icon: Users },
   { name: 'Diagnostics', href: '/admin/diagnostics', icon: Search },
+  { name: 'Prompts', href: '/admin/prompts', icon: FileText },
   { name: 'Settings', href: '/admin/settings', icon: Settings },
 ]
 
@@ -0,0 +1,195 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { getSubmissionAssessmentRuns } from '@/lib/actions/admin-submissions.actions'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Loader2, History } from 'lucide-react'
+import { format } from 'date-fns'
+
+interface AssessmentRun {
+  id: string
+  invocationId: string
+  attempt: number
+  promptVersion: string
+  provider: string
+  model: string
+  temperature: number
+  maxTokens: number | null
+  systemPrompt: string | null
+  prompt: string
+  rawResponse: string | null
+  outcome: 'ACCEPTED' | 'REJECTED' | 'ERROR'
+  parseErrors: string[]
+  error: string | null
+  latencyMs: number
+  totalTokens: number | null
+  createdAt: Date
+}
+
+const OUTCOME_VARIANTS: Record<AssessmentRun['outcome'], 'default' | 'secondary' | 'destructive'> = {
+  ACCEPTED: 'default',
+  REJECTED: 'secondary',
+  ERROR: 'destructive',
+}
+
+// Two runs can be compared side by side
+const MAX_COMPARED_RUNS = 2
+
+function RunDetails({ run }: { run: AssessmentRun }) {
+  return (
+    <div className="space-y-3 min-w-0">
+      <div className="flex items-center gap-2 flex-wrap">
+        <Badge variant={OUTCOME_VARIANTS[run.outcome]}>{run.outcome}</Badge>
+        <span className="text-sm text-muted-foreground">
+          Attempt {run.attempt} · {run.provider}/{run.model} · {run.promptVersion}
+        </span>
+      </div>
+
+      {(run.error || run.parseErrors.length > 0) && (
+        <ul className="text-sm text-red-600 list-disc pl-5 space-y-1">
+          {run.error && <li>{run.error}</li>}
+          {run.parseErrors.map((problem, index) => (
+            <li key={index}>{problem}</li>
+          ))}
+        </ul>
+      )}
+
+      {run.systemPrompt && (
+        <div>
+          <p className="text-xs font-medium text-muted-foreground mb-1">System prompt</p>
+          <pre className="text-xs bg-muted p-3 rounded-md max-h-48 overflow-auto whitespace-pre-wrap break-words">
+            {run.systemPrompt}
+          </pre>
+        </div>
+      )}
+
+      <div>
+        <p className="text-xs font-medium text-muted-foreground mb-1">Prompt</p>
+        <pre className="text-xs bg-muted p-3 rounded-md max-h-96 overflow-auto whitespace-pre-wrap break-words">
+          {run.prompt}
+        </pre>
+      </div>
+
+      <div>
+        <p className="text-xs font-medium text-muted-foreground mb-1">Raw response</p>
+        <pre className="text-xs bg-muted p-3 rounded-md max-h-96 overflow-auto whitespace-pre-wrap break-words">
+          {run.rawResponse ?? '(no response)'}
+        </pre>
+      </div>
+    </div>
+  )
+}
+
+export function AssessmentRunsPanel({ submissionId }: { submissionId: string }) {
+  const [runs, setRuns] = useState<AssessmentRun[]>([])
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadRuns = async () => {
+      try {
+        const result = await getSubmissionAssessmentRuns(submissionId)
+        if (result.success) {
+          const loaded = result.data as AssessmentRun[]
+          setRuns(loaded)
+          // Start with the most recent run open
+          setSelectedIds(loaded.length > 0 ? [loaded[loaded.length - 1].id] : [])
+        } else {
+          setError(result.error || 'Failed to load assessment runs')
+        }
+      } catch {
+        setError('Failed to load assessment runs')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadRuns()
+  }, [submissionId])
+
+  const toggleRun = (runId: string) => {
+    setSelectedIds(current => {
+      if (current.includes(runId)) {
+        return current.filter(id => id !== runId)
+      }
+      // Selecting a third run drops the oldest selection
+      return [...current, runId].slice(-MAX_COMPARED_RUNS)
+    })
+  }
+
+  const selectedRuns = runs.filter(run => selectedIds.includes(run.id))
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          AI Assessment Runs
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading runs...
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : runs.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No LLM calls have been recorded for this submission.</p>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10" />
+                  <TableHead>When</TableHead>
+                  <TableHead>Attempt</TableHead>
+                  <TableHead>Outcome</TableHead>
+                  <TableHead>Model</TableHead>
+                  <TableHead>Temp</TableHead>
+                  <TableHead>Latency</TableHead>
+                  <TableHead>Tokens</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {runs.map(run => (
+                  <TableRow key={run.id}>
+                    <TableCell>
+                      <Checkbox
+                        checked={selectedIds.includes(run.id)}
+                        onCheckedChange={() => toggleRun(run.id)}
+                        aria-label={`Compare run ${run.attempt}`}
+                      />
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">{format(new Date(run.createdAt), 'MMM d, HH:mm:ss')}</TableCell>
+                    <TableCell>{run.attempt}</TableCell>
+                    <TableCell>
+                      <Badge variant={OUTCOME_VARIANTS[run.outcome]}>{run.outcome}</Badge>
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{run.provider}/{run.model}</TableCell>
+                    <TableCell>{run.temperature}</TableCell>
+                    <TableCell>{(run.latencyMs / 1000).toFixed(1)}s</TableCell>
+                    <TableCell>{run.totalTokens ?? '—'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {selectedRuns.length > 0 && (
+              <div className={selectedRuns.length > 1 ? 'grid gap-4 lg:grid-cols-2' : ''}>
+                {selectedRuns.map(run => (
+                  <RunDetails key={run.id} run={run} />
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
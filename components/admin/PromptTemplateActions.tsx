@@ -0,0 +1,74 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { activatePromptTemplate, restoreBuiltInPromptTemplate } from '@/lib/actions/prompt-template-actions'
+import { toast } from 'sonner'
+import { Loader2, RotateCcw } from 'lucide-react'
+
+export function ActivatePromptTemplateButton({ templateId, label }: { templateId: string; label: string }) {
+  const router = useRouter()
+  const [isActivating, setIsActivating] = useState(false)
+
+  const handleActivate = async () => {
+    setIsActivating(true)
+
+    try {
+      const result = await activatePromptTemplate(templateId)
+
+      if (result.success) {
+        toast.success(`${label} is now in use`)
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Failed to activate prompt template')
+      }
+    } catch {
+      toast.error('Failed to activate prompt template')
+    } finally {
+      setIsActivating(false)
+    }
+  }
+
+  return (
+    <Button variant="outline" size="sm" onClick={handleActivate} disabled={isActivating}>
+      {isActivating ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : <RotateCcw className="mr-1 h-3 w-3" />}
+      Activate
+    </Button>
+  )
+}
+
+export function RestoreBuiltInPromptTemplateButton({
+  submissionType,
+}: {
+  submissionType: Parameters<typeof restoreBuiltInPromptTemplate>[0]
+}) {
+  const router = useRouter()
+  const [isSwitching, setIsSwitching] = useState(false)
+
+  const handleSwitch = async () => {
+    setIsSwitching(true)
+
+    try {
+      const result = await restoreBuiltInPromptTemplate(submissionType)
+
+      if (result.success) {
+        toast.success('Switched to the built-in template')
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Failed to switch to the built-in template')
+      }
+    } catch {
+      toast.error('Failed to switch to the built-in template')
+    } finally {
+      setIsSwitching(false)
+    }
+  }
+
+  return (
+    <Button variant="outline" size="sm" onClick={handleSwitch} disabled={isSwitching}>
+      {isSwitching && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+      Use Built-in
+    </Button>
+  )
+}
@@ -0,0 +1,246 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Checkbox } from '@/components/ui/checkbox'
+import { savePromptTemplate, type PromptTemplateInput } from '@/lib/actions/prompt-template-actions'
+import { toast } from 'sonner'
+import { Loader2, Eye } from 'lucide-react'
+
+interface PromptTemplateDialogProps {
+  submissionType: NonNullable<PromptTemplateInput['submissionType']>
+  // The version being edited, or the built-in template when starting a new name
+  template: { name: string; body: string; description?: string | null }
+  variables: Record<string, string>
+  questions: { id: string; title: string; courseName: string }[]
+  children: React.ReactNode
+}
+
+export default function PromptTemplateDialog({
+  submissionType,
+  template,
+  variables,
+  questions,
+  children,
+}: PromptTemplateDialogProps) {
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [isPreviewing, setIsPreviewing] = useState(false)
+
+  const [name, setName] = useState(template.name)
+  const [body, setBody] = useState(template.body)
+  const [description, setDescription] = useState(template.description || '')
+  const [activate, setActivate] = useState(true)
+  const [questionId, setQuestionId] = useState('')
+  const [sampleSubmission, setSampleSubmission] = useState('')
+  const [preview, setPreview] = useState<{ prompt: string; problems: string[] } | null>(null)
+
+  const handlePreview = async () => {
+    setIsPreviewing(true)
+
+    try {
+      const response = await fetch('/api/prompt-templates/preview', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          submissionType,
+          body,
+          questionId: questionId || undefined,
+          sampleSubmission: sampleSubmission || undefined,
+        }),
+      })
+      const result = await response.json()
+
+      if (result.success) {
+        setPreview({ prompt: result.prompt, problems: result.problems })
+      } else {
+        toast.error(result.error || 'Failed to render preview')
+      }
+    } catch {
+      toast.error('Failed to render preview')
+    } finally {
+      setIsPreviewing(false)
+    }
+  }
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true)
+
+    try {
+      const result = await savePromptTemplate({
+        name,
+        submissionType,
+        body,
+        description: description || undefined,
+        activate,
+      })
+
+      if (result.success) {
+        toast.success(`Saved ${result.data.name} v${result.data.version}`)
+        setOpen(false)
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Failed to save prompt template')
+      }
+    } catch {
+      toast.error('Failed to save prompt template')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {children}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Prompt Template · {submissionType.replace('_', ' ')}</DialogTitle>
+          <DialogDescription>
+            Saving creates a new version; earlier versions stay available for rollback.
+            The rubric, custom instructions and response format are always appended after the template.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2 lg:grid-cols-3">
+          <div className="space-y-4 lg:col-span-2">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="template-name">Name</Label>
+                <Input
+                  id="template-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="e.g., document-strict"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="template-description">Change note</Label>
+                <Input
+                  id="template-description"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  placeholder="What changed in this version"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="template-body">Template</Label>
+              <Textarea
+                id="template-body"
+                value={body}
+                onChange={(e) => {
+                  setBody(e.target.value)
+                  setPreview(null)
+                }}
+                rows={18}
+                className="font-mono text-xs"
+              />
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="template-activate"
+                checked={activate}
+                onCheckedChange={(checked) => setActivate(checked === true)}
+              />
+              <Label htmlFor="template-activate">Use this version for new assessments</Label>
+            </div>
+          </div>
+
+          <div className="space-y-3 text-sm">
+            <p className="font-medium">Variables</p>
+            <ul className="space-y-2">
+              {Object.entries(variables).map(([variable, help]) => (
+                <li key={variable}>
+                  <code className="text-xs">{`{{${variable}}}`}</code>
+                  <p className="text-xs text-gray-600">{help}</p>
+                </li>
+              ))}
+            </ul>
+            <p className="text-xs text-gray-600">
+              Wrap text in <code>{'{{#name}}…{{/name}}'}</code> to show it only when a variable is set,
+              or <code>{'{{^name}}…{{/name}}'}</code> to show it only when it is empty.
+            </p>
+          </div>
+        </div>
+
+        <div className="space-y-3 border-t pt-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="preview-question">Preview with assessment</Label>
+              <select
+                id="preview-question"
+                value={questionId}
+                onChange={(e) => setQuestionId(e.target.value)}
+                className="w-full px-3 py-2 border border-input rounded-md text-sm"
+              >
+                <option value="">Sample assessment</option>
+                {questions.map(question => (
+                  <option key={question.id} value={question.id}>
+                    {question.courseName} · {question.title}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="preview-submission">Sample submission</Label>
+              <Input
+                id="preview-submission"
+                value={sampleSubmission}
+                onChange={(e) => setSampleSubmission(e.target.value)}
+                placeholder="Optional student answer"
+              />
+            </div>
+          </div>
+
+          <Button variant="outline" onClick={handlePreview} disabled={isPreviewing}>
+            {isPreviewing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Eye className="mr-2 h-4 w-4" />}
+            Preview Prompt
+          </Button>
+
+          {preview && (
+            <div className="space-y-2">
+              {preview.problems.length > 0 && (
+                <ul className="text-sm text-red-600 list-disc pl-5 space-y-1">
+                  {preview.problems.map((problem, index) => (
+                    <li key={index}>{problem}</li>
+                  ))}
+                </ul>
+              )}
+              <pre className="text-xs bg-muted p-3 rounded-md max-h-96 overflow-auto whitespace-pre-wrap break-words">
+                {preview.prompt}
+              </pre>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting || !name || !body}>
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save New Version
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
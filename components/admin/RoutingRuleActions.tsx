@@ -0,0 +1,78 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { deleteRoutingRule, revalidateRoutingRules } from '@/lib/actions/model-routing-actions'
+import { toast } from 'sonner'
+import { Trash2, Loader2, RefreshCw } from 'lucide-react'
+
+export function DeleteRoutingRuleButton({ ruleId }: { ruleId: string }) {
+  const router = useRouter()
+  const [isDeleting, setIsDeleting] = useState(false)
+
+  const handleDelete = async () => {
+    setIsDeleting(true)
+
+    try {
+      const result = await deleteRoutingRule(ruleId)
+
+      if (result.success) {
+        toast.success('Routing rule deleted')
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Failed to delete routing rule')
+      }
+    } catch {
+      toast.error('Failed to delete routing rule')
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  return (
+    <Button variant="outline" size="sm" onClick={handleDelete} disabled={isDeleting}>
+      {isDeleting ? <Loader2 className="h-3 w-3 animate-spin" /> : <Trash2 className="h-3 w-3" />}
+    </Button>
+  )
+}
+
+export function RevalidateRoutingRulesButton() {
+  const router = useRouter()
+  const [isChecking, setIsChecking] = useState(false)
+
+  const handleCheck = async () => {
+    setIsChecking(true)
+
+    try {
+      const result = await revalidateRoutingRules()
+
+      if (result.success && result.data) {
+        const failed = result.data.filter(r => !r.valid)
+        if (failed.length === 0) {
+          toast.success(`All ${result.data.length} active rules point at available models`)
+        } else {
+          toast.error(`Deactivated ${failed.length} rule(s): ${failed.map(r => `${r.name} (${r.error})`).join('; ')}`)
+        }
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Failed to validate routing rules')
+      }
+    } catch {
+      toast.error('Failed to validate routing rules')
+    } finally {
+      setIsChecking(false)
+    }
+  }
+
+  return (
+    <Button variant="outline" onClick={handleCheck} disabled={isChecking}>
+      {isChecking ? (
+        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+      ) : (
+        <RefreshCw className="mr-2 h-4 w-4" />
+      )}
+      Check Models
+    </Button>
+  )
+}
@@ -0,0 +1,296 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import { saveRoutingRule, type RoutingRuleInput } from '@/lib/actions/model-routing-actions'
+import { toast } from 'sonner'
+import { Loader2 } from 'lucide-react'
+
+const SUBMISSION_TYPES = ['TEXT', 'DOCUMENT', 'GITHUB_REPO', 'SCREENSHOT', 'WEBSITE'] as const
+
+interface RoutingRuleDialogProps {
+  rule?: {
+    id: string
+    name: string
+    courseId: string | null
+    questionId: string | null
+    submissionType: string | null
+    minContentLength: number | null
+    maxContentLength: number | null
+    hasBaseExample: boolean | null
+    provider: string
+    model: string
+    priority: number
+    isActive: boolean
+  }
+  courses: {
+    id: string
+    name: string
+    questions: { id: string; title: string; questionNumber: number }[]
+  }[]
+  providers: { name: string; configured: boolean; models: string[] }[]
+  children: React.ReactNode
+}
+
+function toOptionalInt(value: string): number | null {
+  return value.trim() === '' ? null : parseInt(value, 10)
+}
+
+export default function RoutingRuleDialog({ rule, courses, providers, children }: RoutingRuleDialogProps) {
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const [name, setName] = useState(rule?.name || '')
+  const [courseId, setCourseId] = useState(rule?.courseId || '')
+  const [questionId, setQuestionId] = useState(rule?.questionId || '')
+  const [submissionType, setSubmissionType] = useState(rule?.submissionType || '')
+  const [minContentLength, setMinContentLength] = useState(rule?.minContentLength?.toString() || '')
+  const [maxContentLength, setMaxContentLength] = useState(rule?.maxContentLength?.toString() || '')
+  const [hasBaseExample, setHasBaseExample] = useState(
+    rule?.hasBaseExample == null ? '' : String(rule.hasBaseExample)
+  )
+  const [provider, setProvider] = useState(rule?.provider || providers.find(p => p.configured)?.name || 'groq')
+  const [model, setModel] = useState(rule?.model || '')
+  const [priority, setPriority] = useState(rule?.priority?.toString() || '0')
+  const [isActive, setIsActive] = useState(rule?.isActive ?? true)
+
+  const selectedCourse = courses.find(c => c.id === courseId)
+  const knownModels = providers.find(p => p.name === provider)?.models || []
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true)
+
+    try {
+      const result = await saveRoutingRule({
+        id: rule?.id,
+        name,
+        courseId: courseId || null,
+        questionId: questionId || null,
+        submissionType: (submissionType || null) as RoutingRuleInput['submissionType'],
+        minContentLength: toOptionalInt(minContentLength),
+        maxContentLength: toOptionalInt(maxContentLength),
+        hasBaseExample: hasBaseExample === '' ? null : hasBaseExample === 'true',
+        provider: provider as RoutingRuleInput['provider'],
+        model,
+        priority: parseInt(priority, 10) || 0,
+        isActive,
+      })
+
+      if (result.success) {
+        toast.success(rule ? 'Routing rule updated' : 'Routing rule created')
+        setOpen(false)
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Failed to save routing rule')
+      }
+    } catch {
+      toast.error('Failed to save routing rule')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {children}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{rule ? 'Edit Routing Rule' : 'New Routing Rule'}</DialogTitle>
+          <DialogDescription>
+            Submissions matching every condition are graded by the chosen model.
+            The model is checked with the provider before the rule is saved.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="rule-name">Name</Label>
+            <Input
+              id="rule-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., Capstone projects"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="rule-course">Course</Label>
+              <select
+                id="rule-course"
+                value={courseId}
+                onChange={(e) => {
+                  setCourseId(e.target.value)
+                  setQuestionId('')
+                }}
+                className="w-full px-3 py-2 border border-input rounded-md text-sm"
+              >
+                <option value="">All courses</option>
+                {courses.map(course => (
+                  <option key={course.id} value={course.id}>{course.name}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-question">Assessment</Label>
+              <select
+                id="rule-question"
+                value={questionId}
+                onChange={(e) => setQuestionId(e.target.value)}
+                disabled={!selectedCourse}
+                className="w-full px-3 py-2 border border-input rounded-md text-sm"
+              >
+                <option value="">All assessments</option>
+                {selectedCourse?.questions.map(question => (
+                  <option key={question.id} value={question.id}>
+                    {question.questionNumber}. {question.title}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="rule-type">Submission type</Label>
+              <select
+                id="rule-type"
+                value={submissionType}
+                onChange={(e) => setSubmissionType(e.target.value)}
+                className="w-full px-3 py-2 border border-input rounded-md text-sm"
+              >
+                <option value="">Any type</option>
+                {SUBMISSION_TYPES.map(type => (
+                  <option key={type} value={type}>{type.replace('_', ' ').toLowerCase()}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-base-example">Base example</Label>
+              <select
+                id="rule-base-example"
+                value={hasBaseExample}
+                onChange={(e) => setHasBaseExample(e.target.value)}
+                className="w-full px-3 py-2 border border-input rounded-md text-sm"
+              >
+                <option value="">Either</option>
+                <option value="true">Has base example</option>
+                <option value="false">No base example</option>
+              </select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="rule-min">Min content length</Label>
+              <Input
+                id="rule-min"
+                type="number"
+                min={0}
+                value={minContentLength}
+                onChange={(e) => setMinContentLength(e.target.value)}
+                placeholder="No minimum"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-max">Max content length</Label>
+              <Input
+                id="rule-max"
+                type="number"
+                min={0}
+                value={maxContentLength}
+                onChange={(e) => setMaxContentLength(e.target.value)}
+                placeholder="No maximum"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="rule-provider">Provider</Label>
+              <select
+                id="rule-provider"
+                value={provider}
+                onChange={(e) => setProvider(e.target.value)}
+                className="w-full px-3 py-2 border border-input rounded-md text-sm"
+              >
+                {providers.map(p => (
+                  <option key={p.name} value={p.name} disabled={!p.configured}>
+                    {p.name}{p.configured ? '' : ' (not configured)'}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-model">Model</Label>
+              <Input
+                id="rule-model"
+                list="rule-model-options"
+                value={model}
+                onChange={(e) => setModel(e.target.value)}
+                placeholder={knownModels[0] || 'model id'}
+              />
+              <datalist id="rule-model-options">
+                {knownModels.map(m => (
+                  <option key={m} value={m} />
+                ))}
+              </datalist>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="rule-priority">Priority</Label>
+              <Input
+                id="rule-priority"
+                type="number"
+                value={priority}
+                onChange={(e) => setPriority(e.target.value)}
+              />
+            </div>
+            <div className="flex items-center space-x-2 pb-2">
+              <Checkbox
+                id="rule-active"
+                checked={isActive}
+                onCheckedChange={(checked) => setIsActive(checked === true)}
+              />
+              <Label htmlFor="rule-active">Active</Label>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting || !name || !model}>
+            {isSubmitting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Checking model...
+              </>
+            ) : (
+              'Save Rule'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
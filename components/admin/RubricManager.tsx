@@ -33,25 +33,18 @@ import {
   TabsList,
   TabsTrigger,
 } from '@/components/ui/tabs'
-
-interface RubricCriterion {
-  id: string
-  title: string
-  description: string
-  points: number
-  levels: {
-    excellent: string
-    good: string
-    canImprove: string
-    needsImprovement: string
-  }
-}
+import {
+  createCriterion,
+  defaultLevels,
+  rubricMaxPoints,
+  type RubricCriterionInput,
+} from '@/lib/types/rubric'
 
 interface RubricManagerProps {
-  criteria: string[]
+  criteria: RubricCriterionInput[]
   redFlags: string[]
   conditionalChecks: string[]
-  onCriteriaChange: (criteria: string[]) => void
+  onCriteriaChange: (criteria: RubricCriterionInput[]) => void
   onRedFlagsChange: (redFlags: string[]) => void
   onConditionalChecksChange: (conditionalChecks: string[]) => void
   submissionType?: string
@@ -69,8 +62,10 @@ export default function RubricManager({
   const [newCriterion, setNewCriterion] = useState('')
   const [newRedFlag, setNewRedFlag] = useState('')
   const [newConditionalCheck, setNewConditionalCheck] = useState('')
-  const [showRubricBuilder, setShowRubricBuilder] = useState(false)
-  const [advancedRubric, setAdvancedRubric] = useState<RubricCriterion[]>([])
+  const [editingIndex, setEditingIndex] = useState<number | null>(null)
+  const [draftCriterion, setDraftCriterion] = useState<RubricCriterionInput | null>(null)
+
+  const criterionTitles = criteria.map(criterion => criterion.title)
 
   // Predefined criteria templates based on submission type
   const getCriteriaTemplates = (type: string) => {
@@ -167,7 +162,7 @@ export default function RubricManager({
 
   const addCriterion = () => {
     if (newCriterion.trim()) {
-      onCriteriaChange([...criteria, newCriterion.trim()])
+      onCriteriaChange([...criteria, createCriterion(newCriterion.trim())])
       setNewCriterion('')
     }
   }
@@ -176,6 +171,51 @@ export default function RubricManager({
     onCriteriaChange(criteria.filter((_, i) => i !== index))
   }
 
+  const openCriterionEditor = (index: number) => {
+    setEditingIndex(index)
+    setDraftCriterion({ ...criteria[index], levels: criteria[index].levels.map(level => ({ ...level })) })
+  }
+
+  const closeCriterionEditor = () => {
+    setEditingIndex(null)
+    setDraftCriterion(null)
+  }
+
+  // Changing the maximum rescales level points that were still at their defaults
+  const updateDraftPoints = (points: number) => {
+    if (!draftCriterion) return
+    const previousDefaults = defaultLevels(draftCriterion.title, draftCriterion.points)
+    const nextDefaults = defaultLevels(draftCriterion.title, points)
+    setDraftCriterion({
+      ...draftCriterion,
+      points,
+      levels: draftCriterion.levels.map((level, i) => (
+        level.points === previousDefaults[i]?.points ? { ...level, points: nextDefaults[i].points } : level
+      )),
+    })
+  }
+
+  const updateDraftLevel = (levelIndex: number, changes: Partial<{ descriptor: string; points: number }>) => {
+    if (!draftCriterion) return
+    setDraftCriterion({
+      ...draftCriterion,
+      levels: draftCriterion.levels.map((level, i) => (i === levelIndex ? { ...level, ...changes } : level)),
+    })
+  }
+
+  const draftIsValid = !!draftCriterion
+    && draftCriterion.title.trim() !== ''
+    && draftCriterion.points > 0
+    && draftCriterion.levels.every(level => level.descriptor.trim() !== '' && level.points >= 0 && level.points <= draftCriterion.points)
+
+  const saveCriterionEditor = () => {
+    if (editingIndex === null || !draftCriterion || !draftIsValid) return
+    onCriteriaChange(criteria.map((criterion, i) => (
+      i === editingIndex ? { ...draftCriterion, title: draftCriterion.title.trim() } : criterion
+    )))
+    closeCriterionEditor()
+  }
+
   const addRedFlag = () => {
     if (newRedFlag.trim()) {
       onRedFlagsChange([...redFlags, newRedFlag.trim()])
@@ -201,7 +241,10 @@ export default function RubricManager({
   const addTemplateItems = (items: string[], type: 'criteria' | 'redFlags' | 'conditionalChecks') => {
     switch (type) {
       case 'criteria':
-        onCriteriaChange([...criteria, ...items.filter(item => !criteria.includes(item))])
+        onCriteriaChange([
+          ...criteria,
+          ...items.filter(item => !criterionTitles.includes(item)).map(item => createCriterion(item)),
+        ])
         break
       case 'redFlags':
         onRedFlagsChange([...redFlags, ...items.filter(item => !redFlags.includes(item))])
@@ -256,7 +299,7 @@ export default function RubricManager({
                       size="sm"
                       className="text-xs"
                       onClick={() => addTemplateItems([template], 'criteria')}
-                      disabled={criteria.includes(template)}
+                      disabled={criterionTitles.includes(template)}
                     >
                       <Plus className="h-3 w-3 mr-1" />
                       {template}
@@ -290,7 +333,22 @@ export default function RubricManager({
                   criteria.map((criterion, index) => (
                     <div key={index} className="flex items-center gap-3 p-3 bg-green-50 border border-green-200 rounded-lg">
                       <CheckCircle2 className="h-4 w-4 text-green-600 flex-shrink-0" />
-                      <span className="flex-1 text-sm">{criterion}</span>
+                      <div className="flex-1">
+                        <span className="text-sm">{criterion.title}</span>
+                        {criterion.description && (
+                          <p className="text-xs text-gray-600 mt-0.5">{criterion.description}</p>
+                        )}
+                      </div>
+                      <Badge variant="outline" className="text-xs">{criterion.points} pts</Badge>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => openCriterionEditor(index)}
+                        className="h-8 w-8 p-0"
+                        title="Edit levels and points"
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
                       <Button
                         variant="ghost"
                         size="sm"
@@ -307,7 +365,7 @@ export default function RubricManager({
               {criteria.length > 0 && (
                 <div className="text-sm text-gray-600">
                   <Info className="h-4 w-4 inline mr-1" />
-                  The AI will check submissions against these {criteria.length} criteria for full marks.
+                  The AI will score submissions against these {criteria.length} criteria for up to {rubricMaxPoints(criteria)} points.
                 </div>
               )}
             </CardContent>
@@ -486,7 +544,7 @@ export default function RubricManager({
           <div className="grid gap-4 md:grid-cols-3">
             <div className="text-center p-4 bg-green-50 rounded-lg border border-green-200">
               <div className="text-2xl font-bold text-green-700">{criteria.length}</div>
-              <div className="text-sm text-green-600">Required Criteria</div>
+              <div className="text-sm text-green-600">Required Criteria ({rubricMaxPoints(criteria)} pts)</div>
             </div>
             <div className="text-center p-4 bg-red-50 rounded-lg border border-red-200">
               <div className="text-2xl font-bold text-red-700">{redFlags.length}</div>
@@ -499,6 +557,88 @@ export default function RubricManager({
           </div>
         </CardContent>
       </Card>
+
+      {/* Criterion level editor */}
+      <Dialog open={editingIndex !== null} onOpenChange={(open) => !open && closeCriterionEditor()}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Edit Criterion</DialogTitle>
+            <DialogDescription>
+              Describe what each performance level looks like and how many points it earns.
+            </DialogDescription>
+          </DialogHeader>
+
+          {draftCriterion && (
+            <div className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-[1fr_120px]">
+                <div className="space-y-2">
+                  <Label htmlFor="criterion-title">Title</Label>
+                  <Input
+                    id="criterion-title"
+                    value={draftCriterion.title}
+                    onChange={(e) => setDraftCriterion({ ...draftCriterion, title: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="criterion-points">Max Points</Label>
+                  <Input
+                    id="criterion-points"
+                    type="number"
+                    min={1}
+                    value={draftCriterion.points}
+                    onChange={(e) => updateDraftPoints(Math.max(0, parseInt(e.target.value) || 0))}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="criterion-description">Description (optional)</Label>
+                <Textarea
+                  id="criterion-description"
+                  value={draftCriterion.description || ''}
+                  onChange={(e) => setDraftCriterion({ ...draftCriterion, description: e.target.value })}
+                  rows={2}
+                />
+              </div>
+
+              <div className="space-y-3">
+                <Label>Performance Levels</Label>
+                {draftCriterion.levels.map((level, levelIndex) => (
+                  <div key={level.label} className="grid gap-2 md:grid-cols-[140px_1fr_90px] items-start">
+                    <Badge variant="secondary" className="justify-center mt-2">{level.label}</Badge>
+                    <Textarea
+                      value={level.descriptor}
+                      onChange={(e) => updateDraftLevel(levelIndex, { descriptor: e.target.value })}
+                      rows={2}
+                    />
+                    <Input
+                      type="number"
+                      min={0}
+                      max={draftCriterion.points}
+                      value={level.points}
+                      onChange={(e) => updateDraftLevel(levelIndex, { points: Math.max(0, parseInt(e.target.value) || 0) })}
+                    />
+                  </div>
+                ))}
+                {!draftIsValid && (
+                  <p className="text-sm text-red-600">
+                    Every level needs a descriptor, and level points cannot exceed the criterion maximum.
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={closeCriterionEditor}>
+              Cancel
+            </Button>
+            <Button onClick={saveCriterionEditor} disabled={!draftIsValid}>
+              Save Criterion
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,106 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { reviewSimilarityMatch, rescanQuestionSimilarity } from '@/lib/actions/similarity-actions'
+import { toast } from 'sonner'
+import { Loader2, RefreshCw } from 'lucide-react'
+
+type ReviewStatus = Parameters<typeof reviewSimilarityMatch>[1]
+
+export function SimilarityReviewActions({
+  matchId,
+  status,
+  note,
+}: {
+  matchId: string
+  status: ReviewStatus
+  note: string | null
+}) {
+  const router = useRouter()
+  const [reviewNote, setReviewNote] = useState(note || '')
+  const [saving, setSaving] = useState<ReviewStatus | null>(null)
+
+  const handleReview = async (nextStatus: ReviewStatus) => {
+    setSaving(nextStatus)
+
+    try {
+      const result = await reviewSimilarityMatch(matchId, nextStatus, reviewNote)
+
+      if (result.success) {
+        toast.success(nextStatus === 'CONFIRMED' ? 'Marked as copied' : nextStatus === 'DISMISSED' ? 'Pair dismissed' : 'Pair reopened')
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Failed to review pair')
+      }
+    } catch {
+      toast.error('Failed to review pair')
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <Textarea
+        value={reviewNote}
+        onChange={(e) => setReviewNote(e.target.value)}
+        placeholder="Note for other reviewers (optional)"
+        rows={3}
+      />
+      <div className="flex flex-wrap gap-2">
+        {status !== 'CONFIRMED' && (
+          <Button variant="destructive" size="sm" onClick={() => handleReview('CONFIRMED')} disabled={!!saving}>
+            {saving === 'CONFIRMED' && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+            Confirm Copying
+          </Button>
+        )}
+        {status !== 'DISMISSED' && (
+          <Button variant="outline" size="sm" onClick={() => handleReview('DISMISSED')} disabled={!!saving}>
+            {saving === 'DISMISSED' && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+            Dismiss
+          </Button>
+        )}
+        {status !== 'PENDING' && (
+          <Button variant="ghost" size="sm" onClick={() => handleReview('PENDING')} disabled={!!saving}>
+            {saving === 'PENDING' && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+            Reopen
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export function RescanQuestionSimilarityButton({ questionId }: { questionId: string }) {
+  const router = useRouter()
+  const [isScanning, setIsScanning] = useState(false)
+
+  const handleRescan = async () => {
+    setIsScanning(true)
+
+    try {
+      const result = await rescanQuestionSimilarity(questionId)
+
+      if (result.success) {
+        toast.success(`Rescanned: ${result.data?.flagged ?? 0} flagged pair(s) for this question`)
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Failed to rescan submissions')
+      }
+    } catch {
+      toast.error('Failed to rescan submissions')
+    } finally {
+      setIsScanning(false)
+    }
+  }
+
+  return (
+    <Button variant="outline" size="sm" onClick={handleRescan} disabled={isScanning}>
+      {isScanning ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : <RefreshCw className="mr-1 h-3 w-3" />}
+      Rescan Question
+    </Button>
+  )
+}
@@ -16,6 +16,8 @@ const customJestConfig = {
     '**/__tests__/**/*.test.ts',
     '**/__tests__/**/*.test.tsx',
   ],
+  // Integration tests need a database; run them with npm run test:integration
+  testPathIgnorePatterns: process.env.RUN_INTEGRATION_TESTS ? ['/node_modules/'] : ['/node_modules/', '<rootDir>/__tests__/integration/'],
   collectCoverageFrom: [
     'lib/**/*.{js,jsx,ts,tsx}',
     'app/**/*.{js,jsx,ts,tsx}',
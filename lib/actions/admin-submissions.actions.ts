@@ -6,6 +6,7 @@ import { requireRole } from '@/lib/auth/utils'
 import { UserRole } from '@prisma/client'
 import { revalidatePath } from 'next/cache'
 import { notifyManualReview } from './notification-actions'
+import { getAssessmentRunsForSubmission } from '@/lib/services/assessment-run-service'
 
 type ActionResult<T = any> = {
   success: boolean
@@ -185,6 +186,48 @@ export async function getSubmissionForReview(submissionId: string): Promise<Acti
   }
 }
 
+/**
+ * Get the audit trail of LLM calls made while assessing a submission
+ */
+export async function getSubmissionAssessmentRuns(submissionId: string): Promise<ActionResult> {
+  try {
+    const user = await requireRole([UserRole.SUPER_ADMIN, UserRole.COURSE_ADMIN])
+
+    const submission = await prisma.submission.findUnique({
+      where: { id: submissionId },
+      select: { question: { select: { courseId: true } } }
+    })
+
+    if (!submission) {
+      return { success: false, error: 'Submission not found' }
+    }
+
+    // Check permissions for course admins
+    if (user.role === UserRole.COURSE_ADMIN) {
+      const isAdmin = await prisma.courseAdmin.findFirst({
+        where: {
+          userId: user.id,
+          courseId: submission.question.courseId
+        }
+      })
+
+      if (!isAdmin) {
+        return { success: false, error: 'You do not have permission to view this submission' }
+      }
+    }
+
+    const runs = await getAssessmentRunsForSubmission(submissionId)
+    return { success: true, data: runs }
+
+  } catch (error) {
+    console.error('Get assessment runs error:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch assessment runs'
+    }
+  }
+}
+
 /**
  * Submit manual feedback for a submission
  */
@@ -6,8 +6,28 @@ import { z } from 'zod'
 import { prisma } from '@/lib/prisma'
 import { requireAuth, requireRole } from '@/lib/auth/utils'
 import { UserRole, SubmissionType } from '@prisma/client'
+import { saveQuestionRubric, mergeRubricWithLegacyArrays, RUBRIC_INCLUDE, rubricSchema, toRubricInput } from '@/lib/services/rubric-service'
+import { rubricFromLegacyArrays, type RubricCriterionInput } from '@/lib/types/rubric'
+import { MAX_CONSENSUS_RUNS } from '@/lib/services/consensus-service'
+import { MAX_CRAWL_DEPTH, MAX_CRAWL_PAGES } from '@/lib/services/website-service'
 
 // Validation schemas
+const reviewThresholdSchema = z.object({
+  consensusRuns: z.number().int().min(1).max(MAX_CONSENSUS_RUNS, `At most ${MAX_CONSENSUS_RUNS} consensus runs`).default(1),
+  consensusModels: z.array(z.string().trim().min(1)).default([]),
+  minConsensusAgreement: z.number().min(0).max(1, 'Agreement threshold must be between 0 and 1').default(0.7),
+  minConfidence: z.number().min(0).max(1, 'Confidence threshold must be between 0 and 1').nullable().default(null),
+})
+
+const websiteSettingsSchema = z.object({
+  crawlDepth: z.number().int().min(0).max(MAX_CRAWL_DEPTH, `Crawl depth is at most ${MAX_CRAWL_DEPTH}`).default(1),
+  crawlMaxPages: z.number().int().min(1).max(MAX_CRAWL_PAGES, `At most ${MAX_CRAWL_PAGES} pages per crawl`).default(10),
+  websiteChecks: z.array(z.string().trim().min(1).max(300, 'Website check too long')).default([]),
+  maxPageWeightKb: z.number().int().positive('Page weight budget must be positive').nullable().default(null),
+  maxRequests: z.number().int().positive('Request budget must be positive').nullable().default(null),
+  maxLoadTimeMs: z.number().int().positive('Load time budget must be positive').nullable().default(null),
+})
+
 const createQuestionSchema = z.object({
   courseId: z.string().cuid(),
   title: z.string().min(1, 'Question title is required').max(200, 'Title too long'),
@@ -18,8 +38,10 @@ const createQuestionSchema = z.object({
   criteria: z.array(z.string()).default([]),
   redFlags: z.array(z.string()).default([]),
   conditionalChecks: z.array(z.string()).default([]),
+  rubric: rubricSchema.optional(),
   guidance: z.string().optional(),
-})
+  dueAt: z.coerce.date().nullable().default(null),
+}).merge(reviewThresholdSchema).merge(websiteSettingsSchema)
 
 type ActionResult<T = any> = {
   success: boolean
@@ -40,7 +62,19 @@ export async function createQuestion(data: {
   criteria: string[]
   redFlags: string[]
   conditionalChecks: string[]
+  rubric?: RubricCriterionInput[]
   guidance?: string
+  dueAt?: Date | string | null
+  crawlDepth?: number
+  crawlMaxPages?: number
+  websiteChecks?: string[]
+  maxPageWeightKb?: number | null
+  maxRequests?: number | null
+  maxLoadTimeMs?: number | null
+  consensusRuns?: number
+  consensusModels?: string[]
+  minConsensusAgreement?: number
+  minConfidence?: number | null
 }): Promise<ActionResult> {
   try {
     const user = await requireRole([UserRole.SUPER_ADMIN, UserRole.COURSE_ADMIN])
@@ -70,30 +104,57 @@ export async function createQuestion(data: {
 
     const questionNumber = lastQuestion ? lastQuestion.questionNumber + 1 : 1
 
+    // Questions created without a structured rubric get one built from the plain lists
+    const rubric = validatedData.rubric ?? rubricFromLegacyArrays(
+      validatedData.criteria,
+      validatedData.redFlags,
+      validatedData.conditionalChecks
+    )
+
     // Create the question
-    const question = await prisma.question.create({
-      data: {
-        courseId: validatedData.courseId,
-        questionNumber,
-        title: validatedData.title,
-        description: validatedData.description,
-        submissionType: validatedData.submissionType as SubmissionType,
-        assessmentMode: validatedData.assessmentMode || 'AI_ONLY',
-        assessmentPrompt: validatedData.assessmentPrompt || null,
-        criteria: validatedData.criteria.filter(c => c.trim() !== ''),
-        redFlags: validatedData.redFlags.filter(r => r.trim() !== ''),
-        conditionalChecks: validatedData.conditionalChecks.filter(c => c.trim() !== ''),
-        guidance: validatedData.guidance || null,
-        createdBy: user.id,
-      },
-      include: {
-        course: {
-          select: { name: true }
+    const question = await prisma.$transaction(async (tx) => {
+      const created = await tx.question.create({
+        data: {
+          courseId: validatedData.courseId,
+          questionNumber,
+          title: validatedData.title,
+          description: validatedData.description,
+          submissionType: validatedData.submissionType as SubmissionType,
+          assessmentMode: validatedData.assessmentMode || 'AI_ONLY',
+          assessmentPrompt: validatedData.assessmentPrompt || null,
+          criteria: validatedData.criteria.filter(c => c.trim() !== ''),
+          redFlags: validatedData.redFlags.filter(r => r.trim() !== ''),
+          conditionalChecks: validatedData.conditionalChecks.filter(c => c.trim() !== ''),
+          guidance: validatedData.guidance || null,
+          dueAt: validatedData.dueAt,
+          crawlDepth: validatedData.crawlDepth,
+          crawlMaxPages: validatedData.crawlMaxPages,
+          websiteChecks: validatedData.websiteChecks,
+          maxPageWeightKb: validatedData.maxPageWeightKb,
+          maxRequests: validatedData.maxRequests,
+          maxLoadTimeMs: validatedData.maxLoadTimeMs,
+          consensusRuns: validatedData.consensusRuns,
+          consensusModels: validatedData.consensusModels,
+          minConsensusAgreement: validatedData.minConsensusAgreement,
+          minConfidence: validatedData.minConfidence,
+          createdBy: user.id,
         },
-        _count: {
-          select: { submissions: true, baseExamples: true }
+      })
+
+      await saveQuestionRubric(created.id, rubric, tx)
+
+      return tx.question.findUniqueOrThrow({
+        where: { id: created.id },
+        include: {
+          course: {
+            select: { name: true }
+          },
+          rubric: { include: RUBRIC_INCLUDE },
+          _count: {
+            select: { submissions: true, baseExamples: true }
+          }
         }
-      }
+      })
     })
 
     revalidatePath('/admin/courses')
@@ -132,7 +193,19 @@ export async function updateQuestion(
     criteria: string[]
     redFlags: string[]
     conditionalChecks: string[]
+    rubric: RubricCriterionInput[]
     guidance: string
+    dueAt: Date | null
+    crawlDepth: number
+    crawlMaxPages: number
+    websiteChecks: string[]
+    maxPageWeightKb: number | null
+    maxRequests: number | null
+    maxLoadTimeMs: number | null
+    consensusRuns: number
+    consensusModels: string[]
+    minConsensusAgreement: number
+    minConfidence: number | null
     isActive: boolean
   }>
 ): Promise<ActionResult> {
@@ -143,7 +216,8 @@ export async function updateQuestion(
     const existingQuestion = await prisma.question.findUnique({
       where: { id: questionId },
       include: {
-        course: true
+        course: true,
+        rubric: { include: RUBRIC_INCLUDE }
       }
     })
 
@@ -156,23 +230,78 @@ export async function updateQuestion(
       return { success: false, error: 'You do not have permission to edit this question' }
     }
 
+    const { rubric: rubricInput, ...fields } = data
+
+    const thresholds = reviewThresholdSchema.partial().safeParse({
+      consensusRuns: data.consensusRuns,
+      consensusModels: data.consensusModels,
+      minConsensusAgreement: data.minConsensusAgreement,
+      minConfidence: data.minConfidence,
+    })
+    if (!thresholds.success) {
+      return { success: false, error: 'Invalid review settings: ' + thresholds.error.errors.map(e => e.message).join(', ') }
+    }
+
+    const websiteSettings = websiteSettingsSchema.partial().safeParse({
+      crawlDepth: data.crawlDepth,
+      crawlMaxPages: data.crawlMaxPages,
+      websiteChecks: data.websiteChecks,
+      maxPageWeightKb: data.maxPageWeightKb,
+      maxRequests: data.maxRequests,
+      maxLoadTimeMs: data.maxLoadTimeMs,
+    })
+    if (!websiteSettings.success) {
+      return { success: false, error: 'Invalid website settings: ' + websiteSettings.error.errors.map(e => e.message).join(', ') }
+    }
+
+    // An explicit rubric wins; edits to the plain lists are folded into the existing rubric
+    let rubric: RubricCriterionInput[] | undefined
+    if (rubricInput) {
+      const parsed = rubricSchema.safeParse(rubricInput)
+      if (!parsed.success) {
+        return { success: false, error: 'Invalid rubric: ' + parsed.error.errors.map(e => e.message).join(', ') }
+      }
+      rubric = parsed.data
+    } else if (data.criteria || data.redFlags || data.conditionalChecks) {
+      rubric = mergeRubricWithLegacyArrays(
+        toRubricInput(existingQuestion.rubric),
+        data.criteria ?? existingQuestion.criteria,
+        data.redFlags ?? existingQuestion.redFlags,
+        data.conditionalChecks ?? existingQuestion.conditionalChecks
+      )
+    }
+
     // Update the question
-    const updatedQuestion = await prisma.question.update({
-      where: { id: questionId },
-      data: {
-        ...data,
-        criteria: data.criteria?.filter(c => c.trim() !== ''),
-        redFlags: data.redFlags?.filter(r => r.trim() !== ''),
-        conditionalChecks: data.conditionalChecks?.filter(c => c.trim() !== ''),
-      },
-      include: {
-        course: {
-          select: { name: true }
+    const updatedQuestion = await prisma.$transaction(async (tx) => {
+      await tx.question.update({
+        where: { id: questionId },
+        data: {
+          ...fields,
+          ...thresholds.data,
+          ...websiteSettings.data,
+          criteria: data.criteria?.filter(c => c.trim() !== ''),
+          redFlags: data.redFlags?.filter(r => r.trim() !== ''),
+          conditionalChecks: data.conditionalChecks?.filter(c => c.trim() !== ''),
         },
-        _count: {
-          select: { submissions: true, baseExamples: true }
-        }
+      })
+
+      // Also rewrites the plain lists from the rubric
+      if (rubric) {
+        await saveQuestionRubric(questionId, rubric, tx)
       }
+
+      return tx.question.findUniqueOrThrow({
+        where: { id: questionId },
+        include: {
+          course: {
+            select: { name: true }
+          },
+          rubric: { include: RUBRIC_INCLUDE },
+          _count: {
+            select: { submissions: true, baseExamples: true }
+          }
+        }
+      })
     })
 
     revalidatePath('/admin/courses')
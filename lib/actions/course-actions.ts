@@ -5,6 +5,7 @@ import { z } from 'zod'
 import { prisma } from '@/lib/prisma'
 import { requireAuth, requireRole, canManageCourse } from '@/lib/auth/utils'
 import { UserRole } from '@prisma/client'
+import { LLM_PROVIDERS } from '@/lib/services/llm-providers'
 
 // Validation schemas
 const createCourseSchema = z.object({
@@ -17,6 +18,7 @@ const updateCourseSchema = z.object({
   name: z.string().min(1, 'Course name is required').max(100, 'Course name too long'),
   description: z.string().optional(),
   isActive: z.boolean().optional(),
+  llmProvider: z.enum(LLM_PROVIDERS).nullable().optional(),
 })
 
 const deleteCourseSchema = z.object({
@@ -240,6 +242,7 @@ export async function updateCourse(formData: FormData): Promise<ActionResult> {
       name: formData.get('name'),
       description: formData.get('description'),
       isActive: formData.get('isActive') === 'true',
+      llmProvider: formData.get('llmProvider') || null,
     })
 
     if (!validatedFields.success) {
@@ -249,7 +252,7 @@ export async function updateCourse(formData: FormData): Promise<ActionResult> {
       }
     }
 
-    const { id, name, description, isActive } = validatedFields.data
+    const { id, name, description, isActive, llmProvider } = validatedFields.data
 
     // Check if course exists and user has permission
     const existingCourse = await prisma.course.findUnique({
@@ -291,6 +294,7 @@ export async function updateCourse(formData: FormData): Promise<ActionResult> {
         name,
         description: description || null,
         isActive: isActive ?? undefined,
+        llmProvider: llmProvider ?? null,
       },
       include: {
         creator: {
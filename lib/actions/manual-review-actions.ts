@@ -168,6 +168,11 @@ export async function getManualReviewQueue(courseId?: string): Promise<ActionRes
             assessmentMode: 'BOTH'
           },
           reviewedAt: null
+        },
+        // AI results escalated to an instructor (low agreement or confidence, red flags)
+        {
+          needsManualReview: true,
+          reviewedAt: null
         }
       ]
     };
@@ -245,7 +250,7 @@ export async function getManualReviewStats(): Promise<ActionResult> {
       return { success: false, error: 'Admin access required' };
     }
 
-    const [pendingManual, pendingBoth, completedToday] = await Promise.all([
+    const [pendingManual, pendingBoth, pendingFlagged, completedToday] = await Promise.all([
       // Pending MANUAL_ONLY submissions
       prisma.submission.count({
         where: {
@@ -264,6 +269,16 @@ export async function getManualReviewStats(): Promise<ActionResult> {
           reviewedAt: null
         }
       }),
+      // Escalated AI results (not already counted as BOTH mode) awaiting review
+      prisma.submission.count({
+        where: {
+          question: {
+            assessmentMode: { not: 'BOTH' }
+          },
+          needsManualReview: true,
+          reviewedAt: null
+        }
+      }),
       // Completed manual reviews today
       prisma.submission.count({
         where: {
@@ -279,7 +294,8 @@ export async function getManualReviewStats(): Promise<ActionResult> {
       data: {
         pendingManual,
         pendingBoth,
-        totalPending: pendingManual + pendingBoth,
+        pendingFlagged,
+        totalPending: pendingManual + pendingBoth + pendingFlagged,
         completedToday
       }
     };
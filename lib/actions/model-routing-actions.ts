@@ -0,0 +1,233 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { requireAdmin, canManageCourse } from '@/lib/auth/utils'
+import { UserRole } from '@prisma/client'
+import { LLM_PROVIDERS } from '@/lib/services/llm-providers'
+import { ROUTING_RULE_INCLUDE, validateRoutingTarget, type RoutingRuleWithScope } from '@/lib/services/model-routing-service'
+
+type ActionResult<T = any> = {
+  success: boolean
+  data?: T
+  error?: string
+}
+
+const routingRuleSchema = z.object({
+  id: z.string().cuid().optional(),
+  name: z.string().min(1, 'Rule name is required').max(100, 'Rule name too long'),
+  courseId: z.string().cuid().nullable().optional(),
+  questionId: z.string().cuid().nullable().optional(),
+  submissionType: z.enum(['TEXT', 'DOCUMENT', 'GITHUB_REPO', 'SCREENSHOT', 'WEBSITE']).nullable().optional(),
+  minContentLength: z.number().int().min(0).nullable().optional(),
+  maxContentLength: z.number().int().min(0).nullable().optional(),
+  hasBaseExample: z.boolean().nullable().optional(),
+  provider: z.enum(LLM_PROVIDERS),
+  model: z.string().min(1, 'Model is required'),
+  priority: z.number().int().default(0),
+  isActive: z.boolean().default(true),
+}).refine(
+  rule => rule.minContentLength == null || rule.maxContentLength == null || rule.minContentLength <= rule.maxContentLength,
+  { message: 'Minimum content length cannot exceed the maximum' }
+)
+
+export type RoutingRuleInput = z.input<typeof routingRuleSchema>
+
+// Global rules are super-admin only; course rules follow course ownership
+async function assertCanEditScope(
+  user: { id: string; role: UserRole },
+  courseId: string | null | undefined
+): Promise<string | null> {
+  if (!courseId) {
+    return user.role === UserRole.SUPER_ADMIN ? null : 'Only super admins can edit global routing rules'
+  }
+
+  const course = await prisma.course.findUnique({
+    where: { id: courseId },
+    select: { creatorId: true }
+  })
+
+  if (!course) return 'Course not found'
+  if (!canManageCourse(user.role, course.creatorId, user.id)) {
+    return 'You do not have permission to edit routing for this course'
+  }
+  return null
+}
+
+/**
+ * List routing rules visible to the current admin
+ */
+export async function getRoutingRules(): Promise<ActionResult<RoutingRuleWithScope[]>> {
+  try {
+    const user = await requireAdmin()
+
+    const rules = await prisma.modelRoutingRule.findMany({
+      where: user.role === UserRole.SUPER_ADMIN
+        ? {}
+        : { OR: [{ courseId: null }, { course: { creatorId: user.id } }] },
+      include: ROUTING_RULE_INCLUDE,
+      orderBy: [{ courseId: 'asc' }, { priority: 'desc' }, { createdAt: 'asc' }]
+    })
+
+    return { success: true, data: rules }
+  } catch (error) {
+    console.error('Get routing rules error:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch routing rules'
+    }
+  }
+}
+
+/**
+ * Create or update a routing rule after confirming its model is available
+ */
+export async function saveRoutingRule(input: RoutingRuleInput): Promise<ActionResult> {
+  try {
+    const user = await requireAdmin()
+
+    const validated = routingRuleSchema.safeParse(input)
+    if (!validated.success) {
+      return {
+        success: false,
+        error: 'Invalid rule: ' + validated.error.errors.map(e => e.message).join(', ')
+      }
+    }
+
+    const { id, ...rule } = validated.data
+
+    // A question pin implies its course, so permissions are checked against it
+    if (rule.questionId) {
+      const question = await prisma.question.findUnique({
+        where: { id: rule.questionId },
+        select: { courseId: true }
+      })
+      if (!question) {
+        return { success: false, error: 'Assessment not found' }
+      }
+      rule.courseId = question.courseId
+    }
+
+    const scopeError = await assertCanEditScope(user, rule.courseId)
+    if (scopeError) {
+      return { success: false, error: scopeError }
+    }
+
+    if (id) {
+      const existing = await prisma.modelRoutingRule.findUnique({
+        where: { id },
+        select: { courseId: true }
+      })
+      if (!existing) {
+        return { success: false, error: 'Routing rule not found' }
+      }
+      const existingScopeError = await assertCanEditScope(user, existing.courseId)
+      if (existingScopeError) {
+        return { success: false, error: existingScopeError }
+      }
+    }
+
+    const availability = await validateRoutingTarget(rule.provider, rule.model)
+    if (!availability.valid) {
+      return { success: false, error: availability.error }
+    }
+
+    const data = {
+      ...rule,
+      courseId: rule.courseId ?? null,
+      questionId: rule.questionId ?? null,
+      submissionType: rule.submissionType ?? null,
+      minContentLength: rule.minContentLength ?? null,
+      maxContentLength: rule.maxContentLength ?? null,
+      hasBaseExample: rule.hasBaseExample ?? null,
+      validatedAt: new Date(),
+    }
+
+    const saved = id
+      ? await prisma.modelRoutingRule.update({ where: { id }, data })
+      : await prisma.modelRoutingRule.create({ data: { ...data, createdBy: user.id } })
+
+    revalidatePath('/admin/settings')
+
+    return { success: true, data: saved }
+  } catch (error) {
+    console.error('Save routing rule error:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to save routing rule'
+    }
+  }
+}
+
+/**
+ * Delete a routing rule
+ */
+export async function deleteRoutingRule(id: string): Promise<ActionResult> {
+  try {
+    const user = await requireAdmin()
+
+    const existing = await prisma.modelRoutingRule.findUnique({
+      where: { id },
+      select: { courseId: true }
+    })
+    if (!existing) {
+      return { success: false, error: 'Routing rule not found' }
+    }
+
+    const scopeError = await assertCanEditScope(user, existing.courseId)
+    if (scopeError) {
+      return { success: false, error: scopeError }
+    }
+
+    await prisma.modelRoutingRule.delete({ where: { id } })
+
+    revalidatePath('/admin/settings')
+
+    return { success: true }
+  } catch (error) {
+    console.error('Delete routing rule error:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to delete routing rule'
+    }
+  }
+}
+
+/**
+ * Re-check every active rule against its provider, e.g. after a model retirement.
+ * Rules whose model has disappeared are deactivated so routing falls through.
+ */
+export async function revalidateRoutingRules(): Promise<ActionResult<{ id: string; name: string; valid: boolean; error?: string }[]>> {
+  try {
+    const user = await requireAdmin()
+
+    const rules = await prisma.modelRoutingRule.findMany({
+      where: {
+        isActive: true,
+        ...(user.role === UserRole.SUPER_ADMIN ? {} : { course: { creatorId: user.id } })
+      },
+      select: { id: true, name: true, provider: true, model: true }
+    })
+
+    const results = []
+    for (const rule of rules) {
+      const availability = await validateRoutingTarget(rule.provider, rule.model)
+      await prisma.modelRoutingRule.update({
+        where: { id: rule.id },
+        data: availability.valid ? { validatedAt: new Date() } : { isActive: false }
+      })
+      results.push({ id: rule.id, name: rule.name, ...availability })
+    }
+
+    revalidatePath('/admin/settings')
+
+    return { success: true, data: results }
+  } catch (error) {
+    console.error('Revalidate routing rules error:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to validate routing rules'
+    }
+  }
+}
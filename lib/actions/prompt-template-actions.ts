@@ -0,0 +1,199 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { requireAdmin } from '@/lib/auth/utils'
+import { UserRole } from '@prisma/client'
+import { PROMPT_TEMPLATE_INCLUDE, validatePromptTemplate, type PromptTemplateWithCreator } from '@/lib/services/prompt-template-service'
+
+type ActionResult<T = any> = {
+  success: boolean
+  data?: T
+  error?: string
+}
+
+const promptTemplateSchema = z.object({
+  name: z.string()
+    .min(1, 'Template name is required')
+    .max(100, 'Template name too long')
+    .regex(/^[a-z0-9][a-z0-9-]*$/, 'Template name may only contain lowercase letters, digits and dashes'),
+  submissionType: z.enum(['TEXT', 'DOCUMENT', 'GITHUB_REPO', 'SCREENSHOT', 'WEBSITE']),
+  body: z.string(),
+  description: z.string().max(500, 'Description too long').optional(),
+  activate: z.boolean().default(false),
+})
+
+export type PromptTemplateInput = z.input<typeof promptTemplateSchema>
+
+// Prompt templates apply to every course, so editing them is super-admin only
+function assertCanEditTemplates(user: { role: UserRole }): string | null {
+  return user.role === UserRole.SUPER_ADMIN ? null : 'Only super admins can edit prompt templates'
+}
+
+/**
+ * List every stored template version, newest first
+ */
+export async function getPromptTemplates(): Promise<ActionResult<PromptTemplateWithCreator[]>> {
+  try {
+    await requireAdmin()
+
+    const templates = await prisma.promptTemplate.findMany({
+      include: PROMPT_TEMPLATE_INCLUDE,
+      orderBy: [{ submissionType: 'asc' }, { name: 'asc' }, { version: 'desc' }]
+    })
+
+    return { success: true, data: templates }
+  } catch (error) {
+    console.error('Get prompt templates error:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch prompt templates'
+    }
+  }
+}
+
+/**
+ * Save a template as the next version of its name. Versions are never edited in
+ * place, so every stored assessment keeps pointing at the text that produced it.
+ */
+export async function savePromptTemplate(input: PromptTemplateInput): Promise<ActionResult> {
+  try {
+    const user = await requireAdmin()
+
+    const permissionError = assertCanEditTemplates(user)
+    if (permissionError) {
+      return { success: false, error: permissionError }
+    }
+
+    const validated = promptTemplateSchema.safeParse(input)
+    if (!validated.success) {
+      return {
+        success: false,
+        error: 'Invalid template: ' + validated.error.errors.map(e => e.message).join(', ')
+      }
+    }
+
+    const { activate, ...template } = validated.data
+
+    const problems = validatePromptTemplate(template.body)
+    if (problems.length > 0) {
+      return { success: false, error: 'Invalid template: ' + problems.join(', ') }
+    }
+
+    const latest = await prisma.promptTemplate.findFirst({
+      where: { name: template.name },
+      orderBy: { version: 'desc' },
+      select: { version: true, submissionType: true }
+    })
+    if (latest && latest.submissionType !== template.submissionType) {
+      return {
+        success: false,
+        error: `Template "${template.name}" is for ${latest.submissionType} submissions; choose another name`
+      }
+    }
+
+    const saved = await prisma.$transaction(async (tx) => {
+      if (activate) {
+        await tx.promptTemplate.updateMany({
+          where: { submissionType: template.submissionType, isActive: true },
+          data: { isActive: false }
+        })
+      }
+
+      return tx.promptTemplate.create({
+        data: {
+          ...template,
+          description: template.description || null,
+          version: (latest?.version ?? 0) + 1,
+          isActive: activate,
+          createdBy: user.id,
+        }
+      })
+    })
+
+    revalidatePath('/admin/prompts')
+
+    return { success: true, data: saved }
+  } catch (error) {
+    console.error('Save prompt template error:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to save prompt template'
+    }
+  }
+}
+
+/**
+ * Make a stored version the one used for its submission type, e.g. to roll back
+ */
+export async function activatePromptTemplate(id: string): Promise<ActionResult> {
+  try {
+    const user = await requireAdmin()
+
+    const permissionError = assertCanEditTemplates(user)
+    if (permissionError) {
+      return { success: false, error: permissionError }
+    }
+
+    const template = await prisma.promptTemplate.findUnique({
+      where: { id },
+      select: { submissionType: true }
+    })
+    if (!template) {
+      return { success: false, error: 'Prompt template not found' }
+    }
+
+    await prisma.$transaction([
+      prisma.promptTemplate.updateMany({
+        where: { submissionType: template.submissionType, isActive: true },
+        data: { isActive: false }
+      }),
+      prisma.promptTemplate.update({
+        where: { id },
+        data: { isActive: true }
+      }),
+    ])
+
+    revalidatePath('/admin/prompts')
+
+    return { success: true }
+  } catch (error) {
+    console.error('Activate prompt template error:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to activate prompt template'
+    }
+  }
+}
+
+/**
+ * Go back to the built-in template for a submission type
+ */
+export async function restoreBuiltInPromptTemplate(
+  submissionType: 'TEXT' | 'DOCUMENT' | 'GITHUB_REPO' | 'SCREENSHOT' | 'WEBSITE'
+): Promise<ActionResult> {
+  try {
+    const user = await requireAdmin()
+
+    const permissionError = assertCanEditTemplates(user)
+    if (permissionError) {
+      return { success: false, error: permissionError }
+    }
+
+    await prisma.promptTemplate.updateMany({
+      where: { submissionType, isActive: true },
+      data: { isActive: false }
+    })
+
+    revalidatePath('/admin/prompts')
+
+    return { success: true }
+  } catch (error) {
+    console.error('Restore built-in prompt template error:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to switch to the built-in template'
+    }
+  }
+}
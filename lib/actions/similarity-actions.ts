@@ -0,0 +1,189 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { requireAdmin, canManageCourse } from '@/lib/auth/utils'
+import { UserRole } from '@prisma/client'
+import {
+  compareSubmissionFingerprint,
+  SIMILARITY_MATCH_SELECT,
+  SIMILARITY_SUBMISSION_SELECT,
+  type SimilarityMatchSummary,
+} from '@/lib/services/plagiarism-service'
+
+type ActionResult<T = any> = {
+  success: boolean
+  data?: T
+  error?: string
+}
+
+const reviewSchema = z.object({
+  matchId: z.string().cuid(),
+  status: z.enum(['PENDING', 'CONFIRMED', 'DISMISSED']),
+  note: z.string().max(2000, 'Note too long').optional(),
+})
+
+// Pairs are visible to super admins and to the admin who owns the course
+function visibleMatches(user: { id: string; role: UserRole }) {
+  return user.role === UserRole.SUPER_ADMIN
+    ? {}
+    : { submission: { question: { course: { creatorId: user.id } } } }
+}
+
+/**
+ * List flagged submission pairs, most similar first
+ */
+export async function getSimilarityMatches(
+  filters: { status?: 'PENDING' | 'CONFIRMED' | 'DISMISSED'; courseId?: string } = {}
+): Promise<ActionResult<SimilarityMatchSummary[]>> {
+  try {
+    const user = await requireAdmin()
+
+    const matches = await prisma.similarityMatch.findMany({
+      where: {
+        ...visibleMatches(user),
+        ...(filters.status ? { status: filters.status } : {}),
+        ...(filters.courseId ? { courseId: filters.courseId } : {}),
+      },
+      select: SIMILARITY_MATCH_SELECT,
+      orderBy: [{ score: 'desc' }, { createdAt: 'desc' }]
+    })
+
+    return { success: true, data: matches }
+  } catch (error) {
+    console.error('Get similarity matches error:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch similarity matches'
+    }
+  }
+}
+
+/**
+ * One flagged pair with both indexed contents, for the side-by-side view
+ */
+export async function getSimilarityMatch(matchId: string): Promise<ActionResult> {
+  try {
+    const user = await requireAdmin()
+
+    const match = await prisma.similarityMatch.findFirst({
+      where: { id: matchId, ...visibleMatches(user) },
+      include: {
+        submission: {
+          select: {
+            ...SIMILARITY_SUBMISSION_SELECT,
+            fingerprint: { select: { content: true } },
+            question: { select: { id: true, title: true, questionNumber: true, course: { select: { id: true, name: true } } } },
+          }
+        },
+        matchedSubmission: {
+          select: {
+            ...SIMILARITY_SUBMISSION_SELECT,
+            fingerprint: { select: { content: true } },
+          }
+        },
+      }
+    })
+
+    if (!match) {
+      return { success: false, error: 'Similarity match not found' }
+    }
+
+    return { success: true, data: match }
+  } catch (error) {
+    console.error('Get similarity match error:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch similarity match'
+    }
+  }
+}
+
+/**
+ * Confirm or dismiss a flagged pair. Reviewed pairs survive later rescans.
+ */
+export async function reviewSimilarityMatch(
+  matchId: string,
+  status: 'PENDING' | 'CONFIRMED' | 'DISMISSED',
+  note?: string
+): Promise<ActionResult> {
+  try {
+    const user = await requireAdmin()
+
+    const validated = reviewSchema.safeParse({ matchId, status, note })
+    if (!validated.success) {
+      return { success: false, error: validated.error.errors[0]?.message || 'Validation failed' }
+    }
+
+    const match = await prisma.similarityMatch.findFirst({
+      where: { id: matchId, ...visibleMatches(user) },
+      select: { id: true }
+    })
+    if (!match) {
+      return { success: false, error: 'Similarity match not found' }
+    }
+
+    const reviewed = status !== 'PENDING'
+    await prisma.similarityMatch.update({
+      where: { id: matchId },
+      data: {
+        status,
+        reviewNote: note?.trim() || null,
+        reviewedBy: reviewed ? user.id : null,
+        reviewedAt: reviewed ? new Date() : null,
+      }
+    })
+
+    revalidatePath('/admin/similarity')
+    revalidatePath(`/admin/similarity/${matchId}`)
+    return { success: true }
+  } catch (error) {
+    console.error('Review similarity match error:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to review similarity match'
+    }
+  }
+}
+
+/**
+ * Compare every indexed submission to a question again, e.g. after more students submitted
+ * and shared template text can be told apart from copying
+ */
+export async function rescanQuestionSimilarity(questionId: string): Promise<ActionResult<{ flagged: number }>> {
+  try {
+    const user = await requireAdmin()
+
+    const question = await prisma.question.findUnique({
+      where: { id: questionId },
+      select: { course: { select: { creatorId: true } } }
+    })
+    if (!question) {
+      return { success: false, error: 'Question not found' }
+    }
+    if (!canManageCourse(user.role, question.course.creatorId, user.id)) {
+      return { success: false, error: 'You do not have permission to rescan this question' }
+    }
+
+    const fingerprints = await prisma.submissionFingerprint.findMany({
+      where: { questionId },
+      select: { submissionId: true }
+    })
+
+    // Each pair is reached from both sides; count flagged pairs once
+    for (const { submissionId } of fingerprints) {
+      await compareSubmissionFingerprint(submissionId)
+    }
+    const flagged = await prisma.similarityMatch.count({ where: { questionId } })
+
+    revalidatePath('/admin/similarity')
+    return { success: true, data: { flagged } }
+  } catch (error) {
+    console.error('Rescan question similarity error:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to rescan submissions'
+    }
+  }
+}
@@ -0,0 +1,512 @@
+// lib/services/accessibility-service.ts
+// Accessibility audit for website submissions. Parses the page HTML (the rendered DOM when a
+// headless browser is available, otherwise the fetched HTML) and checks it against a set of
+// WCAG 2.1 rules: text alternatives, form labels, heading structure, landmarks, link and
+// button names, ARIA usage, focus order and zoom. Colour contrast needs computed styles, so it
+// is only checked on rendered pages, from samples collected in the browser by CONTRAST_SCRIPT.
+import { descendants, parseHtml, selectorFor, textContent, type HtmlElement } from '../utils/html'
+
+export type AccessibilityImpact = 'critical' | 'serious' | 'moderate' | 'minor'
+
+export interface AccessibilityNode {
+  selector: string // CSS selector locating the element, e.g. 'main > form > input:nth-of-type(2)'
+  snippet: string // Opening tag, truncated
+}
+
+export interface AccessibilityViolation {
+  rule: string // e.g. 'image-alt'
+  impact: AccessibilityImpact
+  description: string
+  wcag: string[] // Success criteria, e.g. ['1.1.1 Non-text Content']
+  help: string // How to fix it
+  nodes: AccessibilityNode[] // Up to MAX_NODES_PER_RULE
+  count: number // All affected elements, including ones beyond MAX_NODES_PER_RULE
+}
+
+export interface AccessibilityAudit {
+  source: 'rendered' | 'html'
+  violations: AccessibilityViolation[] // Most severe first
+  passes: string[] // Rules that applied to the page and found nothing
+  contrastChecked: boolean // False when no rendered styles were available
+  elementCount: number
+}
+
+// Text sample collected in the browser for the contrast check
+export interface ContrastSample {
+  selector: string
+  snippet: string
+  color: string // Computed, e.g. 'rgb(119, 119, 119)'
+  background: string // First opaque ancestor background, e.g. 'rgb(255, 255, 255)'
+  fontSize: number // px
+  fontWeight: number
+}
+
+export interface AccessibilityCriterionResult {
+  criterion: string
+  rules: string[] // Rules the criterion was checked against
+  passed: boolean
+  detail: string
+}
+
+interface RuleDefinition {
+  impact: AccessibilityImpact
+  description: string
+  wcag: string[]
+  help: string
+}
+
+const RULES: Record<string, RuleDefinition> = {
+  'image-alt': {
+    impact: 'critical',
+    description: 'Images must have alternative text',
+    wcag: ['1.1.1 Non-text Content'],
+    help: 'Add an alt attribute describing the image, or alt="" if it is purely decorative',
+  },
+  'label': {
+    impact: 'critical',
+    description: 'Form fields must have labels',
+    wcag: ['1.3.1 Info and Relationships', '4.1.2 Name, Role, Value'],
+    help: 'Associate a <label for="..."> with the field, wrap it in a <label>, or add aria-label; a placeholder is not a label',
+  },
+  'button-name': {
+    impact: 'critical',
+    description: 'Buttons must have discernible text',
+    wcag: ['4.1.2 Name, Role, Value'],
+    help: 'Give the button visible text or an aria-label (icon-only buttons need one)',
+  },
+  'aria-roles': {
+    impact: 'critical',
+    description: 'ARIA roles must be valid',
+    wcag: ['4.1.2 Name, Role, Value'],
+    help: 'Use a role defined in WAI-ARIA, or remove the role attribute',
+  },
+  'aria-valid-attr': {
+    impact: 'critical',
+    description: 'ARIA attributes must be valid names',
+    wcag: ['4.1.2 Name, Role, Value'],
+    help: 'Check the attribute name for typos against the WAI-ARIA attribute list',
+  },
+  'meta-viewport': {
+    impact: 'critical',
+    description: 'Zooming must not be disabled',
+    wcag: ['1.4.4 Resize Text'],
+    help: 'Remove user-scalable=no and any maximum-scale below 2 from the viewport meta tag',
+  },
+  'color-contrast': {
+    impact: 'serious',
+    description: 'Text must have sufficient colour contrast against its background',
+    wcag: ['1.4.3 Contrast (Minimum)'],
+    help: 'Use a contrast ratio of at least 4.5:1 for normal text and 3:1 for large text',
+  },
+  'aria-valid-attr-value': {
+    impact: 'serious',
+    description: 'ARIA attributes must reference elements that exist',
+    wcag: ['4.1.2 Name, Role, Value'],
+    help: 'Point aria-labelledby, aria-describedby and aria-controls at ids present on the page',
+  },
+  'aria-hidden-focus': {
+    impact: 'serious',
+    description: 'Content hidden with aria-hidden must not be focusable',
+    wcag: ['4.1.2 Name, Role, Value'],
+    help: 'Remove aria-hidden, or take the focusable elements out of the tab order with tabindex="-1"',
+  },
+  'link-name': {
+    impact: 'serious',
+    description: 'Links must have discernible text',
+    wcag: ['2.4.4 Link Purpose (In Context)', '4.1.2 Name, Role, Value'],
+    help: 'Give the link text, an aria-label, or an image with alt text describing where it goes',
+  },
+  'html-has-lang': {
+    impact: 'serious',
+    description: 'The <html> element must have a lang attribute',
+    wcag: ['3.1.1 Language of Page'],
+    help: 'Add the page language, e.g. <html lang="en">',
+  },
+  'document-title': {
+    impact: 'serious',
+    description: 'The page must have a title',
+    wcag: ['2.4.2 Page Titled'],
+    help: 'Add a descriptive <title> to the <head>',
+  },
+  'frame-title': {
+    impact: 'serious',
+    description: 'Frames must have a title',
+    wcag: ['4.1.2 Name, Role, Value'],
+    help: 'Add a title attribute describing the frame content',
+  },
+  'tabindex': {
+    impact: 'serious',
+    description: 'Elements should not have a tabindex greater than zero',
+    wcag: ['2.4.3 Focus Order'],
+    help: 'Use tabindex="0" or reorder the markup so the focus order follows the page',
+  },
+  'heading-order': {
+    impact: 'moderate',
+    description: 'Heading levels should only increase by one',
+    wcag: ['1.3.1 Info and Relationships'],
+    help: 'Do not skip heading levels, e.g. follow an <h2> with an <h3> rather than an <h4>',
+  },
+  'page-has-heading-one': {
+    impact: 'moderate',
+    description: 'The page should have a level-one heading',
+    wcag: ['1.3.1 Info and Relationships', '2.4.6 Headings and Labels'],
+    help: 'Add an <h1> describing the page content',
+  },
+  'landmark-one-main': {
+    impact: 'moderate',
+    description: 'The page should have a main landmark',
+    wcag: ['1.3.1 Info and Relationships', '2.4.1 Bypass Blocks'],
+    help: 'Wrap the main content in <main> so screen reader users can jump to it',
+  },
+  'empty-heading': {
+    impact: 'minor',
+    description: 'Headings must not be empty',
+    wcag: ['2.4.6 Headings and Labels'],
+    help: 'Give the heading text, or use a styled element instead if it is only decorative',
+  },
+}
+
+const IMPACT_ORDER: AccessibilityImpact[] = ['critical', 'serious', 'moderate', 'minor']
+
+const ARIA_ROLES = new Set([
+  'alert', 'alertdialog', 'application', 'article', 'banner', 'blockquote', 'button', 'caption', 'cell',
+  'checkbox', 'code', 'columnheader', 'combobox', 'complementary', 'contentinfo', 'definition', 'deletion',
+  'dialog', 'directory', 'document', 'emphasis', 'feed', 'figure', 'form', 'generic', 'grid', 'gridcell',
+  'group', 'heading', 'img', 'insertion', 'link', 'list', 'listbox', 'listitem', 'log', 'main', 'marquee',
+  'math', 'menu', 'menubar', 'menuitem', 'menuitemcheckbox', 'menuitemradio', 'meter', 'navigation', 'none',
+  'note', 'option', 'paragraph', 'presentation', 'progressbar', 'radio', 'radiogroup', 'region', 'row',
+  'rowgroup', 'rowheader', 'scrollbar', 'search', 'searchbox', 'separator', 'slider', 'spinbutton', 'status',
+  'strong', 'subscript', 'superscript', 'switch', 'tab', 'table', 'tablist', 'tabpanel', 'term', 'textbox',
+  'time', 'timer', 'toolbar', 'tooltip', 'tree', 'treegrid', 'treeitem',
+])
+
+const ARIA_ATTRIBUTES = new Set([
+  'activedescendant', 'atomic', 'autocomplete', 'braillelabel', 'brailleroledescription', 'busy', 'checked',
+  'colcount', 'colindex', 'colindextext', 'colspan', 'controls', 'current', 'describedby', 'description',
+  'details', 'disabled', 'dropeffect', 'errormessage', 'expanded', 'flowto', 'grabbed', 'haspopup', 'hidden',
+  'invalid', 'keyshortcuts', 'label', 'labelledby', 'level', 'live', 'modal', 'multiline', 'multiselectable',
+  'orientation', 'owns', 'placeholder', 'posinset', 'pressed', 'readonly', 'relevant', 'required',
+  'roledescription', 'rowcount', 'rowindex', 'rowindextext', 'rowspan', 'selected', 'setsize', 'sort',
+  'valuemax', 'valuemin', 'valuenow', 'valuetext',
+])
+
+const IDREF_ATTRIBUTES = ['aria-labelledby', 'aria-describedby', 'aria-controls', 'aria-owns', 'aria-activedescendant', 'aria-errormessage']
+
+const LABELLABLE_INPUTS = new Set(['hidden', 'submit', 'button', 'reset', 'image'])
+const MAX_NODES_PER_RULE = 10
+const MAX_SNIPPET_LENGTH = 120
+const MAX_CONTRAST_SAMPLES = 200
+
+// Collects the text elements of a rendered page with their computed colours. Evaluated as a
+// string so bundlers can't rewrite it (helper-name injection breaks functions sent to the page).
+export const CONTRAST_SCRIPT = `(() => {
+  const selectorFor = (element) => {
+    const parts = []
+    for (let node = element; node && node.nodeType === 1 && node !== document.documentElement; node = node.parentElement) {
+      if (node.id && /^[A-Za-z][\\w-]*$/.test(node.id)) { parts.unshift('#' + node.id); break }
+      const tag = node.tagName.toLowerCase()
+      const siblings = node.parentElement ? Array.from(node.parentElement.children).filter(child => child.tagName === node.tagName) : []
+      parts.unshift(siblings.length > 1 ? tag + ':nth-of-type(' + (siblings.indexOf(node) + 1) + ')' : tag)
+    }
+    return parts.join(' > ')
+  }
+  const backgroundOf = (element) => {
+    for (let node = element; node; node = node.parentElement) {
+      const style = getComputedStyle(node)
+      if (style.backgroundImage && style.backgroundImage !== 'none') return null
+      const color = style.backgroundColor
+      if (color && color !== 'transparent' && !/rgba\\([^)]*,\\s*0\\)$/.test(color)) return color
+    }
+    return 'rgb(255, 255, 255)'
+  }
+  const samples = []
+  const seen = new Set()
+  const walker = document.createTreeWalker(document.body || document.documentElement, NodeFilter.SHOW_TEXT)
+  while (walker.nextNode() && samples.length < ${MAX_CONTRAST_SAMPLES}) {
+    const element = walker.currentNode.parentElement
+    if (!element || seen.has(element) || !walker.currentNode.textContent.trim()) continue
+    seen.add(element)
+    const style = getComputedStyle(element)
+    const box = element.getBoundingClientRect()
+    if (style.visibility === 'hidden' || style.display === 'none' || parseFloat(style.opacity) === 0 || box.width === 0 || box.height === 0) continue
+    const background = backgroundOf(element)
+    if (!background) continue
+    samples.push({
+      selector: selectorFor(element),
+      snippet: element.outerHTML.slice(0, ${MAX_SNIPPET_LENGTH}),
+      color: style.color,
+      background,
+      fontSize: parseFloat(style.fontSize),
+      fontWeight: parseInt(style.fontWeight, 10) || 400,
+    })
+  }
+  return samples
+})()`
+
+const toNode = (element: HtmlElement): AccessibilityNode => ({ selector: selectorFor(element), snippet: element.source })
+
+const isHidden = (element: HtmlElement) => {
+  for (let node: HtmlElement | null = element; node; node = node.parent) {
+    if ('hidden' in node.attrs || node.attrs['aria-hidden'] === 'true' || /display\s*:\s*none/i.test(node.attrs.style || '')) {
+      return true
+    }
+  }
+  return false
+}
+
+const isFocusable = (element: HtmlElement) => {
+  if (element.attrs.tabindex !== undefined) return parseInt(element.attrs.tabindex, 10) >= 0
+  if ('disabled' in element.attrs) return false
+  if (element.tag === 'a' || element.tag === 'area') return element.attrs.href !== undefined
+  if (element.tag === 'input') return element.attrs.type !== 'hidden'
+  return ['button', 'select', 'textarea', 'iframe'].includes(element.tag)
+}
+
+// Simplified accessible name: aria-labelledby, aria-label, content, then title
+function accessibleName(element: HtmlElement, byId: Map<string, HtmlElement>): string {
+  const labelledBy = (element.attrs['aria-labelledby'] || '')
+    .split(/\s+/)
+    .map(id => byId.get(id))
+    .filter((target): target is HtmlElement => !!target)
+    .map(textContent)
+    .join(' ')
+    .trim()
+  return labelledBy || (element.attrs['aria-label'] || '').trim() || textContent(element) || (element.attrs.title || '').trim()
+}
+
+// WCAG relative luminance of an rgb()/rgba() colour, blended over the background when translucent
+function parseColor(value: string): [number, number, number, number] | null {
+  const match = value.match(/rgba?\(\s*([\d.]+)[,\s]+([\d.]+)[,\s]+([\d.]+)(?:\s*[,/]\s*([\d.]+%?))?\s*\)/)
+  if (!match) return null
+  const alpha = match[4] === undefined ? 1 : match[4].endsWith('%') ? parseFloat(match[4]) / 100 : parseFloat(match[4])
+  return [parseFloat(match[1]), parseFloat(match[2]), parseFloat(match[3]), alpha]
+}
+
+function luminance([r, g, b]: number[]) {
+  const [R, G, B] = [r, g, b].map(channel => {
+    const c = channel / 255
+    return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4)
+  })
+  return 0.2126 * R + 0.7152 * G + 0.0722 * B
+}
+
+/**
+ * Contrast ratio between a text colour and its background, or null if either can't be parsed
+ */
+export function contrastRatio(foreground: string, background: string): number | null {
+  const fg = parseColor(foreground)
+  const bg = parseColor(background)
+  if (!fg || !bg) return null
+  const blended = fg.slice(0, 3).map((channel, i) => channel * fg[3] + bg[i] * (1 - fg[3]))
+  const [lighter, darker] = [luminance(blended), luminance(bg)].sort((a, b) => b - a)
+  return (lighter + 0.05) / (darker + 0.05)
+}
+
+// Large text is at least 18pt, or 14pt bold
+const isLargeText = (sample: ContrastSample) => sample.fontSize >= 24 || (sample.fontSize >= 18.66 && sample.fontWeight >= 700)
+
+/**
+ * Audit page HTML. Pass contrast samples from a rendered page to include the colour contrast
+ * rule; without them contrast is reported as unchecked rather than passed.
+ */
+export function auditAccessibility(html: string, options: { source?: AccessibilityAudit['source']; contrastSamples?: ContrastSample[] } = {}): AccessibilityAudit {
+  const document = parseHtml(html)
+  const elements = descendants(document)
+  const byId = new Map<string, HtmlElement>()
+  elements.forEach(element => {
+    if (element.attrs.id && !byId.has(element.attrs.id)) byId.set(element.attrs.id, element)
+  })
+  const visible = elements.filter(element => !isHidden(element))
+  const ofTag = (...tags: string[]) => visible.filter(element => tags.includes(element.tag))
+
+  const results = new Map<string, { applicable: boolean; nodes: AccessibilityNode[] }>()
+  const check = (rule: string, applicable: boolean, failing: (HtmlElement | AccessibilityNode)[]) => {
+    results.set(rule, {
+      applicable,
+      nodes: failing.map(node => 'tag' in node ? toNode(node) : node),
+    })
+  }
+
+  const images = ofTag('img').filter(img => !['presentation', 'none'].includes(img.attrs.role))
+    .concat(ofTag('input').filter(input => input.attrs.type === 'image'))
+  check('image-alt', images.length > 0, images.filter(img => img.attrs.alt === undefined && !img.attrs['aria-label'] && !img.attrs['aria-labelledby']))
+
+  const labelledIds = new Set(ofTag('label').map(label => label.attrs.for).filter(Boolean))
+  const fields = ofTag('input', 'select', 'textarea').filter(field => field.tag !== 'input' || !LABELLABLE_INPUTS.has(field.attrs.type))
+  check('label', fields.length > 0, fields.filter(field => {
+    if (field.attrs['aria-label']?.trim() || field.attrs['aria-labelledby'] || field.attrs.title?.trim()) return false
+    if (field.attrs.id && labelledIds.has(field.attrs.id)) return false
+    for (let node = field.parent; node; node = node.parent) {
+      if (node.tag === 'label') return false
+    }
+    return true
+  }))
+
+  const buttons = ofTag('button').concat(visible.filter(element => element.attrs.role === 'button' && element.tag !== 'button'))
+  const inputButtons = ofTag('input').filter(input => input.attrs.type === 'button')
+  check('button-name', buttons.length + inputButtons.length > 0, [
+    ...buttons.filter(button => !accessibleName(button, byId)),
+    ...inputButtons.filter(input => !input.attrs.value?.trim() && !input.attrs['aria-label']?.trim() && !input.attrs.title?.trim()),
+  ])
+
+  const links = ofTag('a').filter(link => link.attrs.href !== undefined)
+  check('link-name', links.length > 0, links.filter(link => !accessibleName(link, byId)))
+
+  const withRole = elements.filter(element => element.attrs.role !== undefined)
+  check('aria-roles', withRole.length > 0, withRole.filter(element =>
+    !element.attrs.role.trim().split(/\s+/).some(role => ARIA_ROLES.has(role.toLowerCase()))
+  ))
+
+  const withAria = elements.filter(element => Object.keys(element.attrs).some(name => name.startsWith('aria-')))
+  check('aria-valid-attr', withAria.length > 0, withAria.filter(element =>
+    Object.keys(element.attrs).some(name => name.startsWith('aria-') && !ARIA_ATTRIBUTES.has(name.slice(5)))
+  ))
+
+  const withIdRefs = elements.filter(element => IDREF_ATTRIBUTES.some(name => element.attrs[name]))
+  check('aria-valid-attr-value', withIdRefs.length > 0, withIdRefs.filter(element =>
+    IDREF_ATTRIBUTES.some(name => element.attrs[name] && element.attrs[name].trim().split(/\s+/).some(id => !byId.has(id)))
+  ))
+
+  const ariaHidden = elements.filter(element => element.attrs['aria-hidden'] === 'true')
+  check('aria-hidden-focus', ariaHidden.length > 0, ariaHidden.filter(element =>
+    isFocusable(element) || descendants(element).some(isFocusable)
+  ))
+
+  const withTabIndex = elements.filter(element => element.attrs.tabindex !== undefined)
+  check('tabindex', withTabIndex.length > 0, withTabIndex.filter(element => parseInt(element.attrs.tabindex, 10) > 0))
+
+  const frames = ofTag('iframe', 'frame')
+  check('frame-title', frames.length > 0, frames.filter(frame => !frame.attrs.title?.trim() && !frame.attrs['aria-label']?.trim()))
+
+  const htmlElement = elements.find(element => element.tag === 'html')
+  check('html-has-lang', true, htmlElement?.attrs.lang?.trim() ? [] : [htmlElement ? toNode(htmlElement) : { selector: 'html', snippet: '<html>' }])
+
+  const title = elements.find(element => element.tag === 'title')
+  check('document-title', true, title && textContent(title) ? [] : [title ? toNode(title) : { selector: 'head', snippet: '<head>' }])
+
+  const viewports = elements.filter(element => element.tag === 'meta' && element.attrs.name?.toLowerCase() === 'viewport')
+  check('meta-viewport', viewports.length > 0, viewports.filter(meta => {
+    const content = (meta.attrs.content || '').toLowerCase().replace(/\s+/g, '')
+    const maximumScale = content.match(/maximum-scale=([\d.]+)/)
+    return /user-scalable=(no|0)\b/.test(content) || (maximumScale !== null && parseFloat(maximumScale[1]) < 2)
+  }))
+
+  const headings = visible.filter(element => /^h[1-6]$/.test(element.tag) || (element.attrs.role === 'heading' && element.attrs['aria-level']))
+  const levelOf = (heading: HtmlElement) => heading.attrs.role === 'heading' ? parseInt(heading.attrs['aria-level'], 10) : parseInt(heading.tag.slice(1), 10)
+  check('heading-order', headings.length > 1, headings.filter((heading, i) => i > 0 && levelOf(heading) > levelOf(headings[i - 1]) + 1))
+  check('empty-heading', headings.length > 0, headings.filter(heading => !accessibleName(heading, byId)))
+
+  const body = elements.find(element => element.tag === 'body')
+  const bodyNode = body ? toNode(body) : { selector: 'body', snippet: '<body>' }
+  check('page-has-heading-one', true, headings.some(heading => levelOf(heading) === 1) ? [] : [bodyNode])
+  check('landmark-one-main', true, elements.some(element => element.tag === 'main' || element.attrs.role === 'main') ? [] : [bodyNode])
+
+  const samples = options.contrastSamples || []
+  check('color-contrast', samples.length > 0, samples
+    .filter(sample => {
+      const ratio = contrastRatio(sample.color, sample.background)
+      return ratio !== null && ratio < (isLargeText(sample) ? 3 : 4.5)
+    })
+    .map(sample => ({
+      selector: sample.selector,
+      snippet: `${sample.snippet} (${contrastRatio(sample.color, sample.background)!.toFixed(2)}:1, ${sample.color} on ${sample.background})`,
+    })))
+
+  const violations: AccessibilityViolation[] = []
+  const passes: string[] = []
+  results.forEach(({ applicable, nodes }, rule) => {
+    if (nodes.length > 0) {
+      violations.push({ rule, ...RULES[rule], nodes: nodes.slice(0, MAX_NODES_PER_RULE), count: nodes.length })
+    } else if (applicable) {
+      passes.push(rule)
+    }
+  })
+  violations.sort((a, b) => IMPACT_ORDER.indexOf(a.impact) - IMPACT_ORDER.indexOf(b.impact) || b.count - a.count)
+
+  return {
+    source: options.source ?? 'html',
+    violations,
+    passes,
+    contrastChecked: samples.length > 0,
+    elementCount: elements.length,
+  }
+}
+
+// Criteria are only mapped when they are about accessibility; the topic narrows the rules
+const ACCESSIBILITY_CRITERION = /accessib|a11y|wcag|screen ?reader|assistive|alt (text|attribute)|alternative text|contrast|\baria\b|keyboard|landmark|form labels?/i
+
+const CRITERION_TOPICS: { pattern: RegExp; rules: string[] }[] = [
+  { pattern: /\balt\b|alternative text|images?/i, rules: ['image-alt'] },
+  { pattern: /\blabels?\b|forms?\b|inputs?/i, rules: ['label'] },
+  { pattern: /contrast|colou?rs?/i, rules: ['color-contrast'] },
+  { pattern: /headings?|outline/i, rules: ['heading-order', 'page-has-heading-one', 'empty-heading'] },
+  { pattern: /landmark|semantic/i, rules: ['landmark-one-main', 'page-has-heading-one', 'heading-order'] },
+  { pattern: /\baria\b/i, rules: ['aria-roles', 'aria-valid-attr', 'aria-valid-attr-value', 'aria-hidden-focus'] },
+  { pattern: /keyboard|focus|tab order/i, rules: ['tabindex', 'aria-hidden-focus', 'button-name', 'link-name'] },
+  { pattern: /\blinks?\b|buttons?/i, rules: ['link-name', 'button-name'] },
+  { pattern: /\blang(uage)?\b/i, rules: ['html-has-lang'] },
+  { pattern: /zoom|resiz/i, rules: ['meta-viewport'] },
+]
+
+/**
+ * Map an audit onto rubric criteria that mention accessibility ("Images have alt text",
+ * "Meets WCAG AA colour contrast", "Accessible to screen reader users"). Criteria that
+ * name a topic are checked against its rules; general ones against every rule.
+ */
+export function mapAuditToCriteria(criteria: string[], audit: AccessibilityAudit): AccessibilityCriterionResult[] {
+  const results: AccessibilityCriterionResult[] = []
+
+  for (const criterion of criteria) {
+    if (!ACCESSIBILITY_CRITERION.test(criterion)) continue
+
+    const topical = CRITERION_TOPICS.filter(topic => topic.pattern.test(criterion)).flatMap(topic => topic.rules)
+    const rules = topical.length > 0 ? Array.from(new Set(topical)) : Object.keys(RULES)
+    const violations = audit.violations.filter(violation => rules.includes(violation.rule))
+    const unchecked = rules.includes('color-contrast') && !audit.contrastChecked
+
+    let detail: string
+    if (violations.length > 0) {
+      detail = violations.map(violation => `${violation.rule} (${violation.count})`).join(', ')
+    } else {
+      const checked = rules.filter(rule => audit.passes.includes(rule))
+      detail = checked.length > 0 ? `No violations (${checked.join(', ')})` : 'No applicable elements found'
+    }
+    if (unchecked) detail += '; colour contrast was not checked because the page was not rendered'
+
+    results.push({ criterion, rules, passed: violations.length === 0, detail })
+  }
+
+  return results
+}
+
+/**
+ * Markdown summary of an audit for the assessment prompt
+ */
+export function formatAccessibilityAudit(audit: AccessibilityAudit, checks: AccessibilityCriterionResult[] = []): string {
+  const lines: string[] = []
+  const counts = IMPACT_ORDER
+    .map(impact => [impact, audit.violations.filter(violation => violation.impact === impact).length] as const)
+    .filter(([, count]) => count > 0)
+    .map(([impact, count]) => `${count} ${impact}`)
+
+  lines.push(`Audited: ${audit.source === 'rendered' ? 'rendered page' : 'page HTML (not rendered)'}, ${audit.elementCount} elements`)
+  lines.push(`Violations: ${audit.violations.length === 0 ? 'none' : `${audit.violations.length} rule(s) failed (${counts.join(', ')})`}`)
+  lines.push(`Passed: ${audit.passes.join(', ') || 'none'}`)
+  if (!audit.contrastChecked) lines.push('Colour contrast: not checked (needs a rendered page)')
+
+  for (const violation of audit.violations) {
+    lines.push('')
+    lines.push(`- [${violation.impact}] ${violation.rule}: ${violation.description} (WCAG ${violation.wcag.join('; ')})`)
+    lines.push(`  Fix: ${violation.help}`)
+    violation.nodes.slice(0, 5).forEach(node => lines.push(`  - \`${node.selector}\`: ${node.snippet}`))
+    if (violation.count > 5) lines.push(`  - ... ${violation.count - 5} more element(s)`)
+  }
+
+  if (checks.length > 0) {
+    lines.push('')
+    lines.push('Rubric criteria:')
+    checks.forEach(check => lines.push(`- ${check.passed ? '✅' : '❌'} ${check.criterion}: ${check.detail}`))
+  }
+
+  return lines.join('\n')
+}
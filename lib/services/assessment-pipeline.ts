@@ -0,0 +1,635 @@
+// lib/services/assessment-pipeline.ts
+import { githubService } from '@/lib/services/github-service'
+import { documentService, NoExtractableTextError } from '@/lib/services/document-service'
+import {
+  parseTextStructure,
+  formatDocumentStructure,
+  runStructuralChecks,
+  type DocumentStructure,
+} from '@/lib/services/document-structure-service'
+import { websiteService } from '@/lib/services/website-service'
+import { screenshotService, type PreparedScreenshotImage } from '@/lib/services/screenshot-service'
+import { formatBytes } from '@/lib/services/performance-service'
+import { assessSubmission } from '@/lib/services/llm-service'
+import { resolveQuestionRubric } from '@/lib/services/rubric-service'
+import { resolveConsensusConfig } from '@/lib/services/consensus-service'
+import { compareWithExemplar } from '@/lib/services/similarity-service'
+import { indexSubmissionForSimilarity, repositoryContent } from '@/lib/services/plagiarism-service'
+import { withTimeout } from '@/lib/utils/error-handling'
+
+// Upper bound for a single assessment attempt, including fetches and the LLM call
+export const ASSESSMENT_TIMEOUT_MS = 120000
+// Kept back from ASSESSMENT_TIMEOUT_MS after checking a website, for storing screenshots and the LLM call
+const WEBSITE_ASSESSMENT_RESERVE_MS = 40000
+
+// How each format's extracted text is laid out, so the assessor can point at parts of it
+const DOCUMENT_LAYOUT_NOTES: Record<string, string> = {
+  'application/pdf': 'The text of each page follows a [Page N] marker. Cite page numbers (e.g. "page 3") when feedback refers to a specific part of the document.',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': 'The text of each slide follows a [Slide N: title] marker, with its speaker notes last. Cite slide numbers (e.g. "slide 4") in feedback. Images on the slides were not available to you.',
+  'application/x-ipynb+json': 'Each notebook cell follows a [Cell N: markdown] or [Cell N: code, In [n]] marker; code outputs follow [Output]. Cite cell numbers in feedback. Plots appear only as [image output].',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'Each sheet is summarised (size, column statistics and the first rows) after a [Sheet: name] marker; the full data was not available to you.',
+  'text/csv': 'The data is summarised (size, column statistics and the first rows); the full data was not available to you.',
+}
+
+// What the student submitted, before it was flattened for storage
+export interface AssessmentInput {
+  content: string // Cleaned URL, file URL or text
+  additionalInfo?: string
+  commitSha?: string // GitHub submissions: the commit pinned at submit time
+}
+
+/**
+ * Run the type-specific assessment for a submission.
+ * Throws on failure so the job queue can retry or mark the job FAILED.
+ */
+export async function runAssessmentPipeline(
+  question: any,
+  input: AssessmentInput,
+  submissionId: string
+) {
+  const { content, additionalInfo, commitSha } = input
+  const finalContent = additionalInfo
+    ? `${content}\n\nAdditional Notes:\n${additionalInfo}`
+    : content
+
+  switch (question.submissionType) {
+    case 'GITHUB_REPO':
+      console.log('🔍 Starting GitHub assessment...');
+      return withTimeout(
+        assessGitHubRepository(content, question, submissionId, commitSha),
+        ASSESSMENT_TIMEOUT_MS,
+        'GitHub assessment timed out'
+      );
+    case 'DOCUMENT':
+      console.log('📄 Starting document assessment...');
+      return withTimeout(
+        assessDocument(content, question, submissionId),
+        ASSESSMENT_TIMEOUT_MS,
+        'Document assessment timed out'
+      );
+    case 'WEBSITE':
+      console.log('🌐 Starting website assessment...');
+      return withTimeout(
+        assessWebsite(content, question, submissionId),
+        ASSESSMENT_TIMEOUT_MS,
+        'Website assessment timed out'
+      );
+    case 'SCREENSHOT':
+      console.log('📸 Starting screenshot assessment...');
+      return withTimeout(
+        assessScreenshot(content, question, submissionId),
+        ASSESSMENT_TIMEOUT_MS,
+        'Screenshot assessment timed out'
+      );
+    default:
+      console.log('🔍 Starting regular assessment...');
+      return withTimeout(
+        assessText(finalContent, question, submissionId),
+        ASSESSMENT_TIMEOUT_MS,
+        'Assessment timed out'
+      );
+  }
+}
+
+/**
+ * Section-by-section comparison with the question's first base example, when it has text.
+ * Similarity is advisory, so a failure here never fails the assessment.
+ */
+async function compareWithBaseExample(submissionText: string, question: any) {
+  const exemplarText = question.baseExamples?.[0]?.content
+  if (!exemplarText?.trim()) {
+    return null
+  }
+
+  try {
+    return await compareWithExemplar(submissionText, exemplarText, { provider: question.course?.llmProvider })
+  } catch (error) {
+    console.warn('⚠️ Base example comparison failed:', error instanceof Error ? error.message : error);
+    return null
+  }
+}
+
+/**
+ * Free-text assessment, with the base example shown in full and aligned section by section
+ */
+async function assessText(content: string, question: any, submissionId: string) {
+  const exemplarComparison = await compareWithBaseExample(content, question)
+  await indexSubmissionForSimilarity(submissionId, question, 'TEXT', content)
+
+  const assessment = await assessSubmission({
+    submissionContent: content,
+    submissionType: question.submissionType,
+    questionTitle: question.title,
+    questionDescription: question.description,
+    assessmentPrompt: question.assessmentPrompt || undefined,
+    criteria: question.criteria,
+    redFlags: question.redFlags,
+    conditionalChecks: question.conditionalChecks,
+    rubric: resolveQuestionRubric(question),
+    consensus: resolveConsensusConfig(question),
+    baseExampleContent: question.baseExamples[0]?.content,
+    baseExampleMetadata: question.baseExamples[0]?.metadata,
+    exemplarComparison,
+    provider: question.course?.llmProvider,
+    courseId: question.courseId,
+    questionId: question.id,
+    submissionId,
+  });
+
+  return exemplarComparison ? { ...assessment, metadata: { exemplarComparison } } : assessment
+}
+
+/**
+ * Specialized GitHub repository assessment with comprehensive code analysis
+ */
+async function assessGitHubRepository(repoUrl: string, question: any, submissionId: string, commitSha?: string) {
+  console.log('🔍 Assessing GitHub repository:', repoUrl);
+
+  try {
+    // Parse GitHub URL
+    const parsed = githubService.parseGitHubUrl(repoUrl);
+    if (!parsed) {
+      throw new Error('Invalid GitHub URL');
+    }
+
+    // Fetch complete repository information at the pinned commit; submissions made before
+    // commits were pinned fall back to the branch or commit in their URL
+    const repoInfo = await githubService.getRepositoryInfo(parsed.owner, parsed.repo, commitSha || parsed.ref);
+    console.log('📊 Repository fetched:', {
+      commit: repoInfo.commit.sha,
+      fileCount: repoInfo.fileCount,
+      filesAnalyzed: repoInfo.files.length,
+      hasReadme: !!repoInfo.readme,
+      hasTests: repoInfo.hasTests,
+      totalSize: repoInfo.totalSize
+    });
+
+    const code = repositoryContent(repoInfo.files);
+    if (code) {
+      await indexSubmissionForSimilarity(submissionId, question, 'CODE', code);
+    }
+
+    // Extract keywords from question for adaptive file selection
+    const assignmentKeywords = [
+      ...question.title.toLowerCase().split(' '),
+      ...question.description.toLowerCase().split(' '),
+      ...(question.criteria || []).flatMap((c: string) => c.toLowerCase().split(' '))
+    ].filter(word => word.length > 3) // Filter out short words
+
+    // How the work was done, measured against the question's due date when it has one
+    const commitHistory = githubService.analyzeCommitHistory(repoInfo, question.dueAt);
+
+    // Lint-style findings, complexity, dependencies, tests and secrets, without running any code
+    const staticAnalysis = githubService.analyzeCode(repoInfo);
+
+    // Generate comprehensive repository summary for LLM with adaptive file selection
+    const repoSummary = githubService.generateRepoSummary(repoInfo, assignmentKeywords, commitHistory, staticAnalysis);
+
+    // Get AI assessment with the GitHub repository prompt template
+    const assessment = await assessSubmission({
+      submissionContent: repoSummary,
+      submissionType: question.submissionType,
+      questionTitle: question.title,
+      questionDescription: question.description,
+      assessmentPrompt: question.assessmentPrompt || undefined,
+      criteria: question.criteria,
+      redFlags: question.redFlags,
+      conditionalChecks: question.conditionalChecks,
+      rubric: resolveQuestionRubric(question),
+      consensus: resolveConsensusConfig(question),
+      provider: question.course?.llmProvider,
+      courseId: question.courseId,
+      questionId: question.id,
+      submissionId,
+    });
+
+    // Enhance feedback with GitHub-specific insights
+    const mainLanguage = Object.entries(repoInfo.languages).sort((a, b) => b[1] - a[1])[0]?.[0] || 'Unknown'
+    const enhancedFeedback = `${assessment.feedback}
+
+---
+
+**Repository Analysis Summary:**
+- **Repository:** ${parsed.owner}/${parsed.repo}
+- **Commit:** ${repoInfo.commit.sha.slice(0, 7)} (${repoInfo.commit.message})
+- **Main Language:** ${mainLanguage}
+- **Files Analyzed:** ${repoInfo.files.length} (out of ${repoInfo.fileCount} total)
+- **README:** ${repoInfo.readme ? '✓ Present' : '✗ Missing'}
+- **Tests:** ${staticAnalysis.tests.testCases > 0 ? `✓ ${staticAnalysis.tests.testCases} test cases` : '✗ Not detected'}
+- **Documentation:** ${repoInfo.hasDocumentation ? '✓ Present' : '✗ Limited'}
+- **Repository Size:** ${(repoInfo.totalSize / 1024).toFixed(2)} KB
+- **Static Analysis:** ${staticAnalysis.findings.filter(f => f.severity === 'error').length} errors, ${staticAnalysis.findings.filter(f => f.severity === 'warning').length} warnings, max function complexity ${staticAnalysis.functions.maxComplexity}${staticAnalysis.secrets.length > 0 ? `, ⚠ ${staticAnalysis.secrets.length} possible committed secret(s)` : ''}
+- **Commits:** ${commitHistory.commitCount}${commitHistory.historyTruncated ? '+' : ''} over ${commitHistory.activeDays} active day(s)${commitHistory.burstBeforeDeadline ? ' (mostly dated in the final 48 hours)' : ''}`;
+
+    return {
+      ...assessment,
+      feedback: enhancedFeedback,
+      metadata: {
+        github: {
+          owner: parsed.owner,
+          repo: parsed.repo,
+          commit: repoInfo.commit,
+          process: commitHistory,
+          fileCount: repoInfo.fileCount,
+          filesAnalyzed: repoInfo.files.length,
+          mainLanguage,
+          hasReadme: !!repoInfo.readme,
+          hasTests: staticAnalysis.tests.testCases > 0,
+          hasDocumentation: repoInfo.hasDocumentation,
+          languages: repoInfo.languages,
+          staticAnalysis: { ...staticAnalysis, findings: staticAnalysis.findings.slice(0, 50) },
+        },
+        repoUrl: repoUrl,
+      }
+    };
+
+  } catch (error) {
+    console.error('❌ GitHub assessment failed:', error);
+
+    // Rethrow with guidance so the queue can retry and surface it if the job fails
+    throw new Error(`GitHub repository assessment failed: ${error instanceof Error ? error.message : 'Unknown error'}. Please ensure the repository is public and accessible.`);
+  }
+}
+
+/**
+ * Specialized document assessment with text extraction and comparison
+ */
+async function assessDocument(fileUrlOrContent: string, question: any, submissionId: string) {
+  console.log('📄 Assessing document submission...');
+
+  try {
+    let documentContent: string;
+    let documentMetadata: any;
+    let documentStructure: DocumentStructure | null = null;
+
+    // Check if it's a Vercel Blob URL or direct content
+    if (fileUrlOrContent.startsWith('http')) {
+      // It's a file URL - fetch and process it
+      console.log('📥 Fetching document from URL:', fileUrlOrContent);
+
+      try {
+        const documentInfo = await documentService.processDocumentFromUrl(fileUrlOrContent);
+        documentContent = documentInfo.content;
+        documentMetadata = documentInfo.metadata;
+        documentStructure = documentInfo.structure ?? null;
+
+        console.log('📊 Document processed:', {
+          wordCount: documentMetadata.wordCount,
+          pageCount: documentMetadata.pageCount,
+          fileType: documentMetadata.fileType
+        });
+      } catch (error) {
+        // A readable file with no text (e.g. a scanned PDF) must not be graded as its URL
+        if (error instanceof NoExtractableTextError) {
+          throw error;
+        }
+        console.warn('⚠️ Could not fetch document from URL, treating as text content');
+        documentContent = fileUrlOrContent;
+        documentMetadata = null;
+      }
+    } else {
+      // It's direct text content
+      documentContent = fileUrlOrContent;
+      documentMetadata = {
+        wordCount: documentService['countWords'](documentContent),
+        pageCount: documentService['estimatePageCount'](documentContent),
+        pageCountEstimated: true,
+        fileType: 'text/plain'
+      };
+      documentStructure = parseTextStructure(documentContent);
+    }
+
+    // PDFs, slide decks and most DOCX/ODT files report a real page (or slide) count
+    const isSlides = documentMetadata?.fileType === 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+    const pagesLabel = isSlides ? 'Slides' : documentMetadata?.pageCountEstimated === false ? 'Pages' : 'Estimated Pages';
+    const layoutNote = DOCUMENT_LAYOUT_NOTES[documentMetadata?.fileType];
+
+    // Criteria such as "includes a Methodology section" are checked against the parsed structure
+    const rubric = resolveQuestionRubric(question);
+    const structuralChecks = documentStructure
+      ? runStructuralChecks(rubric.filter(c => c.kind !== 'RED_FLAG').map(c => c.title), documentStructure)
+      : [];
+
+    // Metadata and a length-bounded excerpt feed the document prompt template
+    const documentDetails = documentMetadata ? `- Word Count: ${documentMetadata.wordCount} words
+- ${pagesLabel}: ${documentMetadata.pageCount || 'N/A'}
+- File Type: ${documentMetadata.fileType}${documentMetadata.formatSummary ? `
+- Contents: ${documentMetadata.formatSummary}` : ''}${documentMetadata.emptyPages?.length ? `
+- Pages Without Extractable Text: ${documentMetadata.emptyPages.join(', ')} (likely images or scans; their content was not available to you)` : ''}${layoutNote ? `
+- ${layoutNote}` : ''}${documentStructure ? `
+
+Document Structure:
+${formatDocumentStructure(documentStructure)}` : ''}` : undefined;
+    // A URL we could not fetch has nothing to compare
+    const exemplarComparison = documentMetadata ? await compareWithBaseExample(documentContent, question) : null;
+    if (documentMetadata) {
+      await indexSubmissionForSimilarity(submissionId, question, 'TEXT', documentContent);
+    }
+
+    const documentExcerpt = `${documentContent.substring(0, 8000)}${documentContent.length > 8000 ? '\n\n[Content truncated for length...]' : ''}`;
+
+    // Get AI assessment with the document prompt template
+    const assessment = await assessSubmission({
+      submissionContent: documentExcerpt,
+      submissionDetails: documentDetails,
+      baseExampleDescription: question.baseExamples && question.baseExamples.length > 0
+        ? question.baseExamples[0].description || 'Reference standard provided'
+        : undefined,
+      submissionType: question.submissionType,
+      questionTitle: question.title,
+      questionDescription: question.description,
+      assessmentPrompt: question.assessmentPrompt || undefined,
+      criteria: question.criteria,
+      redFlags: question.redFlags,
+      conditionalChecks: question.conditionalChecks,
+      rubric,
+      structuralChecks,
+      exemplarComparison,
+      consensus: resolveConsensusConfig(question),
+      provider: question.course?.llmProvider,
+      courseId: question.courseId,
+      questionId: question.id,
+      submissionId,
+    });
+
+    // Enhance feedback with document-specific insights
+    const enhancedFeedback = documentMetadata ? `${assessment.feedback}
+
+---
+
+**Document Analysis Summary:**
+- **Word Count:** ${documentMetadata.wordCount} words
+- **${pagesLabel}:** ${documentMetadata.pageCount || 'N/A'}
+- **File Type:** ${documentMetadata.fileType}${documentMetadata.formatSummary ? `
+- **Contents:** ${documentMetadata.formatSummary}` : ''}
+- **Content Length:** ${documentContent.length > 5000 ? 'Comprehensive' : documentContent.length > 2000 ? 'Moderate' : 'Brief'}${structuralChecks.length > 0 ? `
+
+**Structure Checks:**
+${structuralChecks.map(check => `- ${check.passed ? '✅' : '❌'} ${check.requirement}: ${check.detail}`).join('\n')}` : ''}` : assessment.feedback;
+
+    return {
+      ...assessment,
+      feedback: enhancedFeedback,
+      metadata: {
+        document: documentMetadata,
+        structure: documentStructure,
+        structuralChecks,
+        exemplarComparison,
+        contentLength: documentContent.length,
+        processingMethod: fileUrlOrContent.startsWith('http') ? 'url-fetch' : 'direct-content'
+      }
+    };
+
+  } catch (error) {
+    console.error('❌ Document assessment failed:', error);
+    if (error instanceof NoExtractableTextError) {
+      throw error;
+    }
+
+    // Rethrow with guidance so the queue can retry and surface it if the job fails
+    throw new Error(`Document assessment failed: ${error instanceof Error ? error.message : 'Unknown error'}. Please ensure the document is accessible and in a supported format (PDF, DOCX, ODT, TXT, Markdown, PPTX, XLSX, CSV or IPYNB).`);
+  }
+}
+
+/**
+ * Specialized website assessment with accessibility and functionality testing
+ */
+async function assessWebsite(websiteUrl: string, question: any, submissionId: string) {
+  console.log('🌐 Assessing website submission...');
+  const deadline = Date.now() + ASSESSMENT_TIMEOUT_MS - WEBSITE_ASSESSMENT_RESERVE_MS;
+
+  try {
+    // Test website accessibility and functionality
+    const criteria = resolveQuestionRubric(question).filter(c => c.kind !== 'RED_FLAG').map(c => c.title);
+    const assessmentData = await websiteService.assessWebsite(websiteUrl, criteria, {
+      crawl: { maxDepth: question.crawlDepth, maxPages: question.crawlMaxPages },
+      checks: question.websiteChecks,
+      budget: { maxPageWeightKb: question.maxPageWeightKb, maxRequests: question.maxRequests, maxLoadTimeMs: question.maxLoadTimeMs },
+      deadline,
+    });
+    const websiteSummary = websiteService.generateWebsiteSummary(assessmentData);
+
+    console.log('📊 Website tested:', {
+      url: assessmentData.websiteInfo.url,
+      accessible: assessmentData.websiteInfo.isAccessible,
+      rendered: !!assessmentData.rendered,
+      accessibilityViolations: assessmentData.accessibility?.violations.length ?? null,
+      pagesCrawled: assessmentData.crawl.pages.length,
+      brokenLinks: assessmentData.crawl.brokenLinks.length,
+      issues: assessmentData.issues.length,
+      strengths: assessmentData.strengths.length
+    });
+
+    // Rendered screenshots go through the screenshot pipeline: stored for the results page
+    // and shown to a vision-capable model
+    const screenshots = [];
+    const visionImages: PreparedScreenshotImage[] = [];
+    for (const shot of assessmentData.rendered?.screenshots || []) {
+      let url: string | undefined;
+      try {
+        const file = new File([new Uint8Array(shot.image)], `website-${shot.viewport}.jpg`, { type: 'image/jpeg' });
+        url = (await screenshotService.processScreenshot(file, { submissionId })).imageUrl;
+      } catch (error) {
+        console.warn(`⚠️ Could not store ${shot.viewport} screenshot:`, error instanceof Error ? error.message : error);
+      }
+      try {
+        visionImages.push(await screenshotService.normalizeForVision(shot.image));
+      } catch (error) {
+        console.warn(`⚠️ Could not prepare ${shot.viewport} screenshot for vision:`, error instanceof Error ? error.message : error);
+      }
+      screenshots.push({ viewport: shot.viewport, width: shot.width, height: shot.height, pageHeight: shot.pageHeight, url });
+    }
+
+    // Get AI assessment with the website prompt template
+    const assessment = await assessSubmission({
+      submissionContent: websiteSummary,
+      submissionType: question.submissionType,
+      questionTitle: question.title,
+      questionDescription: question.description,
+      assessmentPrompt: question.assessmentPrompt || undefined,
+      criteria: question.criteria,
+      redFlags: question.redFlags,
+      conditionalChecks: question.conditionalChecks,
+      rubric: resolveQuestionRubric(question),
+      consensus: resolveConsensusConfig(question),
+      provider: question.course?.llmProvider,
+      courseId: question.courseId,
+      questionId: question.id,
+      submissionId,
+      images: visionImages.length > 0 ? visionImages.map(image => ({ data: image.data, mediaType: image.mediaType })) : undefined,
+    });
+
+    // Enhance feedback with website-specific insights
+    const rendered = assessmentData.rendered;
+    const { accessibility, accessibilityChecks, crawl, checks, performance, security } = assessmentData;
+    const enhancedFeedback = `${assessment.feedback}
+
+---
+
+**Website Assessment Summary:**
+- **URL:** ${assessmentData.websiteInfo.url}
+- **Accessibility:** ${assessmentData.websiteInfo.isAccessible ? '✓ Accessible' : '✗ Not Accessible'}
+- **Protocol:** ${assessmentData.websiteInfo.metadata?.hasHttps ? 'HTTPS ✓' : 'HTTP'}
+- **Response Time:** ${assessmentData.websiteInfo.responseTime ? `${assessmentData.websiteInfo.responseTime}ms` : 'N/A'}
+- **Rendered In Browser:** ${rendered ? `✓ (${rendered.consoleErrors.length} console errors, ${rendered.failedRequests.length} failed requests)` : '✗ Not available'}
+- **Page Weight:** ${performance ? `${formatBytes(performance.totalBytes)} in ${performance.requestCount} requests` : 'N/A'}
+- **Security Grade:** ${security ? `${security.grade} (${security.score}/100)` : 'N/A'}
+- **Pages Crawled:** ${crawl.pages.filter(page => page.depth !== null).length} (${crawl.brokenLinks.length} broken links)
+- **Accessibility Audit:** ${accessibility ? `${accessibility.violations.length === 0 ? '✓ No violations' : `${accessibility.violations.length} rule(s) failed (${accessibility.violations.map(v => v.rule).join(', ')})`}${accessibility.contrastChecked ? '' : ', contrast not checked'}` : 'N/A'}
+- **Issues Found:** ${assessmentData.issues.length}
+- **Strengths:** ${assessmentData.strengths.length}${checks.length > 0 ? `
+
+**Scripted Checks:**
+${checks.map(check => `- ${check.status === 'passed' ? '✅' : check.status === 'failed' ? '❌' : '❔'} ${check.check}: ${check.detail}`).join('\n')}` : ''}${accessibilityChecks.length > 0 ? `
+
+**Accessibility Criteria:**
+${accessibilityChecks.map(check => `- ${check.passed ? '✅' : '❌'} ${check.criterion}: ${check.detail}`).join('\n')}` : ''}${performance && performance.budget.length > 0 ? `
+
+**Performance Budget:**
+${performance.budget.map(result => `- ${result.passed === null ? '❔' : result.passed ? '✅' : '❌'} ${result.label}: ${result.actual}`).join('\n')}` : ''}${security && security.findings.some(finding => finding.status !== 'pass') ? `
+
+**Security Findings:**
+${security.findings.filter(finding => finding.status !== 'pass').map(finding => `- ${finding.status === 'fail' ? '❌' : '⚠️'} [${finding.severity}] ${finding.title}: ${finding.detail}`).join('\n')}` : ''}`;
+
+    return {
+      ...assessment,
+      feedback: enhancedFeedback,
+      metadata: {
+        website: assessmentData.websiteInfo,
+        // Everything from the browser except the image bytes, which live in blob storage
+        rendering: rendered ? {
+          finalUrl: rendered.finalUrl,
+          status: rendered.status,
+          title: rendered.title,
+          loadTime: rendered.loadTime,
+          consoleErrors: rendered.consoleErrors,
+          failedRequests: rendered.failedRequests,
+          horizontalOverflow: rendered.horizontalOverflow,
+          textLength: rendered.text.length,
+          screenshots,
+        } : null,
+        accessibility,
+        accessibilityChecks,
+        // Page HTML is left out; it can be refetched from the URLs
+        crawl: { ...crawl, pages: crawl.pages.map(page => ({ ...page, html: undefined })) },
+        websiteChecks: checks,
+        performance,
+        security,
+        vision: visionImages.length > 0 ? visionImages.map(image => ({ width: image.width, height: image.height, byteSize: image.byteSize })) : null,
+        issues: assessmentData.issues,
+        strengths: assessmentData.strengths,
+        recommendations: assessmentData.recommendations,
+      }
+    };
+
+  } catch (error) {
+    console.error('❌ Website assessment failed:', error);
+
+    // Rethrow with guidance so the queue can retry and surface it if the job fails
+    throw new Error(`Website assessment failed: ${error instanceof Error ? error.message : 'Unknown error'}. Please ensure the website URL is valid and publicly accessible.`);
+  }
+}
+
+/**
+ * Specialized screenshot assessment with visual analysis
+ */
+async function assessScreenshot(screenshotUrlOrDescription: string, question: any, submissionId: string) {
+  console.log('📸 Assessing screenshot submission...');
+
+  try {
+    let screenshotInfo = null;
+    let isImageUrl = false;
+
+    // Check if it's an image URL
+    if (screenshotUrlOrDescription.startsWith('http')) {
+      isImageUrl = screenshotService.isImageUrl(screenshotUrlOrDescription);
+
+      if (isImageUrl) {
+        try {
+          // Try to process as screenshot URL
+          screenshotInfo = await screenshotService.processScreenshotFromUrl(
+            screenshotUrlOrDescription,
+            { submissionId }
+          );
+          console.log('📊 Screenshot processed:', {
+            url: screenshotInfo.imageUrl,
+            size: screenshotInfo.metadata.fileSize,
+            dimensions: `${screenshotInfo.metadata.width}x${screenshotInfo.metadata.height}`
+          });
+        } catch (error) {
+          console.warn('⚠️ Could not process image URL, treating as description');
+        }
+      }
+    }
+
+    // The image itself goes to a vision-capable model; without it the assessment is text-only
+    let visionImage: PreparedScreenshotImage | null = null;
+    if (isImageUrl) {
+      try {
+        visionImage = await screenshotService.prepareForVision(screenshotInfo?.imageUrl || screenshotUrlOrDescription);
+        console.log(`🖼️ Screenshot prepared for vision: ${visionImage.originalWidth}x${visionImage.originalHeight} -> ${visionImage.width}x${visionImage.height} JPEG`);
+      } catch (error) {
+        console.warn('⚠️ Could not prepare screenshot for vision, assessing from metadata only:', error instanceof Error ? error.message : error);
+      }
+    }
+
+    // Image details, when the URL could be processed, feed the screenshot prompt template
+    const screenshotDetails = screenshotInfo ? `- Image URL: ${screenshotInfo.imageUrl}
+- Dimensions: ${screenshotInfo.metadata.width}x${screenshotInfo.metadata.height}
+- File Size: ${(screenshotInfo.metadata.fileSize / 1024).toFixed(2)} KB
+- Format: ${screenshotInfo.metadata.fileType}` : undefined;
+
+    // Get AI assessment with the screenshot prompt template
+    const assessment = await assessSubmission({
+      submissionContent: screenshotUrlOrDescription,
+      submissionDetails: screenshotDetails,
+      submissionType: question.submissionType,
+      questionTitle: question.title,
+      questionDescription: question.description,
+      assessmentPrompt: question.assessmentPrompt || undefined,
+      criteria: question.criteria,
+      redFlags: question.redFlags,
+      conditionalChecks: question.conditionalChecks,
+      rubric: resolveQuestionRubric(question),
+      consensus: resolveConsensusConfig(question),
+      provider: question.course?.llmProvider,
+      courseId: question.courseId,
+      questionId: question.id,
+      submissionId,
+      images: visionImage ? [{ data: visionImage.data, mediaType: visionImage.mediaType }] : undefined,
+    });
+
+    // Enhance feedback
+    const enhancedFeedback = screenshotInfo ? `${assessment.feedback}
+
+---
+
+**Screenshot Analysis:**
+- **Image URL:** [View Screenshot](${screenshotInfo.imageUrl})
+- **Dimensions:** ${screenshotInfo.metadata.width}x${screenshotInfo.metadata.height}
+- **File Size:** ${(screenshotInfo.metadata.fileSize / 1024).toFixed(2)} KB
+- **Format:** ${screenshotInfo.metadata.fileType}` : assessment.feedback;
+
+    return {
+      ...assessment,
+      feedback: enhancedFeedback,
+      metadata: {
+        screenshot: screenshotInfo,
+        isImageUrl,
+        // Whether the model saw the image, and at what size
+        vision: visionImage ? {
+          width: visionImage.width,
+          height: visionImage.height,
+          byteSize: visionImage.byteSize,
+          mediaType: visionImage.mediaType,
+        } : null,
+      }
+    };
+
+  } catch (error) {
+    console.error('❌ Screenshot assessment failed:', error);
+
+    // Rethrow with guidance so the queue can retry and surface it if the job fails
+    throw new Error(`Screenshot assessment failed: ${error instanceof Error ? error.message : 'Unknown error'}. Please ensure you provide a valid image URL or detailed description.`);
+  }
+}
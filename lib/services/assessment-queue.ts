@@ -0,0 +1,367 @@
+// lib/services/assessment-queue.ts
+import { randomUUID } from 'crypto'
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { runAssessmentPipeline, ASSESSMENT_TIMEOUT_MS, type AssessmentInput } from './assessment-pipeline'
+import { categorizeError, logError, type AppError } from '@/lib/utils/error-handling'
+import { sanitizeObject, sanitizeTextContent } from '@/lib/utils/sanitization'
+import { RUBRIC_INCLUDE } from './rubric-service'
+import { manualReviewReason } from './manual-review-service'
+
+// A PROCESSING job whose lock is older than this is assumed to belong to a dead worker.
+// Covers one attempt with headroom; failed attempts are retried by requeueing, not in-process.
+export const VISIBILITY_TIMEOUT_MS = ASSESSMENT_TIMEOUT_MS * 2
+
+// Delay before a failed job is picked up again, doubled per attempt
+const REQUEUE_BASE_DELAY_MS = 30000
+
+type ClaimedJob = {
+  id: string
+  submissionId: string
+  payload: unknown
+  attempts: number
+  maxAttempts: number
+  lockedBy: string | null
+}
+
+export type AssessmentJobStatus = {
+  submissionId: string
+  submissionStatus: string
+  failureReason: string | null
+  jobStatus: string | null
+  attempts: number
+  maxAttempts: number
+  lastError: string | null
+  runAfter: Date | null
+  completedAt: Date | null
+}
+
+export function createWorkerId(): string {
+  return `worker-${process.pid}-${randomUUID().slice(0, 8)}`
+}
+
+/**
+ * Queue a submission for AI assessment. Re-enqueueing resets a finished job.
+ */
+export async function enqueueAssessmentJob(submissionId: string, input: AssessmentInput) {
+  const payload = { content: input.content, additionalInfo: input.additionalInfo, commitSha: input.commitSha }
+
+  return prisma.assessmentJob.upsert({
+    where: { submissionId },
+    create: { submissionId, payload },
+    update: {
+      payload,
+      status: 'PENDING',
+      attempts: 0,
+      runAfter: new Date(),
+      lockedAt: null,
+      lockedBy: null,
+      lastError: null,
+      completedAt: null,
+    },
+  })
+}
+
+/**
+ * Claim the oldest runnable job, reclaiming any whose visibility timeout has expired
+ */
+export async function claimNextAssessmentJob(workerId: string): Promise<ClaimedJob | null> {
+  // A competing worker can win the same row; try a few candidates before giving up
+  for (let i = 0; i < 3; i++) {
+    const now = new Date()
+    const staleBefore = new Date(now.getTime() - VISIBILITY_TIMEOUT_MS)
+
+    const candidate = await prisma.assessmentJob.findFirst({
+      where: {
+        OR: [
+          { status: 'PENDING', runAfter: { lte: now } },
+          { status: 'PROCESSING', lockedAt: { lt: staleBefore } },
+        ],
+      },
+      orderBy: { runAfter: 'asc' },
+      select: { id: true, status: true, lockedAt: true },
+    })
+
+    if (!candidate) return null
+
+    if (candidate.status === 'PROCESSING') {
+      console.warn(`⏰ Reclaiming assessment job ${candidate.id} (locked since ${candidate.lockedAt?.toISOString()})`)
+    }
+
+    // Optimistic lock: the update only matches if nobody claimed the row since we read it
+    const claimed = await prisma.assessmentJob.updateMany({
+      where: { id: candidate.id, status: candidate.status, lockedAt: candidate.lockedAt },
+      data: {
+        status: 'PROCESSING',
+        lockedAt: now,
+        lockedBy: workerId,
+        attempts: { increment: 1 },
+      },
+    })
+
+    if (claimed.count === 1) {
+      return prisma.assessmentJob.findUniqueOrThrow({
+        where: { id: candidate.id },
+        select: { id: true, submissionId: true, payload: true, attempts: true, maxAttempts: true, lockedBy: true },
+      })
+    }
+  }
+
+  return null
+}
+
+// Matches the job only while this worker still holds its lock. A run that outlived the
+// visibility timeout may have been reclaimed, and must not overwrite the new owner's work.
+function ownedJob(job: ClaimedJob) {
+  return { id: job.id, lockedBy: job.lockedBy }
+}
+
+function logLostLock(job: ClaimedJob) {
+  console.warn(`⚠️ Assessment job ${job.id} was reclaimed by another worker; discarding this attempt`)
+}
+
+/**
+ * Mark a job and its submission as permanently failed. No assessment result is
+ * stored; the reason is kept on the submission instead.
+ */
+async function failJob(job: ClaimedJob, appError: AppError): Promise<'FAILED' | 'RECLAIMED'> {
+  const failureReason = sanitizeTextContent(appError.message)
+
+  const released = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.assessmentJob.updateMany({
+      where: ownedJob(job),
+      data: {
+        status: 'FAILED',
+        lastError: failureReason,
+        lockedAt: null,
+        lockedBy: null,
+        completedAt: new Date(),
+      },
+    })
+    if (count === 0) return false
+
+    await tx.submission.update({
+      where: { id: job.submissionId },
+      data: {
+        status: 'FAILED',
+        assessmentResult: Prisma.DbNull,
+        failureReason,
+        processedAt: new Date(),
+      },
+    })
+    return true
+  })
+
+  if (!released) {
+    logLostLock(job)
+    return 'RECLAIMED'
+  }
+  return 'FAILED'
+}
+
+/**
+ * Run one claimed job to completion, requeueing or failing it on error
+ */
+export async function processAssessmentJob(job: ClaimedJob): Promise<'COMPLETED' | 'PENDING' | 'FAILED' | 'RECLAIMED'> {
+  // Reclaimed from a worker that kept crashing on it
+  if (job.attempts > job.maxAttempts) {
+    return failJob(job, categorizeError(new Error(`Assessment abandoned after ${job.maxAttempts} attempts`)))
+  }
+
+  const submission = await prisma.submission.findUnique({
+    where: { id: job.submissionId },
+    include: {
+      question: {
+        include: {
+          baseExamples: true,
+          course: true,
+          rubric: { include: RUBRIC_INCLUDE },
+        },
+      },
+    },
+  })
+
+  if (!submission) {
+    // Submission deleted while queued. Release the job so it doesn't hold its lock until the
+    // visibility timeout; updateMany because the cascade may already have removed it.
+    await prisma.assessmentJob.updateMany({
+      where: ownedJob(job),
+      data: {
+        status: 'FAILED',
+        lastError: 'Submission no longer exists',
+        lockedAt: null,
+        lockedBy: null,
+        completedAt: new Date(),
+      },
+    })
+    return 'FAILED'
+  }
+
+  const input = (job.payload || { content: submission.submissionContent || '' }) as AssessmentInput
+  // Jobs queued before commits were pinned carry no SHA in their payload
+  input.commitSha ??= submission.commitSha ?? undefined
+
+  try {
+    // One attempt per claim: withTimeout cannot cancel a run, so retrying here would leave
+    // pipelines running side by side. Retryable failures are requeued below instead.
+    const assessmentResult = await runAssessmentPipeline(submission.question, input, submission.id)
+
+    // Final sanitization pass before database storage using comprehensive utility
+    const sanitizedAssessmentResult: Prisma.InputJsonValue = sanitizeObject(assessmentResult)
+
+    // Uncertain results (low agreement or confidence, red flags) go to the manual review queue instead of standing
+    const reviewReason = manualReviewReason(assessmentResult, submission.question)
+    if (reviewReason) {
+      console.log(`🧑‍🏫 Submission ${submission.id} flagged for manual review: ${reviewReason}`)
+    }
+
+    // For BOTH mode, keep as PENDING since manual review is still needed
+    const finalStatus = submission.question.assessmentMode === 'BOTH' || reviewReason ? 'PENDING' : 'COMPLETED'
+
+    const released = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.assessmentJob.updateMany({
+        where: ownedJob(job),
+        data: {
+          status: 'COMPLETED',
+          lockedAt: null,
+          lockedBy: null,
+          lastError: null,
+          completedAt: new Date(),
+        },
+      })
+      if (count === 0) return false
+
+      await tx.submission.update({
+        where: { id: submission.id },
+        data: {
+          status: finalStatus,
+          assessmentResult: sanitizedAssessmentResult,
+          confidence: assessmentResult.confidence,
+          failureReason: null,
+          needsManualReview: !!reviewReason,
+          manualReviewReason: reviewReason,
+          processedAt: new Date(),
+        },
+      })
+      return true
+    })
+
+    if (!released) {
+      logLostLock(job)
+      return 'RECLAIMED'
+    }
+
+    console.log(`✅ Assessment job ${job.id} completed (submission ${submission.id} → ${finalStatus})`)
+    return 'COMPLETED'
+
+  } catch (error) {
+    const appError = categorizeError(error)
+    logError('Assessment job', appError.message, {
+      jobId: job.id,
+      submissionId: submission.id,
+      attempt: job.attempts,
+    })
+
+    if (appError.retryable && job.attempts < job.maxAttempts) {
+      const delay = REQUEUE_BASE_DELAY_MS * Math.pow(2, job.attempts - 1)
+      const { count } = await prisma.assessmentJob.updateMany({
+        where: ownedJob(job),
+        data: {
+          status: 'PENDING',
+          runAfter: new Date(Date.now() + delay),
+          lockedAt: null,
+          lockedBy: null,
+          lastError: sanitizeTextContent(appError.message),
+        },
+      })
+      if (count === 0) {
+        logLostLock(job)
+        return 'RECLAIMED'
+      }
+      console.log(`⏳ Assessment job ${job.id} requeued in ${delay}ms`)
+      return 'PENDING'
+    }
+
+    return failJob(job, appError)
+  }
+}
+
+/**
+ * Process runnable jobs until the queue is empty or maxJobs is reached
+ */
+export async function drainAssessmentQueue(options: { workerId?: string; maxJobs?: number } = {}): Promise<number> {
+  const { workerId = createWorkerId(), maxJobs = 10 } = options
+
+  let processed = 0
+  while (processed < maxJobs) {
+    const job = await claimNextAssessmentJob(workerId)
+    if (!job) break
+
+    await processAssessmentJob(job)
+    processed++
+  }
+
+  return processed
+}
+
+/**
+ * Long-running worker loop. Polls the queue until the signal is aborted.
+ */
+export async function runAssessmentWorker(options: { pollIntervalMs?: number; signal?: AbortSignal } = {}) {
+  const { pollIntervalMs = 5000, signal } = options
+  const workerId = createWorkerId()
+
+  console.log(`👷 Assessment worker ${workerId} started`)
+
+  while (!signal?.aborted) {
+    try {
+      const processed = await drainAssessmentQueue({ workerId, maxJobs: 50 })
+      if (processed > 0) continue
+    } catch (error) {
+      logError('Assessment worker', error, { workerId })
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, pollIntervalMs))
+  }
+
+  console.log(`👷 Assessment worker ${workerId} stopped`)
+}
+
+/**
+ * Current queue state for a submission, for status polling
+ */
+export async function getAssessmentJobStatus(submissionId: string): Promise<AssessmentJobStatus | null> {
+  const submission = await prisma.submission.findUnique({
+    where: { id: submissionId },
+    select: {
+      id: true,
+      status: true,
+      failureReason: true,
+      assessmentJob: {
+        select: {
+          status: true,
+          attempts: true,
+          maxAttempts: true,
+          lastError: true,
+          runAfter: true,
+          completedAt: true,
+        },
+      },
+    },
+  })
+
+  if (!submission) return null
+
+  const job = submission.assessmentJob
+  return {
+    submissionId: submission.id,
+    submissionStatus: submission.status,
+    failureReason: submission.failureReason,
+    jobStatus: job?.status ?? null,
+    attempts: job?.attempts ?? 0,
+    maxAttempts: job?.maxAttempts ?? 0,
+    lastError: job?.lastError ?? null,
+    runAfter: job?.runAfter ?? null,
+    completedAt: job?.completedAt ?? null,
+  }
+}
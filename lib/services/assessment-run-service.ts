@@ -0,0 +1,77 @@
+// lib/services/assessment-run-service.ts
+import { AssessmentRunOutcome } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { logError } from '@/lib/utils/error-handling'
+import type { LLMUsage } from './llm-providers'
+
+// Everything needed to reconstruct one LLM call made while assessing a submission
+export type AssessmentRunInput = {
+  submissionId: string
+  invocationId: string
+  attempt: number
+  promptVersion: string
+  provider: string
+  model: string
+  temperature: number
+  maxTokens?: number
+  systemPrompt?: string
+  prompt: string
+  rawResponse?: string
+  outcome: AssessmentRunOutcome
+  parseErrors?: string[]
+  error?: string
+  latencyMs: number
+  usage?: LLMUsage
+}
+
+// Postgres rejects NUL in text columns; everything else is kept verbatim for auditing
+function stripNulls(text: string): string {
+  return text.replace(/\u0000/g, '')
+}
+
+/**
+ * Store the audit record for one LLM call. Never throws: losing an audit row
+ * must not fail the assessment it describes.
+ */
+export async function recordAssessmentRun(run: AssessmentRunInput): Promise<void> {
+  try {
+    await prisma.assessmentRun.create({
+      data: {
+        submissionId: run.submissionId,
+        invocationId: run.invocationId,
+        attempt: run.attempt,
+        promptVersion: run.promptVersion,
+        provider: run.provider,
+        model: run.model,
+        temperature: run.temperature,
+        maxTokens: run.maxTokens,
+        systemPrompt: run.systemPrompt ? stripNulls(run.systemPrompt) : null,
+        prompt: stripNulls(run.prompt),
+        rawResponse: run.rawResponse !== undefined ? stripNulls(run.rawResponse) : null,
+        outcome: run.outcome,
+        parseErrors: (run.parseErrors || []).map(stripNulls),
+        error: run.error ? stripNulls(run.error) : null,
+        latencyMs: Math.round(run.latencyMs),
+        promptTokens: run.usage?.promptTokens,
+        completionTokens: run.usage?.completionTokens,
+        totalTokens: run.usage?.totalTokens,
+      },
+    })
+  } catch (error) {
+    logError('Assessment run audit', error, {
+      submissionId: run.submissionId,
+      invocationId: run.invocationId,
+      attempt: run.attempt,
+    })
+  }
+}
+
+/**
+ * All LLM calls made for a submission, oldest first
+ */
+export async function getAssessmentRunsForSubmission(submissionId: string) {
+  return prisma.assessmentRun.findMany({
+    where: { submissionId },
+    orderBy: { createdAt: 'asc' },
+  })
+}
@@ -1,7 +1,10 @@
 'use server'
 
 import { prisma } from '@/lib/prisma'
-import { assessSubmission, AssessmentRequest, AssessmentResult, LLMRateLimiter } from './llm-service'
+import { assessSubmission, AssessmentRequest, AssessmentResult, CriterionScore, LLMRateLimiter } from './llm-service'
+import { RUBRIC_INCLUDE, resolveQuestionRubric } from './rubric-service'
+import { resolveConsensusConfig } from './consensus-service'
+import { manualReviewReason } from './manual-review-service'
 // import { SubmissionType, SubmissionStatus } from '@prisma/client'
 
 // Add type definition for stored assessment result
@@ -17,6 +20,7 @@ interface StoredAssessmentResult {
   criteriaComparison?: {
     totalCriteria: number
     criteriaMet: number
+    criteriaPartial?: number
     completionPercentage: number
   }
 }
@@ -28,6 +32,7 @@ export interface EnhancedAssessmentResult extends AssessmentResult {
   criteriaComparison?: {
     totalCriteria: number
     criteriaMet: number
+    criteriaPartial?: number
     completionPercentage: number
   }
 }
@@ -58,11 +63,12 @@ export async function processAssessment(options: AssessmentOptions): Promise<Enh
       where: { id: questionId },
       include: {
         course: {
-          select: { id: true, name: true, creatorId: true }
+          select: { id: true, name: true, creatorId: true, llmProvider: true }
         },
         baseExamples: {
           orderBy: { createdAt: 'asc' }
-        }
+        },
+        rubric: { include: RUBRIC_INCLUDE }
       }
     })
 
@@ -132,7 +138,8 @@ export async function processAssessment(options: AssessmentOptions): Promise<Enh
         baseExampleUsed: assessmentResult?.baseExampleUsed,
         criteriaComparison: calculateCriteriaComparison(
           assessmentResult?.criteria_met || [],
-          question.criteria
+          question.criteria,
+          assessmentResult?.criterion_scores
         )
       }
     }
@@ -166,8 +173,14 @@ export async function processAssessment(options: AssessmentOptions): Promise<Enh
         criteria: question.criteria,
         redFlags: question.redFlags,
         conditionalChecks: question.conditionalChecks,
+        rubric: resolveQuestionRubric(question),
+        consensus: resolveConsensusConfig(question),
         baseExampleContent: baseExample?.content,
-        baseExampleMetadata: baseExample?.metadata
+        baseExampleMetadata: baseExample?.metadata,
+        provider: question.course.llmProvider,
+        courseId: question.courseId,
+        questionId: question.id,
+        submissionId: submission.id
       }
 
       // Perform the assessment
@@ -176,7 +189,8 @@ export async function processAssessment(options: AssessmentOptions): Promise<Enh
       // Calculate criteria comparison
       const criteriaComparison = calculateCriteriaComparison(
         assessmentResult.criteria_met,
-        question.criteria
+        question.criteria,
+        assessmentResult.criterion_scores
       )
 
       // Enhanced result with base example info
@@ -187,11 +201,16 @@ export async function processAssessment(options: AssessmentOptions): Promise<Enh
         criteriaComparison
       }
 
+      // Uncertain results wait for an instructor
+      const reviewReason = manualReviewReason(assessmentResult, question)
+
       // Store the assessment result
       await prisma.submission.update({
         where: { id: submission.id },
         data: {
-          status: 'COMPLETED',
+          status: reviewReason ? 'PENDING' : 'COMPLETED',
+          needsManualReview: !!reviewReason,
+          manualReviewReason: reviewReason,
           assessmentResult: {
             ...assessmentResult,
             baseExampleUsed: baseExample?.title,
@@ -210,9 +229,7 @@ export async function processAssessment(options: AssessmentOptions): Promise<Enh
         where: { id: submission.id },
         data: {
           status: 'FAILED',
-          assessmentResult: {
-            error: assessmentError instanceof Error ? assessmentError.message : 'Assessment failed'
-          }
+          failureReason: assessmentError instanceof Error ? assessmentError.message : 'Assessment failed'
         }
       })
 
@@ -266,9 +283,24 @@ function selectBestBaseExample(baseExamples: any[], submissionType: string) {
 }
 
 // Calculate criteria comparison metrics
-function calculateCriteriaComparison(criteriaMet: string[], totalCriteria: string[]) {
+function calculateCriteriaComparison(criteriaMet: string[], totalCriteria: string[], criterionScores?: CriterionScore[]) {
+  // Criterion scores are validated against the rubric, so count those instead of matching free text
+  const scored = criterionScores?.filter(score => score.kind === 'CRITERION') || []
+  if (scored.length > 0) {
+    const metCount = scored.filter(score => score.status === 'met').length
+    const partialCount = scored.filter(score => score.status === 'partial').length
+
+    return {
+      totalCriteria: scored.length,
+      criteriaMet: metCount,
+      criteriaPartial: partialCount,
+      completionPercentage: Math.round(((metCount + partialCount * 0.5) / scored.length) * 100)
+    }
+  }
+
+  const configured = new Set(totalCriteria.map(criterion => criterion.trim().toLowerCase()))
   const totalCount = totalCriteria.length
-  const metCount = criteriaMet.length
+  const metCount = criteriaMet.filter(criterion => configured.has(criterion.trim().toLowerCase())).length
   const completionPercentage = totalCount > 0 ? Math.round((metCount / totalCount) * 100) : 0
 
   return {
@@ -0,0 +1,325 @@
+// lib/services/browser-render-service.ts
+// Loads a website in a headless browser so single-page apps are assessed on what they
+// render, not on their near-empty HTML shell. Captures the rendered DOM, visible text,
+// console errors, failed requests and full-page screenshots at desktop and mobile widths,
+// plus the computed text colours the accessibility audit needs for its contrast check and
+// the network requests, timings and image sizes the performance analysis needs.
+//
+// Playwright is optional: playwright-core is an optional dependency and needs its browser
+// installed with `npx playwright install chromium`, or BROWSER_WS_ENDPOINT pointing at a remote
+// Playwright browser server. Without either, renderPage() returns null and callers fall back to fetch.
+import { CONTRAST_SCRIPT, type ContrastSample } from './accessibility-service'
+import { PERFORMANCE_SCRIPT, type BrowserPerformanceSample, type NetworkResource, type ResourceType } from './performance-service'
+
+export interface RenderViewport {
+  name: 'desktop' | 'mobile'
+  width: number
+  height: number
+  isMobile: boolean
+}
+
+export const RENDER_VIEWPORTS: RenderViewport[] = [
+  { name: 'desktop', width: 1280, height: 800, isMobile: false },
+  { name: 'mobile', width: 390, height: 844, isMobile: true },
+]
+
+export interface RenderedScreenshot {
+  viewport: RenderViewport['name']
+  width: number
+  height: number
+  pageHeight: number // Full scroll height; screenshots stop at MAX_SCREENSHOT_HEIGHT
+  image: Buffer // JPEG
+}
+
+export interface FailedRequest {
+  url: string
+  resourceType: string
+  status?: number // HTTP error status
+  error?: string // Network failure, e.g. net::ERR_NAME_NOT_RESOLVED
+}
+
+export interface RenderedPage {
+  finalUrl: string // After redirects
+  status: number | null
+  title: string
+  html: string // Rendered DOM, up to MAX_HTML_LENGTH
+  text: string // Visible text, up to MAX_TEXT_LENGTH
+  loadTime: number // Milliseconds until the load event, desktop viewport
+  consoleErrors: string[]
+  failedRequests: FailedRequest[]
+  horizontalOverflow: boolean // Content wider than the mobile viewport
+  screenshots: RenderedScreenshot[]
+  contrastSamples: ContrastSample[] // Text colours against their backgrounds, desktop viewport
+  resources: NetworkResource[] // Every request made loading the page, desktop viewport
+  performance: BrowserPerformanceSample | null
+}
+
+export interface RenderOptions {
+  budget?: number // Time for every viewport together, shared evenly; defaults to RENDER_BUDGET
+}
+
+// The slice of Playwright's API used here; the package is optional, so its types may be absent
+interface ConsoleMessage { type(): string; text(): string }
+interface BrowserRequest {
+  url(): string
+  resourceType(): string
+  failure(): { errorText: string } | null
+  sizes(): Promise<{ responseBodySize: number; responseHeadersSize: number }>
+}
+interface BrowserResponse { url(): string; status(): number; headers(): Record<string, string>; request(): BrowserRequest }
+
+interface BrowserPage {
+  on(event: 'console', listener: (message: ConsoleMessage) => void): void
+  on(event: 'pageerror', listener: (error: Error) => void): void
+  on(event: 'requestfailed', listener: (request: BrowserRequest) => void): void
+  on(event: 'response', listener: (response: BrowserResponse) => void): void
+  goto(url: string, options: { waitUntil: 'load'; timeout: number }): Promise<BrowserResponse | null>
+  waitForLoadState(state: 'networkidle', options: { timeout: number }): Promise<void>
+  evaluate<T>(fn: (() => T) | string): Promise<T>
+  content(): Promise<string>
+  title(): Promise<string>
+  url(): string
+  screenshot(options: {
+    type: 'jpeg'
+    quality: number
+    fullPage: boolean
+    clip: { x: number; y: number; width: number; height: number }
+  }): Promise<Buffer>
+}
+
+interface BrowserContext {
+  newPage(): Promise<BrowserPage>
+  close(): Promise<void>
+}
+
+interface Browser {
+  newContext(options: {
+    viewport: { width: number; height: number }
+    isMobile: boolean
+    deviceScaleFactor: number
+    userAgent: string
+  }): Promise<BrowserContext>
+  close(): Promise<void>
+}
+
+interface PlaywrightModule {
+  chromium: {
+    launch(options: { headless: boolean }): Promise<Browser>
+    connect(wsEndpoint: string, options: { timeout: number }): Promise<Browser>
+  }
+}
+
+const PLAYWRIGHT_MODULES = ['playwright-core', 'playwright']
+const USER_AGENT = 'Mozilla/5.0 (Assessment Agent Bot) HeadlessChrome'
+const MOBILE_USER_AGENT = 'Mozilla/5.0 (Linux; Android 14; Mobile) (Assessment Agent Bot) HeadlessChrome'
+
+const NAVIGATION_TIMEOUT = 20000
+// Pages that poll or stream never go idle; give them this long, then capture anyway
+const NETWORK_IDLE_TIMEOUT = 5000
+// Viewports load one after another, each within its share of the budget
+const RENDER_BUDGET = RENDER_VIEWPORTS.length * (NAVIGATION_TIMEOUT + NETWORK_IDLE_TIMEOUT)
+// A viewport's share never drops below this, so a slow first load still leaves the next one a chance
+const MIN_VIEWPORT_TIME = 4000
+const MAX_SCREENSHOT_HEIGHT = 5000
+const SCREENSHOT_QUALITY = 80
+// Large enough for the accessibility audit to see the whole DOM of a typical page
+const MAX_HTML_LENGTH = 500000
+const MAX_TEXT_LENGTH = 5000
+const MAX_CONSOLE_ERRORS = 20
+const MAX_FAILED_REQUESTS = 20
+const MAX_RECORDED_RESPONSES = 300
+
+const RESOURCE_TYPES: Record<string, ResourceType> = {
+  document: 'document',
+  script: 'script',
+  stylesheet: 'stylesheet',
+  image: 'image',
+  font: 'font',
+  media: 'media',
+  xhr: 'fetch',
+  fetch: 'fetch',
+}
+
+let playwright: Promise<PlaywrightModule | null> | undefined
+
+function loadPlaywright(): Promise<PlaywrightModule | null> {
+  playwright ??= (async () => {
+    for (const name of PLAYWRIGHT_MODULES) {
+      try {
+        // Resolved at runtime so builds without Playwright still work
+        const loaded = await import(/* webpackIgnore: true */ name)
+        return (loaded.chromium ? loaded : loaded.default) as PlaywrightModule
+      } catch {
+        continue
+      }
+    }
+    return null
+  })()
+  return playwright
+}
+
+async function launchBrowser(): Promise<Browser | null> {
+  const loaded = await loadPlaywright()
+  if (!loaded) {
+    console.warn('⚠️ Playwright is not installed; websites are assessed without rendering')
+    return null
+  }
+
+  try {
+    const endpoint = process.env.BROWSER_WS_ENDPOINT
+    return endpoint
+      ? await loaded.chromium.connect(endpoint, { timeout: NAVIGATION_TIMEOUT })
+      : await loaded.chromium.launch({ headless: true })
+  } catch (error) {
+    console.warn('⚠️ Could not start a headless browser; websites are assessed without rendering:', error instanceof Error ? error.message : error)
+    return null
+  }
+}
+
+/**
+ * Whether pages can be rendered here, i.e. Playwright is installed or a remote browser is configured
+ */
+export async function isBrowserRenderingAvailable(): Promise<boolean> {
+  return !!process.env.BROWSER_WS_ENDPOINT || (await loadPlaywright()) !== null
+}
+
+async function toResources(responses: BrowserResponse[]): Promise<NetworkResource[]> {
+  const resources: NetworkResource[] = []
+  for (const response of responses) {
+    const headers = response.headers()
+    // Encoded body size; falls back to Content-Length if the request is already gone
+    const sizes = await response.request().sizes().catch(() => null)
+    resources.push({
+      url: response.url(),
+      type: RESOURCE_TYPES[response.request().resourceType()] ?? 'other',
+      status: response.status(),
+      transferSize: sizes ? sizes.responseBodySize : parseInt(headers['content-length'] || '0', 10) || 0,
+      contentType: headers['content-type'],
+      contentEncoding: headers['content-encoding'],
+      cacheControl: headers['cache-control'],
+      renderBlocking: false,
+    })
+  }
+  return resources
+}
+
+// Loads the page within `time` ms: a quarter of it at most waiting for the network to go idle
+async function loadInViewport(browser: Browser, url: string, viewport: RenderViewport, time: number) {
+  const idleTimeout = Math.min(NETWORK_IDLE_TIMEOUT, time / 4)
+  const timeout = Math.min(NAVIGATION_TIMEOUT, time - idleTimeout)
+
+  const context = await browser.newContext({
+    viewport: { width: viewport.width, height: viewport.height },
+    isMobile: viewport.isMobile,
+    deviceScaleFactor: 1,
+    userAgent: viewport.isMobile ? MOBILE_USER_AGENT : USER_AGENT,
+  })
+
+  try {
+    const page = await context.newPage()
+    const consoleErrors: string[] = []
+    const failedRequests: FailedRequest[] = []
+    const responses: BrowserResponse[] = []
+
+    page.on('console', message => {
+      if (message.type() === 'error') consoleErrors.push(message.text())
+    })
+    page.on('pageerror', error => consoleErrors.push(`Uncaught ${error.name}: ${error.message}`))
+    page.on('requestfailed', request => {
+      failedRequests.push({ url: request.url(), resourceType: request.resourceType(), error: request.failure()?.errorText })
+    })
+    page.on('response', response => {
+      if (responses.length < MAX_RECORDED_RESPONSES) responses.push(response)
+      if (response.status() >= 400) {
+        failedRequests.push({ url: response.url(), resourceType: response.request().resourceType(), status: response.status() })
+      }
+    })
+
+    const startTime = Date.now()
+    const response = await page.goto(url, { waitUntil: 'load', timeout })
+    const loadTime = Date.now() - startTime
+    await page.waitForLoadState('networkidle', { timeout: idleTimeout }).catch(() => undefined)
+
+    const layout = await page.evaluate(() => ({
+      pageHeight: document.documentElement.scrollHeight,
+      overflow: document.documentElement.scrollWidth > window.innerWidth + 1,
+    }))
+    const image = await page.screenshot({
+      type: 'jpeg',
+      quality: SCREENSHOT_QUALITY,
+      fullPage: true,
+      clip: { x: 0, y: 0, width: viewport.width, height: Math.min(layout.pageHeight, MAX_SCREENSHOT_HEIGHT) },
+    })
+
+    return {
+      status: response?.status() ?? null,
+      loadTime,
+      consoleErrors,
+      failedRequests,
+      overflow: layout.overflow,
+      screenshot: {
+        viewport: viewport.name,
+        width: viewport.width,
+        height: Math.min(layout.pageHeight, MAX_SCREENSHOT_HEIGHT),
+        pageHeight: layout.pageHeight,
+        image,
+      } as RenderedScreenshot,
+      // Read while the context is open
+      dom: {
+        finalUrl: page.url(),
+        title: await page.title(),
+        html: (await page.content()).slice(0, MAX_HTML_LENGTH),
+        text: (await page.evaluate(() => document.body?.innerText || '')).replace(/\n{3,}/g, '\n\n').trim().slice(0, MAX_TEXT_LENGTH),
+      },
+      contrastSamples: viewport.name === 'desktop'
+        ? await page.evaluate<ContrastSample[]>(CONTRAST_SCRIPT).catch(() => [])
+        : [],
+      resources: viewport.name === 'desktop' ? await toResources(responses) : [],
+      performance: viewport.name === 'desktop'
+        ? await page.evaluate<BrowserPerformanceSample>(PERFORMANCE_SCRIPT).catch(() => null)
+        : null,
+    }
+  } finally {
+    await context.close()
+  }
+}
+
+/**
+ * Render a page at each viewport within the budget, starting the browser included.
+ * Returns null when no browser is available; throws when the page itself can't be loaded.
+ */
+export async function renderPage(url: string, options: RenderOptions = {}): Promise<RenderedPage | null> {
+  const deadline = Date.now() + (options.budget ?? RENDER_BUDGET)
+  const browser = await launchBrowser()
+  if (!browser) return null
+
+  try {
+    const loads = []
+    for (const [i, viewport] of RENDER_VIEWPORTS.entries()) {
+      // Split what is left evenly over the viewports still to load
+      const share = (deadline - Date.now()) / (RENDER_VIEWPORTS.length - i)
+      loads.push(await loadInViewport(browser, url, viewport, Math.max(share, MIN_VIEWPORT_TIME)))
+    }
+    const [desktop] = loads
+
+    // Errors usually repeat across viewports; keep each one once
+    const consoleErrors = Array.from(new Set(loads.flatMap(load => load.consoleErrors)))
+    const failedRequests = new Map<string, FailedRequest>()
+    loads.flatMap(load => load.failedRequests).forEach(request => failedRequests.set(request.url, request))
+
+    return {
+      ...desktop.dom,
+      status: desktop.status,
+      loadTime: desktop.loadTime,
+      consoleErrors: consoleErrors.slice(0, MAX_CONSOLE_ERRORS),
+      failedRequests: Array.from(failedRequests.values()).slice(0, MAX_FAILED_REQUESTS),
+      horizontalOverflow: loads.some(load => load.screenshot.viewport === 'mobile' && load.overflow),
+      screenshots: loads.map(load => load.screenshot),
+      contrastSamples: desktop.contrastSamples,
+      resources: desktop.resources,
+      performance: desktop.performance,
+    }
+  } finally {
+    await browser.close()
+  }
+}
@@ -0,0 +1,443 @@
+// lib/services/calibration-service.ts
+// Golden-set regression harness: replays instructor-graded submissions through
+// assessSubmission and measures how closely the AI agrees with the instructors.
+import { createHash } from 'crypto'
+import { z } from 'zod'
+import { assessSubmission, type AssessmentResult } from './llm-service'
+import type {
+  LLMCompletionRequest,
+  LLMCompletionResponse,
+  LLMEmbeddingRequest,
+  LLMEmbeddingResponse,
+  LLMProvider,
+} from './llm-providers'
+import {
+  CRITERION_STATUSES,
+  DEFAULT_BONUS_POINTS,
+  DEFAULT_CRITERION_POINTS,
+  DEFAULT_RED_FLAG_POINTS,
+  RUBRIC_LEVELS,
+  defaultLevels,
+  rubricFromLegacyArrays,
+  type CriterionStatus,
+  type RubricCriterionInput,
+  type RubricLevelLabel,
+} from '@/lib/types/rubric'
+
+const rubricItemSchema = z.object({
+  kind: z.enum(['CRITERION', 'RED_FLAG', 'BONUS']).default('CRITERION'),
+  title: z.string().min(1),
+  description: z.string().optional(),
+  points: z.number().optional(),
+  levels: z.array(z.object({
+    label: z.enum(RUBRIC_LEVELS),
+    descriptor: z.string(),
+    points: z.number(),
+  })).optional(),
+})
+
+const goldenCaseSchema = z.object({
+  id: z.string().min(1),
+  notes: z.string().optional(),
+  question: z.object({
+    title: z.string(),
+    description: z.string(),
+    submissionType: z.enum(['TEXT', 'DOCUMENT', 'GITHUB_REPO', 'SCREENSHOT', 'WEBSITE']).default('TEXT'),
+    assessmentPrompt: z.string().optional(),
+    criteria: z.array(z.string()).default([]),
+    redFlags: z.array(z.string()).default([]),
+    conditionalChecks: z.array(z.string()).default([]),
+    rubric: z.array(rubricItemSchema).optional(), // Replaces the three arrays above when present
+    baseExampleContent: z.string().optional(),
+  }),
+  submission: z.object({
+    content: z.string(),
+    details: z.string().optional(),
+  }),
+  // What the instructors decided
+  expected: z.object({
+    remark: z.enum(RUBRIC_LEVELS),
+    criteria: z.record(z.string(), z.enum(CRITERION_STATUSES)).default({}), // Rubric item title -> status
+  }),
+})
+
+export const goldenSetSchema = z.object({
+  name: z.string(),
+  description: z.string().optional(),
+  cases: z.array(goldenCaseSchema).min(1),
+}).refine(
+  set => new Set(set.cases.map(c => c.id)).size === set.cases.length,
+  { message: 'Case ids must be unique' }
+)
+
+export type GoldenSet = z.infer<typeof goldenSetSchema>
+export type GoldenCase = z.infer<typeof goldenCaseSchema>
+
+// Recorded model output per case, in call order, so a run can be replayed offline
+export const calibrationRecordingSchema = z.object({
+  recordedAt: z.string(),
+  provider: z.string(),
+  cases: z.record(z.string(), z.object({
+    promptHash: z.string(), // Hash of the first prompt sent for the case
+    responses: z.array(z.string()),
+  })),
+})
+
+export type CalibrationRecording = z.infer<typeof calibrationRecordingSchema>
+
+const promptHash = (prompt: string) => createHash('sha256').update(prompt).digest('hex').slice(0, 16)
+
+/**
+ * Hands out recorded responses for the case being replayed. Registered in
+ * place of the mock provider, so replayed cases are routed to it.
+ */
+export class ReplayLLMProvider implements LLMProvider {
+  readonly name = 'mock' as const
+  readonly defaultModel = 'replay'
+  readonly defaultVisionModel = 'replay'
+  readonly defaultEmbeddingModel = null
+  private caseId: string | null = null
+  private calls = 0
+  readonly staleCases = new Set<string>() // Cases whose prompt changed since recording
+
+  constructor(private readonly recording: CalibrationRecording) {}
+
+  startCase(caseId: string): void {
+    this.caseId = caseId
+    this.calls = 0
+  }
+
+  isConfigured(): boolean {
+    return true
+  }
+
+  listModels(): string[] {
+    return [this.defaultModel]
+  }
+
+  async isModelAvailable(model: string): Promise<boolean> {
+    return model === this.defaultModel
+  }
+
+  supportsImages(): boolean {
+    return true
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResponse> {
+    const recorded = this.caseId ? this.recording.cases[this.caseId] : undefined
+    const content = recorded?.responses[this.calls]
+    if (!recorded || content === undefined) {
+      throw new Error(`No recorded response for case ${this.caseId} (call ${this.calls + 1})`)
+    }
+    if (this.calls === 0 && recorded.promptHash !== promptHash(request.prompt)) {
+      this.staleCases.add(this.caseId!)
+    }
+    this.calls++
+
+    return { content, model: this.defaultModel, provider: this.name }
+  }
+
+  async embed(): Promise<LLMEmbeddingResponse> {
+    throw new Error('Embeddings are not recorded for calibration replays')
+  }
+}
+
+/**
+ * Passes calls through to a live provider and keeps its responses for replay
+ */
+export class RecordingLLMProvider implements LLMProvider {
+  readonly name: LLMProvider['name']
+  readonly defaultModel: string
+  readonly defaultVisionModel: string | null
+  readonly defaultEmbeddingModel: string | null
+  private caseId: string | null = null
+  readonly recording: CalibrationRecording
+
+  constructor(private readonly inner: LLMProvider) {
+    this.name = inner.name
+    this.defaultModel = inner.defaultModel
+    this.defaultVisionModel = inner.defaultVisionModel
+    this.defaultEmbeddingModel = inner.defaultEmbeddingModel
+    this.recording = { recordedAt: new Date().toISOString(), provider: inner.name, cases: {} }
+  }
+
+  startCase(caseId: string): void {
+    this.caseId = caseId
+    delete this.recording.cases[caseId]
+  }
+
+  isConfigured(): boolean {
+    return this.inner.isConfigured()
+  }
+
+  listModels(): string[] {
+    return this.inner.listModels()
+  }
+
+  isModelAvailable(model: string): Promise<boolean> {
+    return this.inner.isModelAvailable(model)
+  }
+
+  supportsImages(model: string): boolean {
+    return this.inner.supportsImages(model)
+  }
+
+  embed(request: LLMEmbeddingRequest): Promise<LLMEmbeddingResponse> {
+    return this.inner.embed(request)
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResponse> {
+    const response = await this.inner.complete(request)
+    if (this.caseId) {
+      const recorded = this.recording.cases[this.caseId] ??= { promptHash: promptHash(request.prompt), responses: [] }
+      recorded.responses.push(response.content)
+    }
+    return response
+  }
+}
+
+// Rubric for a case, filling in the same defaults the rubric editor uses
+function caseRubric(question: GoldenCase['question']): RubricCriterionInput[] {
+  if (!question.rubric || question.rubric.length === 0) {
+    return rubricFromLegacyArrays(question.criteria, question.redFlags, question.conditionalChecks)
+  }
+
+  return question.rubric.map(item => {
+    const defaultPoints = item.kind === 'RED_FLAG' ? DEFAULT_RED_FLAG_POINTS
+      : item.kind === 'BONUS' ? DEFAULT_BONUS_POINTS
+      : DEFAULT_CRITERION_POINTS
+    const points = item.points ?? defaultPoints
+    return {
+      kind: item.kind,
+      title: item.title,
+      description: item.description ?? null,
+      points,
+      levels: item.kind === 'CRITERION' ? item.levels ?? defaultLevels(item.title, points) : [],
+    }
+  })
+}
+
+export type CalibrationCaseResult = {
+  id: string
+  expectedRemark: RubricLevelLabel
+  actualRemark: RubricLevelLabel | null // null when the assessment failed
+  criteria: { criterion: string; expected: CriterionStatus; actual: CriterionStatus | null }[]
+  error?: string
+}
+
+const normalizeTitle = (title: string) => title.trim().toLowerCase()
+
+function compareCase(goldenCase: GoldenCase, result: AssessmentResult): CalibrationCaseResult {
+  const scores = new Map((result.criterion_scores || []).map(score => [normalizeTitle(score.criterion), score.status]))
+
+  return {
+    id: goldenCase.id,
+    expectedRemark: goldenCase.expected.remark,
+    actualRemark: result.remark,
+    criteria: Object.entries(goldenCase.expected.criteria).map(([criterion, expected]) => ({
+      criterion,
+      expected,
+      actual: scores.get(normalizeTitle(criterion)) ?? null,
+    })),
+  }
+}
+
+/**
+ * Assess every case in turn. Providers that replay or record are told which case is running.
+ */
+export async function runCalibration(
+  set: GoldenSet,
+  options: {
+    provider: string
+    tracker?: { startCase(caseId: string): void }
+    onCase?: (result: CalibrationCaseResult) => void
+  }
+): Promise<CalibrationCaseResult[]> {
+  const results: CalibrationCaseResult[] = []
+
+  for (const goldenCase of set.cases) {
+    options.tracker?.startCase(goldenCase.id)
+
+    let result: CalibrationCaseResult
+    try {
+      const assessment = await assessSubmission({
+        submissionContent: goldenCase.submission.content,
+        submissionDetails: goldenCase.submission.details,
+        submissionType: goldenCase.question.submissionType,
+        questionTitle: goldenCase.question.title,
+        questionDescription: goldenCase.question.description,
+        assessmentPrompt: goldenCase.question.assessmentPrompt,
+        criteria: goldenCase.question.criteria,
+        redFlags: goldenCase.question.redFlags,
+        conditionalChecks: goldenCase.question.conditionalChecks,
+        rubric: caseRubric(goldenCase.question),
+        baseExampleContent: goldenCase.question.baseExampleContent,
+        provider: options.provider,
+        // A stored rule could send the case to another provider than the one being calibrated or replayed
+        ignoreRoutingRules: true,
+      })
+      result = compareCase(goldenCase, assessment)
+    } catch (error) {
+      result = {
+        id: goldenCase.id,
+        expectedRemark: goldenCase.expected.remark,
+        actualRemark: null,
+        criteria: Object.entries(goldenCase.expected.criteria).map(([criterion, expected]) => ({
+          criterion, expected, actual: null,
+        })),
+        error: error instanceof Error ? error.message : String(error),
+      }
+    }
+
+    options.onCase?.(result)
+    results.push(result)
+  }
+
+  return results
+}
+
+export type CriterionMetrics = {
+  support: number // Cases with an instructor verdict for the criterion
+  truePositives: number
+  falsePositives: number
+  falseNegatives: number
+  precision: number | null // null when undefined (nothing predicted / nothing expected)
+  recall: number | null
+  f1: number | null
+  statusAgreement: number // Exact met/partial/not_met matches
+}
+
+export type CalibrationReport = {
+  name: string
+  generatedAt: string
+  cases: number
+  failedCases: string[]
+  remark: {
+    agreement: number // Exact matches over all cases; failed cases count as disagreement
+    adjacentAgreement: number // Within one level
+    kappa: number | null // Cohen's kappa over the cases that produced a result
+    confusionMatrix: Record<RubricLevelLabel, Record<RubricLevelLabel, number>> // expected -> actual
+  }
+  criteria: {
+    micro: CriterionMetrics
+    byCriterion: Record<string, CriterionMetrics>
+  }
+  results: CalibrationCaseResult[]
+}
+
+const ratio = (numerator: number, denominator: number) =>
+  denominator === 0 ? null : Math.round((numerator / denominator) * 1000) / 1000
+
+function criterionMetrics(pairs: { expected: CriterionStatus; actual: CriterionStatus | null }[]): CriterionMetrics {
+  // "met" is the positive class; partial counts as not met
+  const truePositives = pairs.filter(p => p.expected === 'met' && p.actual === 'met').length
+  const falsePositives = pairs.filter(p => p.expected !== 'met' && p.actual === 'met').length
+  const falseNegatives = pairs.filter(p => p.expected === 'met' && p.actual !== 'met').length
+  const precision = ratio(truePositives, truePositives + falsePositives)
+  const recall = ratio(truePositives, truePositives + falseNegatives)
+
+  return {
+    support: pairs.length,
+    truePositives,
+    falsePositives,
+    falseNegatives,
+    precision,
+    recall,
+    f1: precision !== null && recall !== null && precision + recall > 0
+      ? Math.round(((2 * precision * recall) / (precision + recall)) * 1000) / 1000
+      : null,
+    statusAgreement: ratio(pairs.filter(p => p.expected === p.actual).length, pairs.length) ?? 0,
+  }
+}
+
+function cohensKappa(pairs: { expected: RubricLevelLabel; actual: RubricLevelLabel }[]): number | null {
+  if (pairs.length === 0) return null
+
+  const observed = pairs.filter(p => p.expected === p.actual).length / pairs.length
+  const chance = RUBRIC_LEVELS.reduce((sum, level) => {
+    const expectedShare = pairs.filter(p => p.expected === level).length / pairs.length
+    const actualShare = pairs.filter(p => p.actual === level).length / pairs.length
+    return sum + expectedShare * actualShare
+  }, 0)
+
+  if (chance === 1) return null
+  return Math.round(((observed - chance) / (1 - chance)) * 1000) / 1000
+}
+
+/**
+ * Agreement, confusion matrix and per-criterion precision/recall for a calibration run
+ */
+export function buildCalibrationReport(name: string, results: CalibrationCaseResult[]): CalibrationReport {
+  const confusionMatrix = Object.fromEntries(
+    RUBRIC_LEVELS.map(expected => [expected, Object.fromEntries(RUBRIC_LEVELS.map(actual => [actual, 0]))])
+  ) as CalibrationReport['remark']['confusionMatrix']
+
+  const remarkPairs = results.flatMap(result =>
+    result.actualRemark ? [{ expected: result.expectedRemark, actual: result.actualRemark }] : []
+  )
+  remarkPairs.forEach(pair => confusionMatrix[pair.expected][pair.actual]++)
+
+  const levelDistance = (pair: { expected: RubricLevelLabel; actual: RubricLevelLabel }) =>
+    Math.abs(RUBRIC_LEVELS.indexOf(pair.expected) - RUBRIC_LEVELS.indexOf(pair.actual))
+
+  const criterionPairs = results.flatMap(result => result.criteria)
+  const byCriterion: Record<string, CriterionMetrics> = {}
+  for (const criterion of [...new Set(criterionPairs.map(pair => pair.criterion))]) {
+    byCriterion[criterion] = criterionMetrics(criterionPairs.filter(pair => pair.criterion === criterion))
+  }
+
+  return {
+    name,
+    generatedAt: new Date().toISOString(),
+    cases: results.length,
+    failedCases: results.filter(result => result.error).map(result => result.id),
+    remark: {
+      agreement: ratio(remarkPairs.filter(pair => levelDistance(pair) === 0).length, results.length) ?? 0,
+      adjacentAgreement: ratio(remarkPairs.filter(pair => levelDistance(pair) <= 1).length, results.length) ?? 0,
+      kappa: cohensKappa(remarkPairs),
+      confusionMatrix,
+    },
+    criteria: {
+      micro: criterionMetrics(criterionPairs),
+      byCriterion,
+    },
+    results,
+  }
+}
+
+/**
+ * Ways a report is worse than a baseline (or an absolute floor); empty when it may ship
+ */
+export function findCalibrationRegressions(
+  report: CalibrationReport,
+  options: { baseline?: CalibrationReport; tolerance?: number; minAgreement?: number }
+): string[] {
+  const regressions: string[] = []
+  const tolerance = options.tolerance ?? 0.02
+
+  if (options.minAgreement !== undefined && report.remark.agreement < options.minAgreement) {
+    regressions.push(`Remark agreement ${report.remark.agreement} is below the required ${options.minAgreement}`)
+  }
+
+  const { baseline } = options
+  if (baseline) {
+    const dropped = (label: string, current: number | null, previous: number | null) => {
+      if (previous === null) return
+      if (current === null || current < previous - tolerance) {
+        regressions.push(`${label} fell from ${previous} to ${current ?? 'n/a'}`)
+      }
+    }
+
+    dropped('Remark agreement', report.remark.agreement, baseline.remark.agreement)
+    dropped('Adjacent remark agreement', report.remark.adjacentAgreement, baseline.remark.adjacentAgreement)
+    dropped('Criterion precision', report.criteria.micro.precision, baseline.criteria.micro.precision)
+    dropped('Criterion recall', report.criteria.micro.recall, baseline.criteria.micro.recall)
+
+    const newFailures = report.failedCases.filter(id => !baseline.failedCases.includes(id))
+    if (newFailures.length > 0) {
+      regressions.push(`Newly failing case(s): ${newFailures.join(', ')}`)
+    }
+  }
+
+  return regressions
+}
@@ -0,0 +1,163 @@
+// lib/services/consensus-service.ts
+// Aggregates several independent AI assessments of one submission into a single
+// result whose confidence reflects how far the runs agreed.
+import { isLLMProviderName } from './llm-providers'
+import {
+  CRITERION_STATUSES,
+  RUBRIC_LEVELS,
+  remarkFromPercentage,
+  rubricMaxPoints,
+  type RubricCriterionInput,
+  type RubricLevelLabel,
+} from '@/lib/types/rubric'
+import type { AssessmentResult, CriterionScore } from './llm-service'
+
+// Upper bound on runs per submission, to keep cost and latency in check
+export const MAX_CONSENSUS_RUNS = 5
+
+export type ConsensusConfig = {
+  runs: number
+  models: string[] // "provider:model" or a model id on the routed provider; empty = routed model only
+}
+
+export type ConsensusTarget = {
+  provider: string
+  model: string
+}
+
+/**
+ * Consensus settings for a question, or undefined when it is graded by a single run
+ */
+export function resolveConsensusConfig(question: {
+  consensusRuns: number
+  consensusModels: string[]
+}): ConsensusConfig | undefined {
+  const runs = Math.min(MAX_CONSENSUS_RUNS, Math.max(1, Math.floor(question.consensusRuns)))
+  if (runs < 2) return undefined
+
+  return {
+    runs,
+    models: question.consensusModels.map(model => model.trim()).filter(Boolean),
+  }
+}
+
+/**
+ * The provider/model for each run, cycling through the configured models
+ */
+export function consensusTargets(route: ConsensusTarget, models: string[], runs: number): ConsensusTarget[] {
+  const pool = models.length > 0
+    ? models.map(entry => {
+        const separator = entry.indexOf(':')
+        const provider = entry.slice(0, separator)
+        if (separator > 0 && isLLMProviderName(provider)) {
+          return { provider, model: entry.slice(separator + 1) }
+        }
+        return { provider: route.provider, model: entry }
+      })
+    : [route]
+
+  return Array.from({ length: runs }, (_, i) => pool[i % pool.length])
+}
+
+// Lower median, so the result is always one of the values and ties lean towards the first ranks
+function lowerMedian(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.floor((sorted.length - 1) / 2)]
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle]
+}
+
+const levelRank = (level: RubricLevelLabel) => RUBRIC_LEVELS.indexOf(level)
+
+// Scored criteria are compared by level, red flags and bonuses by status
+function scoreRank(score: CriterionScore): number {
+  return score.kind === 'CRITERION' && score.level ? levelRank(score.level) : CRITERION_STATUSES.indexOf(score.status)
+}
+
+/**
+ * Combine successful runs into one result. Agreement is measured against the
+ * number of runs requested, so a run that failed counts as a dissenting vote.
+ */
+export function aggregateConsensus(
+  results: AssessmentResult[],
+  requestedRuns: number,
+  rubric?: RubricCriterionInput[]
+): AssessmentResult {
+  if (results.length === 0) {
+    throw new Error('Consensus grading needs at least one successful run')
+  }
+
+  const share = (count: number) => count / Math.max(requestedRuns, results.length)
+
+  // Per-criterion vote: the median level (or status) wins and is taken from a run that gave it
+  const criteria: NonNullable<AssessmentResult['consensus']>['criteria'] = []
+  let criterionScores: CriterionScore[] | undefined
+  if (rubric && rubric.length > 0 && results.every(result => result.criterion_scores)) {
+    criterionScores = rubric.map((_, i) => {
+      const votes = results.map(result => result.criterion_scores!.find(score => score.index === i + 1)!)
+      const winningRank = lowerMedian(votes.map(scoreRank))
+      const winner = votes.find(score => scoreRank(score) === winningRank)!
+      const agreement = share(votes.filter(score => scoreRank(score) === winningRank).length)
+
+      criteria.push({ index: winner.index, criterion: winner.criterion, agreement })
+      return winner
+    })
+  }
+
+  let remark: RubricLevelLabel
+  let rubricScore: Pick<AssessmentResult, 'criterion_scores' | 'total_points' | 'max_points'> = {}
+  if (criterionScores) {
+    const maxPoints = rubricMaxPoints(rubric!)
+    const totalPoints = Math.max(0, criterionScores.reduce((sum, score) => sum + score.points, 0))
+    rubricScore = { criterion_scores: criterionScores, total_points: totalPoints, max_points: maxPoints }
+    remark = maxPoints > 0
+      ? remarkFromPercentage(Math.min(100, (totalPoints / maxPoints) * 100))
+      : RUBRIC_LEVELS[lowerMedian(results.map(result => levelRank(result.remark)))]
+  } else {
+    remark = RUBRIC_LEVELS[lowerMedian(results.map(result => levelRank(result.remark)))]
+  }
+
+  const remarkAgreement = share(results.filter(result => result.remark === remark).length)
+  const agreementScores = [remarkAgreement, ...criteria.map(criterion => criterion.agreement)]
+  const agreement = Math.round((agreementScores.reduce((sum, value) => sum + value, 0) / agreementScores.length) * 100) / 100
+
+  // Written feedback comes from a run that reached the consensus remark
+  const representative = results.find(result => result.remark === remark) ?? results[0]
+
+  const criteriaMet = criterionScores
+    ? criterionScores.filter(score => score.kind === 'CRITERION' && score.status === 'met').map(score => score.criterion)
+    : [...new Set(results.flatMap(result => result.criteria_met))]
+        .filter(item => results.filter(result => result.criteria_met.includes(item)).length > results.length / 2)
+
+  const breakdown = (key: keyof AssessmentResult['scoreBreakdown']) =>
+    Math.round(median(results.map(result => result.scoreBreakdown[key])))
+
+  return {
+    ...representative,
+    remark,
+    scoreBreakdown: {
+      contentQuality: breakdown('contentQuality'),
+      completeness: breakdown('completeness'),
+      technicalAccuracy: breakdown('technicalAccuracy'),
+      structure: breakdown('structure'),
+    },
+    criteria_met: criteriaMet,
+    ...rubricScore,
+    // Agreement between runs replaces the self-reported confidence
+    confidence: agreement,
+    model_used: [...new Set(results.map(result => result.model_used))].join(', '),
+    consensus: {
+      requestedRuns,
+      runs: results.length,
+      models: results.map(result => result.model_used),
+      remarks: results.map(result => result.remark),
+      agreement,
+      criteria,
+    },
+  }
+}
+
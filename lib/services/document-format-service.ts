@@ -0,0 +1,486 @@
+// lib/services/document-format-service.ts
+// Text and structure extraction for the formats beyond PDF, DOCX and TXT: Jupyter notebooks,
+// PowerPoint decks, OpenDocument text, Excel workbooks and CSV files. Each extractor returns
+// plain text with markers the assessor can cite ("[Slide 3]", "[Cell 5: code]", "[Sheet: Data]").
+import { posix } from 'path'
+import { listZipEntries, readZipText } from '@/lib/utils/zip'
+import {
+  buildDocumentStructure,
+  decodeEntities,
+  htmlToText,
+  textToBlocks,
+  type DocumentBlock,
+  type DocumentStructure,
+} from './document-structure-service'
+
+export interface ExtractedDocument {
+  content: string
+  structure: DocumentStructure
+  pageCount?: number // Slides for presentations; omitted when the format has no pages
+  formatSummary: string // One line about the format's own units, e.g. "12 slides, 8 with speaker notes"
+}
+
+// Long outputs and big sheets are summarised rather than passed through
+const MAX_OUTPUT_LENGTH = 1500
+const SAMPLE_ROWS = 20
+const MAX_STATS_ROWS = 10000
+const MAX_SHEETS = 10
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`
+
+const truncate = (text: string, length: number) =>
+  text.length > length ? `${text.slice(0, length)}\n[... ${text.length - length} more characters]` : text
+
+// Attributes of an XML start tag, keyed by their qualified name
+function xmlAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {}
+  for (const [, name, value] of tag.matchAll(/([\w:.-]+)="([^"]*)"/g)) {
+    attributes[name] = decodeEntities(value)
+  }
+  return attributes
+}
+
+// Relationship targets of an OOXML part, resolved to archive paths
+function readRelationships(buffer: Buffer, relsPath: string, baseDir: string): Map<string, string> {
+  const targets = new Map<string, string>()
+  for (const [tag] of (readZipText(buffer, relsPath) ?? '').matchAll(/<Relationship\b[^>]*>/g)) {
+    const { Id, Target } = xmlAttributes(tag)
+    if (Id && Target) {
+      targets.set(Id, Target.startsWith('/') ? Target.slice(1) : posix.join(baseDir, Target))
+    }
+  }
+  return targets
+}
+
+// Text of each <a:p> paragraph in a DrawingML fragment
+function drawingParagraphs(xml: string): string[] {
+  return [...xml.matchAll(/<a:p\b[^>]*>([\s\S]*?)<\/a:p>/g)]
+    .map(([, paragraph]) => [...paragraph.matchAll(/<a:t(?:\s[^>]*)?>([\s\S]*?)<\/a:t>/g)]
+      .map(([, text]) => decodeEntities(text))
+      .join('')
+      .trim())
+    .filter(Boolean)
+}
+
+function drawingTables(xml: string): string[][][] {
+  return [...xml.matchAll(/<a:tbl\b[^>]*>([\s\S]*?)<\/a:tbl>/g)].map(([, table]) =>
+    [...table.matchAll(/<a:tr\b[^>]*>([\s\S]*?)<\/a:tr>/g)].map(([, row]) =>
+      [...row.matchAll(/<a:tc\b[^>]*>([\s\S]*?)<\/a:tc>/g)].map(([, cell]) => drawingParagraphs(cell).join(' '))
+    )
+  )
+}
+
+const tableToText = (rows: string[][]) => rows.map(row => row.join(' | ')).join('\n')
+
+// Cells are shown on one line; trailing empty cells are dropped
+const cleanRow = (row: string[]) => {
+  const cells = row.map(cell => (cell ?? '').replace(/\s+/g, ' ').trim())
+  while (cells.length > 0 && !cells[cells.length - 1]) cells.pop()
+  return cells
+}
+
+const tableWidth = (rows: string[][]) => rows.reduce((width, row) => Math.max(width, row.length), 0)
+
+type JsonObject = Record<string, unknown>
+
+const isJsonObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+// The objects in a JSON array; anything else is treated as empty
+const jsonObjects = (value: unknown): JsonObject[] => (Array.isArray(value) ? value.filter(isJsonObject) : [])
+
+// A nested field of parsed JSON, or undefined when a level is missing
+const jsonPath = (value: unknown, ...keys: string[]): unknown =>
+  keys.reduce((current, key) => (isJsonObject(current) ? current[key] : undefined), value)
+
+/**
+ * Jupyter notebook: markdown and code cells in order, with their text outputs.
+ * Image outputs are counted, since the assessor cannot see them.
+ */
+export function extractNotebook(json: string): ExtractedDocument {
+  let notebook: unknown
+  try {
+    notebook = JSON.parse(json)
+  } catch (error) {
+    throw new Error(`Invalid Jupyter notebook: ${error instanceof Error ? error.message : 'not valid JSON'}`)
+  }
+  if (!isJsonObject(notebook)) {
+    throw new Error('Invalid Jupyter notebook: expected a JSON object')
+  }
+
+  // nbformat 4 keeps cells at the top level; nbformat 3 nests them in worksheets
+  const cells = Array.isArray(notebook.cells)
+    ? jsonObjects(notebook.cells)
+    : jsonObjects(notebook.worksheets).flatMap(sheet => jsonObjects(sheet.cells))
+  const joinSource = (source: unknown) => (Array.isArray(source) ? source.join('') : String(source ?? ''))
+  const stripAnsi = (text: string) => text.replace(/\x1b\[[0-9;]*[A-Za-z]/g, '')
+
+  const sections: string[] = []
+  const blocks: DocumentBlock[] = []
+  let codeCells = 0
+  let executedCells = 0
+  let errorCells = 0
+  let imageOutputs = 0
+
+  cells.forEach((cell, i) => {
+    const source = joinSource(cell.source ?? cell.input).trim()
+
+    if (cell.cell_type === 'markdown' || cell.cell_type === 'heading') {
+      if (!source) return
+      sections.push(`[Cell ${i + 1}: markdown]\n${source}`)
+      blocks.push(...textToBlocks(source))
+      return
+    }
+    if (cell.cell_type !== 'code') {
+      if (source) sections.push(`[Cell ${i + 1}: ${cell.cell_type}]\n${source}`)
+      return
+    }
+
+    codeCells++
+    const executionCount = cell.execution_count ?? cell.prompt_number
+    if (executionCount != null) executedCells++
+
+    const outputs: string[] = []
+    let hasError = false
+    for (const output of jsonObjects(cell.outputs)) {
+      const data = isJsonObject(output.data) ? output.data : {}
+      if (output.output_type === 'error' || output.output_type === 'pyerr') {
+        hasError = true
+        outputs.push(`Error: ${output.ename}: ${stripAnsi(String(output.evalue ?? ''))}`)
+      } else if (output.output_type === 'stream' || output.text) {
+        outputs.push(stripAnsi(joinSource(output.text)))
+      }
+      if (Object.keys(data).some(type => type.startsWith('image/'))) {
+        imageOutputs++
+        blocks.push({ type: 'image', alt: null })
+        outputs.push('[image output]')
+      } else if (data['text/plain']) {
+        outputs.push(joinSource(data['text/plain']))
+      } else if (data['text/html']) {
+        outputs.push(htmlToText(joinSource(data['text/html'])))
+      }
+    }
+    if (hasError) errorCells++
+
+    const output = outputs.map(text => text.trim()).filter(Boolean).join('\n')
+    sections.push(`[Cell ${i + 1}: code${executionCount != null ? `, In [${executionCount}]` : ', not run'}]\n${source}${output
+      ? `\n[Output]\n${truncate(output, MAX_OUTPUT_LENGTH)}`
+      : ''}`)
+  })
+
+  const language = jsonPath(notebook, 'metadata', 'language_info', 'name') ?? jsonPath(notebook, 'metadata', 'kernelspec', 'language')
+  const markdownCells = cells.filter(cell => cell.cell_type === 'markdown' || cell.cell_type === 'heading').length
+
+  return {
+    content: sections.join('\n\n'),
+    structure: buildDocumentStructure(blocks, true),
+    formatSummary: [
+      `${plural(cells.length, 'cell')} (${codeCells} code, ${markdownCells} markdown)`,
+      `${executedCells} of ${plural(codeCells, 'code cell')} executed`,
+      errorCells > 0 ? `${plural(errorCells, 'cell')} with errors` : null,
+      imageOutputs > 0 ? plural(imageOutputs, 'image output') : null,
+      language ? `language: ${language}` : null,
+    ].filter(Boolean).join('; '),
+  }
+}
+
+/**
+ * PowerPoint deck: each slide's title, text, tables and speaker notes, in presentation order
+ */
+export function extractPresentation(buffer: Buffer): ExtractedDocument {
+  const presentation = readZipText(buffer, 'ppt/presentation.xml')
+  if (!presentation) {
+    throw new Error('Not a PowerPoint presentation (ppt/presentation.xml is missing)')
+  }
+
+  const slideTargets = readRelationships(buffer, 'ppt/_rels/presentation.xml.rels', 'ppt')
+  let slidePaths = [...presentation.matchAll(/<p:sldId\b[^>]*>/g)]
+    .map(([tag]) => slideTargets.get(xmlAttributes(tag)['r:id']))
+    .filter((path): path is string => !!path)
+  if (slidePaths.length === 0) {
+    const slideNumber = (path: string) => parseInt(path.match(/(\d+)\.xml$/)?.[1] ?? '0', 10)
+    slidePaths = listZipEntries(buffer)
+      .filter(name => /^ppt\/slides\/slide\d+\.xml$/.test(name))
+      .sort((a, b) => slideNumber(a) - slideNumber(b))
+  }
+
+  const sections: string[] = []
+  const blocks: DocumentBlock[] = []
+  let slidesWithNotes = 0
+
+  slidePaths.forEach((path, i) => {
+    const slideNumber = i + 1
+    const xml = readZipText(buffer, path) ?? ''
+    let title: string | null = null
+    const body: string[] = []
+
+    for (const [, shape] of xml.matchAll(/<p:sp\b[^>]*>([\s\S]*?)<\/p:sp>/g)) {
+      const paragraphs = drawingParagraphs(shape)
+      if (!title && /<p:ph\b[^>]*type="(title|ctrTitle)"/.test(shape)) {
+        title = paragraphs.join(' ') || null
+      } else {
+        body.push(...paragraphs)
+      }
+    }
+
+    if (title) blocks.push({ type: 'heading', level: 1, text: title, page: slideNumber })
+    body.forEach(text => blocks.push({ type: 'paragraph', text, page: slideNumber }))
+
+    const tables = drawingTables(xml)
+    tables.forEach(rows => blocks.push({ type: 'table', rows }))
+
+    for (const [, picture] of xml.matchAll(/<p:pic\b[^>]*>([\s\S]*?)<\/p:pic>/g)) {
+      const alt = picture.match(/<p:cNvPr\b[^>]*>/)?.[0]
+      blocks.push({ type: 'image', alt: alt ? xmlAttributes(alt).descr || null : null })
+    }
+
+    // Speaker notes live in a separate part linked from the slide
+    const slideRels = readRelationships(buffer, posix.join(posix.dirname(path), '_rels', `${posix.basename(path)}.rels`), posix.dirname(path))
+    const notesPath = [...slideRels.values()].find(target => target.includes('notesSlide'))
+    const notesXml = notesPath ? readZipText(buffer, notesPath) ?? '' : ''
+    const notes = [...notesXml.matchAll(/<p:sp\b[^>]*>([\s\S]*?)<\/p:sp>/g)]
+      .filter(([, shape]) => /<p:ph\b[^>]*type="body"/.test(shape))
+      .flatMap(([, shape]) => drawingParagraphs(shape))
+    if (notes.length > 0) slidesWithNotes++
+
+    sections.push([
+      `[Slide ${slideNumber}${title ? `: ${title}` : ''}]`,
+      ...body,
+      ...tables.map(rows => `[Table]\n${tableToText(rows)}`),
+      notes.length > 0 ? `Speaker notes: ${notes.join(' ')}` : null,
+    ].filter(Boolean).join('\n'))
+  })
+
+  return {
+    content: sections.join('\n\n'),
+    structure: buildDocumentStructure(blocks, true),
+    pageCount: slidePaths.length,
+    formatSummary: `${plural(slidePaths.length, 'slide')}, ${slidesWithNotes} with speaker notes`,
+  }
+}
+
+// Text of an ODF fragment; <text:s/> runs of spaces and tabs are expanded first
+function odfText(xml: string): string {
+  return htmlToText(xml
+    .replace(/<svg:(title|desc)>[\s\S]*?<\/svg:\1>/g, '')
+    .replace(/<text:s\s+text:c="(\d+)"\s*\/>/g, (_, count) => ' '.repeat(parseInt(count, 10)))
+    .replace(/<text:(s|tab|line-break)\s*\/>/g, ' '))
+}
+
+/**
+ * OpenDocument text (.odt): headings keep their outline level, tables keep their cells
+ */
+export function extractOpenDocumentText(buffer: Buffer): ExtractedDocument {
+  const xml = readZipText(buffer, 'content.xml')
+  if (!xml) {
+    throw new Error('Not an OpenDocument file (content.xml is missing)')
+  }
+  const body = xml.match(/<office:text\b[^>]*>([\s\S]*)<\/office:text>/)?.[1] ?? ''
+
+  const lines: string[] = []
+  const blocks: DocumentBlock[] = []
+  const pattern = /<text:h\b([^>]*)>([\s\S]*?)<\/text:h>|<table:table(?=[\s>])[^>]*>([\s\S]*?)<\/table:table>|<text:p\b[^>]*\/>|<text:p\b[^>]*>([\s\S]*?)<\/text:p>/g
+
+  for (const [, headingAttributes, headingXml, tableXml, paragraphXml] of body.matchAll(pattern)) {
+    if (headingXml !== undefined) {
+      const text = odfText(headingXml)
+      if (!text) continue
+      const level = parseInt(xmlAttributes(`<h ${headingAttributes}>`)['text:outline-level'] ?? '1', 10)
+      blocks.push({ type: 'heading', level, text })
+      lines.push(text)
+    } else if (tableXml !== undefined) {
+      const rows = [...tableXml.matchAll(/<table:table-row\b[^>]*>([\s\S]*?)<\/table:table-row>/g)]
+        .map(([, row]) => {
+          const cells = [...row.matchAll(/<table:table-cell\b[^>]*\/>|<table:table-cell\b[^>]*>([\s\S]*?)<\/table:table-cell>/g)]
+            .map(([, cell]) => (cell ? odfText(cell) : ''))
+          return cleanRow(cells)
+        })
+        .filter(row => row.length > 0)
+      blocks.push({ type: 'table', rows })
+      lines.push(tableToText(rows))
+    } else if (paragraphXml !== undefined) {
+      // Text first, so a caption paragraph stays next to the table it follows
+      const text = odfText(paragraphXml)
+      if (text) {
+        blocks.push({ type: 'paragraph', text })
+        lines.push(text)
+      }
+      for (const [frame] of paragraphXml.matchAll(/<draw:frame\b[\s\S]*?<\/draw:frame>/g)) {
+        if (!frame.includes('<draw:image')) continue
+        const alt = frame.match(/<svg:(?:title|desc)>([\s\S]*?)<\/svg:(?:title|desc)>/)?.[1]
+        blocks.push({ type: 'image', alt: alt ? decodeEntities(alt) : null })
+      }
+    }
+  }
+
+  const pageCount = parseInt(readZipText(buffer, 'meta.xml')?.match(/meta:page-count="(\d+)"/)?.[1] ?? '0', 10)
+  const structure = buildDocumentStructure(blocks, true)
+
+  return {
+    content: lines.join('\n'),
+    structure,
+    pageCount: pageCount > 0 ? pageCount : undefined,
+    formatSummary: `${plural(structure.outline.length, 'heading')}, ${plural(structure.tables.length, 'table')}`,
+  }
+}
+
+const isNumeric = (value: string) => value.trim() !== '' && Number.isFinite(Number(value))
+
+// A sheet as a bounded text summary: size, header, per-column statistics and the first rows
+function summarizeSheet(name: string | null, rows: string[][], formulaCount = 0): string {
+  const width = tableWidth(rows)
+  const header = rows[0] && rows[0].every(cell => cell.trim() !== '' && !isNumeric(cell)) ? rows[0] : null
+  const dataRows = header ? rows.slice(1) : rows
+  const lines = [`${name ? `[Sheet: ${name}] ` : ''}${plural(dataRows.length, 'data row')} x ${plural(width, 'column')}${header ? ` (header: ${header.join(', ')})` : ''}`]
+  if (formulaCount > 0) lines.push(`Formulas: ${plural(formulaCount, 'cell')}`)
+
+  const columnStats: string[] = []
+  for (let column = 0; column < Math.min(width, 30); column++) {
+    const label = header?.[column] || `Column ${column + 1}`
+    const values = dataRows.slice(0, MAX_STATS_ROWS).map(row => row[column] ?? '').filter(value => value.trim() !== '')
+    if (values.length === 0) continue
+    if (values.every(isNumeric)) {
+      const numbers = values.map(Number)
+      const mean = numbers.reduce((sum, value) => sum + value, 0) / numbers.length
+      const min = numbers.reduce((a, b) => Math.min(a, b))
+      const max = numbers.reduce((a, b) => Math.max(a, b))
+      columnStats.push(`- ${label}: numeric, min ${min}, max ${max}, mean ${Number(mean.toFixed(3))}`)
+    } else {
+      const distinct = [...new Set(values)]
+      columnStats.push(`- ${label}: text, ${plural(distinct.length, 'distinct value')} (${distinct.slice(0, 5).join(', ')}${distinct.length > 5 ? ', ...' : ''})`)
+    }
+  }
+  if (columnStats.length > 0) lines.push('Columns:', ...columnStats)
+
+  if (rows.length > 0) {
+    lines.push(`First ${Math.min(rows.length, SAMPLE_ROWS + (header ? 1 : 0))} rows:`, tableToText(rows.slice(0, SAMPLE_ROWS + (header ? 1 : 0))))
+  }
+  return lines.join('\n')
+}
+
+// Zero-based column index of an A1-style cell reference
+function columnIndex(reference: string): number {
+  const letters = reference.match(/^[A-Z]+/)?.[0] ?? 'A'
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1
+}
+
+/**
+ * Excel workbook: a summary of each sheet, plus charts and images as figures
+ */
+export function extractWorkbook(buffer: Buffer): ExtractedDocument {
+  const workbook = readZipText(buffer, 'xl/workbook.xml')
+  if (!workbook) {
+    throw new Error('Not an Excel workbook (xl/workbook.xml is missing)')
+  }
+
+  const sharedStrings = [...(readZipText(buffer, 'xl/sharedStrings.xml') ?? '').matchAll(/<si>([\s\S]*?)<\/si>/g)]
+    .map(([, item]) => [...item.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)].map(([, text]) => decodeEntities(text)).join(''))
+  const sheetTargets = readRelationships(buffer, 'xl/_rels/workbook.xml.rels', 'xl')
+  const sheets = [...workbook.matchAll(/<sheet\b[^>]*>/g)].map(([tag]) => xmlAttributes(tag))
+
+  const sections: string[] = []
+  const blocks: DocumentBlock[] = []
+  const sheetSizes: string[] = []
+
+  for (const sheet of sheets.slice(0, MAX_SHEETS)) {
+    const path = sheetTargets.get(sheet['r:id'])
+    const xml = path ? readZipText(buffer, path) : null
+    if (!xml) continue
+
+    const rows: string[][] = []
+    let formulaCount = 0
+    for (const [, rowXml] of xml.matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g)) {
+      const row: string[] = []
+      for (const [, cellAttributes, cellXml = ''] of rowXml.matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+        const { r, t } = xmlAttributes(`<c ${cellAttributes}>`)
+        if (cellXml.includes('<f')) formulaCount++
+        const raw = cellXml.match(/<v>([\s\S]*?)<\/v>/)?.[1]
+        const value = t === 's' ? sharedStrings[parseInt(raw ?? '', 10)] ?? ''
+          : t === 'inlineStr' ? [...cellXml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)].map(([, text]) => decodeEntities(text)).join('')
+          : t === 'b' ? (raw === '1' ? 'TRUE' : 'FALSE')
+          : decodeEntities(raw ?? '')
+        row[r ? columnIndex(r) : row.length] = value
+      }
+      const cells = cleanRow(Array.from(row))
+      if (cells.length > 0) rows.push(cells)
+    }
+
+    const width = tableWidth(rows)
+    sheetSizes.push(`${sheet.name} (${rows.length} x ${width})`)
+    sections.push(summarizeSheet(sheet.name, rows, formulaCount))
+    blocks.push({ type: 'heading', level: 1, text: sheet.name })
+    blocks.push({ type: 'table', rows: rows.slice(0, SAMPLE_ROWS + 1) })
+  }
+
+  // Charts and pasted images are the workbook's figures
+  const entries = listZipEntries(buffer)
+  for (const chartPath of entries.filter(name => /^xl\/charts\/chart\d+\.xml$/.test(name))) {
+    const title = drawingParagraphs(readZipText(buffer, chartPath)?.match(/<c:title>([\s\S]*?)<\/c:title>/)?.[1] ?? '').join(' ')
+    blocks.push({ type: 'image', alt: title ? `Chart: ${title}` : null })
+  }
+  entries.filter(name => name.startsWith('xl/media/')).forEach(() => blocks.push({ type: 'image', alt: null }))
+
+  const structure = buildDocumentStructure(blocks, true)
+  const charts = entries.filter(name => /^xl\/charts\/chart\d+\.xml$/.test(name)).length
+
+  return {
+    content: sections.join('\n\n'),
+    structure,
+    formatSummary: `${plural(sheets.length, 'sheet')}: ${sheetSizes.join(', ')}${sheets.length > MAX_SHEETS ? ` (first ${MAX_SHEETS} summarised)` : ''}${charts > 0 ? `; ${plural(charts, 'chart')}` : ''}`,
+  }
+}
+
+// RFC 4180 rows; the delimiter is whichever of , ; or tab is most common in the first line
+function parseCsv(text: string): string[][] {
+  const firstLine = text.slice(0, text.indexOf('\n') === -1 ? undefined : text.indexOf('\n'))
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best)
+
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      if (row.some(cell => cell !== '')) rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  row.push(field)
+  if (row.some(cell => cell !== '')) rows.push(row)
+  return rows
+}
+
+/**
+ * CSV data: the same summary as a workbook sheet
+ */
+export function extractCsv(text: string): ExtractedDocument {
+  const rows = parseCsv(text.replace(/^\uFEFF/, '')).map(cleanRow).filter(row => row.length > 0)
+  const width = tableWidth(rows)
+
+  return {
+    content: summarizeSheet(null, rows),
+    structure: buildDocumentStructure([{ type: 'table', rows: rows.slice(0, SAMPLE_ROWS + 1) }], false),
+    formatSummary: `${plural(rows.length, 'row')} x ${plural(width, 'column')}`,
+  }
+}
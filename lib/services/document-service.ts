@@ -1,37 +1,93 @@
 import { put, del, head } from '@vercel/blob';
 import mammoth from 'mammoth';
-// Dynamic import for pdf-parse to avoid webpack issues
-// import pdf from 'pdf-parse';
+// pdf-parse is imported dynamically, from its lib entry point: the package index
+// runs a debug harness that reads a test PDF when it is bundled
 import { sanitizeTextContent } from '../utils/sanitization';
+import {
+  parseDocxStructure,
+  parseMarkdownStructure,
+  parseTextStructure,
+  readDocxPageCount,
+  type DocumentStructure,
+} from './document-structure-service';
+import {
+  extractCsv,
+  extractNotebook,
+  extractOpenDocumentText,
+  extractPresentation,
+  extractWorkbook,
+  type ExtractedDocument,
+} from './document-format-service';
+import {
+  DOCUMENT_FORMATS,
+  documentFormatForFilename,
+  documentFormatForMimeType,
+  formatFileSize,
+} from '../types/document-formats';
+import { compareWithExemplar, type SectionAlignment } from './similarity-service';
+
+// Text of one PDF page, numbered from 1 as in the viewer
+export interface DocumentPage {
+  pageNumber: number;
+  text: string;
+}
+
+// The parts of pdf.js's page proxy that pdf-parse hands to pagerender
+interface PdfTextContent {
+  items: { str: string; transform: number[] }[];
+}
+
+interface PdfPageData {
+  pageNumber: number;
+  getTextContent(): Promise<PdfTextContent>;
+}
 
 export interface DocumentInfo {
   filename: string;
-  content: string;
+  content: string; // For PDFs, each page's text follows a "[Page N]" marker
   fileUrl: string; // Added: Vercel Blob storage URL
+  pages?: DocumentPage[]; // PDFs only
+  structure?: DocumentStructure; // Outline, tables, figures and reference list
   metadata: {
     fileSize: number;
     fileType: string;
     wordCount: number;
-    pageCount?: number;
+    pageCount?: number; // Actual count for PDFs, slide decks and DOCX/ODT files that record it
+    pageCountEstimated?: boolean; // True when pageCount was estimated from the word count
+    emptyPages?: number[]; // PDF pages with no extractable text, e.g. scanned images
+    formatSummary?: string; // Slides, notebook cells or sheets, for formats that have them
     uploadedAt: Date;
     contentHash?: string; // For deduplication
   };
 }
 
+/**
+ * Thrown when a document has no text to assess, typically a scanned or image-only PDF.
+ * Retrying cannot help, so the submission should fail with this message.
+ */
+export class NoExtractableTextError extends Error {
+  constructor(filename: string, isPdf: boolean) {
+    super(`No extractable text found in "${filename}". ${isPdf
+      ? 'It looks like a scanned or image-only PDF; please upload a PDF with selectable text, or a DOCX or TXT file.'
+      : 'The file appears to be empty.'}`);
+    this.name = 'NoExtractableTextError';
+  }
+}
+
 export interface DocumentUploadOptions {
   userId?: string; // For secure file access
   submissionId?: string; // Link to submission
-  maxFileSize?: number; // In bytes (default 10MB)
+  maxFileSize?: number; // In bytes (default: the format's limit in DOCUMENT_FORMATS)
   allowedTypes?: string[]; // Allowed MIME types
 }
 
 export class DocumentService {
   private readonly DEFAULT_MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+  // Pages (and whole documents) with fewer non-whitespace characters count as having no text
+  private readonly MIN_TEXT_CHARACTERS = 20;
   private readonly ALLOWED_TYPES = [
-    // 'application/pdf', // Temporarily disabled due to pdf-parse library issues
-    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    ...DOCUMENT_FORMATS.map(format => format.mimeType),
     'application/msword',
-    'text/plain',
   ];
 
   /**
@@ -47,14 +103,19 @@ export class DocumentService {
 
       // Extract text content BEFORE uploading (for security)
       let content = '';
-      const fileType = file.type || this.getFileTypeFromName(file.name);
+      let pages: DocumentPage[] | undefined;
+      let structure: DocumentStructure | undefined;
+      let recordedPageCount: number | null = null;
+      let extracted: ExtractedDocument | undefined;
+      const fileType = this.resolveFileType(file);
 
       switch (fileType) {
         case 'application/pdf':
-          // PDF support temporarily disabled due to pdf-parse library issues
-          throw new Error('PDF support is currently unavailable. Please use DOCX or TXT format, or paste your document content directly.');
+          pages = await this.extractPdfPages(file);
+          break;
         case 'application/vnd.openxmlformats-officedocument.wordprocessingml.document':
           content = await this.extractDocxText(file);
+          ({ structure, pageCount: recordedPageCount } = await this.extractDocxStructure(file));
           break;
         case 'application/msword':
           // For old .doc files, try mammoth (may not work perfectly)
@@ -64,6 +125,25 @@ export class DocumentService {
             throw new Error('Legacy .doc format not fully supported. Please convert to .docx');
           }
           break;
+        case 'application/vnd.oasis.opendocument.text':
+          extracted = extractOpenDocumentText(await this.readBuffer(file));
+          break;
+        case 'application/vnd.openxmlformats-officedocument.presentationml.presentation':
+          extracted = extractPresentation(await this.readBuffer(file));
+          break;
+        case 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet':
+          extracted = extractWorkbook(await this.readBuffer(file));
+          break;
+        case 'text/csv':
+          extracted = extractCsv(await this.extractPlainText(file));
+          break;
+        case 'application/x-ipynb+json':
+          extracted = extractNotebook(await this.extractPlainText(file));
+          break;
+        case 'text/markdown':
+          content = await this.extractPlainText(file);
+          structure = parseMarkdownStructure(content);
+          break;
         case 'text/plain':
           content = await this.extractPlainText(file);
           break;
@@ -71,12 +151,34 @@ export class DocumentService {
           throw new Error(`Unsupported file type: ${fileType}`);
       }
 
+      if (extracted) {
+        content = extracted.content;
+        structure = extracted.structure;
+        recordedPageCount = extracted.pageCount ?? null;
+      }
+
       // Sanitize extracted content
-      content = sanitizeTextContent(content);
+      let emptyPages: number[] | undefined;
+      if (pages) {
+        pages = pages.map(page => ({ ...page, text: this.sanitizeDocumentText(page.text) }));
+        emptyPages = pages.filter(page => !this.hasText(page.text)).map(page => page.pageNumber);
+        content = this.formatPages(pages);
+      } else {
+        content = this.sanitizeDocumentText(content);
+      }
+
+      const hasContent = pages ? emptyPages!.length < pages.length : content.length > 0;
+      if (!hasContent) {
+        throw new NoExtractableTextError(file.name, !!pages);
+      }
+
+      // Headings in PDFs and plain text are recognised from the extracted lines
+      structure ??= parseTextStructure(pages ?? content);
 
       // Calculate metadata
-      const wordCount = this.countWords(content);
-      const pageCount = this.estimatePageCount(content);
+      const wordCount = this.countWords(pages ? pages.map(page => page.text).join('\n') : content);
+      const pageCount = pages?.length ?? recordedPageCount ?? this.estimatePageCount(content);
+      const pageCountEstimated = !pages && recordedPageCount === null;
       const contentHash = this.generateContentHash(content);
 
       // Upload to Vercel Blob with metadata
@@ -92,17 +194,25 @@ export class DocumentService {
         filename: file.name,
         content,
         fileUrl: blob.url,
+        pages,
+        structure,
         metadata: {
           fileSize: file.size,
           fileType,
           wordCount,
           pageCount,
+          pageCountEstimated,
+          emptyPages: emptyPages?.length ? emptyPages : undefined,
+          formatSummary: extracted?.formatSummary,
           uploadedAt: new Date(),
           contentHash,
         },
       };
     } catch (error: any) {
       console.error('❌ Document processing failed:', error);
+      if (error instanceof NoExtractableTextError) {
+        throw error;
+      }
       throw new Error(`Failed to process document: ${error.message}`);
     }
   }
@@ -111,13 +221,14 @@ export class DocumentService {
    * Validate file before processing
    */
   private validateFile(file: File, options: DocumentUploadOptions): void {
-    const maxSize = options.maxFileSize || this.DEFAULT_MAX_FILE_SIZE;
+    const fileType = this.resolveFileType(file);
+    const format = documentFormatForMimeType(fileType);
+    const maxSize = options.maxFileSize || format?.maxFileSize || this.DEFAULT_MAX_FILE_SIZE;
     const allowedTypes = options.allowedTypes || this.ALLOWED_TYPES;
-    const fileType = file.type || this.getFileTypeFromName(file.name);
 
     // Check file size
     if (file.size > maxSize) {
-      throw new Error(`File size exceeds maximum allowed size of ${(maxSize / 1024 / 1024).toFixed(2)}MB`);
+      throw new Error(`File size exceeds maximum allowed size of ${formatFileSize(maxSize)}${format ? ` for ${format.description} files` : ''}`);
     }
 
     // Check file type
@@ -187,32 +298,87 @@ export class DocumentService {
 
       return this.processDocument(file);
     } catch (error: any) {
+      if (error instanceof NoExtractableTextError) {
+        throw error;
+      }
       throw new Error(`Failed to process document from URL: ${error.message}`);
     }
   }
 
   /**
-   * Extract text from PDF
+   * Extract the text of each PDF page. Pages that fail to render come back empty
+   * rather than failing the whole document.
    */
-  private async extractPdfText(file: File): Promise<string> {
+  private async extractPdfPages(file: File): Promise<DocumentPage[]> {
     try {
-      // Dynamic import to avoid webpack issues
-      const pdfParse = await import('pdf-parse');
-      const pdf = pdfParse.default;
+      const pdf = (await import('pdf-parse/lib/pdf-parse.js')).default;
 
       const arrayBuffer = await file.arrayBuffer();
       const buffer = Buffer.from(arrayBuffer);
       console.log('📄 Processing PDF, buffer size:', buffer.length);
 
-      const data = await pdf(buffer);
-      console.log('✅ PDF processed, text length:', data.text.length);
-      return data.text;
+      const pageTexts = new Map<number, string>();
+      const data = await pdf(buffer, {
+        pagerender: async (pageData: PdfPageData) => {
+          const text = this.renderPdfPageText(await pageData.getTextContent());
+          pageTexts.set(pageData.pageNumber, text);
+          return text;
+        },
+      });
+
+      const pages = Array.from({ length: data.numpages }, (_, i) => ({
+        pageNumber: i + 1,
+        text: pageTexts.get(i + 1) || '',
+      }));
+      console.log(`✅ PDF processed: ${pages.length} pages, text length: ${data.text.length}`);
+      return pages;
     } catch (error) {
       console.error('❌ PDF extraction error details:', error);
       throw new Error(`Failed to extract text from PDF: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * Join a page's text items, starting a new line whenever the baseline moves
+   */
+  private renderPdfPageText(textContent: PdfTextContent): string {
+    let lastY: number | undefined;
+    let text = '';
+    for (const item of textContent.items) {
+      const y = item.transform[5];
+      text += lastY === undefined || y === lastY ? item.str : `\n${item.str}`;
+      lastY = y;
+    }
+    return text;
+  }
+
+  /**
+   * Page text with "[Page N]" markers, so feedback can point at a page
+   */
+  private formatPages(pages: DocumentPage[]): string {
+    return pages
+      .map(page => this.hasText(page.text)
+        ? `[Page ${page.pageNumber}]\n${page.text}`
+        : `[Page ${page.pageNumber}: no extractable text]`)
+      .join('\n\n');
+  }
+
+  /**
+   * Sanitize extracted text line by line, so line breaks survive
+   */
+  private sanitizeDocumentText(text: string): string {
+    return text
+      .split(/\r?\n/)
+      .map(line => sanitizeTextContent(line))
+      .join('\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+
+  private hasText(text: string): boolean {
+    return text.replace(/\s/g, '').length >= this.MIN_TEXT_CHARACTERS;
+  }
+
   /**
    * Extract text from DOCX
    */
@@ -228,6 +394,27 @@ export class DocumentService {
     }
   }
 
+  /**
+   * Recover the DOCX outline, tables and figures, plus the page count Word recorded.
+   * Failures fall back to the plain-text heuristics rather than failing the upload.
+   */
+  private async extractDocxStructure(file: File): Promise<{ structure?: DocumentStructure; pageCount: number | null }> {
+    try {
+      const buffer = Buffer.from(await file.arrayBuffer());
+      return {
+        structure: await parseDocxStructure(buffer),
+        pageCount: readDocxPageCount(buffer),
+      };
+    } catch (error) {
+      console.warn('DOCX structure extraction failed:', error);
+      return { pageCount: null };
+    }
+  }
+
+  private async readBuffer(file: File): Promise<Buffer> {
+    return Buffer.from(await file.arrayBuffer());
+  }
+
   /**
    * Extract text from plain text file
    */
@@ -258,20 +445,19 @@ export class DocumentService {
    * Get file type from filename
    */
   private getFileTypeFromName(filename: string): string {
-    const extension = filename.toLowerCase().split('.').pop();
-    
-    switch (extension) {
-      case 'pdf':
-        return 'application/pdf';
-      case 'docx':
-        return 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
-      case 'doc':
-        return 'application/msword';
-      case 'txt':
-        return 'text/plain';
-      default:
-        return 'application/octet-stream';
+    if (filename.toLowerCase().endsWith('.doc')) {
+      return 'application/msword';
     }
+    return documentFormatForFilename(filename)?.mimeType || 'application/octet-stream';
+  }
+
+  /**
+   * File type from the extension when it is a known format. Browsers report CSV,
+   * Markdown and notebooks inconsistently (often as application/octet-stream).
+   */
+  private resolveFileType(file: File): string {
+    const fromName = this.getFileTypeFromName(file.name);
+    return fromName !== 'application/octet-stream' ? fromName : file.type || fromName;
   }
 
   /**
@@ -350,16 +536,18 @@ export class DocumentService {
   }
 
   /**
-   * Compare document with base example
+   * Compare document with base example, section by section
    */
-  compareWithBaseExample(
+  async compareWithBaseExample(
     submission: DocumentInfo,
-    baseExample: DocumentInfo
-  ): {
+    baseExample: DocumentInfo,
+    provider?: string | null
+  ): Promise<{
     similarity: number;
     differences: string[];
     strengths: string[];
-  } {
+    alignments: SectionAlignment[];
+  }> {
     const differences: string[] = [];
     const strengths: string[] = [];
 
@@ -380,47 +568,40 @@ export class DocumentService {
       }
     }
 
-    // Simple text similarity (Jaccard index)
-    const similarity = this.calculateTextSimilarity(
-      submission.content,
-      baseExample.content
-    );
+    const comparison = await compareWithExemplar(submission.content, baseExample.content, { provider });
+    if (!comparison) {
+      return { similarity: 0, differences, strengths, alignments: [] };
+    }
 
-    if (similarity < 0.2) {
-      differences.push('Content structure differs significantly from base example');
-    } else if (similarity > 0.6) {
-      strengths.push('Content structure aligns well with base example');
+    for (const alignment of comparison.alignments) {
+      const terms = alignment.missingTerms.length > 0 ? ` (not mentioned: ${alignment.missingTerms.join(', ')})` : '';
+      if (alignment.coverage === 'covered') {
+        strengths.push(`Covers the base example's "${alignment.exemplarSection}" section`);
+      } else if (alignment.coverage === 'partial') {
+        differences.push(`Only partly covers the base example's "${alignment.exemplarSection}" section${terms}`);
+      } else {
+        differences.push(`Has no counterpart to the base example's "${alignment.exemplarSection}" section${terms}`);
+      }
     }
 
     return {
-      similarity,
+      similarity: comparison.overallSimilarity,
       differences,
       strengths,
+      alignments: comparison.alignments,
     };
   }
 
-  /**
-   * Calculate text similarity using Jaccard index
-   */
-  private calculateTextSimilarity(text1: string, text2: string): number {
-    const words1 = new Set(text1.toLowerCase().split(/\s+/).filter(w => w.length > 3));
-    const words2 = new Set(text2.toLowerCase().split(/\s+/).filter(w => w.length > 3));
-
-    const intersection = new Set([...words1].filter(x => words2.has(x)));
-    const union = new Set([...words1, ...words2]);
-
-    return intersection.size / union.size;
-  }
-
   /**
    * Get supported file types
    */
-  getSupportedFileTypes(): { extension: string; mimeType: string; description: string }[] {
-    return [
-      // { extension: '.pdf', mimeType: 'application/pdf', description: 'PDF Document' }, // Temporarily disabled
-      { extension: '.docx', mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', description: 'Word Document' },
-      { extension: '.txt', mimeType: 'text/plain', description: 'Plain Text' },
-    ];
+  getSupportedFileTypes(): { extension: string; mimeType: string; description: string; maxFileSize: string }[] {
+    return DOCUMENT_FORMATS.map(format => ({
+      extension: format.extensions[0],
+      mimeType: format.mimeType,
+      description: format.description,
+      maxFileSize: formatFileSize(format.maxFileSize),
+    }));
   }
 }
 
@@ -0,0 +1,485 @@
+// lib/services/document-structure-service.ts
+// Recovers the structure of a submitted document (outline, tables, figures and the
+// reference list) so structural criteria can be checked before the LLM reads the text.
+// DOCX structure comes from mammoth's HTML; PDF and plain text fall back to line heuristics.
+// Other formats build blocks themselves (see document-format-service.ts).
+import mammoth from 'mammoth'
+import { readZipText } from '@/lib/utils/zip'
+
+export interface DocumentHeading {
+  level: number // 1 for top-level sections
+  text: string
+  page?: number // Page or slide number, when the format has them
+}
+
+export interface DocumentTable {
+  caption: string | null
+  rows: string[][] // Empty when only the caption could be found (PDF, TXT)
+}
+
+export interface DocumentStructure {
+  outline: DocumentHeading[]
+  tables: DocumentTable[]
+  images: {
+    count: number | null // null when the format does not expose images (PDF, TXT)
+    captions: string[]
+  }
+  references: {
+    detected: boolean
+    heading: string | null
+    entryCount: number
+  }
+}
+
+// Result of checking one criterion against the document structure
+export interface StructuralCheckResult {
+  criterion: string
+  requirement: string // What was checked, e.g. 'Section "Methodology"'
+  passed: boolean
+  detail: string
+}
+
+// A parsed document as a flat run of blocks, in reading order
+export type DocumentBlock =
+  | { type: 'heading'; level: number; text: string; page?: number }
+  | { type: 'paragraph'; text: string; page?: number }
+  | { type: 'table'; rows: string[][] }
+  | { type: 'image'; alt: string | null }
+
+// Stored tables are trimmed so the structure stays small enough for submission metadata
+const MAX_TABLE_ROWS = 20
+const MAX_CELL_LENGTH = 200
+
+const CAPTION_PATTERN = /^(figure|fig\.|table|chart|diagram|image|illustration)\s+\d+[a-z]?\s*[:.\-–]/i
+const REFERENCES_HEADING_PATTERN = /^(references|reference list|bibliography|works cited|sources|citations)\b/i
+
+// Section names that mark a heading even when the document has no heading styles
+const COMMON_SECTIONS = [
+  'abstract', 'executive summary', 'summary', 'table of contents', 'contents', 'introduction',
+  'background', 'literature review', 'related work', 'aims', 'objectives', 'aims and objectives',
+  'method', 'methods', 'methodology', 'approach', 'design', 'implementation', 'requirements',
+  'results', 'findings', 'analysis', 'evaluation', 'testing', 'discussion', 'limitations',
+  'future work', 'recommendations', 'conclusion', 'conclusions', 'reflection',
+  'references', 'reference list', 'bibliography', 'works cited', 'acknowledgements', 'acknowledgments',
+]
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()
+
+// Heading text without its section number, e.g. "2.1 Methods" -> "Methods"
+const stripNumbering = (text: string) => text.replace(/^(\d+(\.\d+)*|[ivx]+|[a-z])[.)]?\s+/i, '').trim()
+
+export function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&amp;/g, '&')
+}
+
+export const htmlToText = (html: string) => decodeEntities(html.replace(/<[^>]+>/g, '')).replace(/\s+/g, ' ').trim()
+
+/**
+ * Page count Word stored when the DOCX was last saved, or null when absent
+ * (documents written by other tools often leave it out)
+ */
+export function readDocxPageCount(buffer: Buffer): number | null {
+  try {
+    const appXml = readZipText(buffer, 'docProps/app.xml')
+    const pages = appXml?.match(/<Pages>(\d+)<\/Pages>/)
+    const count = pages ? parseInt(pages[1], 10) : 0
+    return count > 0 ? count : null
+  } catch (error) {
+    console.warn('Could not read DOCX page count:', error)
+    return null
+  }
+}
+
+// Heading level for a line of plain text, or null if it reads like body text
+function headingLevel(line: string): number | null {
+  const markdown = line.match(/^(#{1,6})\s+\S/)
+  if (markdown) return markdown[1].length
+
+  const words = line.split(/\s+/).length
+  if (line.length > 80 || words > 10 || /[.,;]$/.test(line)) return null
+
+  const numbered = line.match(/^(\d+(?:\.\d+)*)\.?\s+[A-Z]/)
+  if (numbered && words <= 8) return numbered[1].split('.').length
+
+  const name = normalize(stripNumbering(line.replace(/:$/, '')))
+  if (COMMON_SECTIONS.includes(name) || /^appendix( [a-z0-9]+)?\b/.test(name)) return 1
+
+  // Short all-caps lines, e.g. "PROJECT OVERVIEW"
+  if (words >= 2 && words <= 6 && /^[A-Z][A-Z0-9 &/,'-]+$/.test(line)) return 1
+
+  return null
+}
+
+/**
+ * Blocks for plain or Markdown text. Fenced code is never read as headings, pipe
+ * tables become tables and Markdown images count as images.
+ */
+export function textToBlocks(text: string, page?: number): DocumentBlock[] {
+  const blocks: DocumentBlock[] = []
+  let inCodeFence = false
+  let tableRows: string[][] = []
+
+  const flushTable = () => {
+    if (tableRows.length > 0) blocks.push({ type: 'table', rows: tableRows })
+    tableRows = []
+  }
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim()
+    if (/^(```|~~~)/.test(line)) {
+      inCodeFence = !inCodeFence
+      continue
+    }
+    if (line.startsWith('|') && line.endsWith('|') && line.length > 1 && !inCodeFence) {
+      // Skip the |---|---| separator under the header row
+      if (!/^\|[\s:|-]+\|$/.test(line)) {
+        tableRows.push(line.slice(1, -1).split('|').map(cell => cell.trim()))
+      }
+      continue
+    }
+    flushTable()
+    if (!line) continue
+
+    if (inCodeFence) {
+      blocks.push({ type: 'paragraph', text: line, page })
+      continue
+    }
+    for (const [, alt] of line.matchAll(/!\[([^\]]*)\]\([^)]*\)/g)) {
+      blocks.push({ type: 'image', alt: alt || null })
+    }
+
+    const level = headingLevel(line)
+    blocks.push(level
+      ? { type: 'heading', level, text: line.replace(/^#{1,6}\s+/, '').replace(/:$/, ''), page }
+      : { type: 'paragraph', text: line, page })
+  }
+  flushTable()
+
+  return blocks
+}
+
+function htmlToBlocks(html: string): DocumentBlock[] {
+  const blocks: DocumentBlock[] = []
+  const blockPattern = /<h([1-6])[^>]*>([\s\S]*?)<\/h\1>|<table[^>]*>([\s\S]*?)<\/table>|<(p|li)([^>]*)>([\s\S]*?)<\/\4>/g
+
+  for (const match of html.matchAll(blockPattern)) {
+    const [, headingTag, headingHtml, tableHtml, , paragraphAttributes, paragraphHtml] = match
+
+    if (headingTag) {
+      const text = htmlToText(headingHtml)
+      if (text) blocks.push({ type: 'heading', level: parseInt(headingTag, 10), text })
+      continue
+    }
+
+    if (tableHtml !== undefined) {
+      const rows = [...tableHtml.matchAll(/<tr[^>]*>([\s\S]*?)<\/tr>/g)].map(([, rowHtml]) =>
+        [...rowHtml.matchAll(/<t[dh][^>]*>([\s\S]*?)<\/t[dh]>/g)].map(([, cellHtml]) => htmlToText(cellHtml))
+      )
+      blocks.push({ type: 'table', rows })
+      continue
+    }
+
+    for (const [image] of paragraphHtml.matchAll(/<img\b[^>]*>/g)) {
+      const alt = image.match(/\balt="([^"]*)"/)
+      blocks.push({ type: 'image', alt: alt ? decodeEntities(alt[1]) : null })
+    }
+
+    const text = htmlToText(paragraphHtml)
+    if (!text) continue
+
+    // Without heading styles, a short paragraph that is entirely bold often is a heading
+    const isBoldOnly = /^\s*<strong>[\s\S]*<\/strong>\s*$/.test(paragraphHtml)
+    const level = headingLevel(text) ?? (isBoldOnly && text.length <= 80 && !/[.,;]$/.test(text) ? 1 : null)
+    blocks.push(level && !paragraphAttributes.includes('caption')
+      ? { type: 'heading', level, text }
+      : { type: 'paragraph', text })
+  }
+
+  return blocks
+}
+
+// Entries of a reference list look like "[1] ...", "1. ...", "Smith, J. ..." or contain "(2021)"
+function isReferenceEntry(text: string): boolean {
+  return /^\[\d+\]/.test(text)
+    || /^\d+\.\s*[A-Z]/.test(text)
+    || /^[A-Z][A-Za-z'’-]+,\s+[A-Z]/.test(text)
+    || /\((19|20)\d{2}[a-z]?\)/.test(text)
+    || /https?:\/\//.test(text)
+}
+
+/**
+ * Outline, tables, figures and reference list from a run of blocks.
+ * imagesExposed is false for formats whose images cannot be seen (PDF, TXT).
+ */
+export function buildDocumentStructure(blocks: DocumentBlock[], imagesExposed: boolean): DocumentStructure {
+  const outline: DocumentHeading[] = []
+  const tables: DocumentTable[] = []
+  const captions: string[] = []
+  let imageCount = 0
+  let referencesHeading: string | null = null
+  let referencesLevel = 0
+  let referenceEntries = 0
+  const usedCaptions = new Set<number>()
+
+  blocks.forEach((block, i) => {
+    if (block.type === 'heading') {
+      if (referencesHeading && block.level <= referencesLevel) {
+        referencesLevel = 0 // The reference list ended
+      }
+      outline.push({ level: block.level, text: block.text, ...(block.page && { page: block.page }) })
+      if (!referencesHeading && REFERENCES_HEADING_PATTERN.test(stripNumbering(block.text))) {
+        referencesHeading = block.text
+        referencesLevel = block.level
+      }
+      return
+    }
+
+    if (block.type === 'image') {
+      imageCount++
+      if (block.alt) captions.push(block.alt)
+      return
+    }
+
+    if (block.type === 'table') {
+      // Word captions sit directly above or below their table
+      const captionIndex = [i - 1, i + 1].find(index => {
+        const neighbour = blocks[index]
+        return neighbour?.type === 'paragraph' && /^table\s+\d+/i.test(neighbour.text) && !usedCaptions.has(index)
+      })
+      if (captionIndex !== undefined) usedCaptions.add(captionIndex)
+      tables.push({
+        caption: captionIndex !== undefined ? (blocks[captionIndex] as { text: string }).text : null,
+        rows: block.rows.slice(0, MAX_TABLE_ROWS).map(row => row.map(cell => cell.slice(0, MAX_CELL_LENGTH))),
+      })
+      return
+    }
+
+    if (referencesHeading && referencesLevel > 0 && isReferenceEntry(block.text)) {
+      referenceEntries++
+    }
+    if (CAPTION_PATTERN.test(block.text) && block.text.length <= 300) {
+      if (/^table/i.test(block.text)) {
+        // Plain-text formats usually only show a table through its caption
+        const besideTable = blocks[i - 1]?.type === 'table' || blocks[i + 1]?.type === 'table'
+        if (!imagesExposed && !besideTable) {
+          tables.push({ caption: block.text, rows: [] })
+        }
+      } else {
+        captions.push(block.text)
+      }
+    }
+  })
+
+  return {
+    outline,
+    tables,
+    images: { count: imagesExposed ? imageCount : null, captions },
+    references: {
+      detected: referencesHeading !== null,
+      heading: referencesHeading,
+      entryCount: referenceEntries,
+    },
+  }
+}
+
+/**
+ * Structure of a DOCX, from the headings, tables and images mammoth recovers.
+ * Image data is not needed, so images are converted to empty <img> tags.
+ */
+export async function parseDocxStructure(buffer: Buffer): Promise<DocumentStructure> {
+  const { value: html } = await mammoth.convertToHtml({ buffer }, {
+    styleMap: ["p[style-name='Caption'] => p.caption:fresh"],
+    convertImage: mammoth.images.imgElement(async () => ({ src: '' })),
+  })
+  return buildDocumentStructure(htmlToBlocks(html), true)
+}
+
+/**
+ * Structure of plain text, optionally split into numbered pages so headings keep their page
+ */
+export function parseTextStructure(text: string | { pageNumber: number; text: string }[]): DocumentStructure {
+  const blocks = typeof text === 'string'
+    ? textToBlocks(text)
+    : text.flatMap(page => textToBlocks(page.text, page.pageNumber))
+  return buildDocumentStructure(blocks, false)
+}
+
+/**
+ * Structure of Markdown, where images are visible as ![alt](src)
+ */
+export function parseMarkdownStructure(text: string): DocumentStructure {
+  return buildDocumentStructure(textToBlocks(text), true)
+}
+
+/**
+ * Compact description of the structure for the assessment prompt
+ */
+export function formatDocumentStructure(structure: DocumentStructure): string {
+  const lines: string[] = []
+
+  if (structure.outline.length > 0) {
+    lines.push('Outline:')
+    structure.outline.slice(0, 40).forEach(heading => {
+      lines.push(`${'  '.repeat(Math.min(heading.level, 4) - 1)}- ${heading.text}${heading.page ? ` (page ${heading.page})` : ''}`)
+    })
+    if (structure.outline.length > 40) {
+      lines.push(`  ... ${structure.outline.length - 40} more headings`)
+    }
+  } else {
+    lines.push('Outline: no headings found')
+  }
+
+  const tableLabels = structure.tables.map(table =>
+    table.caption || `untitled table (${table.rows.length} rows x ${table.rows[0]?.length ?? 0} columns)`
+  )
+  lines.push(`Tables: ${structure.tables.length}${tableLabels.length > 0 ? ` (${tableLabels.join('; ')})` : ''}`)
+
+  const { count, captions } = structure.images
+  lines.push(`Figures/Images: ${count ?? `unknown, ${captions.length} figure caption(s) found`}${captions.length > 0 ? ` (${captions.slice(0, 10).join('; ')})` : ''}`)
+
+  const { references } = structure
+  lines.push(references.detected
+    ? `Reference list: "${references.heading}" with ${references.entryCount} entr${references.entryCount === 1 ? 'y' : 'ies'}`
+    : 'Reference list: none found')
+
+  return lines.join('\n')
+}
+
+// Leading words that describe a section rather than name it, e.g. "a clear Methodology section"
+const SECTION_QUALIFIERS = /^((a|an|the|clear|clearly|dedicated|separate|distinct|proper|own|its|their|well|structured|labelled|labeled|titled|named|called|appropriate)\s+)+/i
+
+// Capitalised words before "section" that refer to sections in general, e.g. "Each section ends with a summary"
+const NOT_SECTION_NAMES = ['each', 'every', 'this', 'that', 'one', 'any', 'all', 'other', 'first', 'last', 'next', 'final', 'main', 'same', 'previous', 'following']
+
+// A section named in quotes ('"Methodology" section') or in title case ('a Literature Review section')
+const QUOTED_SECTION_PATTERN = /["“‘']([^"”’']{2,50})["”’']\s+(section|heading|chapter)(s?)\b/i
+const TITLED_SECTION_PATTERN = /(?<![\w'’])([A-Z][\w&/-]*(?:\s+(?:(?:and|of|for|the|&)\s+)*[A-Z][\w&/-]*)*)\s+([Ss]ection|[Hh]eading|[Cc]hapter)(s?)\b/
+
+// Verbs that ask for something to be present, e.g. "includes a table of results"
+const INCLUDES = '(?:includes?|including|contains?|containing|has|have|having|provides?|presents?|with)'
+const COUNT = '(\\d+|one|two|three|four|five)'
+
+const countValue = (word: string) => {
+  const words = ['one', 'two', 'three', 'four', 'five']
+  const lower = word.toLowerCase()
+  return words.includes(lower) ? words.indexOf(lower) + 1 : parseInt(word, 10)
+}
+
+// "at least 5 references", "at least two labelled figures"
+function atLeastCount(criterion: string, nouns: string): number | null {
+  const match = criterion.match(new RegExp(`\\bat least ${COUNT}\\s+(?:[\\w-]+\\s+){0,2}?(?:${nouns})\\b`, 'i'))
+  return match ? countValue(match[1]) : null
+}
+
+// "includes a table", "has two diagrams", "contains a clear chart"
+function includedCount(criterion: string, nouns: string): number | null {
+  const match = criterion.match(new RegExp(`\\b${INCLUDES}\\s+(?:an?\\s+|${COUNT}\\s+)?(?:[\\w-]+\\s+)?(?:${nouns})\\b`, 'i'))
+  if (!match) return null
+  return match[1] ? countValue(match[1]) : 1
+}
+
+// Section names a criterion explicitly asks for, or null if it names none
+function requiredSections(criterion: string): string[] | null {
+  const match = criterion.match(QUOTED_SECTION_PATTERN) ?? criterion.match(TITLED_SECTION_PATTERN)
+  if (!match) return null
+
+  const label = match[1]
+    .replace(/^(includes?|including|contains?|has|have|provides?|with)\s+/i, '')
+    .replace(SECTION_QUALIFIERS, '')
+    .trim()
+  // "Introduction and Conclusion sections" asks for two sections
+  const names = match[3] ? label.split(/\s*(?:,|\band\b|&)\s*/) : [label]
+  const named = names.map(name => name.trim()).filter(name => name && !NOT_SECTION_NAMES.includes(normalize(name)))
+  return named.length > 0 ? named : null
+}
+
+/**
+ * Check criteria that explicitly ask for document structure ('includes a "Methodology"
+ * section', "has a reference list with at least 5 references", "includes at least two
+ * figures") against the parsed structure. Criteria that only mention sections, tables or
+ * references ("discusses limitations in each section", "uses references appropriately")
+ * are left to the assessor and produce no result.
+ */
+export function runStructuralChecks(criteria: string[], structure: DocumentStructure): StructuralCheckResult[] {
+  const results: StructuralCheckResult[] = []
+  const headings = structure.outline.map(heading => normalize(stripNumbering(heading.text)))
+  const findHeading = (name: string) => structure.outline.find((_, i) =>
+    headings[i] === name || headings[i].includes(name) || (headings[i].length > 3 && name.includes(headings[i]))
+  )
+
+  for (const criterion of criteria) {
+    if (/\btable of contents\b/i.test(criterion)) {
+      const found = headings.some(heading => heading === 'contents' || heading === 'table of contents')
+      results.push({
+        criterion,
+        requirement: 'Table of contents',
+        passed: found,
+        detail: found ? 'A contents heading was found' : 'No "Contents" or "Table of Contents" heading was found',
+      })
+      continue
+    }
+
+    const referenceMinimum = atLeastCount(criterion, 'references?|sources?|citations?|entries')
+      ?? includedCount(criterion, 'reference list|list of references|bibliography|works cited')
+    if (referenceMinimum !== null) {
+      const { detected, entryCount, heading } = structure.references
+      const passed = detected && entryCount >= referenceMinimum
+      results.push({
+        criterion,
+        requirement: referenceMinimum > 1 ? `Reference list with at least ${referenceMinimum} entries` : 'Reference list',
+        passed,
+        detail: detected ? `"${heading}" lists ${entryCount} entr${entryCount === 1 ? 'y' : 'ies'}` : 'No reference list heading was found',
+      })
+      continue
+    }
+
+    const sections = requiredSections(criterion)
+    if (sections) {
+      const found = sections.map(name => ({ name, match: findHeading(normalize(name)) }))
+      const missing = found.filter(section => !section.match).map(section => section.name)
+      results.push({
+        criterion,
+        requirement: sections.length === 1 ? `Section "${sections[0]}"` : `Sections ${sections.map(name => `"${name}"`).join(', ')}`,
+        passed: missing.length === 0,
+        detail: missing.length > 0
+          ? `No heading matching ${missing.map(name => `"${name}"`).join(', ')} was found`
+          : found.map(({ match }) => `Found heading "${match!.text}"${match!.page ? ` on page ${match!.page}` : ''}`).join('; '),
+      })
+      continue
+    }
+
+    const tableMinimum = atLeastCount(criterion, 'tables?') ?? includedCount(criterion, 'tables?')
+    if (tableMinimum !== null) {
+      results.push({
+        criterion,
+        requirement: `At least ${tableMinimum} table${tableMinimum === 1 ? '' : 's'}`,
+        passed: structure.tables.length >= tableMinimum,
+        detail: `${structure.tables.length} table${structure.tables.length === 1 ? '' : 's'} found`,
+      })
+      continue
+    }
+
+    const figureNouns = 'figures?|images?|diagrams?|charts?|graphs?|screenshots?'
+    const figureMinimum = atLeastCount(criterion, figureNouns) ?? includedCount(criterion, figureNouns)
+    if (figureMinimum !== null) {
+      const found = structure.images.count ?? structure.images.captions.length
+      results.push({
+        criterion,
+        requirement: `At least ${figureMinimum} figure${figureMinimum === 1 ? '' : 's'}`,
+        passed: found >= figureMinimum,
+        detail: structure.images.count === null
+          ? `${found} figure caption${found === 1 ? '' : 's'} found (images are not visible in this format)`
+          : `${found} image${found === 1 ? '' : 's'} found`,
+      })
+    }
+  }
+
+  return results
+}
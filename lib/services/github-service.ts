@@ -1,11 +1,76 @@
 import { Octokit } from '@octokit/rest';
 import { safeBase64ToUtf8, sanitizeTextContent } from '../utils/sanitization';
 import { withCache, CacheKeys, CacheTTL } from '../utils/cache';
+import { analyzeRepository, formatStaticAnalysis, type StaticAnalysisReport } from './static-analysis-service';
+
+// The commit a repository was read at
+export interface GitHubCommitInfo {
+  sha: string;
+  message: string; // First line only
+  committedAt?: string;
+  url: string;
+}
+
+// A repository URL, optionally pointing at a branch (/tree/<branch>) or commit (/commit/<sha>)
+export interface GitHubRepoRef {
+  owner: string;
+  repo: string;
+  ref?: string;
+  refType?: 'branch' | 'commit';
+}
+
+// One commit from the history leading up to the graded commit
+export interface GitHubCommitSummary {
+  sha: string;
+  message: string; // First line only
+  author: string; // GitHub login, or the git author name when the commit isn't linked to an account
+  authoredAt: string;
+  isMerge: boolean;
+}
+
+// How the work was done: derived from the commit history, not the code.
+// Times are git author dates, which the committer sets (git commit --date), so they
+// show when the student says the work was done rather than when it was pushed.
+export interface CommitHistoryStats {
+  commitCount: number;
+  historyTruncated: boolean; // The repository has more commits than were read
+  firstCommitAt: string | null;
+  lastCommitAt: string | null;
+  spanDays: number;
+  activeDays: number; // Distinct days with at least one commit
+  contributors: { name: string; commits: number }[];
+  messages: {
+    meaningful: number;
+    lowQuality: number;
+    merges: number;
+    averageLength: number;
+    lowQualityExamples: string[];
+  };
+  deadline: string | null; // The question's due date, when it has one
+  lastCommitBeforeDeadline: string | null; // Latest author date on or before the deadline
+  commitsAfterDeadline: number;
+  finalWindowShare: number; // Share of commits in the last BURST_WINDOW_HOURS before the deadline (or the last commit)
+  burstBeforeDeadline: boolean;
+}
+
+const MAX_TREE_PATHS = 5000;
+const MAX_HISTORY_PAGES = 3; // 100 commits per page
+const BURST_WINDOW_HOURS = 48;
+const BURST_MIN_COMMITS = 4;
+const BURST_SHARE = 0.5;
+const MIN_MESSAGE_LENGTH = 8;
+
+// Messages that say nothing about the change, including GitHub's web UI defaults
+const LOW_QUALITY_MESSAGE = /^(wip|update[sd]?|fix(e[sd])?|changes?|commit|stuff|test(ing)?|minor|misc|save|done|final|asdf+|initial commit|first commit|add files via upload|(update|create|delete) \S+)$/i;
 
 export interface GitHubRepoInfo {
   owner: string;
   repo: string;
+  commit: GitHubCommitInfo;
+  commits: GitHubCommitSummary[]; // Newest first, ending at the graded commit
+  commitsTruncated: boolean;
   files: GitHubFile[];
+  paths: string[]; // Every file path in the tree, up to MAX_TREE_PATHS
   readme?: string;
   structure: string;
   languages: Record<string, number>;
@@ -30,8 +95,10 @@ export interface GitHubAssessmentData {
     hasTests: boolean;
     hasDocumentation: boolean;
     mainLanguage: string;
-    complexity: 'low' | 'medium' | 'high';
+    complexity: 'low' | 'medium' | 'high'; // From per-function cyclomatic complexity
+    testCases: number;
   };
+  staticAnalysis: StaticAnalysisReport;
   structure: {
     organized: boolean;
     hasProperStructure: boolean;
@@ -77,25 +144,34 @@ export class GitHubService {
   }
 
   /**
-   * Parse GitHub URL and extract owner/repo
+   * Parse GitHub URL and extract owner/repo, plus the branch or commit it points at
    */
-  parseGitHubUrl(url: string): { owner: string; repo: string } | null {
-    const patterns = [
-      /github\.com\/([^\/]+)\/([^\/]+?)(?:\.git)?(?:\/.*)?$/,
-      /github\.com\/([^\/]+)\/([^\/]+?)(?:\.git)?$/,
-    ];
+  parseGitHubUrl(url: string): GitHubRepoRef | null {
+    const match = url.match(/github\.com\/([^\/?#]+)\/([^\/?#]+)(\/[^?#]*)?/);
+    if (!match) {
+      return null;
+    }
 
-    for (const pattern of patterns) {
-      const match = url.match(pattern);
-      if (match) {
-        return {
-          owner: match[1],
-          repo: match[2].replace(/\.git$/, ''),
-        };
-      }
+    const parsed: GitHubRepoRef = {
+      owner: match[1],
+      repo: match[2].replace(/\.git$/, ''),
+    };
+    if (!parsed.repo) {
+      return null;
+    }
+
+    const path = (match[3] || '').replace(/\/+$/, '');
+    const commit = path.match(/^\/commit\/([0-9a-f]{7,40})$/i);
+    const branch = path.match(/^\/tree\/(.+)$/);
+    if (commit) {
+      parsed.ref = commit[1];
+      parsed.refType = 'commit';
+    } else if (branch) {
+      parsed.ref = decodeURIComponent(branch[1]);
+      parsed.refType = 'branch';
     }
 
-    return null;
+    return parsed;
   }
 
   /**
@@ -106,30 +182,68 @@ export class GitHubService {
   }
 
   /**
-   * Fetch repository information using Git Tree API for complete structure
-   * Cached for 1 hour to reduce API calls and improve performance
+   * Resolve a branch or commit to its full commit SHA; the default branch when no ref is given.
+   * Branch names may contain slashes, so for a /tree/ URL that also names a folder the longest
+   * prefix that is a branch wins.
    */
-  async getRepositoryInfo(owner: string, repo: string): Promise<GitHubRepoInfo> {
-    // Use cache to avoid refetching same repo multiple times
-    const cacheKey = CacheKeys.github(owner, repo);
+  async resolveCommit(owner: string, repo: string, ref?: string): Promise<{ commit: GitHubCommitInfo; ref: string }> {
+    if (!ref) {
+      const { data: repoData } = await this.octokit.rest.repos.get({ owner, repo });
+      ref = repoData.default_branch;
+    }
+
+    const parts = ref.split('/');
+    for (let length = parts.length; length > 0; length--) {
+      const candidate = parts.slice(0, length).join('/');
+      try {
+        const { data } = await this.octokit.rest.repos.getCommit({ owner, repo, ref: candidate });
+        return {
+          commit: {
+            sha: data.sha,
+            message: data.commit.message.split('\n')[0],
+            committedAt: data.commit.committer?.date || data.commit.author?.date,
+            url: data.html_url,
+          },
+          ref: candidate,
+        };
+      } catch (error) {
+        // Unknown ref: try a shorter prefix, and report the full ref if none exists
+        const status = (error as { status?: number }).status;
+        if (length === 1 || (status !== 404 && status !== 422)) {
+          throw new Error(`Could not find branch or commit "${ref}" in ${owner}/${repo}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+      }
+    }
+
+    throw new Error(`Could not find branch or commit "${ref}" in ${owner}/${repo}`);
+  }
+
+  /**
+   * Fetch repository information at a commit using Git Tree API for complete structure.
+   * ref is a full commit SHA, or a branch or short SHA to resolve first; without it the
+   * head of the default branch is read. Cached by commit SHA, so a push after submitting
+   * can never change what a pinned submission is graded on.
+   */
+  async getRepositoryInfo(owner: string, repo: string, ref?: string): Promise<GitHubRepoInfo> {
+    const commitSha = ref && /^[0-9a-f]{40}$/i.test(ref)
+      ? ref.toLowerCase()
+      : (await this.resolveCommit(owner, repo, ref)).commit.sha;
+    const cacheKey = CacheKeys.github(owner, repo, commitSha);
 
     return withCache(cacheKey, async () => {
-      return this._fetchRepositoryInfo(owner, repo);
+      return this._fetchRepositoryInfo(owner, repo, commitSha);
     }, CacheTTL.GITHUB_REPO);
   }
 
   /**
-   * Internal method to fetch repository information (uncached)
+   * Internal method to fetch repository information at a commit (uncached)
    */
-  private async _fetchRepositoryInfo(owner: string, repo: string): Promise<GitHubRepoInfo> {
+  private async _fetchRepositoryInfo(owner: string, repo: string, sha: string): Promise<GitHubRepoInfo> {
     try {
-      // Get repository basic info
-      const { data: repoData } = await this.octokit.rest.repos.get({
-        owner,
-        repo,
-      });
+      // Get the commit, which also confirms the repository is accessible
+      const { commit } = await this.resolveCommit(owner, repo, sha);
 
-      // Get repository languages
+      // Get repository languages (GitHub only reports them for the default branch)
       const { data: languages } = await this.octokit.rest.repos.listLanguages({
         owner,
         repo,
@@ -139,15 +253,18 @@ export class GitHubService {
       const { data: tree } = await this.octokit.rest.git.getTree({
         owner,
         repo,
-        tree_sha: repoData.default_branch,
+        tree_sha: commit.sha,
         recursive: 'true'
       });
 
       // Process files from tree
-      const files = await this.processRepositoryTree(owner, repo, tree.tree);
+      const files = await this.processRepositoryTree(owner, repo, tree.tree, commit.sha);
 
       // Check for README
-      const readme = await this.getReadmeContent(owner, repo);
+      const readme = await this.getReadmeContent(owner, repo, commit.sha);
+
+      // Commit history up to the graded commit
+      const { commits, truncated: commitsTruncated } = await this.getCommitHistory(owner, repo, commit.sha);
 
       // Analyze repository structure
       const structure = this.buildTreeStructure(tree.tree);
@@ -159,7 +276,14 @@ export class GitHubService {
       return {
         owner,
         repo,
+        commit,
+        commits,
+        commitsTruncated,
         files,
+        paths: tree.tree
+          .filter(item => item.type === 'blob' && item.path)
+          .map(item => item.path!)
+          .slice(0, MAX_TREE_PATHS),
         readme,
         structure,
         languages,
@@ -180,7 +304,8 @@ export class GitHubService {
   private async processRepositoryTree(
     owner: string,
     repo: string,
-    tree: any[]
+    tree: any[],
+    ref: string
   ): Promise<GitHubFile[]> {
     const files: GitHubFile[] = [];
 
@@ -203,6 +328,9 @@ export class GitHubService {
           path === 'Cargo.toml' ||
           path === 'go.mod' ||
           path === 'pom.xml' ||
+          // Nested manifests and committed env files, for static analysis
+          (/(^|\/)(package\.json|requirements\.txt|go\.mod)$/.test(path) && !path.includes('node_modules/')) ||
+          /(^|\/)\.env(\.[\w-]+)?$/.test(path) ||
           path.endsWith('.md') ||
           path.endsWith('.js') ||
           path.endsWith('.ts') ||
@@ -230,7 +358,8 @@ export class GitHubService {
           const { data: fileData } = await this.octokit.rest.repos.getContent({
             owner,
             repo,
-            path: item.path!
+            path: item.path!,
+            ref
           })
 
           if ('content' in fileData && fileData.content) {
@@ -375,7 +504,7 @@ export class GitHubService {
   /**
    * Get README content
    */
-  private async getReadmeContent(owner: string, repo: string): Promise<string | undefined> {
+  private async getReadmeContent(owner: string, repo: string, ref: string): Promise<string | undefined> {
     const readmeFiles = ['README.md', 'README.txt', 'README.rst', 'README'];
     
     for (const filename of readmeFiles) {
@@ -384,6 +513,7 @@ export class GitHubService {
           owner,
           repo,
           path: filename,
+          ref,
         });
 
         if ('content' in data && data.content) {
@@ -398,6 +528,113 @@ export class GitHubService {
     return undefined;
   }
 
+  /**
+   * Get the commits leading up to a commit, newest first.
+   * History is a grading aid, so failures leave it empty rather than failing the fetch.
+   */
+  private async getCommitHistory(
+    owner: string,
+    repo: string,
+    sha: string
+  ): Promise<{ commits: GitHubCommitSummary[]; truncated: boolean }> {
+    const commits: GitHubCommitSummary[] = [];
+
+    try {
+      for (let page = 1; page <= MAX_HISTORY_PAGES; page++) {
+        const { data } = await this.octokit.rest.repos.listCommits({
+          owner,
+          repo,
+          sha,
+          per_page: 100,
+          page,
+        });
+
+        for (const item of data) {
+          commits.push({
+            sha: item.sha,
+            message: item.commit.message.split('\n')[0].trim(),
+            author: item.author?.login || item.commit.author?.name || 'unknown',
+            authoredAt: item.commit.author?.date || item.commit.committer?.date || '',
+            isMerge: item.parents.length > 1,
+          });
+        }
+
+        if (data.length < 100) {
+          return { commits, truncated: false };
+        }
+      }
+
+      return { commits, truncated: true };
+    } catch (error) {
+      console.warn(`Could not read commit history for ${owner}/${repo}:`, error);
+      return { commits, truncated: commits.length > 0 };
+    }
+  }
+
+  /**
+   * Summarize how the work was done: commit count and spread, message quality,
+   * contributors, and whether most commits landed just before the deadline.
+   * Without a deadline, the last commit stands in for it.
+   */
+  analyzeCommitHistory(repoInfo: GitHubRepoInfo, deadline?: Date | string | null): CommitHistoryStats {
+    const commits = (repoInfo.commits || []).filter(c => c.authoredAt);
+    const times = commits.map(c => new Date(c.authoredAt).getTime()).sort((a, b) => a - b);
+    const first = times[0];
+    const last = times[times.length - 1];
+    const deadlineTime = deadline ? new Date(deadline).getTime() : undefined;
+
+    // Contributors, most commits first
+    const byAuthor = new Map<string, number>();
+    commits.forEach(c => byAuthor.set(c.author, (byAuthor.get(c.author) || 0) + 1));
+    const contributors = Array.from(byAuthor.entries())
+      .map(([name, count]) => ({ name, commits: count }))
+      .sort((a, b) => b.commits - a.commits);
+
+    // Message quality; merge commits carry generated messages so they're counted apart
+    const authored = commits.filter(c => !c.isMerge);
+    const lowQuality = authored.filter(c => c.message.length < MIN_MESSAGE_LENGTH || LOW_QUALITY_MESSAGE.test(c.message));
+    const averageLength = authored.length > 0
+      ? Math.round(authored.reduce((sum, c) => sum + c.message.length, 0) / authored.length)
+      : 0;
+
+    // Work landing in the final window before the deadline
+    const reference = deadlineTime ?? last;
+    const beforeDeadline = deadlineTime !== undefined ? times.filter(t => t <= deadlineTime) : times;
+    const windowStart = reference - BURST_WINDOW_HOURS * 60 * 60 * 1000;
+    const inWindow = beforeDeadline.filter(t => t > windowStart).length;
+    const finalWindowShare = times.length > 0 ? inWindow / times.length : 0;
+    const lastBefore = beforeDeadline[beforeDeadline.length - 1];
+
+    return {
+      commitCount: commits.length,
+      historyTruncated: !!repoInfo.commitsTruncated,
+      firstCommitAt: first !== undefined ? new Date(first).toISOString() : null,
+      lastCommitAt: last !== undefined ? new Date(last).toISOString() : null,
+      spanDays: first !== undefined ? Math.round(((last - first) / (24 * 60 * 60 * 1000)) * 10) / 10 : 0,
+      activeDays: new Set(times.map(t => new Date(t).toISOString().slice(0, 10))).size,
+      contributors,
+      messages: {
+        meaningful: authored.length - lowQuality.length,
+        lowQuality: lowQuality.length,
+        merges: commits.length - authored.length,
+        averageLength,
+        lowQualityExamples: Array.from(new Set(lowQuality.map(c => c.message || '(empty)'))).slice(0, 5),
+      },
+      deadline: deadlineTime !== undefined ? new Date(deadlineTime).toISOString() : null,
+      lastCommitBeforeDeadline: deadlineTime !== undefined && lastBefore !== undefined ? new Date(lastBefore).toISOString() : null,
+      commitsAfterDeadline: times.length - beforeDeadline.length,
+      finalWindowShare: Math.round(finalWindowShare * 100) / 100,
+      burstBeforeDeadline: times.length >= BURST_MIN_COMMITS && finalWindowShare >= BURST_SHARE,
+    };
+  }
+
+  /**
+   * Run the offline static analysis over the fetched files
+   */
+  analyzeCode(repoInfo: GitHubRepoInfo): StaticAnalysisReport {
+    return analyzeRepository(repoInfo.files, repoInfo.paths || [], this.detectProjectType(repoInfo));
+  }
+
   /**
    * Detect project type based on files and languages
    */
@@ -673,7 +910,12 @@ export class GitHubService {
    * Optimized to stay within token limits (~4000 tokens max)
    * Now with adaptive file selection based on project type
    */
-  generateRepoSummary(repoInfo: GitHubRepoInfo, assignmentKeywords: string[] = []): string {
+  generateRepoSummary(
+    repoInfo: GitHubRepoInfo,
+    assignmentKeywords: string[] = [],
+    history?: CommitHistoryStats,
+    analysis?: StaticAnalysisReport
+  ): string {
     // Detect project type
     const projectType = this.detectProjectType(repoInfo)
 
@@ -687,10 +929,34 @@ export class GitHubService {
     summary += `- Total Files: ${repoInfo.fileCount}\n`
     summary += `- Files Analyzed: ${repoInfo.files.length}\n`
     summary += `- Has README: ${repoInfo.readme ? 'Yes' : 'No'}\n`
-    summary += `- Has Tests: ${repoInfo.hasTests ? 'Yes' : 'No'}\n`
+    summary += analysis
+      ? `- Has Tests: ${analysis.tests.testCases > 0 ? `Yes (${analysis.tests.testCases} test cases)` : repoInfo.hasTests ? 'Test files, but no test cases found' : 'No'}\n`
+      : `- Has Tests: ${repoInfo.hasTests ? 'Yes' : 'No'}\n`
     summary += `- Has Documentation: ${repoInfo.hasDocumentation ? 'Yes' : 'No'}\n`
     summary += `- Repository Size: ${(repoInfo.totalSize / 1024).toFixed(2)} KB\n\n`
 
+    // Evidence from static analysis, so the grade doesn't rest on impressions of the code
+    if (analysis) {
+      summary += formatStaticAnalysis(analysis)
+    }
+
+    // Development process from the commit history
+    if (history && history.commitCount > 0) {
+      summary += `## Development Process\n`
+      summary += `Dates are git author dates, which the student sets (e.g. \`git commit --date\`): treat them as claims about when work was done, not proof.\n`
+      summary += `- Commits: ${history.commitCount}${history.historyTruncated ? '+ (history truncated)' : ''}\n`
+      summary += `- Period: ${history.firstCommitAt?.slice(0, 10)} to ${history.lastCommitAt?.slice(0, 10)} (${history.spanDays} days, ${history.activeDays} active)\n`
+      summary += `- Contributors: ${history.contributors.map(c => `${c.name} (${c.commits})`).join(', ')}\n`
+      summary += `- Commit Messages: ${history.messages.meaningful} meaningful, ${history.messages.lowQuality} low quality, ${history.messages.merges} merges (average ${history.messages.averageLength} characters)\n`
+      if (history.messages.lowQualityExamples.length > 0) {
+        summary += `- Low Quality Examples: ${history.messages.lowQualityExamples.map(m => `"${m}"`).join(', ')}\n`
+      }
+      if (history.deadline) {
+        summary += `- Deadline: ${history.deadline.slice(0, 16).replace('T', ' ')} UTC, last commit dated before it ${history.lastCommitBeforeDeadline?.slice(0, 16).replace('T', ' ') || 'none'}, ${history.commitsAfterDeadline} dated after it\n`
+      }
+      summary += `- Commits dated in the final ${BURST_WINDOW_HOURS} hours${history.deadline ? ' before the deadline' : ''}: ${Math.round(history.finalWindowShare * 100)}%${history.burstBeforeDeadline ? ' (most work is dated at the last minute)' : ''}\n\n`
+    }
+
     // Languages
     const languageEntries = Object.entries(repoInfo.languages).sort((a, b) => b[1] - a[1]).slice(0, 5)
     if (languageEntries.length > 0) {
@@ -860,7 +1126,7 @@ export class GitHubService {
       throw new Error('Invalid GitHub URL');
     }
 
-    const repoInfo = await this.getRepositoryInfo(parsed.owner, parsed.repo);
+    const repoInfo = await this.getRepositoryInfo(parsed.owner, parsed.repo, parsed.ref);
     
     // Determine main language
     const languages = Object.entries(repoInfo.languages);
@@ -868,9 +1134,7 @@ export class GitHubService {
       ? languages.reduce((a, b) => a[1] > b[1] ? a : b)[0]
       : 'Unknown';
 
-    // Assess complexity based on file count and structure
-    const complexity = repoInfo.fileCount > 50 ? 'high' : 
-                      repoInfo.fileCount > 10 ? 'medium' : 'low';
+    const staticAnalysis = this.analyzeCode(repoInfo);
 
     // Check if structure is organized
     const hasProperStructure = repoInfo.structure.includes('/') && 
@@ -880,11 +1144,13 @@ export class GitHubService {
       repoInfo,
       codeQuality: {
         hasReadme: !!repoInfo.readme,
-        hasTests: repoInfo.hasTests,
+        hasTests: staticAnalysis.tests.testCases > 0,
         hasDocumentation: repoInfo.hasDocumentation,
         mainLanguage,
-        complexity,
+        complexity: staticAnalysis.complexity,
+        testCases: staticAnalysis.tests.testCases,
       },
+      staticAnalysis,
       structure: {
         organized: hasProperStructure,
         hasProperStructure,
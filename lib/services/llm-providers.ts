@@ -0,0 +1,575 @@
+import Groq from 'groq-sdk'
+import { createOpenAI } from '@ai-sdk/openai'
+import { createAnthropic } from '@ai-sdk/anthropic'
+import { createGoogleGenerativeAI } from '@ai-sdk/google'
+
+// Providers an assessment can be routed through
+export const LLM_PROVIDERS = ['groq', 'openai', 'anthropic', 'google', 'mock'] as const
+
+export type LLMProviderName = typeof LLM_PROVIDERS[number]
+
+// Groq model ids used by the built-in routing defaults
+export const LLM_MODELS = {
+  LLAMA_8B: 'llama-3.1-8b-instant',
+  LLAMA_70B: 'llama-3.3-70b-versatile',
+  LLAMA_4_SCOUT: 'meta-llama/llama-4-scout-17b-16e-instruct',
+} as const
+
+// Base64-encoded image sent alongside the prompt to a vision-capable model
+export interface LLMImageInput {
+  data: string
+  mediaType: string
+}
+
+// Provider-neutral completion request
+export interface LLMCompletionRequest {
+  model: string
+  system?: string
+  prompt: string
+  temperature?: number
+  maxTokens?: number
+  json?: boolean
+  images?: LLMImageInput[]
+}
+
+export interface LLMUsage {
+  promptTokens?: number
+  completionTokens?: number
+  totalTokens?: number
+}
+
+export interface LLMCompletionResponse {
+  content: string
+  model: string
+  provider: LLMProviderName
+  usage?: LLMUsage
+  truncated?: boolean // Generation stopped at maxTokens rather than finishing
+}
+
+// Provider-neutral embedding request; one vector comes back per text, in order
+export interface LLMEmbeddingRequest {
+  model: string
+  texts: string[]
+}
+
+export interface LLMEmbeddingResponse {
+  embeddings: number[][]
+  model: string
+  provider: LLMProviderName
+  usage?: LLMUsage
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName
+  readonly defaultModel: string
+  // Model used when a request carries images and the routed model cannot read them
+  readonly defaultVisionModel: string | null
+  // Text embedding model, or null when the provider has no embeddings API
+  readonly defaultEmbeddingModel: string | null
+  // Whether the credentials this provider needs are present
+  isConfigured(): boolean
+  // Models this provider knows how to serve
+  listModels(): string[]
+  // Ask the provider whether a model id is currently served to our credentials
+  isModelAvailable(model: string): Promise<boolean>
+  // Whether a model accepts image input
+  supportsImages(model: string): boolean
+  complete(request: LLMCompletionRequest): Promise<LLMCompletionResponse>
+  embed(request: LLMEmbeddingRequest): Promise<LLMEmbeddingResponse>
+}
+
+/**
+ * Groq chat completions (Llama family)
+ */
+class GroqProvider implements LLMProvider {
+  readonly name = 'groq' as const
+  readonly defaultModel: string = LLM_MODELS.LLAMA_8B
+  readonly defaultVisionModel: string = LLM_MODELS.LLAMA_4_SCOUT
+  readonly defaultEmbeddingModel = null
+  private client: Groq | null = null
+
+  isConfigured(): boolean {
+    return !!process.env.GROQ_API_KEY
+  }
+
+  listModels(): string[] {
+    return Object.values(LLM_MODELS)
+  }
+
+  supportsImages(model: string): boolean {
+    return model.includes('llama-4')
+  }
+
+  async isModelAvailable(model: string): Promise<boolean> {
+    try {
+      const { data } = await this.getClient().models.list()
+      return data.some(entry => entry.id === model)
+    } catch (error) {
+      console.warn(`Could not list Groq models:`, error)
+      return false
+    }
+  }
+
+  // Created lazily so importing this module never requires the key
+  private getClient(): Groq {
+    if (!this.client) {
+      if (!this.isConfigured()) {
+        throw new Error('GROQ_API_KEY environment variable is not set')
+      }
+      this.client = new Groq({ apiKey: process.env.GROQ_API_KEY })
+    }
+    return this.client
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResponse> {
+    const messages: Groq.Chat.ChatCompletionMessageParam[] = []
+    if (request.system) {
+      messages.push({ role: 'system', content: request.system })
+    }
+    if (request.images?.length) {
+      messages.push({
+        role: 'user',
+        content: [
+          { type: 'text', text: request.prompt },
+          ...request.images.map(image => ({
+            type: 'image_url' as const,
+            image_url: { url: `data:${image.mediaType};base64,${image.data}` },
+          })),
+        ],
+      })
+    } else {
+      messages.push({ role: 'user', content: request.prompt })
+    }
+
+    const completion = await this.getClient().chat.completions.create({
+      messages,
+      model: request.model,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      response_format: request.json ? { type: 'json_object' } : undefined,
+    })
+
+    return {
+      content: completion.choices[0]?.message?.content || '',
+      model: completion.model || request.model,
+      provider: this.name,
+      usage: {
+        promptTokens: completion.usage?.prompt_tokens,
+        completionTokens: completion.usage?.completion_tokens,
+        totalTokens: completion.usage?.total_tokens,
+      },
+      truncated: completion.choices[0]?.finish_reason === 'length',
+    }
+  }
+
+  async embed(): Promise<LLMEmbeddingResponse> {
+    throw new Error('Groq does not offer text embeddings')
+  }
+}
+
+// Every @ai-sdk provider returns the same language and embedding model specs
+type AISDKLanguageModel = ReturnType<ReturnType<typeof createOpenAI>['chat']>
+type AISDKEmbeddingModel = ReturnType<ReturnType<typeof createOpenAI>['textEmbedding']>
+
+// Texts sent per embedding call; below every provider's limit
+const EMBEDDING_BATCH_SIZE = 64
+
+/**
+ * Shared implementation for providers exposed through the AI SDK model spec
+ */
+abstract class AISDKProvider implements LLMProvider {
+  abstract readonly name: LLMProviderName
+  abstract readonly defaultModel: string
+  abstract readonly defaultVisionModel: string | null
+  readonly defaultEmbeddingModel: string | null = null
+  protected abstract readonly apiKeyEnv: string
+
+  abstract listModels(): string[]
+  abstract supportsImages(model: string): boolean
+  protected abstract getModel(model: string): AISDKLanguageModel
+  // Only providers with an embeddings API implement this
+  protected getEmbeddingModel?(model: string): AISDKEmbeddingModel
+  // Provider REST request that succeeds only if the model exists
+  protected abstract modelLookup(model: string, apiKey: string): { url: string; headers: Record<string, string> }
+
+  isConfigured(): boolean {
+    return !!process.env[this.apiKeyEnv]
+  }
+
+  async isModelAvailable(model: string): Promise<boolean> {
+    const apiKey = process.env[this.apiKeyEnv]
+    if (!apiKey) return false
+
+    try {
+      const { url, headers } = this.modelLookup(model, apiKey)
+      const response = await fetch(url, { headers })
+      return response.ok
+    } catch (error) {
+      console.warn(`Could not check ${this.name} model ${model}:`, error)
+      return false
+    }
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResponse> {
+    if (!this.isConfigured()) {
+      throw new Error(`${this.apiKeyEnv} environment variable is not set`)
+    }
+
+    const result = await this.getModel(request.model).doGenerate({
+      prompt: [
+        ...(request.system ? [{ role: 'system' as const, content: request.system }] : []),
+        {
+          role: 'user' as const,
+          content: [
+            { type: 'text' as const, text: request.prompt },
+            ...(request.images ?? []).map(image => ({
+              type: 'file' as const,
+              data: image.data,
+              mediaType: image.mediaType,
+            })),
+          ],
+        },
+      ],
+      temperature: request.temperature,
+      maxOutputTokens: request.maxTokens,
+      responseFormat: request.json ? { type: 'json' } : undefined,
+    })
+
+    const content = result.content
+      .map(part => (part.type === 'text' ? part.text : ''))
+      .join('')
+
+    return {
+      content,
+      model: result.response?.modelId || request.model,
+      provider: this.name,
+      usage: {
+        promptTokens: result.usage.inputTokens,
+        completionTokens: result.usage.outputTokens,
+        totalTokens: result.usage.totalTokens,
+      },
+      truncated: result.finishReason === 'length',
+    }
+  }
+
+  async embed(request: LLMEmbeddingRequest): Promise<LLMEmbeddingResponse> {
+    if (!this.isConfigured()) {
+      throw new Error(`${this.apiKeyEnv} environment variable is not set`)
+    }
+    const model = this.getEmbeddingModel?.(request.model)
+    if (!model) {
+      throw new Error(`${this.name} does not offer text embeddings`)
+    }
+
+    const embeddings: number[][] = []
+    let tokens = 0
+    for (let i = 0; i < request.texts.length; i += EMBEDDING_BATCH_SIZE) {
+      const result = await model.doEmbed({ values: request.texts.slice(i, i + EMBEDDING_BATCH_SIZE) })
+      embeddings.push(...result.embeddings)
+      tokens += result.usage?.tokens ?? 0
+    }
+
+    return {
+      embeddings,
+      model: request.model,
+      provider: this.name,
+      usage: { promptTokens: tokens, totalTokens: tokens },
+    }
+  }
+}
+
+class OpenAIProvider extends AISDKProvider {
+  readonly name = 'openai' as const
+  readonly defaultModel = 'gpt-4o-mini'
+  readonly defaultVisionModel = 'gpt-4o-mini'
+  readonly defaultEmbeddingModel = 'text-embedding-3-small'
+  protected readonly apiKeyEnv = 'OPENAI_API_KEY'
+
+  listModels(): string[] {
+    return ['gpt-4o-mini', 'gpt-4o', 'gpt-4.1-mini', 'gpt-4.1']
+  }
+
+  supportsImages(model: string): boolean {
+    return /^gpt-4(o|\.1)/.test(model)
+  }
+
+  protected getModel(model: string) {
+    return createOpenAI({ apiKey: process.env.OPENAI_API_KEY }).chat(model)
+  }
+
+  protected getEmbeddingModel(model: string) {
+    return createOpenAI({ apiKey: process.env.OPENAI_API_KEY }).textEmbedding(model)
+  }
+
+  protected modelLookup(model: string, apiKey: string) {
+    return {
+      url: `https://api.openai.com/v1/models/${encodeURIComponent(model)}`,
+      headers: { Authorization: `Bearer ${apiKey}` },
+    }
+  }
+}
+
+class AnthropicProvider extends AISDKProvider {
+  readonly name = 'anthropic' as const
+  readonly defaultModel = 'claude-3-5-haiku-latest'
+  readonly defaultVisionModel = 'claude-3-7-sonnet-latest'
+  protected readonly apiKeyEnv = 'ANTHROPIC_API_KEY'
+
+  listModels(): string[] {
+    return ['claude-3-5-haiku-latest', 'claude-3-7-sonnet-latest', 'claude-sonnet-4-0']
+  }
+
+  // 3.5 Haiku is text-only; the Sonnet models read images
+  supportsImages(model: string): boolean {
+    return model.includes('sonnet')
+  }
+
+  protected getModel(model: string) {
+    return createAnthropic({ apiKey: process.env.ANTHROPIC_API_KEY })(model)
+  }
+
+  protected modelLookup(model: string, apiKey: string) {
+    return {
+      url: `https://api.anthropic.com/v1/models/${encodeURIComponent(model)}`,
+      headers: { 'x-api-key': apiKey, 'anthropic-version': '2023-06-01' },
+    }
+  }
+}
+
+class GoogleProvider extends AISDKProvider {
+  readonly name = 'google' as const
+  readonly defaultModel = 'gemini-2.0-flash'
+  readonly defaultVisionModel = 'gemini-2.0-flash'
+  readonly defaultEmbeddingModel = 'text-embedding-004'
+  protected readonly apiKeyEnv = 'GOOGLE_GENERATIVE_AI_API_KEY'
+
+  listModels(): string[] {
+    return ['gemini-2.0-flash', 'gemini-2.5-flash', 'gemini-2.5-pro']
+  }
+
+  supportsImages(): boolean {
+    return true
+  }
+
+  protected getModel(model: string) {
+    return createGoogleGenerativeAI({ apiKey: process.env.GOOGLE_GENERATIVE_AI_API_KEY })(model)
+  }
+
+  protected getEmbeddingModel(model: string) {
+    return createGoogleGenerativeAI({ apiKey: process.env.GOOGLE_GENERATIVE_AI_API_KEY }).textEmbedding(model)
+  }
+
+  protected modelLookup(model: string, apiKey: string) {
+    return {
+      url: `https://generativelanguage.googleapis.com/v1beta/models/${encodeURIComponent(model)}`,
+      headers: { 'x-goog-api-key': apiKey },
+    }
+  }
+}
+
+export type MockResponder = (request: LLMCompletionRequest) => string
+
+/**
+ * Deterministic offline provider for tests and demos.
+ * The same prompt always produces the same assessment.
+ */
+export class MockLLMProvider implements LLMProvider {
+  readonly name = 'mock' as const
+  readonly defaultModel = 'mock-assessor'
+  readonly defaultVisionModel = 'mock-assessor'
+  readonly defaultEmbeddingModel = 'mock-embedding'
+
+  constructor(private readonly responder: MockResponder = defaultMockResponse) {}
+
+  isConfigured(): boolean {
+    return true
+  }
+
+  listModels(): string[] {
+    return [this.defaultModel]
+  }
+
+  async isModelAvailable(model: string): Promise<boolean> {
+    return this.listModels().includes(model)
+  }
+
+  supportsImages(): boolean {
+    return true
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResponse> {
+    const response = this.responder(request)
+    // Cut off at maxTokens like a real model, counting four characters per token
+    const truncated = request.maxTokens != null && response.length > request.maxTokens * 4
+    const content = truncated ? response.slice(0, request.maxTokens! * 4) : response
+    const promptTokens = Math.ceil(((request.system?.length || 0) + request.prompt.length) / 4)
+    const completionTokens = Math.ceil(content.length / 4)
+
+    return {
+      content,
+      model: this.defaultModel,
+      provider: this.name,
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+      truncated,
+    }
+  }
+
+  // Hashed bag of words: texts sharing words get similar vectors
+  async embed(request: LLMEmbeddingRequest): Promise<LLMEmbeddingResponse> {
+    const embeddings = request.texts.map(text => {
+      const vector = new Array<number>(MOCK_EMBEDDING_DIMENSIONS).fill(0)
+      for (const word of text.toLowerCase().match(/[a-z0-9]{3,}/g) ?? []) {
+        vector[hashString(word) % MOCK_EMBEDDING_DIMENSIONS] += 1
+      }
+      const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1
+      return vector.map(value => value / norm)
+    })
+    const tokens = Math.ceil(request.texts.join('').length / 4)
+
+    return {
+      embeddings,
+      model: 'mock-embedding',
+      provider: this.name,
+      usage: { promptTokens: tokens, totalTokens: tokens },
+    }
+  }
+}
+
+const MOCK_EMBEDDING_DIMENSIONS = 256
+
+// Stable 32-bit hash so mock verdicts don't change between runs
+function hashString(text: string): number {
+  let hash = 0
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) - hash) + text.charCodeAt(i)
+    hash = hash & hash
+  }
+  return Math.abs(hash)
+}
+
+// Pull a numbered list that follows a heading out of an assessment prompt
+function extractNumberedSection(prompt: string, heading: string, keepNumbers = false): string[] {
+  const start = prompt.indexOf(heading)
+  if (start === -1) return []
+
+  const lines = prompt.slice(start + heading.length).split('\n').slice(1)
+  const items: string[] = []
+  for (const line of lines) {
+    // Indented lines are rubric level descriptors belonging to the previous item
+    if (/^\s+\S/.test(line)) continue
+    const match = line.match(/^\d+\.\s+(.*)$/)
+    if (!match) break
+    items.push(keepNumbers ? line.trim() : match[1].trim())
+  }
+  return items
+}
+
+// Rubric items render as "3. Title (10 points) - description"; keep the number and title
+function extractRubricItems(prompt: string, heading: string): { index: number; title: string }[] {
+  return extractNumberedSection(prompt, heading, true).map(item => {
+    const match = item.match(/^(\d+)\.\s+(.*?)(\s+\([+-]?\d+ points\).*)?$/)
+    return { index: parseInt(match?.[1] ?? '0', 10), title: match?.[2] ?? item }
+  })
+}
+
+function defaultMockResponse(request: LLMCompletionRequest): string {
+  const remarks = ['Excellent', 'Good', 'Can Improve', 'Needs Improvement'] as const
+  const hash = hashString(request.prompt)
+  const remark = remarks[hash % remarks.length]
+  const baseScore = [90, 78, 62, 40][hash % remarks.length]
+  const rubricCriteria = extractRubricItems(request.prompt, '**SCORING RUBRIC')
+  const rubricFlags = [
+    ...extractRubricItems(request.prompt, '**RED FLAGS (deduct'),
+    ...extractRubricItems(request.prompt, '**BONUS CRITERIA'),
+  ]
+  const criteria = rubricCriteria.length > 0
+    ? rubricCriteria.map(item => item.title)
+    : extractNumberedSection(request.prompt, '**ASSESSMENT CRITERIA')
+  const metCount = Math.round(criteria.length * (baseScore / 100))
+  const rubricMet = remark === 'Excellent' || remark === 'Good'
+  const metCriteria = rubricCriteria.length > 0
+    ? (rubricMet ? rubricCriteria.map(item => item.title) : [])
+    : criteria.slice(0, metCount)
+
+  return JSON.stringify({
+    remark,
+    feedback: `Mock assessment: the submission was rated "${remark}".`,
+    detailedFeedback: {
+      summary: `This is a deterministic mock assessment used for offline testing. The submission was rated "${remark}".`,
+      strengths: ['Submission was received and parsed successfully'],
+      weaknesses: remark === 'Excellent' ? [] : ['Mock provider does not analyse content in depth'],
+      recommendations: ['Configure a real LLM provider for substantive feedback'],
+    },
+    scoreBreakdown: {
+      contentQuality: baseScore,
+      completeness: baseScore,
+      technicalAccuracy: baseScore,
+      structure: baseScore,
+    },
+    criteria_met: criteria.slice(0, metCount),
+    areas_for_improvement: criteria.slice(metCount),
+    ...(rubricCriteria.length > 0 && {
+      criterion_scores: [
+        ...rubricCriteria.map(({ index, title }) => ({
+          index,
+          criterion: title,
+          status: rubricMet ? 'met' : remark === 'Can Improve' ? 'partial' : 'not_met',
+          level: remark,
+          evidence: '',
+          justification: `Mock assessment rated this criterion "${remark}".`,
+        })),
+        ...rubricFlags.map(({ index, title }) => ({
+          index,
+          criterion: title,
+          status: 'not_met',
+          evidence: '',
+          justification: 'Mock assessment does not check red flags or bonuses.',
+        })),
+      ],
+    }),
+    ...(request.images?.length && {
+      visual_evidence: metCriteria.map(criterion => ({
+        criterion,
+        elements: ['Mock assessment does not look at the attached image'],
+      })),
+    }),
+    confidence: 0.8,
+  })
+}
+
+const providers: Record<LLMProviderName, LLMProvider> = {
+  groq: new GroqProvider(),
+  openai: new OpenAIProvider(),
+  anthropic: new AnthropicProvider(),
+  google: new GoogleProvider(),
+  mock: new MockLLMProvider(),
+}
+
+export function isLLMProviderName(value: unknown): value is LLMProviderName {
+  return typeof value === 'string' && (LLM_PROVIDERS as readonly string[]).includes(value)
+}
+
+/**
+ * Deployment-wide default provider, from LLM_PROVIDER (falls back to groq)
+ */
+export function getDefaultProviderName(): LLMProviderName {
+  const configured = process.env.LLM_PROVIDER?.toLowerCase()
+  return isLLMProviderName(configured) ? configured : 'groq'
+}
+
+/**
+ * Resolve a provider by name. A course override wins over the deployment default.
+ */
+export function getLLMProvider(name?: string | null): LLMProvider {
+  if (name && isLLMProviderName(name)) {
+    return providers[name]
+  }
+  return providers[getDefaultProviderName()]
+}
+
+/**
+ * Swap in a provider implementation, e.g. a scripted mock inside tests
+ */
+export function registerLLMProvider(provider: LLMProvider): void {
+  providers[provider.name] = provider
+}
@@ -1,29 +1,46 @@
-import Groq from 'groq-sdk'
+import { randomUUID } from 'crypto'
+import { z } from 'zod'
+import { withTimeout } from '../utils/error-handling'
+import { resolveModelRoute } from './model-routing-service'
+import { getLLMProvider, getDefaultProviderName, LLM_PROVIDERS, LLMProvider, LLMCompletionResponse, LLMImageInput } from './llm-providers'
+import { recordAssessmentRun } from './assessment-run-service'
+import { aggregateConsensus, consensusTargets, type ConsensusConfig } from './consensus-service'
+import type { StructuralCheckResult } from './document-structure-service'
+import { formatExemplarComparison, type ExemplarComparison } from './similarity-service'
+import {
+  buildPromptVariables,
+  defaultPromptTemplate,
+  promptTemplateLabel,
+  renderPromptTemplate,
+  resolvePromptTemplate,
+  type ResolvedPromptTemplate,
+} from './prompt-template-service'
+import {
+  CRITERION_STATUSES,
+  RUBRIC_LEVELS,
+  remarkFromPercentage,
+  rubricMaxPoints,
+  statusFromLevel,
+  type RubricCriterionInput,
+} from '@/lib/types/rubric'
 // import { SubmissionType } from '@prisma/client'
 
 // Define our own SubmissionType
 type SubmissionType = 'TEXT' | 'DOCUMENT' | 'GITHUB_REPO' | 'SCREENSHOT' | 'WEBSITE'
 
-// Initialize Groq client
-const groq = new Groq({
-  apiKey: process.env.GROQ_API_KEY!,
-})
+const ASSESSOR_SYSTEM_PROMPT = "You are an expert educational assessor. Always respond with valid JSON in the exact format requested."
 
-// Add debug logging for API key
-if (!process.env.GROQ_API_KEY) {
-  console.error('❌ GROQ_API_KEY environment variable is not set!');
-} else {
-  console.log('✅ GROQ_API_KEY is configured');
-}
+const ASSESSMENT_TEMPERATURE = 0.3 // Lower temperature for more consistent assessments
 
-// LLM Model Configuration - Updated with current Groq models
-export const LLM_MODELS = {
-  LLAMA_8B: 'llama-3.1-8b-instant',
-  LLAMA_70B: 'llama-3.1-70b-versatile', 
-  MIXTRAL: 'mixtral-8x7b-32768',
-} as const
+// Output budget for one assessment response. The base covers the feedback fields; every
+// rubric entry (evidence and justification) and every image's visual evidence adds to it.
+const ASSESSMENT_BASE_MAX_TOKENS = 2000
+const MAX_TOKENS_PER_RUBRIC_ITEM = 250
+const MAX_TOKENS_PER_IMAGE = 250
+const ASSESSMENT_MAX_TOKENS_LIMIT = 8000 // Within the output limit of every routed model
 
-type LLMModel = typeof LLM_MODELS[keyof typeof LLM_MODELS]
+// Groq model ids now live with the provider layer
+export { LLM_MODELS } from './llm-providers'
 
 // Assessment complexity levels
 export enum AssessmentComplexity {
@@ -32,28 +49,108 @@ export enum AssessmentComplexity {
   COMPLEX = 'complex'
 }
 
-// Assessment result structure
-export interface AssessmentResult {
-  remark: 'Excellent' | 'Good' | 'Can Improve' | 'Needs Improvement'
-  feedback: string // Keep for backward compatibility
-  detailedFeedback: {
-    summary: string // Comprehensive overview (4-6 sentences)
-    strengths: string[] // Specific strengths with examples
-    weaknesses: string[] // Specific weaknesses with examples
-    recommendations: string[] // Actionable next steps
-    comparisonToExample?: string // How it compares to perfect example
+// How many times a response that fails validation is sent back to the model for repair
+const MAX_RESPONSE_REPAIR_ATTEMPTS = 2
+
+const percentageScore = z.number().min(0).max(100)
+
+// Score the model gave one rubric criterion
+const criterionScoreSchema = z.object({
+  index: z.number().int().positive(), // 1-based position in the rubric, as numbered in the prompt
+  criterionId: z.string().optional(),
+  criterion: z.string(),
+  kind: z.enum(['CRITERION', 'RED_FLAG', 'BONUS']),
+  status: z.enum(CRITERION_STATUSES), // For RED_FLAG / BONUS, "met" means the item applies
+  level: z.enum(RUBRIC_LEVELS).optional(), // CRITERION only
+  points: z.number(), // Negative for a triggered red flag
+  max_points: z.number(),
+  evidence: z.string(), // Quote from the submission
+  justification: z.string(),
+})
+
+// Visible elements of an attached image that satisfied a criterion
+const visualEvidenceSchema = z.object({
+  criterion: z.string(),
+  elements: z.array(z.string()),
+})
+
+// What the model must return. criterion_scores is checked against the rubric separately.
+const assessmentResponseSchema = z.object({
+  remark: z.enum(RUBRIC_LEVELS),
+  feedback: z.string().trim().min(1), // Keep for backward compatibility
+  detailedFeedback: z.object({
+    summary: z.string().trim().min(1), // Comprehensive overview (4-6 sentences)
+    strengths: z.array(z.string()), // Specific strengths with examples
+    weaknesses: z.array(z.string()), // Specific weaknesses with examples
+    recommendations: z.array(z.string()), // Actionable next steps
+    comparisonToExample: z.string().nullish(), // How it compares to perfect example
+  }),
+  scoreBreakdown: z.object({
+    contentQuality: percentageScore,
+    completeness: percentageScore,
+    technicalAccuracy: percentageScore,
+    structure: percentageScore,
+  }),
+  criteria_met: z.array(z.string()),
+  areas_for_improvement: z.array(z.string()),
+  criterion_scores: z.array(z.unknown()).optional(),
+  visual_evidence: z.array(visualEvidenceSchema).optional(), // Requested when images are attached
+  confidence: z.number().min(0).max(1),
+})
+
+// How the runs of a consensus assessment agreed
+const consensusSchema = z.object({
+  requestedRuns: z.number().int(),
+  runs: z.number().int(), // Runs that produced a valid result
+  models: z.array(z.string()),
+  remarks: z.array(z.enum(RUBRIC_LEVELS)),
+  agreement: z.number().min(0).max(1), // Share of runs agreeing, averaged over the remark and every criterion
+  criteria: z.array(z.object({
+    index: z.number().int(),
+    criterion: z.string(),
+    agreement: z.number().min(0).max(1),
+  })),
+})
+
+// Assessment result structure, as stored on the submission
+export const assessmentResultSchema = assessmentResponseSchema.extend({
+  criterion_scores: z.array(criterionScoreSchema).optional(), // Present when the question has a rubric
+  total_points: z.number().optional(),
+  max_points: z.number().optional(),
+  consensus: consensusSchema.optional(), // Present when graded by several runs
+  prompt_template: z.object({
+    id: z.string().nullable(), // null for a built-in template
+    name: z.string(),
+    version: z.number().int(),
+  }).optional(),
+  processing_time_ms: z.number(),
+  model_used: z.string(),
+})
+
+// Type aliases rather than interfaces so results stay assignable to Prisma JSON
+export type CriterionScore = z.infer<typeof criterionScoreSchema>
+export type AssessmentResult = z.infer<typeof assessmentResultSchema>
+type AssessmentResponse = z.infer<typeof assessmentResponseSchema>
+
+/**
+ * Thrown when the model stops at the output token limit. A cut-off response is not sent
+ * back for repair: asking again with the same limit would only cut it off again.
+ */
+export class AssessmentTruncatedError extends Error {
+  constructor(public readonly maxTokens: number) {
+    super(`AI assessment response was cut off at the output token limit (${maxTokens} tokens)`)
+    this.name = 'AssessmentTruncatedError'
   }
-  scoreBreakdown: {
-    contentQuality: number // 0-100
-    completeness: number // 0-100
-    technicalAccuracy: number // 0-100
-    structure: number // 0-100
+}
+
+/**
+ * Thrown when the model still returns an unusable assessment after the repair attempts
+ */
+export class AssessmentValidationError extends Error {
+  constructor(public readonly problems: string[], attempts: number) {
+    super(`AI assessment response failed validation after ${attempts} attempts: ${problems.join('; ')}`)
+    this.name = 'AssessmentValidationError'
   }
-  criteria_met: string[]
-  areas_for_improvement: string[]
-  confidence: number
-  processing_time_ms: number
-  model_used: string
 }
 
 // Assessment request structure
@@ -66,114 +163,271 @@ export interface AssessmentRequest {
   criteria: string[]
   redFlags: string[]
   conditionalChecks: string[]
+  rubric?: RubricCriterionInput[] // Structured rubric; replaces the three arrays above when present
+  submissionDetails?: string // Extra facts for the prompt template, e.g. document metadata
   baseExampleContent?: string
   baseExampleMetadata?: any
+  baseExampleDescription?: string
+  provider?: string | null // Course-level override; falls back to LLM_PROVIDER
+  ignoreRoutingRules?: boolean // Grade with exactly this provider, whatever the stored routing rules say
+  courseId?: string // Scopes model routing rules
+  questionId?: string
+  submissionId?: string // Audit records are only kept for calls tied to a submission
+  consensus?: ConsensusConfig // Grade with several runs and aggregate them
+  images?: LLMImageInput[] // Shown to a vision-capable model, e.g. the screenshot itself
+  structuralChecks?: StructuralCheckResult[] // Criteria already verified against the parsed document
+  exemplarComparison?: ExemplarComparison | null // Section alignment with the base example
 }
 
-// LLM routing logic based on submission type and complexity
-export function selectLLMModel(submissionType: SubmissionType, contentLength: number, hasBaseExample: boolean): LLMModel {
-  // Simple content (< 500 chars) - use Llama 8B
-  if (contentLength < 500 && submissionType === 'TEXT') {
-    return LLM_MODELS.LLAMA_8B
-  }
+// Rubric rendered as numbered criteria with their level descriptors
+function buildRubricSection(rubric: RubricCriterionInput[]): string {
+  // Number items by their position in the whole rubric so each index is unique
+  const numbered = rubric.map((criterion, i) => ({ criterion, index: i + 1 }))
+  const scored = numbered.filter(({ criterion }) => criterion.kind === 'CRITERION')
+  const redFlags = numbered.filter(({ criterion }) => criterion.kind === 'RED_FLAG')
+  const bonuses = numbered.filter(({ criterion }) => criterion.kind === 'BONUS')
+  const describe = (c: RubricCriterionInput) => (c.description ? ` - ${c.description}` : '')
+
+  let section = `
 
-  // Complex submissions always use Llama 70B
-  if (submissionType === 'GITHUB_REPO' || 
-      submissionType === 'WEBSITE' ||
-      contentLength > 5000 ||
-      hasBaseExample) {
-    return LLM_MODELS.LLAMA_70B
+**SCORING RUBRIC (score every criterion below):**
+${scored.map(({ criterion: c, index }) => `${index}. ${c.title} (${c.points} points)${describe(c)}
+${c.levels.map(level => `   - ${level.label} (${level.points} pts): ${level.descriptor}`).join('\n')}`).join('\n')}
+`
+
+  if (redFlags.length > 0) {
+    section += `
+
+**RED FLAGS (deduct the listed points when present):**
+${redFlags.map(({ criterion: c, index }) => `${index}. ${c.title} (-${c.points} points)${describe(c)}`).join('\n')}
+`
   }
 
-  // Medium complexity - documents, screenshots
-  if (submissionType === 'DOCUMENT' || 
-      submissionType === 'SCREENSHOT' ||
-      contentLength > 1000) {
-    return LLM_MODELS.MIXTRAL
+  if (bonuses.length > 0) {
+    section += `
+
+**BONUS CRITERIA (extra credit when met):**
+${bonuses.map(({ criterion: c, index }) => `${index}. ${c.title} (+${c.points} points)${describe(c)}`).join('\n')}
+`
   }
 
-  // Default to Llama 8B for simple cases
-  return LLM_MODELS.LLAMA_8B
+  section += `
+
+**RUBRIC SCORING INSTRUCTIONS:**
+- Return exactly one "criterion_scores" entry for each of the ${rubric.length} numbered items above, using its number as "index" and its exact title as "criterion"
+- Do not add entries for anything that is not in the rubric
+- For scored criteria, choose exactly one level using the descriptors above and set "status" to "met" (Excellent/Good), "partial" (Can Improve) or "not_met" (Needs Improvement)
+- For red flags and bonus criteria, set "status" to "met" if the item applies, otherwise "not_met"
+- Quote the passage of the submission that supports each score in "evidence" (empty string if there is none)
+- When images are attached, "evidence" describes the visible element instead of quoting text
+- Only include criteria scored "Excellent" or "Good" in the "criteria_met" array
+`
+
+  return section
 }
 
-// Enhanced assessment prompt builder with better comparison logic
-export function buildAssessmentPrompt(request: AssessmentRequest): string {
-  const {
-    submissionContent,
-    submissionType,
-    questionTitle,
-    questionDescription,
-    assessmentPrompt,
-    criteria,
-    redFlags,
-    conditionalChecks,
-    baseExampleContent,
-    baseExampleMetadata
-  } = request
+// Extra response fields requested when the question has a rubric
+const RUBRIC_RESPONSE_FORMAT = `
+  "criterion_scores": [
+    {
+      "index": 1,
+      "criterion": "Exact criterion, red flag or bonus title from the rubric",
+      "status": "met|partial|not_met",
+      "level": "Excellent|Good|Can Improve|Needs Improvement (scored criteria only)",
+      "evidence": "Short verbatim quote from the submission",
+      "justification": "Why this level or status was chosen"
+    }
+  ],`
+
+/**
+ * Check the model's criterion scores against the rubric. Every rubric item must be
+ * scored exactly once; entries for anything else are rejected so the caller can retry.
+ * Rubric points are authoritative: the model picks a level, the rubric decides what it is worth.
+ */
+export function validateCriterionScores(
+  raw: unknown,
+  rubric: RubricCriterionInput[]
+): { scores: CriterionScore[]; problems: string[] } {
+  const problems: string[] = []
+  const matched = new Map<number, any>()
+  const normalizeTitle = (title: string) => title.trim().toLowerCase()
+
+  if (!Array.isArray(raw)) {
+    return { scores: [], problems: ['"criterion_scores" must be an array with one entry per rubric item'] }
+  }
+
+  for (const entry of raw) {
+    const title = typeof entry?.criterion === 'string' ? entry.criterion : ''
+    const index = typeof entry?.index === 'number'
+      ? entry.index
+      : rubric.findIndex(c => normalizeTitle(c.title) === normalizeTitle(title)) + 1
+    const criterion = rubric[index - 1]
 
-  // Enhanced context understanding based on submission type
-  const getSubmissionTypeContext = (type: SubmissionType) => {
-    const contexts = {
-      TEXT: "This is a text-based response. Focus on content quality, structure, clarity, and completeness.",
-      DOCUMENT: "This is a document submission. Evaluate formatting, organization, completeness, and professional presentation.",
-      GITHUB_REPO: "This is a GitHub repository. Assess code quality, documentation, project structure, and functionality.",
-      WEBSITE: "This is a website URL. Evaluate functionality, design, user experience, and technical implementation.",
-      SCREENSHOT: "This is a visual submission. Assess clarity, completeness, and whether it demonstrates the required elements."
+    if (!Number.isInteger(index) || !criterion) {
+      problems.push(`"${title || `index ${entry?.index}`}" is not in the rubric`)
+      continue
     }
-    return contexts[type] || contexts.TEXT
+    if (title && normalizeTitle(title) !== normalizeTitle(criterion.title)) {
+      problems.push(`Entry ${index} is titled "${title}" but rubric item ${index} is "${criterion.title}"`)
+      continue
+    }
+    if (matched.has(index)) {
+      problems.push(`Rubric item ${index} ("${criterion.title}") was scored more than once`)
+      continue
+    }
+    matched.set(index, entry)
   }
 
-  let prompt = `You are an expert educational assessor. Please evaluate the following student submission.
+  const scores = rubric.flatMap((criterion, i): CriterionScore[] => {
+    const index = i + 1
+    const entry = matched.get(index)
+    if (!entry) {
+      problems.push(`Rubric item ${index} ("${criterion.title}") was not scored`)
+      return []
+    }
 
-**ASSESSMENT CONTEXT:**
-Title: ${questionTitle}
-Description: ${questionDescription}
-Submission Type: ${submissionType}
+    const evidence = sanitizeForDatabase(typeof entry.evidence === 'string' ? entry.evidence : '').slice(0, 1000)
+    const justification = sanitizeForDatabase(typeof entry.justification === 'string' ? entry.justification : '')
+    const status = CRITERION_STATUSES.find(value => value === entry.status)
 
-**STUDENT SUBMISSION:**
-${submissionContent}
-`
+    if (criterion.kind === 'CRITERION') {
+      const level = RUBRIC_LEVELS.find(label => label === entry.level)
+      if (!level) {
+        problems.push(`Rubric item ${index} ("${criterion.title}") needs a level of ${RUBRIC_LEVELS.join(', ')}`)
+        return []
+      }
+      return [{
+        index,
+        criterionId: criterion.id,
+        criterion: criterion.title,
+        kind: criterion.kind,
+        // The level decides the points, so it also decides the status
+        status: statusFromLevel(level),
+        level,
+        points: criterion.levels.find(l => l.label === level)?.points ?? 0,
+        max_points: criterion.points,
+        evidence,
+        justification,
+      }]
+    }
 
-  // Enhanced base example comparison with detailed analysis
-  if (baseExampleContent) {
-    prompt += `
+    if (status !== 'met' && status !== 'not_met') {
+      problems.push(`Rubric item ${index} ("${criterion.title}") needs a status of "met" or "not_met"`)
+      return []
+    }
+    const applies = status === 'met'
+    return [{
+      index,
+      criterionId: criterion.id,
+      criterion: criterion.title,
+      kind: criterion.kind,
+      status,
+      points: applies ? (criterion.kind === 'RED_FLAG' ? -criterion.points : criterion.points) : 0,
+      max_points: criterion.kind === 'RED_FLAG' ? 0 : criterion.points,
+      evidence,
+      justification,
+    }]
+  })
+
+  return { scores, problems }
+}
 
-**PERFECT ANSWER REFERENCE (BASE EXAMPLE):**
-${baseExampleContent}
-`
-    if (baseExampleMetadata) {
-      const formattedMetadata = Object.entries(baseExampleMetadata)
-        .map(([key, value]) => `- ${key}: ${typeof value === 'object' ? JSON.stringify(value) : value}`)
-        .join('\n')
+// Extra response field requested when images are attached
+const VISUAL_EVIDENCE_RESPONSE_FORMAT = `
+  "visual_evidence": [
+    {
+      "criterion": "Exact criterion title from criteria_met",
+      "elements": ["Visible element that satisfies it, with its location, e.g. 'navigation bar at the top with Home, About and Contact links'"]
+    }
+  ],`
+
+// Every criterion counted as met must name the visible elements that satisfied it
+function findMissingVisualEvidence(data: AssessmentResponse, metCriteria: string[]): string[] {
+  const normalize = (title: string) => title.trim().toLowerCase()
+  const cited = new Set(
+    (data.visual_evidence ?? [])
+      .filter(entry => entry.elements.some(element => element.trim() !== ''))
+      .map(entry => normalize(entry.criterion))
+  )
+
+  return metCriteria
+    .filter(criterion => !cited.has(normalize(criterion)))
+    .map(criterion => `"visual_evidence" needs an entry naming the visible elements that satisfy "${criterion}"`)
+}
 
-      prompt += `
+// Appended to the prompt when a response had to be rejected
+function buildRepairInstructions(problems: string[], hasRubric: boolean): string {
+  return `
 
-**Why This Example is Perfect (Metadata Analysis):**
-${formattedMetadata}
+**YOUR PREVIOUS RESPONSE WAS REJECTED:**
+${problems.map(problem => `- ${problem}`).join('\n')}
+
+Respond again with a single JSON object in the exact response format above${hasRubric ? ', including one "criterion_scores" entry for every numbered rubric item and nothing else' : ''}.
 `
-    }
+}
 
-    prompt += `
+/**
+ * Parse and validate one model response. Problems are phrased so they can be sent
+ * back to the model verbatim.
+ */
+function parseAssessmentResponse(
+  content: string,
+  rubric: RubricCriterionInput[] | undefined,
+  expectVisualEvidence = false
+): { data?: AssessmentResponse; criterionScores: CriterionScore[]; problems: string[] } {
+  let raw: unknown
+  try {
+    raw = JSON.parse(content)
+  } catch {
+    return { criterionScores: [], problems: ['The response was not valid JSON'] }
+  }
 
-**DETAILED COMPARISON ANALYSIS REQUIRED:**
-1. **Content Quality**: How does the student's submission compare to the reference in terms of depth, accuracy, and completeness?
-2. **Structure & Organization**: Does the student follow a similar logical flow and structure as the perfect example?
-3. **Technical Accuracy**: Are the concepts, terminology, and facts presented correctly compared to the reference?
-4. **Completeness**: Does the student cover all the key points addressed in the perfect example?
-5. **Innovation & Insight**: Does the student demonstrate original thinking while maintaining the quality standards of the reference?
+  const parsed = assessmentResponseSchema.safeParse(raw)
+  const problems = parsed.success
+    ? []
+    : parsed.error.errors.map(issue => `${issue.path.join('.') || 'response'}: ${issue.message}`)
 
-**COMPARISON SCORING:**
-- If the submission closely matches the perfect example quality: Lean towards "Excellent" or "Good"
-- If it has similar structure but lacks depth compared to the example: "Can Improve"
-- If it significantly deviates or fails to meet the example's standards: "Needs Improvement"
+  if (!rubric || rubric.length === 0) {
+    if (parsed.data && expectVisualEvidence) {
+      problems.push(...findMissingVisualEvidence(parsed.data, parsed.data.criteria_met))
+    }
+    return { data: parsed.data, criterionScores: [], problems }
+  }
 
-**IMPORTANT:** Use the base example as your quality benchmark. The student doesn't need to be identical to the example, but should demonstrate similar levels of understanding, completeness, and quality.
-`
+  const criteria = validateCriterionScores((raw as any)?.criterion_scores, rubric)
+  if (parsed.data && expectVisualEvidence) {
+    const metCriteria = criteria.scores
+      .filter(score => score.kind === 'CRITERION' && score.status === 'met')
+      .map(score => score.criterion)
+    problems.push(...findMissingVisualEvidence(parsed.data, metCriteria))
   }
+  return { data: parsed.data, criterionScores: criteria.scores, problems: [...problems, ...criteria.problems] }
+}
 
-  // Enhanced criteria evaluation
-  if (criteria.length > 0) {
-    prompt += `
+// Assessment prompt: the rendered template, then the grading criteria and response format
+export function buildAssessmentPrompt(
+  request: AssessmentRequest,
+  template: ResolvedPromptTemplate = defaultPromptTemplate(request.submissionType)
+): string {
+  const {
+    submissionType,
+    assessmentPrompt,
+    criteria,
+    redFlags,
+    conditionalChecks,
+    rubric,
+  } = request
+  const hasRubric = !!rubric && rubric.length > 0
+  const hasImages = !!request.images && request.images.length > 0
+
+  let prompt = renderPromptTemplate(template.body, buildPromptVariables(request))
+
+  if (hasRubric) {
+    prompt += buildRubricSection(rubric)
+  } else {
+    // Enhanced criteria evaluation
+    if (criteria.length > 0) {
+      prompt += `
 
 **ASSESSMENT CRITERIA (Must-Have Elements for Full Marks):**
 ${criteria.map((criterion, i) => `${i + 1}. ${criterion}`).join('\n')}
@@ -186,11 +440,11 @@ ${criteria.map((criterion, i) => `${i + 1}. ${criterion}`).join('\n')}
 - "Can Improve" for meeting some criteria (40-69%)
 - "Needs Improvement" for meeting few criteria (<40%)
 `
-  }
+    }
 
-  // Enhanced red flags evaluation
-  if (redFlags.length > 0) {
-    prompt += `
+    // Enhanced red flags evaluation
+    if (redFlags.length > 0) {
+      prompt += `
 
 **RED FLAGS (Critical Issues - Automatic Grade Reduction):**
 ${redFlags.map((flag, i) => `${i + 1}. ${flag}`).join('\n')}
@@ -201,11 +455,11 @@ ${redFlags.map((flag, i) => `${i + 1}. ${flag}`).join('\n')}
 - Consider the severity and frequency of red flag issues
 - Be specific about which red flags are present in your feedback
 `
-  }
+    }
 
-  // Enhanced conditional checks for bonus recognition
-  if (conditionalChecks.length > 0) {
-    prompt += `
+    // Enhanced conditional checks for bonus recognition
+    if (conditionalChecks.length > 0) {
+      prompt += `
 
 **BONUS CRITERIA (Conditional Excellence Indicators):**
 ${conditionalChecks.map((check, i) => `${i + 1}. ${check}`).join('\n')}
@@ -216,6 +470,7 @@ ${conditionalChecks.map((check, i) => `${i + 1}. ${check}`).join('\n')}
 - Consider these as opportunities for positive recognition
 - Include bonus achievements in your feedback to encourage continued excellence
 `
+    }
   }
 
   // Add custom assessment prompt if provided
@@ -230,6 +485,35 @@ ${assessmentPrompt}
   // Add submission-specific evaluation guidelines
   prompt += getSubmissionTypeGuidelines(submissionType)
 
+  if (request.structuralChecks && request.structuralChecks.length > 0) {
+    prompt += `
+
+**STRUCTURAL CHECKS (found by parsing the document):**
+${request.structuralChecks.map(check => `- ${check.passed ? '✅' : '❌'} "${check.criterion}" - ${check.requirement}: ${check.detail}`).join('\n')}
+- These checks are automatic and can misread a criterion or miss an unusually formatted heading. Treat a failed check as evidence against the criterion, confirm it against the submission, and still judge the quality of what is there
+`
+  }
+
+  if (request.exemplarComparison) {
+    prompt += `
+
+**SECTION ALIGNMENT WITH THE BASE EXAMPLE (computed from text similarity):**
+${formatExemplarComparison(request.exemplarComparison)}
+- Use this alignment in "comparisonToExample": name the exemplar sections that are missing or only partly covered, and what they contain that the submission lacks
+- Similarity measures overlap of content, not quality; a differently worded section can still be correct
+`
+  }
+
+  if (hasImages) {
+    prompt += `
+
+**VISUAL EVIDENCE:**
+- The submission is attached as ${request.images!.length === 1 ? 'an image' : `${request.images!.length} images`}; judge what is actually visible, not the URL or description
+- For every criterion you count as met, list in "visual_evidence" the visible elements that satisfy it and where they appear
+- Do not credit a criterion for elements you cannot see in the image
+`
+  }
+
   // Add response format requirements
   prompt += `
 
@@ -266,7 +550,7 @@ Please provide your assessment in the following JSON format:
     "structure": 88
   },
   "criteria_met": ["List of criteria that were successfully met"],
-  "areas_for_improvement": ["Specific areas where the student can improve"],
+  "areas_for_improvement": ["Specific areas where the student can improve"],${hasRubric ? RUBRIC_RESPONSE_FORMAT : ''}${hasImages ? VISUAL_EVIDENCE_RESPONSE_FORMAT : ''}
   "confidence": 0.85
 }
 
@@ -371,6 +655,8 @@ function getSubmissionTypeGuidelines(submissionType: SubmissionType): string {
 - Evaluate best practices and coding standards
 - Look for working functionality and error handling
 - Consider repository organization and file structure
+- Ground code quality, testing and security judgments in the Static Analysis section (findings, function complexity, test cases, dependencies, committed secrets) rather than impressions
+- Use the Development Process section to judge how the work was done: incremental commits, meaningful messages, work spread over time, and whether most of it landed just before the deadline
 `
 
     case 'DOCUMENT':
@@ -392,7 +678,9 @@ function getSubmissionTypeGuidelines(submissionType: SubmissionType): string {
 - Check responsive design and accessibility
 - Evaluate code quality and best practices
 - Look for proper implementation of requirements
-- Consider performance and optimization
+- Consider performance and optimization, using the measured page weight, requests and opportunities rather than guesses; a failed Performance Budget is an unmet requirement
+- Use the Security Posture findings (headers, cookies, TLS, mixed content, exposed source maps or .git) as evidence for any security requirement, weighting them by severity
+- Treat failed Scripted Checks as unmet requirements, and use the Site Crawl (broken links, error pages) to judge whether the whole site works, not just the landing page
 `
 
     case 'SCREENSHOT':
@@ -411,212 +699,320 @@ function getSubmissionTypeGuidelines(submissionType: SubmissionType): string {
   }
 }
 
-// Main assessment function
-export async function assessSubmission(request: AssessmentRequest): Promise<AssessmentResult> {
-  const startTime = Date.now()
-  
-  try {
-    // Select appropriate model based on complexity
-    const contentLength = request.submissionContent.length
-    const hasBaseExample = !!request.baseExampleContent
-    const selectedModel = selectLLMModel(request.submissionType, contentLength, hasBaseExample)
+/**
+ * Output tokens to allow for a request's response, scaled with its rubric and images
+ */
+export function assessmentMaxTokens(request: Pick<AssessmentRequest, 'rubric' | 'images'>): number {
+  const budget = ASSESSMENT_BASE_MAX_TOKENS
+    + (request.rubric?.length ?? 0) * MAX_TOKENS_PER_RUBRIC_ITEM
+    + (request.images?.length ?? 0) * MAX_TOKENS_PER_IMAGE
+  return Math.min(budget, ASSESSMENT_MAX_TOKENS_LIMIT)
+}
+
+// Single JSON completion request, bounded by a 30 second timeout
+function requestAssessment(
+  provider: LLMProvider,
+  model: string,
+  prompt: string,
+  maxTokens: number,
+  images?: LLMImageInput[]
+): Promise<LLMCompletionResponse> {
+  return withTimeout(
+    provider.complete({
+      model,
+      system: ASSESSOR_SYSTEM_PROMPT,
+      prompt,
+      temperature: ASSESSMENT_TEMPERATURE,
+      maxTokens,
+      json: true,
+      images,
+    }),
+    30000,
+    'API call timeout after 30 seconds'
+  )
+}
 
-    // Build the assessment prompt
-    const prompt = buildAssessmentPrompt(request)
+// Identifies the assessment an LLM call belongs to, for its AssessmentRun record
+type RunAudit = {
+  submissionId: string
+  invocationId: string
+  attempt: number
+  promptVersion: string // Label of the prompt template that built the prompt
+}
 
-    console.log(`🤖 Assessing submission with ${selectedModel} (content length: ${contentLength})`)
-    console.log('📤 About to make Groq API call...');
+// Fields shared by every AssessmentRun written for one call
+function auditFields(audit: RunAudit, provider: LLMProvider, model: string, prompt: string, maxTokens: number) {
+  return {
+    ...audit,
+    provider: provider.name,
+    model,
+    temperature: ASSESSMENT_TEMPERATURE,
+    maxTokens,
+    systemPrompt: ASSESSOR_SYSTEM_PROMPT,
+    prompt,
+  }
+}
 
-    // Make the API call to Groq with timeout
-    const timeoutPromise = new Promise((_, reject) => {
-      setTimeout(() => reject(new Error('API call timeout after 30 seconds')), 30000)
-    });
+/**
+ * Model to call for a request. A request with images goes to the provider's vision
+ * model when the routed one cannot read them; null if the provider has none.
+ */
+export function modelForRequest(provider: LLMProvider, model: string, hasImages: boolean): string | null {
+  if (!hasImages || provider.supportsImages(model)) {
+    return model
+  }
+  return provider.defaultVisionModel
+}
 
-    // Try the selected model first, fallback to LLAMA_8B if it fails
-    let completion: any;
+// Request an assessment, falling back to the provider default model.
+// Failed and cut-off calls are audited here; successful ones once their response has been validated.
+async function completeAssessment(
+  provider: LLMProvider,
+  selectedModel: string,
+  prompt: string,
+  maxTokens: number,
+  audit: RunAudit | null,
+  images?: LLMImageInput[]
+): Promise<{ completion: LLMCompletionResponse; content: string; latencyMs: number }> {
+  const callModel = async (model: string) => {
+    const started = Date.now()
     try {
-      completion = await Promise.race([
-        groq.chat.completions.create({
-          messages: [
-            {
-              role: "system",
-              content: "You are an expert educational assessor. Always respond with valid JSON in the exact format requested."
-            },
-            {
-              role: "user",
-              content: prompt
-            }
-          ],
-          model: selectedModel,
-          temperature: 0.3, // Lower temperature for more consistent assessments
-          max_tokens: 1000,
-          response_format: { type: "json_object" }
-        }),
-        timeoutPromise
-      ]);
-    } catch (modelError) {
-      console.warn(`⚠️ Model ${selectedModel} failed, trying fallback model...`);
-      // Fallback to LLAMA_8B
-      completion = await Promise.race([
-        groq.chat.completions.create({
-          messages: [
-            {
-              role: "system",
-              content: "You are an expert educational assessor. Always respond with valid JSON in the exact format requested."
-            },
-            {
-              role: "user",
-              content: prompt
-            }
-          ],
-          model: LLM_MODELS.LLAMA_8B,
-          temperature: 0.3,
-          max_tokens: 1000,
-          response_format: { type: "json_object" }
-        }),
-        timeoutPromise
-      ]);
+      const completion = await requestAssessment(provider, model, prompt, maxTokens, images)
+      const latencyMs = Date.now() - started
+      if (completion.truncated) {
+        console.error(`❌ LLM response cut off at ${maxTokens} tokens`);
+        throw new AssessmentTruncatedError(maxTokens)
+      }
+      if (!completion.content) {
+        console.error('❌ No response from LLM');
+        throw new Error('No response from LLM')
+      }
+      return { completion, latencyMs }
+    } catch (error) {
+      if (audit) {
+        await recordAssessmentRun({
+          ...auditFields(audit, provider, model, prompt, maxTokens),
+          outcome: 'ERROR',
+          error: error instanceof Error ? error.message : String(error),
+          latencyMs: Date.now() - started,
+        })
+      }
+      throw error
     }
+  }
 
-    console.log('📥 Groq API call completed');
+  // Try the selected model first, fallback to the provider default if it fails
+  const fallbackModel = modelForRequest(provider, provider.defaultModel, !!images?.length)
+  let call: { completion: LLMCompletionResponse; latencyMs: number }
+  try {
+    call = await callModel(selectedModel)
+  } catch (modelError) {
+    if (!fallbackModel || selectedModel === fallbackModel) {
+      throw modelError
+    }
+    console.warn(`⚠️ Model ${selectedModel} failed, trying fallback model ${fallbackModel}...`);
+    call = await callModel(fallbackModel)
+  }
 
-    const responseContent = completion.choices[0]?.message?.content
+  console.log(`📥 ${provider.name} API call completed`);
 
-    if (!responseContent) {
-      console.error('❌ No response from LLM');
-      throw new Error('No response from LLM')
-    }
+  const { completion, latencyMs } = call
+  const responseContent = completion.content
 
-    // Sanitize response content to remove null bytes and other problematic characters
-    const sanitizedContent = sanitizeForDatabase(responseContent)
-    console.log('📝 Original response length:', responseContent.length);
-    console.log('📝 Sanitized response length:', sanitizedContent.length);
-    console.log('📝 Contains null bytes:', responseContent.includes('\u0000'));
-    console.log('📝 Contains escaped null bytes:', responseContent.includes('\\u0000'));
+  // Sanitize response content to remove null bytes and other problematic characters
+  const sanitizedContent = sanitizeForDatabase(responseContent)
+  console.log('📝 Original response length:', responseContent.length);
+  console.log('📝 Sanitized response length:', sanitizedContent.length);
+  console.log('📝 Contains null bytes:', responseContent.includes('\u0000'));
+  console.log('📝 Contains escaped null bytes:', responseContent.includes('\\u0000'));
 
-    // Parse the JSON response
-    let assessmentData: any
-    try {
-      assessmentData = JSON.parse(sanitizedContent)
-    } catch (parseError) {
-      console.error('Failed to parse LLM response as JSON:', sanitizedContent)
-      throw new Error('Invalid JSON response from LLM')
+  return { completion, content: sanitizedContent, latencyMs }
+}
+
+// One assessment against a single model. Responses that fail validation are sent
+// back with the problems listed, a bounded number of times.
+async function runAssessment(
+  request: AssessmentRequest,
+  prompt: string,
+  template: ResolvedPromptTemplate,
+  provider: LLMProvider,
+  selectedModel: string
+): Promise<AssessmentResult> {
+  const startTime = Date.now()
+
+  const hasRubric = !!request.rubric && request.rubric.length > 0
+  let completion: LLMCompletionResponse | undefined
+  let assessmentData: AssessmentResponse | undefined
+  let criterionScores: CriterionScore[] = []
+  let problems: string[] = []
+  const invocationId = randomUUID()
+  const maxTokens = assessmentMaxTokens(request)
+  for (let attempt = 0; attempt <= MAX_RESPONSE_REPAIR_ATTEMPTS; attempt++) {
+    const attemptPrompt = attempt === 0 ? prompt : prompt + buildRepairInstructions(problems, hasRubric)
+    const audit = request.submissionId
+      ? { submissionId: request.submissionId, invocationId, attempt: attempt + 1, promptVersion: promptTemplateLabel(template) }
+      : null
+    const response = await completeAssessment(provider, selectedModel, attemptPrompt, maxTokens, audit, request.images)
+    const parsed = parseAssessmentResponse(response.content, request.rubric, !!request.images?.length)
+
+    completion = response.completion
+    problems = parsed.problems
+
+    if (audit) {
+      await recordAssessmentRun({
+        ...auditFields(audit, provider, completion.model, attemptPrompt, maxTokens),
+        rawResponse: completion.content,
+        outcome: problems.length === 0 ? 'ACCEPTED' : 'REJECTED',
+        parseErrors: problems,
+        latencyMs: response.latencyMs,
+        usage: completion.usage,
+      })
     }
+    if (problems.length === 0) {
+      assessmentData = parsed.data
+      criterionScores = parsed.criterionScores
+      break
+    }
+    console.warn(`⚠️ Rejected assessment response (attempt ${attempt + 1}): ${problems.join('; ')}`)
+  }
 
-    // Validate required fields
-    const requiredFields = ['remark', 'feedback', 'criteria_met', 'areas_for_improvement']
-    for (const field of requiredFields) {
-      if (!assessmentData[field]) {
-        throw new Error(`Missing required field: ${field}`)
-      }
+  if (!completion || !assessmentData) {
+    throw new AssessmentValidationError(problems, MAX_RESPONSE_REPAIR_ATTEMPTS + 1)
+  }
+
+  let remark = assessmentData.remark
+  let criteriaMet = assessmentData.criteria_met
+
+  // With a rubric, the overall remark follows from the per-criterion points
+  let rubricScore: Pick<AssessmentResult, 'criterion_scores' | 'total_points' | 'max_points'> = {}
+  if (hasRubric) {
+    const maxPoints = rubricMaxPoints(request.rubric!)
+    const totalPoints = Math.max(0, criterionScores.reduce((sum, score) => sum + score.points, 0))
+
+    rubricScore = { criterion_scores: criterionScores, total_points: totalPoints, max_points: maxPoints }
+    if (maxPoints > 0) {
+      remark = remarkFromPercentage(Math.min(100, (totalPoints / maxPoints) * 100))
     }
+    criteriaMet = criterionScores
+      .filter(score => score.kind === 'CRITERION' && score.status === 'met')
+      .map(score => score.criterion)
+  }
+
+  const { detailedFeedback } = assessmentData
+  const processingTime = Date.now() - startTime
+
+  const result: AssessmentResult = {
+    remark,
+    feedback: sanitizeForDatabase(assessmentData.feedback),
+    detailedFeedback: {
+      summary: sanitizeForDatabase(detailedFeedback.summary),
+      strengths: detailedFeedback.strengths.map(item => sanitizeForDatabase(item)),
+      weaknesses: detailedFeedback.weaknesses.map(item => sanitizeForDatabase(item)),
+      recommendations: detailedFeedback.recommendations.map(item => sanitizeForDatabase(item)),
+      comparisonToExample: detailedFeedback.comparisonToExample ? sanitizeForDatabase(detailedFeedback.comparisonToExample) : undefined
+    },
+    scoreBreakdown: assessmentData.scoreBreakdown,
+    criteria_met: criteriaMet.map(item => sanitizeForDatabase(item)),
+    areas_for_improvement: assessmentData.areas_for_improvement.map(item => sanitizeForDatabase(item)),
+    ...rubricScore,
+    ...(assessmentData.visual_evidence && {
+      visual_evidence: assessmentData.visual_evidence.map(entry => ({
+        criterion: sanitizeForDatabase(entry.criterion),
+        elements: entry.elements.map(element => sanitizeForDatabase(element)),
+      })),
+    }),
+    // Kept as reported so low-confidence results can be escalated
+    confidence: assessmentData.confidence,
+    prompt_template: { id: template.id, name: template.name, version: template.version },
+    processing_time_ms: processingTime,
+    model_used: completion.model
+  };
+
+  // Final sanitization check - convert the whole object to JSON and back to clean any remaining issues
+  const resultJson = JSON.stringify(result);
+  const cleanedJson = sanitizeForDatabase(resultJson);
+  console.log('📝 Final result contains null bytes:', resultJson.includes('\u0000'));
+  console.log('📝 Final result contains escaped null bytes:', resultJson.includes('\\u0000'));
+
+  return assessmentResultSchema.parse(JSON.parse(cleanedJson));
+}
 
-    // Validate remark values
-    const validRemarks = ['Excellent', 'Good', 'Can Improve', 'Needs Improvement']
-    if (!validRemarks.includes(assessmentData.remark)) {
-      assessmentData.remark = 'Can Improve' // Default fallback
+// Main assessment function
+export async function assessSubmission(request: AssessmentRequest): Promise<AssessmentResult> {
+  const startTime = Date.now()
+  
+  try {
+    // Select appropriate model based on complexity
+    const contentLength = request.submissionContent.length
+    const hasBaseExample = !!request.baseExampleContent
+    const route = await resolveModelRoute({
+      submissionType: request.submissionType,
+      contentLength,
+      hasBaseExample,
+      courseId: request.courseId,
+      questionId: request.questionId,
+      provider: request.provider,
+      ignoreStoredRules: request.ignoreRoutingRules,
+    })
+    const provider = getLLMProvider(route.provider)
+
+    // Images need a model that can see them; without one the assessment is text-only
+    const hasImages = !!request.images?.length
+    const visionModel = modelForRequest(provider, route.model, hasImages)
+    if (hasImages && !visionModel) {
+      console.warn(`⚠️ ${provider.name} has no vision-capable model; assessing without the attached images`)
+      request = { ...request, images: undefined }
+    } else if (visionModel !== route.model) {
+      console.log(`🖼️ ${route.model} cannot read images; using ${visionModel}`)
     }
+    const selectedModel = visionModel ?? route.model
+
+    // Build the assessment prompt from the active template for this submission type
+    const template = await resolvePromptTemplate(request.submissionType)
+    const prompt = buildAssessmentPrompt(request, template)
 
-    // Ensure arrays are actually arrays
-    assessmentData.criteria_met = Array.isArray(assessmentData.criteria_met)
-      ? assessmentData.criteria_met
-      : []
-
-    assessmentData.areas_for_improvement = Array.isArray(assessmentData.areas_for_improvement)
-      ? assessmentData.areas_for_improvement
-      : []
-
-    // Validate and sanitize detailedFeedback
-    const detailedFeedback = assessmentData.detailedFeedback || {
-      summary: assessmentData.feedback || 'No detailed feedback available',
-      strengths: [],
-      weaknesses: assessmentData.areas_for_improvement || [],
-      recommendations: []
+    if (!request.consensus || request.consensus.runs < 2) {
+      console.log(`🤖 Assessing submission with ${provider.name}/${selectedModel} (content length: ${contentLength})`)
+      return await runAssessment(request, prompt, template, provider, selectedModel)
     }
 
-    // Ensure detailedFeedback arrays are valid
-    detailedFeedback.strengths = Array.isArray(detailedFeedback.strengths) ? detailedFeedback.strengths : []
-    detailedFeedback.weaknesses = Array.isArray(detailedFeedback.weaknesses) ? detailedFeedback.weaknesses : []
-    detailedFeedback.recommendations = Array.isArray(detailedFeedback.recommendations) ? detailedFeedback.recommendations : []
-
-    // Validate and sanitize scoreBreakdown
-    const scoreBreakdown = assessmentData.scoreBreakdown || {
-      contentQuality: 0,
-      completeness: 0,
-      technicalAccuracy: 0,
-      structure: 0
+    // Consensus: independent runs in parallel, possibly across models, aggregated by agreement.
+    // With images, each run moves to its provider's vision model when needed; runs on a
+    // provider without one are skipped rather than graded blind.
+    const primary = { provider: provider.name, model: selectedModel }
+    const targets = consensusTargets(primary, request.consensus.models, request.consensus.runs).flatMap(target => {
+      const model = modelForRequest(getLLMProvider(target.provider), target.model, !!request.images?.length)
+      if (!model) {
+        console.warn(`⚠️ Skipping consensus run on ${target.provider}/${target.model}: no vision-capable model for the attached images`)
+        return []
+      }
+      return [{ ...target, model }]
+    })
+    if (targets.length === 0) {
+      targets.push(primary)
     }
+    console.log(`🤖 Assessing submission with ${targets.length} consensus runs: ${targets.map(t => `${t.provider}/${t.model}`).join(', ')}`)
 
-    // Ensure scores are valid numbers between 0-100
-    const sanitizeScore = (score: any) => {
-      const num = typeof score === 'number' ? score : 0
-      return Math.max(0, Math.min(100, num))
+    const settled = await Promise.allSettled(
+      targets.map(target => runAssessment(request, prompt, template, getLLMProvider(target.provider), target.model))
+    )
+    const results = settled.flatMap(outcome => (outcome.status === 'fulfilled' ? [outcome.value] : []))
+    const failures = settled.flatMap(outcome => (outcome.status === 'rejected' ? [outcome.reason] : []))
+
+    failures.forEach(reason => console.warn('⚠️ Consensus run failed:', reason instanceof Error ? reason.message : reason))
+    if (results.length === 0) {
+      throw failures[0]
     }
 
-    scoreBreakdown.contentQuality = sanitizeScore(scoreBreakdown.contentQuality)
-    scoreBreakdown.completeness = sanitizeScore(scoreBreakdown.completeness)
-    scoreBreakdown.technicalAccuracy = sanitizeScore(scoreBreakdown.technicalAccuracy)
-    scoreBreakdown.structure = sanitizeScore(scoreBreakdown.structure)
-
-    // Validate confidence score
-    const confidence = typeof assessmentData.confidence === 'number'
-      ? Math.max(0.5, Math.min(1.0, assessmentData.confidence))
-      : 0.75 // Default confidence
-
-    const processingTime = Date.now() - startTime
-
-    const result = {
-      remark: assessmentData.remark,
-      feedback: sanitizeForDatabase(assessmentData.feedback),
-      detailedFeedback: {
-        summary: sanitizeForDatabase(detailedFeedback.summary || ''),
-        strengths: detailedFeedback.strengths.map((item: string) => sanitizeForDatabase(item)),
-        weaknesses: detailedFeedback.weaknesses.map((item: string) => sanitizeForDatabase(item)),
-        recommendations: detailedFeedback.recommendations.map((item: string) => sanitizeForDatabase(item)),
-        comparisonToExample: detailedFeedback.comparisonToExample ? sanitizeForDatabase(detailedFeedback.comparisonToExample) : undefined
-      },
-      scoreBreakdown,
-      criteria_met: assessmentData.criteria_met.map((item: string) => sanitizeForDatabase(item)),
-      areas_for_improvement: assessmentData.areas_for_improvement.map((item: string) => sanitizeForDatabase(item)),
-      confidence,
-      processing_time_ms: processingTime,
-      model_used: selectedModel
-    };
-
-    // Final sanitization check - convert the whole object to JSON and back to clean any remaining issues
-    const resultJson = JSON.stringify(result);
-    const cleanedJson = sanitizeForDatabase(resultJson);
-    console.log('📝 Final result contains null bytes:', resultJson.includes('\u0000'));
-    console.log('📝 Final result contains escaped null bytes:', resultJson.includes('\\u0000'));
-
-    return JSON.parse(cleanedJson);
+    const result = aggregateConsensus(results, targets.length, request.rubric)
+    console.log(`🤝 Consensus ${result.remark} with ${Math.round(result.consensus!.agreement * 100)}% agreement (${results.length}/${targets.length} runs)`)
+
+    return assessmentResultSchema.parse({ ...result, processing_time_ms: Date.now() - startTime })
 
   } catch (error) {
+    // No fallback result: callers record the submission as FAILED with this reason
     console.error('Assessment error:', error)
-
-    // Return a fallback assessment
-    const processingTime = Date.now() - startTime
-    return {
-      remark: 'Can Improve',
-      feedback: 'Assessment could not be completed due to a technical error. Please try submitting again or contact support.',
-      detailedFeedback: {
-        summary: 'We encountered a technical error while assessing your submission. This does not reflect the quality of your work. Please try resubmitting, and if the issue persists, contact support for assistance.',
-        strengths: [],
-        weaknesses: ['Technical error prevented assessment'],
-        recommendations: ['Please resubmit your work', 'If error persists, contact support', 'Ensure your submission meets the format requirements']
-      },
-      scoreBreakdown: {
-        contentQuality: 0,
-        completeness: 0,
-        technicalAccuracy: 0,
-        structure: 0
-      },
-      criteria_met: [],
-      areas_for_improvement: ['Please resubmit your work for proper assessment'],
-      confidence: 0.5,
-      processing_time_ms: processingTime,
-      model_used: 'error_fallback'
-    }
+    throw error
   }
 }
 
@@ -659,32 +1055,47 @@ export class LLMRateLimiter {
 }
 
 // Utility function to test LLM connectivity
-export async function testLLMConnection(): Promise<{ success: boolean; error?: string; models: string[] }> {
+export async function testLLMConnection(providerName?: string | null): Promise<{ success: boolean; provider: string; error?: string; models: string[] }> {
+  const provider = getLLMProvider(providerName)
+
   try {
+    if (!provider.isConfigured()) {
+      throw new Error(`Provider "${provider.name}" is not configured`)
+    }
+
     // Test with a simple prompt
-    const completion = await groq.chat.completions.create({
-      messages: [
-        {
-          role: "user",
-          content: "Respond with: 'Connection successful'"
-        }
-      ],
-      model: LLM_MODELS.LLAMA_8B,
-      max_tokens: 10
+    const completion = await provider.complete({
+      model: provider.defaultModel,
+      prompt: "Respond with: 'Connection successful'",
+      maxTokens: 10
     })
 
-    const response = completion.choices[0]?.message?.content
-
     return {
-      success: response?.includes('Connection successful') || false,
-      models: Object.values(LLM_MODELS)
+      success: provider.name === 'mock' || completion.content.includes('Connection successful'),
+      provider: provider.name,
+      models: provider.listModels()
     }
   } catch (error) {
     console.error('LLM connection test failed:', error)
     return {
       success: false,
+      provider: provider.name,
       error: error instanceof Error ? error.message : 'Unknown error',
       models: []
     }
   }
-}
\ No newline at end of file
+}
+
+// Providers available to this deployment, for admin settings screens
+export function getAvailableLLMProviders(): { name: string; configured: boolean; isDefault: boolean; models: string[] }[] {
+  const defaultProvider = getDefaultProviderName()
+  return LLM_PROVIDERS.map(name => {
+    const provider = getLLMProvider(name)
+    return {
+      name,
+      configured: provider.isConfigured(),
+      isDefault: name === defaultProvider,
+      models: provider.listModels()
+    }
+  })
+}
@@ -0,0 +1,71 @@
+// lib/services/manual-review-service.ts
+// Decides when an AI result must not stand on its own and is escalated to the
+// manual review queue.
+import type { AssessmentMode } from '@prisma/client'
+import type { AssessmentResult } from './llm-service'
+
+export type ManualReviewThresholds = {
+  assessmentMode: AssessmentMode
+  minConfidence: number | null // AI_ONLY results below this, or with a red flag, are escalated; null disables escalation
+  minConsensusAgreement: number
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`
+
+/**
+ * Why an AI result should go to an instructor before it stands, or null if it can stand
+ */
+export function manualReviewReason(
+  result: Pick<AssessmentResult, 'confidence' | 'consensus' | 'criterion_scores'>,
+  thresholds: ManualReviewThresholds
+): string | null {
+  const reasons: string[] = []
+
+  const { consensus } = result
+  if (consensus && consensus.agreement < thresholds.minConsensusAgreement) {
+    const failedRuns = consensus.requestedRuns - consensus.runs
+    reasons.push(
+      `low agreement between AI runs: ${percent(consensus.agreement)} ` +
+      `(threshold ${percent(thresholds.minConsensusAgreement)}; remarks: ${consensus.remarks.join(', ')}` +
+      `${failedRuns > 0 ? `; ${failedRuns} run(s) failed` : ''})`
+    )
+  }
+
+  // BOTH mode is reviewed anyway and MANUAL_ONLY never gets here
+  if (thresholds.assessmentMode === 'AI_ONLY' && thresholds.minConfidence !== null) {
+    if (result.confidence < thresholds.minConfidence) {
+      reasons.push(`AI confidence ${percent(result.confidence)} is below the ${percent(thresholds.minConfidence)} threshold`)
+    }
+
+    const redFlags = (result.criterion_scores || [])
+      .filter(score => score.kind === 'RED_FLAG' && score.status === 'met')
+      .map(score => score.criterion)
+    if (redFlags.length > 0) {
+      reasons.push(`red flag triggered: ${redFlags.join(', ')}`)
+    }
+  }
+
+  return reasons.length > 0 ? `Escalated: ${reasons.join('; ')}` : null
+}
+
+/**
+ * Whether an escalated submission is still waiting for its instructor review
+ */
+export function isAwaitingEscalatedReview(submission: { needsManualReview: boolean; reviewedAt: Date | null }): boolean {
+  return submission.needsManualReview && !submission.reviewedAt
+}
+
+/**
+ * Student-facing copy of a submission. The AI verdict of an escalated submission
+ * is withheld until an instructor has reviewed it.
+ */
+export function withholdUnreviewedAssessment<T extends {
+  needsManualReview: boolean
+  reviewedAt: Date | null
+  assessmentResult: unknown
+  confidence: number | null
+  manualReviewReason: string | null
+}>(submission: T): T {
+  if (!isAwaitingEscalatedReview(submission)) return submission
+  return { ...submission, assessmentResult: null, confidence: null, manualReviewReason: null }
+}
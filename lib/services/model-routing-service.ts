@@ -0,0 +1,186 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { getLLMProvider, LLM_MODELS } from './llm-providers'
+
+type SubmissionType = 'TEXT' | 'DOCUMENT' | 'GITHUB_REPO' | 'SCREENSHOT' | 'WEBSITE'
+
+// Conditions and target of a single routing rule (persisted or built-in)
+export interface RoutingRule {
+  id?: string
+  name: string
+  courseId?: string | null
+  questionId?: string | null
+  submissionType?: SubmissionType | null
+  minContentLength?: number | null
+  maxContentLength?: number | null
+  hasBaseExample?: boolean | null
+  provider: string
+  model: string
+  priority: number
+}
+
+// What the router knows about the submission being assessed
+export interface RoutingContext {
+  submissionType: SubmissionType
+  contentLength: number
+  hasBaseExample: boolean
+  courseId?: string
+  questionId?: string
+  provider?: string | null // Course-level provider; only global rules for this provider override it
+  ignoreStoredRules?: boolean // Route on the provider and built-in table alone, e.g. for calibration
+}
+
+// Include clause for listing stored rules with the course and assessment they apply to
+export const ROUTING_RULE_INCLUDE = {
+  course: { select: { id: true, name: true } },
+  question: { select: { id: true, title: true, questionNumber: true } },
+  creator: { select: { name: true, email: true } },
+} satisfies Prisma.ModelRoutingRuleInclude
+
+export type RoutingRuleWithScope = Prisma.ModelRoutingRuleGetPayload<{ include: typeof ROUTING_RULE_INCLUDE }>
+
+export interface ModelRoute {
+  provider: string
+  model: string
+  ruleId?: string
+  ruleName: string
+}
+
+/**
+ * Built-in Groq routing, used when no stored rule matches.
+ * Evaluated in priority order, highest first.
+ */
+export const DEFAULT_ROUTING_RULES: RoutingRule[] = [
+  {
+    name: 'Short text answers',
+    submissionType: 'TEXT',
+    maxContentLength: 499,
+    provider: 'groq',
+    model: LLM_MODELS.LLAMA_8B,
+    priority: 40,
+  },
+  { name: 'GitHub repositories', submissionType: 'GITHUB_REPO', provider: 'groq', model: LLM_MODELS.LLAMA_70B, priority: 30 },
+  { name: 'Websites', submissionType: 'WEBSITE', provider: 'groq', model: LLM_MODELS.LLAMA_70B, priority: 30 },
+  { name: 'Long submissions', minContentLength: 5001, provider: 'groq', model: LLM_MODELS.LLAMA_70B, priority: 30 },
+  { name: 'Base example comparison', hasBaseExample: true, provider: 'groq', model: LLM_MODELS.LLAMA_70B, priority: 30 },
+  { name: 'Documents', submissionType: 'DOCUMENT', provider: 'groq', model: LLM_MODELS.LLAMA_4_SCOUT, priority: 20 },
+  { name: 'Screenshots', submissionType: 'SCREENSHOT', provider: 'groq', model: LLM_MODELS.LLAMA_4_SCOUT, priority: 20 },
+  { name: 'Medium-length submissions', minContentLength: 1001, provider: 'groq', model: LLM_MODELS.LLAMA_4_SCOUT, priority: 20 },
+  { name: 'Default', provider: 'groq', model: LLM_MODELS.LLAMA_8B, priority: 0 },
+]
+
+/**
+ * Check whether a rule's conditions hold for a submission
+ */
+export function ruleMatches(rule: RoutingRule, context: RoutingContext): boolean {
+  if (rule.questionId && rule.questionId !== context.questionId) return false
+  if (rule.courseId && rule.courseId !== context.courseId) return false
+  if (rule.submissionType && rule.submissionType !== context.submissionType) return false
+  if (rule.minContentLength != null && context.contentLength < rule.minContentLength) return false
+  if (rule.maxContentLength != null && context.contentLength > rule.maxContentLength) return false
+  if (rule.hasBaseExample != null && rule.hasBaseExample !== context.hasBaseExample) return false
+  return true
+}
+
+// Question pins beat course overrides, which beat deployment-wide rules
+function ruleSpecificity(rule: RoutingRule): number {
+  if (rule.questionId) return 2
+  if (rule.courseId) return 1
+  return 0
+}
+
+/**
+ * Pick the most specific, highest-priority matching rule
+ */
+export function matchRoutingRule(rules: RoutingRule[], context: RoutingContext): RoutingRule | null {
+  const candidates = rules
+    .filter(rule => ruleMatches(rule, context))
+    .sort((a, b) => ruleSpecificity(b) - ruleSpecificity(a) || b.priority - a.priority)
+
+  return candidates[0] || null
+}
+
+/**
+ * Load the active stored rules that could apply to a course/question
+ */
+export async function loadRoutingRules(courseId?: string, questionId?: string): Promise<RoutingRule[]> {
+  const rules = await prisma.modelRoutingRule.findMany({
+    where: {
+      isActive: true,
+      AND: [
+        { OR: [{ courseId: null }, ...(courseId ? [{ courseId }] : [])] },
+        { OR: [{ questionId: null }, ...(questionId ? [{ questionId }] : [])] },
+      ],
+    },
+  })
+
+  return rules.map(rule => ({
+    ...rule,
+    submissionType: rule.submissionType as SubmissionType | null,
+  }))
+}
+
+/**
+ * Decide which provider and model should grade a submission
+ */
+export async function resolveModelRoute(context: RoutingContext): Promise<ModelRoute> {
+  let storedRules: RoutingRule[] = []
+  try {
+    if (!context.ignoreStoredRules) {
+      storedRules = await loadRoutingRules(context.courseId, context.questionId)
+    }
+  } catch (error) {
+    // Routing must never block an assessment; fall back to the built-in table
+    console.warn('⚠️ Could not load model routing rules, using defaults:', error)
+  }
+
+  // A course's own provider outranks deployment-wide rules that send work elsewhere;
+  // course and question rules still outrank the course provider
+  const applicableRules = context.provider
+    ? storedRules.filter(rule => ruleSpecificity(rule) > 0 || rule.provider === context.provider)
+    : storedRules
+
+  const storedMatch = matchRoutingRule(applicableRules, context)
+  if (storedMatch) {
+    return {
+      provider: storedMatch.provider,
+      model: storedMatch.model,
+      ruleId: storedMatch.id,
+      ruleName: storedMatch.name,
+    }
+  }
+
+  const provider = getLLMProvider(context.provider)
+  const defaultMatch = matchRoutingRule(DEFAULT_ROUTING_RULES, context)
+  // Built-in rules name Groq models; other providers use their own default
+  const model = defaultMatch && provider.listModels().includes(defaultMatch.model)
+    ? defaultMatch.model
+    : provider.defaultModel
+
+  return {
+    provider: provider.name,
+    model,
+    ruleName: defaultMatch?.name || 'Provider default',
+  }
+}
+
+/**
+ * Confirm a rule's provider is configured and serves its model
+ */
+export async function validateRoutingTarget(providerName: string, model: string): Promise<{ valid: boolean; error?: string }> {
+  const provider = getLLMProvider(providerName)
+  if (provider.name !== providerName) {
+    return { valid: false, error: `Unknown provider "${providerName}"` }
+  }
+
+  if (!provider.isConfigured()) {
+    return { valid: false, error: `Provider "${providerName}" is not configured on this deployment` }
+  }
+
+  const available = await provider.isModelAvailable(model)
+  if (!available) {
+    return { valid: false, error: `Model "${model}" is not available from ${providerName}` }
+  }
+
+  return { valid: true }
+}
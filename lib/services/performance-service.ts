@@ -0,0 +1,298 @@
+// lib/services/performance-service.ts
+// Page weight and loading analysis for website submissions. Works from the network requests a
+// headless browser recorded while loading the page, or, without a browser, from fetching the
+// page's scripts, stylesheets, images and icons one by one. Reports transfer size, request
+// count, the largest assets, render-blocking resources, image, caching and compression
+// opportunities, and checks the result against the question's performance budget.
+
+export type ResourceType = 'document' | 'script' | 'stylesheet' | 'image' | 'font' | 'media' | 'fetch' | 'other'
+
+export interface NetworkResource {
+  url: string
+  type: ResourceType
+  status: number | null
+  transferSize: number // Bytes over the network (compressed), headers excluded
+  contentType?: string
+  contentEncoding?: string
+  cacheControl?: string
+  renderBlocking: boolean
+}
+
+// Image as laid out in the browser, for spotting images far larger than they are shown
+export interface ImageSample {
+  url: string
+  naturalWidth: number
+  naturalHeight: number
+  displayWidth: number
+  displayHeight: number
+}
+
+// Collected in the browser by PERFORMANCE_SCRIPT
+export interface BrowserPerformanceSample {
+  timing: {
+    domContentLoaded: number | null // Milliseconds from navigation start
+    load: number | null
+    firstContentfulPaint: number | null
+    largestContentfulPaint: number | null
+  }
+  renderBlocking: string[] // Resource URLs Chrome marked as render-blocking
+  images: ImageSample[]
+}
+
+export interface PerformanceBudget {
+  maxPageWeightKb?: number | null
+  maxRequests?: number | null
+  maxLoadTimeMs?: number | null
+}
+
+export interface PerformanceBudgetResult {
+  metric: 'pageWeight' | 'requests' | 'loadTime'
+  label: string // e.g. 'Page weight under 2 MB'
+  actual: string
+  passed: boolean | null // Null when the metric couldn't be measured
+}
+
+export interface PerformanceOpportunity {
+  url: string
+  transferSize: number
+  detail: string
+}
+
+export interface PerformanceReport {
+  source: 'rendered' | 'fetched'
+  totalBytes: number
+  requestCount: number
+  byType: Partial<Record<ResourceType, { count: number; bytes: number }>>
+  largestAssets: NetworkResource[]
+  renderBlocking: NetworkResource[]
+  images: PerformanceOpportunity[]
+  uncompressed: PerformanceOpportunity[]
+  uncached: PerformanceOpportunity[]
+  timing: BrowserPerformanceSample['timing'] | null // Rendered pages only
+  budget: PerformanceBudgetResult[]
+}
+
+const LARGEST_ASSETS = 5
+const MAX_LISTED = 10
+const LARGE_IMAGE_BYTES = 200 * 1024
+const LEGACY_FORMAT_IMAGE_BYTES = 100 * 1024
+const OVERSIZED_IMAGE_RATIO = 2 // Natural width this many times the displayed width
+const MIN_COMPRESSIBLE_BYTES = 1024
+const MIN_CACHE_SECONDS = 3600
+const COMPRESSIBLE_TYPE = /text\/|javascript|json|xml|svg|wasm|font\/(ttf|otf)/i
+const CACHEABLE_TYPES: ResourceType[] = ['script', 'stylesheet', 'image', 'font']
+
+// Timings, render-blocking resources and image sizes from a rendered page. Evaluated as a string,
+// like the accessibility contrast script, so bundlers can't rewrite it.
+export const PERFORMANCE_SCRIPT = `new Promise(resolve => {
+  let largestContentfulPaint = null
+  try {
+    new PerformanceObserver(list => {
+      const entries = list.getEntries()
+      largestContentfulPaint = entries[entries.length - 1].startTime
+    }).observe({ type: 'largest-contentful-paint', buffered: true })
+  } catch (error) {}
+  setTimeout(() => {
+    const navigation = performance.getEntriesByType('navigation')[0]
+    const paint = performance.getEntriesByType('paint').find(entry => entry.name === 'first-contentful-paint')
+    resolve({
+      timing: {
+        domContentLoaded: navigation ? Math.round(navigation.domContentLoadedEventEnd) : null,
+        load: navigation ? Math.round(navigation.loadEventEnd) : null,
+        firstContentfulPaint: paint ? Math.round(paint.startTime) : null,
+        largestContentfulPaint: largestContentfulPaint === null ? null : Math.round(largestContentfulPaint),
+      },
+      renderBlocking: performance.getEntriesByType('resource')
+        .filter(entry => entry.renderBlockingStatus === 'blocking')
+        .map(entry => entry.name),
+      images: Array.from(document.images)
+        .filter(image => image.complete && image.naturalWidth > 0 && image.clientWidth > 0)
+        .map(image => ({
+          url: image.currentSrc || image.src,
+          naturalWidth: image.naturalWidth,
+          naturalHeight: image.naturalHeight,
+          displayWidth: image.clientWidth,
+          displayHeight: image.clientHeight,
+        })),
+    })
+  }, 100)
+})`
+
+/**
+ * Human-readable size, e.g. 1.8 MB or 240 KB
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  if (bytes >= 1024) return `${Math.round(bytes / 1024)} KB`
+  return `${bytes} B`
+}
+
+/**
+ * Resource type for a content type, for resources fetched without a browser
+ */
+export function resourceTypeFor(contentType: string | undefined, fallback: ResourceType): ResourceType {
+  if (!contentType) return fallback
+  if (/html/i.test(contentType)) return 'document'
+  if (/javascript|ecmascript/i.test(contentType)) return 'script'
+  if (/text\/css/i.test(contentType)) return 'stylesheet'
+  if (/^image\//i.test(contentType)) return 'image'
+  if (/^font\/|woff/i.test(contentType)) return 'font'
+  if (/^(video|audio)\//i.test(contentType)) return 'media'
+  return fallback
+}
+
+function cacheLifetime(cacheControl: string | undefined): number {
+  if (!cacheControl || /no-store|no-cache/i.test(cacheControl)) return 0
+  const maxAge = cacheControl.match(/(?:s-)?max-age=(\d+)/i)
+  return maxAge ? parseInt(maxAge[1], 10) : 0
+}
+
+const shortUrl = (url: string) => {
+  try {
+    const { pathname, search } = new URL(url)
+    return `${pathname}${search}`.slice(0, 100)
+  } catch {
+    return url.slice(0, 100)
+  }
+}
+
+function checkBudget(budget: PerformanceBudget, totalBytes: number, requestCount: number, loadTime: number | null): PerformanceBudgetResult[] {
+  const results: PerformanceBudgetResult[] = []
+
+  if (budget.maxPageWeightKb) {
+    results.push({
+      metric: 'pageWeight',
+      label: `Page weight under ${formatBytes(budget.maxPageWeightKb * 1024)}`,
+      actual: formatBytes(totalBytes),
+      passed: totalBytes <= budget.maxPageWeightKb * 1024,
+    })
+  }
+  if (budget.maxRequests) {
+    results.push({
+      metric: 'requests',
+      label: `At most ${budget.maxRequests} requests`,
+      actual: `${requestCount} requests`,
+      passed: requestCount <= budget.maxRequests,
+    })
+  }
+  if (budget.maxLoadTimeMs) {
+    results.push({
+      metric: 'loadTime',
+      label: `Loads within ${(budget.maxLoadTimeMs / 1000).toFixed(1)}s`,
+      actual: loadTime === null ? 'not measured (needs a headless browser)' : `${(loadTime / 1000).toFixed(1)}s`,
+      passed: loadTime === null ? null : loadTime <= budget.maxLoadTimeMs,
+    })
+  }
+
+  return results
+}
+
+/**
+ * Analyse the requests made to load a page. Pass the browser sample for rendered pages to
+ * include timings, Chrome's render-blocking list and images shown smaller than their size.
+ */
+export function analyzePerformance(
+  resources: NetworkResource[],
+  options: { source: PerformanceReport['source']; sample?: BrowserPerformanceSample | null; loadTime?: number | null; budget?: PerformanceBudget } = { source: 'fetched' }
+): PerformanceReport {
+  const sample = options.sample ?? null
+  const blockingUrls = new Set(sample?.renderBlocking || [])
+  const measured = resources.map(resource => blockingUrls.has(resource.url) ? { ...resource, renderBlocking: true } : resource)
+
+  const totalBytes = measured.reduce((sum, resource) => sum + resource.transferSize, 0)
+  const byType: PerformanceReport['byType'] = {}
+  for (const resource of measured) {
+    const entry = byType[resource.type] ??= { count: 0, bytes: 0 }
+    entry.count++
+    entry.bytes += resource.transferSize
+  }
+
+  const images: PerformanceOpportunity[] = []
+  const imageSamples = new Map((sample?.images || []).map(image => [image.url, image]))
+  for (const resource of measured.filter(candidate => candidate.type === 'image')) {
+    const layout = imageSamples.get(resource.url)
+    const legacyFormat = /jpe?g|png|gif|bmp/i.test(resource.contentType || resource.url)
+    if (layout && layout.naturalWidth >= layout.displayWidth * OVERSIZED_IMAGE_RATIO && resource.transferSize > LEGACY_FORMAT_IMAGE_BYTES / 2) {
+      images.push({
+        url: resource.url,
+        transferSize: resource.transferSize,
+        detail: `${layout.naturalWidth}x${layout.naturalHeight} image shown at ${layout.displayWidth}x${layout.displayHeight}; resize it or use srcset`,
+      })
+    } else if (resource.transferSize > LARGE_IMAGE_BYTES) {
+      images.push({ url: resource.url, transferSize: resource.transferSize, detail: `${formatBytes(resource.transferSize)} image; compress or resize it` })
+    } else if (legacyFormat && resource.transferSize > LEGACY_FORMAT_IMAGE_BYTES) {
+      images.push({ url: resource.url, transferSize: resource.transferSize, detail: 'Serve it as WebP or AVIF' })
+    }
+  }
+
+  const uncompressed = measured
+    .filter(resource => COMPRESSIBLE_TYPE.test(resource.contentType || '') && resource.transferSize >= MIN_COMPRESSIBLE_BYTES && !resource.contentEncoding)
+    .map(resource => ({ url: resource.url, transferSize: resource.transferSize, detail: 'Served without gzip or brotli compression' }))
+
+  const uncached = measured
+    .filter(resource => CACHEABLE_TYPES.includes(resource.type) && resource.status !== null && resource.status < 400 && cacheLifetime(resource.cacheControl) < MIN_CACHE_SECONDS)
+    .map(resource => ({
+      url: resource.url,
+      transferSize: resource.transferSize,
+      detail: resource.cacheControl ? `Cache-Control: ${resource.cacheControl}` : 'No Cache-Control header',
+    }))
+
+  const bySize = (a: { transferSize: number }, b: { transferSize: number }) => b.transferSize - a.transferSize
+  const loadTime = options.loadTime ?? sample?.timing.load ?? null
+
+  return {
+    source: options.source,
+    totalBytes,
+    requestCount: measured.length,
+    byType,
+    largestAssets: [...measured].sort(bySize).slice(0, LARGEST_ASSETS),
+    renderBlocking: measured.filter(resource => resource.renderBlocking),
+    images: images.sort(bySize).slice(0, MAX_LISTED),
+    uncompressed: uncompressed.sort(bySize).slice(0, MAX_LISTED),
+    uncached: uncached.sort(bySize).slice(0, MAX_LISTED),
+    timing: sample?.timing ?? null,
+    budget: checkBudget(options.budget || {}, totalBytes, measured.length, options.source === 'rendered' ? loadTime : null),
+  }
+}
+
+/**
+ * Markdown summary of a performance report for the assessment prompt
+ */
+export function formatPerformanceReport(report: PerformanceReport): string {
+  const lines: string[] = []
+  const types = Object.entries(report.byType)
+    .sort(([, a], [, b]) => b.bytes - a.bytes)
+    .map(([type, { count, bytes }]) => `${type} ${count} (${formatBytes(bytes)})`)
+
+  lines.push(`Measured: ${report.source === 'rendered' ? 'requests made by a headless browser' : 'resources referenced in the HTML (not rendered; requests made by scripts are missing)'}`)
+  lines.push(`Page weight: ${formatBytes(report.totalBytes)} in ${report.requestCount} requests`)
+  if (types.length > 0) lines.push(`By type: ${types.join(', ')}`)
+  if (report.timing) {
+    const { firstContentfulPaint, largestContentfulPaint, domContentLoaded, load } = report.timing
+    const ms = (value: number | null) => value === null ? 'n/a' : `${value}ms`
+    lines.push(`Timing: first contentful paint ${ms(firstContentfulPaint)}, largest contentful paint ${ms(largestContentfulPaint)}, DOMContentLoaded ${ms(domContentLoaded)}, load ${ms(load)}`)
+  }
+
+  if (report.budget.length > 0) {
+    lines.push('')
+    lines.push('Performance budget:')
+    report.budget.forEach(result => lines.push(`- ${result.passed === null ? '❔' : result.passed ? '✅' : '❌'} ${result.label}: ${result.actual}`))
+  }
+
+  const list = (title: string, items: { url: string; transferSize: number; detail?: string }[]) => {
+    if (items.length === 0) return
+    lines.push('')
+    lines.push(`${title}:`)
+    items.forEach(item => lines.push(`- ${shortUrl(item.url)} (${formatBytes(item.transferSize)})${item.detail ? `: ${item.detail}` : ''}`))
+  }
+  list('Largest assets', report.largestAssets)
+  list('Render-blocking resources', report.renderBlocking.map(resource => ({
+    ...resource,
+    detail: resource.type === 'script' ? 'Script in <head> without async or defer' : 'Stylesheet that blocks first paint',
+  })))
+  list('Image opportunities', report.images)
+  list('Uncompressed text assets', report.uncompressed)
+  list('Static assets without long-lived caching', report.uncached)
+
+  return lines.join('\n')
+}
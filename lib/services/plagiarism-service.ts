@@ -0,0 +1,367 @@
+// lib/services/plagiarism-service.ts
+// Cross-submission similarity. Each text, document or repository submission is reduced to
+// winnowed hashes of overlapping token shingles (word shingles for prose, normalized token
+// shingles for code) and compared with the other students' submissions to the same question.
+// Everything runs against our own database; no external service is involved.
+import { FingerprintKind, Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { logError } from '@/lib/utils/error-handling'
+import type { GitHubFile } from './github-service'
+
+// Overlapping character ranges, [start, end) in each submission's indexed content
+export interface SimilarityPassage {
+  a: { start: number; end: number } // In SimilarityMatch.submission
+  b: { start: number; end: number } // In SimilarityMatch.matchedSubmission
+}
+
+interface Token {
+  value: string
+  start: number
+  end: number
+}
+
+const SHINGLE_SIZE: Record<FingerprintKind, number> = { TEXT: 5, CODE: 12 }
+// Winnowing guarantees that any run of WINDOW + SHINGLE_SIZE - 1 shared tokens is caught
+const WINDOW_SIZE: Record<FingerprintKind, number> = { TEXT: 4, CODE: 6 }
+// Share of the smaller submission's fingerprints found in the other one
+export const SIMILARITY_THRESHOLD: Record<FingerprintKind, number> = { TEXT: 0.4, CODE: 0.5 }
+
+const MIN_FINGERPRINTS = 10 // Shorter submissions share phrases by chance
+const MAX_CONTENT_LENGTH = 200000 // Characters indexed per submission
+const MAX_PASSAGES = 50
+// A hash found in at least this share of the question's submissions is treated as
+// template or starter code, once there are enough submissions to tell
+const COMMON_HASH_SHARE = 0.5
+const COMMON_HASH_MIN_SUBMISSIONS = 4
+
+// Fields shown for each side of a flagged pair
+export const SIMILARITY_SUBMISSION_SELECT = {
+  id: true,
+  createdAt: true,
+  status: true,
+  user: { select: { id: true, name: true, email: true } },
+} satisfies Prisma.SubmissionSelect
+
+// Select clause for listing flagged pairs with the question they were submitted to
+export const SIMILARITY_MATCH_SELECT = {
+  id: true,
+  courseId: true,
+  questionId: true,
+  kind: true,
+  score: true,
+  sharedFingerprints: true,
+  status: true,
+  reviewedAt: true,
+  createdAt: true,
+  submission: {
+    select: {
+      ...SIMILARITY_SUBMISSION_SELECT,
+      question: { select: { id: true, title: true, questionNumber: true, course: { select: { id: true, name: true } } } },
+    },
+  },
+  matchedSubmission: { select: SIMILARITY_SUBMISSION_SELECT },
+} satisfies Prisma.SimilarityMatchSelect
+
+export type SimilarityMatchSummary = Prisma.SimilarityMatchGetPayload<{ select: typeof SIMILARITY_MATCH_SELECT }>
+
+const CODE_EXTENSIONS = new Set(['js', 'jsx', 'ts', 'tsx', 'py', 'java', 'c', 'cpp', 'h', 'cs', 'go', 'rs', 'rb', 'php'])
+const HASH_COMMENT_EXTENSIONS = new Set(['py', 'rb'])
+const FILE_HEADER = /^\/\/ ==== (.+) ====$/gm
+
+// Kept as-is in normalized code; every other identifier becomes "V" so renaming variables changes nothing
+const CODE_KEYWORDS = new Set([
+  'if', 'else', 'for', 'while', 'do', 'switch', 'case', 'default', 'break', 'continue', 'return', 'try', 'catch',
+  'finally', 'throw', 'throws', 'except', 'raise', 'with', 'yield', 'await', 'async', 'function', 'def', 'lambda',
+  'class', 'interface', 'struct', 'enum', 'new', 'delete', 'import', 'from', 'export', 'package', 'const', 'let',
+  'var', 'static', 'public', 'private', 'protected', 'void', 'int', 'long', 'float', 'double', 'char', 'bool',
+  'boolean', 'string', 'true', 'false', 'null', 'None', 'True', 'False', 'this', 'self', 'super', 'in', 'of',
+  'and', 'or', 'not', 'is', 'elif', 'pass', 'fn', 'func', 'go', 'impl', 'match', 'mut', 'pub', 'use', 'typeof',
+])
+
+const CODE_TOKEN = /\/\/[^\n]*|\/\*[\s\S]*?\*\/|#[^\n]*|"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'|`(?:\\.|[^`\\])*`|\d[\w.]*|[A-Za-z_$][\w$]*|[^\s\w]/g
+
+function textTokens(content: string): Token[] {
+  return [...content.matchAll(/[\p{L}\p{N}]+/gu)].map(match => ({
+    value: match[0].toLowerCase(),
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }))
+}
+
+function codeTokens(content: string): Token[] {
+  // Repository content is a sequence of files, each after a FILE_HEADER line
+  const headers = [...content.matchAll(FILE_HEADER)]
+  const segments = headers.length > 0
+    ? headers.map((header, i) => ({
+        path: header[1],
+        start: header.index! + header[0].length,
+        end: headers[i + 1]?.index ?? content.length,
+      }))
+    : [{ path: '', start: 0, end: content.length }]
+
+  const tokens: Token[] = []
+  for (const segment of segments) {
+    const hashComments = HASH_COMMENT_EXTENSIONS.has(segment.path.split('.').pop()?.toLowerCase() ?? '')
+    const pattern = new RegExp(CODE_TOKEN.source, 'g')
+    pattern.lastIndex = segment.start
+
+    let match: RegExpExecArray | null
+    while ((match = pattern.exec(content)) && match.index < segment.end) {
+      const text = match[0]
+      let value: string
+      if (text.startsWith('//') || text.startsWith('/*')) {
+        continue
+      } else if (text.startsWith('#')) {
+        if (hashComments) continue
+        // Preprocessor lines and the like: keep the symbol, read the rest as tokens
+        pattern.lastIndex = match.index + 1
+        value = '#'
+      } else if (/^["'`]/.test(text)) {
+        value = 'S'
+      } else if (/^\d/.test(text)) {
+        value = 'N'
+      } else if (/^[A-Za-z_$]/.test(text)) {
+        value = CODE_KEYWORDS.has(text) ? text : 'V'
+      } else {
+        value = text
+      }
+      tokens.push({ value, start: match.index, end: match.index + text.length })
+    }
+  }
+  return tokens
+}
+
+function tokenize(content: string, kind: FingerprintKind): Token[] {
+  return kind === 'CODE' ? codeTokens(content) : textTokens(content)
+}
+
+// 32-bit FNV-1a, as a signed integer so it fits a Postgres int column
+function hashString(text: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash | 0
+}
+
+function shingleHashes(tokens: Token[], kind: FingerprintKind): number[] {
+  const size = SHINGLE_SIZE[kind]
+  const hashes: number[] = []
+  for (let i = 0; i + size <= tokens.length; i++) {
+    hashes.push(hashString(tokens.slice(i, i + size).map(token => token.value).join(' ')))
+  }
+  return hashes
+}
+
+/**
+ * Winnowed fingerprint of some content: the smallest shingle hash of every window
+ */
+export function fingerprint(content: string, kind: FingerprintKind): number[] {
+  const hashes = shingleHashes(tokenize(content, kind), kind)
+  const window = WINDOW_SIZE[kind]
+  if (hashes.length <= window) {
+    return [...new Set(hashes)]
+  }
+
+  const selected = new Set<number>()
+  for (let i = 0; i + window <= hashes.length; i++) {
+    selected.add(Math.min(...hashes.slice(i, i + window)))
+  }
+  return [...selected]
+}
+
+/**
+ * Code files of a repository in one string, each after a header line naming the file
+ */
+export function repositoryContent(files: GitHubFile[]): string {
+  return files
+    .filter(file => CODE_EXTENSIONS.has(file.path.split('.').pop()?.toLowerCase() ?? ''))
+    .map(file => `// ==== ${file.path} ====\n${file.content}`)
+    .join('\n')
+}
+
+/**
+ * Runs of shingles the two contents share, as character ranges in each. Uses every
+ * shingle rather than the winnowed ones so the passages are complete.
+ */
+export function findOverlappingPassages(contentA: string, contentB: string, kind: FingerprintKind): SimilarityPassage[] {
+  const tokensA = tokenize(contentA, kind)
+  const tokensB = tokenize(contentB, kind)
+  const hashesA = shingleHashes(tokensA, kind)
+  const hashesB = shingleHashes(tokensB, kind)
+  const size = SHINGLE_SIZE[kind]
+
+  const positionsB = new Map<number, number[]>()
+  hashesB.forEach((hash, index) => {
+    const positions = positionsB.get(hash) ?? []
+    if (positions.length < 5) positions.push(index)
+    positionsB.set(hash, positions)
+  })
+
+  const passages: Array<SimilarityPassage & { length: number }> = []
+  let i = 0
+  while (i < hashesA.length) {
+    let bestStart = -1
+    let bestLength = 0
+    for (const j of positionsB.get(hashesA[i]) ?? []) {
+      let length = 0
+      while (i + length < hashesA.length && j + length < hashesB.length && hashesA[i + length] === hashesB[j + length]) {
+        length++
+      }
+      if (length > bestLength) {
+        bestStart = j
+        bestLength = length
+      }
+    }
+
+    if (bestLength === 0) {
+      i++
+      continue
+    }
+
+    // bestLength shingles cover bestLength + size - 1 tokens
+    const lastA = tokensA[i + bestLength + size - 2]
+    const lastB = tokensB[bestStart + bestLength + size - 2]
+    passages.push({
+      a: { start: tokensA[i].start, end: lastA.end },
+      b: { start: tokensB[bestStart].start, end: lastB.end },
+      length: bestLength,
+    })
+    i += bestLength
+  }
+
+  return passages
+    .sort((x, y) => y.length - x.length)
+    .slice(0, MAX_PASSAGES)
+    .sort((x, y) => x.a.start - y.a.start)
+    .map(({ a, b }) => ({ a, b }))
+}
+
+/**
+ * Compare one stored fingerprint with the latest submission of every other student to
+ * the same question, creating or refreshing a SimilarityMatch for each pair over the
+ * threshold. Pairs that no longer match are removed unless an instructor reviewed them.
+ * Returns the number of flagged pairs.
+ */
+export async function compareSubmissionFingerprint(submissionId: string): Promise<number> {
+  // Hashes only: content is loaded for flagged pairs alone, since a question can have hundreds of submissions
+  const own = await prisma.submissionFingerprint.findUnique({
+    where: { submissionId },
+    select: {
+      submissionId: true,
+      questionId: true,
+      kind: true,
+      hashes: true,
+      submission: { select: { userId: true, createdAt: true, question: { select: { courseId: true } } } },
+    },
+  })
+  if (!own) return 0
+
+  const candidates = await prisma.submissionFingerprint.findMany({
+    where: { questionId: own.questionId, kind: own.kind, submissionId: { not: submissionId } },
+    select: { submissionId: true, hashes: true, submission: { select: { userId: true, createdAt: true } } },
+    orderBy: { submission: { createdAt: 'desc' } },
+  })
+
+  // Template text and starter code: hashes most of the question's submissions contain
+  const documentFrequency = new Map<number, number>()
+  for (const hashes of [own.hashes, ...candidates.map(candidate => candidate.hashes)]) {
+    for (const hash of new Set(hashes)) {
+      documentFrequency.set(hash, (documentFrequency.get(hash) ?? 0) + 1)
+    }
+  }
+  const submissionCount = candidates.length + 1
+  const isCommon = (hash: number) =>
+    submissionCount >= COMMON_HASH_MIN_SUBMISSIONS && (documentFrequency.get(hash) ?? 0) / submissionCount >= COMMON_HASH_SHARE
+
+  // A resubmission replaces the student's earlier work, which is no longer compared
+  if (candidates.some(candidate => candidate.submission.userId === own.submission.userId && candidate.submission.createdAt > own.submission.createdAt)) {
+    return 0
+  }
+
+  const ownHashes = new Set(own.hashes.filter(hash => !isCommon(hash)))
+  const seenUsers = new Set([own.submission.userId])
+  let flagged = 0
+
+  for (const candidate of candidates) {
+    // Only each student's latest submission; a student resubmitting is not copying
+    if (seenUsers.has(candidate.submission.userId)) continue
+    seenUsers.add(candidate.submission.userId)
+
+    const candidateHashes = new Set(candidate.hashes.filter(hash => !isCommon(hash)))
+    const smaller = Math.min(ownHashes.size, candidateHashes.size)
+    const shared = [...ownHashes].filter(hash => candidateHashes.has(hash)).length
+    const score = smaller >= MIN_FINGERPRINTS ? shared / smaller : 0
+
+    // The later submission of a pair is the one under suspicion
+    const [later, earlier] = candidate.submission.createdAt > own.submission.createdAt
+      ? [candidate, own]
+      : [own, candidate]
+    const pair = { submissionId: later.submissionId, matchedSubmissionId: earlier.submissionId }
+
+    if (score < SIMILARITY_THRESHOLD[own.kind]) {
+      await prisma.similarityMatch.deleteMany({ where: { ...pair, status: 'PENDING' } })
+      continue
+    }
+
+    const contents = await prisma.submissionFingerprint.findMany({
+      where: { submissionId: { in: [later.submissionId, earlier.submissionId] } },
+      select: { submissionId: true, content: true },
+    })
+    const contentOf = (id: string) => contents.find(fingerprint => fingerprint.submissionId === id)?.content ?? ''
+
+    const match = {
+      courseId: own.submission.question.courseId,
+      questionId: own.questionId,
+      kind: own.kind,
+      score: Math.round(score * 1000) / 1000,
+      sharedFingerprints: shared,
+      passages: findOverlappingPassages(contentOf(later.submissionId), contentOf(earlier.submissionId), own.kind) as unknown as Prisma.InputJsonValue,
+    }
+    await prisma.similarityMatch.upsert({
+      where: { submissionId_matchedSubmissionId: pair },
+      create: { ...pair, ...match },
+      update: match,
+    })
+    flagged++
+  }
+
+  return flagged
+}
+
+/**
+ * Fingerprint a submission's content and compare it with the rest of its question.
+ * Never throws: a failed similarity check must not fail the assessment.
+ */
+export async function indexSubmissionForSimilarity(
+  submissionId: string,
+  question: { id: string; baseExamples?: Array<{ content?: string | null }> },
+  kind: FingerprintKind,
+  content: string
+): Promise<number> {
+  try {
+    const indexed = content.slice(0, MAX_CONTENT_LENGTH)
+
+    // Whatever the base example contains was handed to every student
+    const exemplarHashes = new Set((question.baseExamples ?? []).flatMap(example =>
+      example.content ? fingerprint(example.content, kind) : []
+    ))
+    const hashes = fingerprint(indexed, kind).filter(hash => !exemplarHashes.has(hash))
+
+    await prisma.submissionFingerprint.upsert({
+      where: { submissionId },
+      create: { submissionId, questionId: question.id, kind, content: indexed, hashes },
+      update: { kind, content: indexed, hashes },
+    })
+
+    const flagged = await compareSubmissionFingerprint(submissionId)
+    if (flagged > 0) {
+      console.log(`🔁 Submission ${submissionId} overlaps with ${flagged} other submission(s)`)
+    }
+    return flagged
+  } catch (error) {
+    logError('Similarity index', error, { submissionId })
+    return 0
+  }
+}
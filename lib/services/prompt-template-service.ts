@@ -0,0 +1,334 @@
+// lib/services/prompt-template-service.ts
+// Named, versioned openings for the assessment prompt, one set per submission type.
+// Templates use {{variable}} placeholders, {{#variable}}...{{/variable}} blocks that
+// only render when the variable is non-empty and {{^variable}}...{{/variable}} blocks
+// that only render when it is empty.
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import type { AssessmentRequest } from './llm-service'
+
+type SubmissionType = 'TEXT' | 'DOCUMENT' | 'GITHUB_REPO' | 'SCREENSHOT' | 'WEBSITE'
+
+// Everything a template can reference, with the help text shown to admins
+export const PROMPT_VARIABLES = {
+  questionTitle: 'Assessment title',
+  questionDescription: 'Assessment description',
+  submissionType: 'TEXT, DOCUMENT, GITHUB_REPO, SCREENSHOT or WEBSITE',
+  submissionContent: 'What the student submitted: text, extracted document text, repository or website summary, or screenshot URL/description',
+  submissionDetails: 'Extra facts about the submission, e.g. document metadata or screenshot dimensions (may be empty)',
+  attachedImages: 'Images sent to the model with the prompt, e.g. "1 image" (empty when the model only gets text)',
+  baseExampleContent: 'Content of the reference answer (may be empty)',
+  baseExampleDescription: 'Description of the reference answer (may be empty)',
+  baseExampleMetadata: 'Why the reference answer is good, one "- key: value" line per entry (may be empty)',
+  baseExampleSection: 'Ready-made reference answer block with comparison instructions (empty without a base example)',
+} as const
+
+export type PromptVariableName = keyof typeof PROMPT_VARIABLES
+export type PromptVariables = Record<PromptVariableName, string>
+
+export const MAX_PROMPT_TEMPLATE_LENGTH = 20000
+
+// Include clause for listing stored versions with who saved them
+export const PROMPT_TEMPLATE_INCLUDE = {
+  creator: { select: { name: true, email: true } },
+} satisfies Prisma.PromptTemplateInclude
+
+export type PromptTemplateWithCreator = Prisma.PromptTemplateGetPayload<{ include: typeof PROMPT_TEMPLATE_INCLUDE }>
+
+export type ResolvedPromptTemplate = {
+  id: string | null // null for a built-in template
+  name: string
+  version: number
+  body: string
+}
+
+// A block with no other block tag inside, so nested blocks resolve innermost-first
+// and crossed blocks never match
+const SECTION_PATTERN = /\{\{([#^])(\w+)\}\}((?:(?!\{\{[#^/]\w+\}\})[\s\S])*)\{\{\/\2\}\}/g
+const TAG_PATTERN = /\{\{([#^/]?)(\w*)\}\}/g
+const STANDALONE_TAG_PATTERN = /^[ \t]*(\{\{[#^/]\w+\}\})[ \t]*\r?\n/gm
+
+/**
+ * Interpolate a template. Unknown variables render as empty strings;
+ * validatePromptTemplate catches them before a template is saved.
+ */
+export function renderPromptTemplate(body: string, variables: Partial<PromptVariables>): string {
+  const value = (name: string) => variables[name as PromptVariableName] ?? ''
+
+  // A block tag alone on its line takes the line with it, so blocks leave no blank lines
+  let rendered = body.replace(STANDALONE_TAG_PATTERN, '$1')
+
+  // Resolve blocks innermost-first until none are left
+  let previous: string
+  do {
+    previous = rendered
+    rendered = rendered.replace(SECTION_PATTERN, (_, kind: string, name: string, inner: string) => {
+      const present = value(name).trim() !== ''
+      return (kind === '#') === present ? inner : ''
+    })
+  } while (rendered !== previous)
+
+  return rendered.replace(/\{\{(\w+)\}\}/g, (_, name: string) => value(name))
+}
+
+/**
+ * Problems that would stop a template from producing a usable prompt
+ */
+export function validatePromptTemplate(body: string): string[] {
+  const problems: string[] = []
+
+  if (body.trim() === '') {
+    return ['Template body is empty']
+  }
+  if (body.length > MAX_PROMPT_TEMPLATE_LENGTH) {
+    problems.push(`Template is longer than ${MAX_PROMPT_TEMPLATE_LENGTH} characters`)
+  }
+
+  const unknown = new Set<string>()
+  for (const [, , name] of body.matchAll(TAG_PATTERN)) {
+    if (!(name in PROMPT_VARIABLES)) unknown.add(name || '(empty)')
+  }
+  if (unknown.size > 0) {
+    problems.push(`Unknown variable(s): ${[...unknown].join(', ')}`)
+  }
+
+  // Tags render only when written exactly as {{name}}; anything else would reach the model as written
+  const malformed = [...body.matchAll(/\{\{[^}]*\}\}/g)]
+    .map(match => match[0])
+    .filter(tag => !new RegExp(`^${TAG_PATTERN.source}$`).test(tag))
+  if (malformed.length > 0) {
+    problems.push(`Malformed tag(s): ${malformed.join(', ')}`)
+  }
+
+  // Strip matched blocks; any block tag left over is unbalanced
+  let stripped = body
+  let previous: string
+  do {
+    previous = stripped
+    stripped = stripped.replace(SECTION_PATTERN, '$3')
+  } while (stripped !== previous)
+  const stray = [...stripped.matchAll(/\{\{[#^/]\w*\}\}/g)].map(match => match[0])
+  if (stray.length > 0) {
+    problems.push(`Unbalanced block tag(s): ${stray.join(', ')}`)
+  }
+
+  if (!/\{\{submissionContent\}\}/.test(body)) {
+    problems.push('Template must include {{submissionContent}} so the model sees the submission')
+  }
+
+  return problems
+}
+
+// Entries of a base example's metadata, one per line
+function formatBaseExampleMetadata(metadata: unknown): string {
+  if (!metadata || typeof metadata !== 'object') return ''
+  return Object.entries(metadata)
+    .map(([key, value]) => `- ${key}: ${typeof value === 'object' ? JSON.stringify(value) : value}`)
+    .join('\n')
+}
+
+function buildBaseExampleSection(content: string, metadata: string): string {
+  if (!content) return ''
+
+  let section = `
+
+**PERFECT ANSWER REFERENCE (BASE EXAMPLE):**
+${content}
+`
+  if (metadata) {
+    section += `
+
+**Why This Example is Perfect (Metadata Analysis):**
+${metadata}
+`
+  }
+
+  return section + `
+
+**DETAILED COMPARISON ANALYSIS REQUIRED:**
+1. **Content Quality**: How does the student's submission compare to the reference in terms of depth, accuracy, and completeness?
+2. **Structure & Organization**: Does the student follow a similar logical flow and structure as the perfect example?
+3. **Technical Accuracy**: Are the concepts, terminology, and facts presented correctly compared to the reference?
+4. **Completeness**: Does the student cover all the key points addressed in the perfect example?
+5. **Innovation & Insight**: Does the student demonstrate original thinking while maintaining the quality standards of the reference?
+
+**COMPARISON SCORING:**
+- If the submission closely matches the perfect example quality: Lean towards "Excellent" or "Good"
+- If it has similar structure but lacks depth compared to the example: "Can Improve"
+- If it significantly deviates or fails to meet the example's standards: "Needs Improvement"
+
+**IMPORTANT:** Use the base example as your quality benchmark. The student doesn't need to be identical to the example, but should demonstrate similar levels of understanding, completeness, and quality.
+`
+}
+
+/**
+ * Template variables for an assessment request
+ */
+export function buildPromptVariables(request: AssessmentRequest): PromptVariables {
+  const baseExampleContent = request.baseExampleContent || ''
+  const baseExampleMetadata = formatBaseExampleMetadata(request.baseExampleMetadata)
+
+  return {
+    questionTitle: request.questionTitle,
+    questionDescription: request.questionDescription,
+    submissionType: request.submissionType,
+    submissionContent: request.submissionContent,
+    submissionDetails: request.submissionDetails || '',
+    attachedImages: request.images?.length
+      ? `${request.images.length} image${request.images.length === 1 ? '' : 's'}`
+      : '',
+    baseExampleContent,
+    baseExampleDescription: request.baseExampleDescription || '',
+    baseExampleMetadata,
+    baseExampleSection: buildBaseExampleSection(baseExampleContent, baseExampleMetadata),
+  }
+}
+
+const ASSESSMENT_CONTEXT = `**ASSESSMENT CONTEXT:**
+Title: {{questionTitle}}
+Description: {{questionDescription}}
+Submission Type: {{submissionType}}`
+
+/**
+ * Built-in templates, used for a submission type with no active stored template
+ */
+export const DEFAULT_PROMPT_TEMPLATES: Record<SubmissionType, { name: string; body: string }> = {
+  TEXT: {
+    name: 'text',
+    body: `You are an expert educational assessor. Please evaluate the following student submission.
+
+${ASSESSMENT_CONTEXT}
+
+**STUDENT SUBMISSION:**
+{{submissionContent}}
+{{baseExampleSection}}`,
+  },
+  DOCUMENT: {
+    name: 'document',
+    body: `You are an expert educational assessor. You are assessing a document submission.
+
+${ASSESSMENT_CONTEXT}
+
+**STUDENT'S DOCUMENT SUBMISSION:**
+{{#submissionDetails}}
+Document Metadata:
+{{submissionDetails}}
+
+{{/submissionDetails}}
+Document Content:
+{{submissionContent}}
+{{#baseExampleDescription}}
+
+Compare this submission with the following base example characteristics:
+{{baseExampleDescription}}
+{{/baseExampleDescription}}
+
+Please provide a comprehensive assessment of this document focusing on:
+1. Content quality and depth
+2. Structure and organization
+3. Writing clarity and professionalism
+4. Whether it meets the assignment requirements
+5. Adherence to any word count or formatting requirements
+
+Provide specific feedback on strengths and areas for improvement.
+`,
+  },
+  GITHUB_REPO: {
+    name: 'github-repo',
+    body: `You are an expert educational assessor. You are assessing a GitHub repository submission.
+
+${ASSESSMENT_CONTEXT}
+
+**STUDENT'S REPOSITORY SUBMISSION:**
+{{submissionContent}}
+
+Please provide a comprehensive assessment of this GitHub repository focusing on:
+1. Code quality and adherence to best practices
+2. Project structure and organization
+3. Documentation (README, comments, API docs)
+4. Testing coverage and quality
+5. Whether it meets the assignment requirements
+6. Overall completeness and professionalism
+7. Development process, from the commit history (incremental commits, meaningful messages, work spread over time)
+
+Provide specific examples from the code when pointing out strengths or areas for improvement.
+`,
+  },
+  WEBSITE: {
+    name: 'website',
+    body: `You are an expert educational assessor. You are assessing a website submission.
+
+${ASSESSMENT_CONTEXT}
+
+**STUDENT'S WEBSITE SUBMISSION:**
+{{submissionContent}}
+
+Please provide a comprehensive assessment of this website focusing on:
+1. Accessibility and functionality
+2. Design and user experience
+3. Technical implementation (HTTPS, performance, metadata)
+4. Whether it meets the assignment requirements
+5. Overall professionalism and completeness
+6. The scripted checks and site crawl: failed checks, broken links and pages that return errors
+7. The measured performance: page weight, requests, caching, compression and any performance budget results
+8. The security posture: grade, failed and weak security headers, cookie flags, TLS, mixed content and exposed files
+
+Provide specific feedback based on the technical analysis above.
+`,
+  },
+  SCREENSHOT: {
+    name: 'screenshot',
+    body: `You are an expert educational assessor. You are assessing a screenshot/visual submission.
+
+${ASSESSMENT_CONTEXT}
+
+**STUDENT'S SCREENSHOT SUBMISSION:**
+{{#submissionDetails}}
+Screenshot Details:
+{{submissionDetails}}
+{{/submissionDetails}}
+{{^submissionDetails}}
+Screenshot Description/URL:
+{{submissionContent}}
+{{/submissionDetails}}
+
+Please provide a comprehensive assessment of this visual submission focusing on:
+1. Visual design and aesthetics
+2. Layout and composition
+3. Whether it demonstrates the required functionality
+4. Adherence to design principles
+5. Overall quality and professionalism
+
+{{#attachedImages}}Note: The screenshot itself is attached ({{attachedImages}}). Assess what is visible in it.{{/attachedImages}}{{^attachedImages}}{{#submissionDetails}}Note: Analyze based on the screenshot metadata and description provided.{{/submissionDetails}}{{^submissionDetails}}Note: The submission is a URL or description. Assess based on the provided information.{{/submissionDetails}}{{/attachedImages}}
+`,
+  },
+}
+
+export function defaultPromptTemplate(submissionType: SubmissionType): ResolvedPromptTemplate {
+  const template = DEFAULT_PROMPT_TEMPLATES[submissionType] || DEFAULT_PROMPT_TEMPLATES.TEXT
+  return { id: null, name: template.name, version: 0, body: template.body }
+}
+
+// Recorded on every AssessmentRun and assessment result
+export function promptTemplateLabel(template: ResolvedPromptTemplate): string {
+  return template.id ? `${template.name}@v${template.version}` : `${template.name}@builtin`
+}
+
+/**
+ * The template that assesses a submission type: its active stored version, or the built-in one
+ */
+export async function resolvePromptTemplate(submissionType: SubmissionType): Promise<ResolvedPromptTemplate> {
+  try {
+    const active = await prisma.promptTemplate.findFirst({
+      where: { submissionType, isActive: true },
+      orderBy: { createdAt: 'desc' },
+      select: { id: true, name: true, version: true, body: true },
+    })
+    if (active) return active
+  } catch (error) {
+    // A template lookup must never block an assessment; fall back to the built-in one
+    console.warn('⚠️ Could not load prompt template, using built-in:', error)
+  }
+
+  return defaultPromptTemplate(submissionType)
+}
@@ -0,0 +1,154 @@
+// lib/services/rubric-service.ts
+import { Prisma } from '@prisma/client'
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import {
+  RUBRIC_LEVELS,
+  legacyArraysFromRubric,
+  rubricFromLegacyArrays,
+  type RubricCriterionInput,
+  type RubricLevelLabel,
+} from '@/lib/types/rubric'
+
+// Include clause that loads a question's rubric in display order
+export const RUBRIC_INCLUDE = {
+  criteria: {
+    include: { levels: { orderBy: { order: 'asc' } } },
+    orderBy: { order: 'asc' },
+  },
+} satisfies Prisma.RubricInclude
+
+export type RubricWithCriteria = Prisma.RubricGetPayload<{ include: typeof RUBRIC_INCLUDE }>
+
+const rubricCriterionSchema = z.object({
+  id: z.string().optional(),
+  kind: z.enum(['CRITERION', 'RED_FLAG', 'BONUS']),
+  title: z.string().trim().min(1, 'Rubric criterion title is required').max(500, 'Rubric criterion title too long'),
+  description: z.string().nullable().optional(),
+  points: z.number().int().min(0, 'Points cannot be negative').max(1000, 'Points too large'),
+  levels: z.array(z.object({
+    label: z.enum(RUBRIC_LEVELS),
+    descriptor: z.string().trim().min(1, 'Level descriptor is required'),
+    points: z.number().int().min(0, 'Points cannot be negative'),
+  })).default([]),
+}).superRefine((criterion, ctx) => {
+  if (criterion.kind !== 'CRITERION') return
+
+  if (criterion.levels.some(level => level.points > criterion.points)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Level points cannot exceed the criterion maximum', path: ['levels'] })
+  }
+
+  // Scoring looks levels up by label, so each one must appear exactly once
+  const labels = criterion.levels.map(level => level.label)
+  const repeated = RUBRIC_LEVELS.filter(label => labels.indexOf(label) !== labels.lastIndexOf(label))
+  const missing = RUBRIC_LEVELS.filter(label => !labels.includes(label))
+  if (repeated.length > 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `"${criterion.title}" repeats level(s): ${repeated.join(', ')}`, path: ['levels'] })
+  }
+  if (missing.length > 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `"${criterion.title}" is missing level(s): ${missing.join(', ')}`, path: ['levels'] })
+  }
+})
+
+// Validates rubrics sent by the editor and the question actions
+export const rubricSchema = z.array(rubricCriterionSchema)
+
+/**
+ * Flatten a stored rubric into the shape used by prompts and the editor
+ */
+export function toRubricInput(rubric: RubricWithCriteria | null | undefined): RubricCriterionInput[] {
+  if (!rubric) return []
+
+  return rubric.criteria.map(criterion => ({
+    id: criterion.id,
+    kind: criterion.kind,
+    title: criterion.title,
+    description: criterion.description,
+    points: criterion.points,
+    levels: criterion.levels.map(level => ({
+      label: level.label as RubricLevelLabel,
+      descriptor: level.descriptor,
+      points: level.points,
+    })),
+  }))
+}
+
+/**
+ * Rubric for a question, falling back to one built from the legacy arrays
+ * for questions that have not been migrated yet
+ */
+export function resolveQuestionRubric(question: {
+  rubric?: RubricWithCriteria | null
+  criteria: string[]
+  redFlags: string[]
+  conditionalChecks: string[]
+}): RubricCriterionInput[] {
+  if (question.rubric && question.rubric.criteria.length > 0) {
+    return toRubricInput(question.rubric)
+  }
+  return rubricFromLegacyArrays(question.criteria, question.redFlags, question.conditionalChecks)
+}
+
+/**
+ * Rebuild a rubric from edited plain lists, keeping the points and level
+ * descriptors of entries whose title and kind are unchanged
+ */
+export function mergeRubricWithLegacyArrays(
+  existing: RubricCriterionInput[],
+  criteria: string[],
+  redFlags: string[],
+  conditionalChecks: string[]
+): RubricCriterionInput[] {
+  const key = (criterion: RubricCriterionInput) => `${criterion.kind}:${criterion.title.trim().toLowerCase()}`
+  const byKey = new Map(existing.map(criterion => [key(criterion), criterion]))
+
+  return rubricFromLegacyArrays(criteria, redFlags, conditionalChecks)
+    .map(criterion => byKey.get(key(criterion)) ?? criterion)
+}
+
+/**
+ * Replace a question's rubric and keep the legacy arrays in sync
+ */
+export async function saveQuestionRubric(
+  questionId: string,
+  criteria: RubricCriterionInput[],
+  db: Prisma.TransactionClient | typeof prisma = prisma
+) {
+  const rubric = await db.rubric.upsert({
+    where: { questionId },
+    create: { questionId },
+    update: {},
+  })
+
+  await db.rubricCriterion.deleteMany({ where: { rubricId: rubric.id } })
+
+  for (const [order, criterion] of criteria.entries()) {
+    await db.rubricCriterion.create({
+      data: {
+        rubricId: rubric.id,
+        kind: criterion.kind,
+        title: criterion.title.trim(),
+        description: criterion.description?.trim() || null,
+        points: criterion.points,
+        order,
+        levels: {
+          create: criterion.kind === 'CRITERION'
+            ? criterion.levels.map((level, levelOrder) => ({
+                label: level.label,
+                descriptor: level.descriptor.trim(),
+                points: level.points,
+                order: levelOrder,
+              }))
+            : [],
+        },
+      },
+    })
+  }
+
+  await db.question.update({
+    where: { id: questionId },
+    data: legacyArraysFromRubric(criteria),
+  })
+
+  return rubric
+}
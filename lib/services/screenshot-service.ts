@@ -15,6 +15,17 @@ export interface ScreenshotInfo {
   description?: string; // User-provided description
 }
 
+// Screenshot normalized for a vision model: oriented, downscaled, JPEG, metadata stripped
+export interface PreparedScreenshotImage {
+  data: string; // Base64
+  mediaType: 'image/jpeg';
+  originalWidth?: number;
+  originalHeight?: number;
+  width: number;
+  height: number;
+  byteSize: number;
+}
+
 export interface ScreenshotUploadOptions {
   userId?: string;
   submissionId?: string;
@@ -24,6 +35,9 @@ export interface ScreenshotUploadOptions {
 
 export class ScreenshotService {
   private readonly DEFAULT_MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
+  // Longest edge sent to vision models; larger images are downscaled by the providers anyway
+  private readonly VISION_MAX_DIMENSION = 1568;
+  private readonly VISION_JPEG_QUALITY = 85;
   private readonly ALLOWED_TYPES = [
     'image/png',
     'image/jpeg',
@@ -99,6 +113,63 @@ export class ScreenshotService {
     }
   }
 
+  /**
+   * Fetch a stored screenshot and normalize it for a vision model. EXIF orientation
+   * is applied before the metadata is dropped, transparency is flattened onto white
+   * and the result is re-encoded as JPEG.
+   */
+  async prepareForVision(url: string, options: Pick<ScreenshotUploadOptions, 'maxFileSize'> = {}): Promise<PreparedScreenshotImage> {
+    const maxSize = options.maxFileSize || this.DEFAULT_MAX_FILE_SIZE;
+
+    const response = await fetch(this.normalizeUrl(url));
+    if (!response.ok) {
+      throw new Error(`Failed to fetch image: ${response.statusText}`);
+    }
+
+    const declaredSize = parseInt(response.headers.get('content-length') || '0', 10);
+    if (declaredSize > maxSize) {
+      throw new Error(`Image exceeds maximum allowed size of ${(maxSize / 1024 / 1024).toFixed(2)}MB`);
+    }
+
+    const input = Buffer.from(await response.arrayBuffer());
+    if (input.length > maxSize) {
+      throw new Error(`Image exceeds maximum allowed size of ${(maxSize / 1024 / 1024).toFixed(2)}MB`);
+    }
+
+    return this.normalizeForVision(input);
+  }
+
+  /**
+   * Resize and re-encode raw image bytes for a vision model
+   */
+  async normalizeForVision(input: Buffer): Promise<PreparedScreenshotImage> {
+    const sharp = (await import('sharp')).default;
+
+    // Only the first frame of animated images is kept
+    const original = await sharp(input).metadata();
+    const { data, info } = await sharp(input)
+      .rotate()
+      .resize({
+        width: this.VISION_MAX_DIMENSION,
+        height: this.VISION_MAX_DIMENSION,
+        fit: 'inside',
+        withoutEnlargement: true,
+      })
+      .flatten({ background: '#ffffff' })
+      .jpeg({ quality: this.VISION_JPEG_QUALITY })
+      .toBuffer({ resolveWithObject: true });
+
+    return {
+      data: data.toString('base64'),
+      mediaType: 'image/jpeg',
+      originalWidth: original.autoOrient?.width ?? original.width,
+      originalHeight: original.autoOrient?.height ?? original.height,
+      width: info.width,
+      height: info.height,
+      byteSize: data.length,
+    };
+  }
+
   /**
    * Validate screenshot file
    */
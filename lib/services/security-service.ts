@@ -0,0 +1,331 @@
+// lib/services/security-service.ts
+// Security posture of a deployed website submission: response headers (CSP, HSTS,
+// X-Frame-Options, Referrer-Policy, X-Content-Type-Options), cookie flags, mixed content on
+// HTTPS pages, the TLS certificate and protocol, and files that should never be public
+// (source maps, a .git directory). WebsiteService gathers the responses; this module grades
+// them into findings and an overall A–F grade for web-security assessments.
+import { querySelectorAll, type HtmlElement } from '../utils/html'
+import type { NetworkResource } from './performance-service'
+
+export type SecuritySeverity = 'critical' | 'high' | 'medium' | 'low'
+
+export interface SecurityFinding {
+  check: string // e.g. 'content-security-policy'
+  title: string
+  status: 'pass' | 'warn' | 'fail'
+  severity: SecuritySeverity // How much a failure costs; warnings cost half
+  detail: string
+  recommendation?: string
+}
+
+export interface TlsInfo {
+  protocol: string | null // e.g. 'TLSv1.3'
+  authorized: boolean // Certificate chain trusted and matches the host
+  authorizationError?: string
+  issuer?: string
+  validTo?: string // ISO date
+}
+
+export interface MixedContentItem {
+  url: string
+  kind: 'active' | 'passive' // Scripts, styles, frames and form targets vs images and media
+  element: string // e.g. 'script', 'img', 'form action'
+}
+
+// Everything WebsiteService collected about the page
+export interface SecurityProbe {
+  url: string // Final URL after redirects
+  headers: Record<string, string> // Lower-case names
+  cookies: string[] // Raw Set-Cookie values
+  tls: TlsInfo | null // Null for HTTP pages or when the handshake failed
+  httpRedirect: 'https' | 'none' | 'unreachable' | null // What http:// does; null for HTTP pages
+  mixedContent: MixedContentItem[]
+  sourceMaps: string[] // Source map URLs that answered with a map
+  gitExposed: string | null // URL of a readable .git file
+}
+
+export interface SecurityReport {
+  url: string
+  https: boolean
+  findings: SecurityFinding[]
+  score: number // 0–100
+  grade: 'A' | 'B' | 'C' | 'D' | 'F'
+  tls: TlsInfo | null
+}
+
+const SEVERITY_PENALTY: Record<SecuritySeverity, number> = { critical: 50, high: 20, medium: 10, low: 5 }
+const GRADES: { grade: SecurityReport['grade']; min: number }[] = [
+  { grade: 'A', min: 90 },
+  { grade: 'B', min: 80 },
+  { grade: 'C', min: 70 },
+  { grade: 'D', min: 60 },
+]
+// 180 days; the HSTS preload list asks for a year, but scanners accept half that
+const MIN_HSTS_SECONDS = 15552000
+const CERTIFICATE_WARNING_DAYS = 14
+const MAX_COOKIE_FINDINGS = 10
+const SAFE_REFERRER_POLICIES = ['no-referrer', 'same-origin', 'strict-origin', 'strict-origin-when-cross-origin']
+// Cookie names that usually hold a session; these must not be readable from JavaScript
+const SESSION_COOKIE = /sess|sid|auth|token|jwt|login/i
+const VERSIONED_HEADER = /\d+\.\d+/
+
+/**
+ * Plain-HTTP resources an HTTPS page loads. Uses the browser's requests when available,
+ * plus the HTML for anything the browser blocked.
+ */
+export function findMixedContent(document: HtmlElement, pageUrl: string, resources: NetworkResource[] = []): MixedContentItem[] {
+  if (!pageUrl.startsWith('https://')) return []
+
+  const found = new Map<string, MixedContentItem>()
+  const add = (href: string | undefined, kind: MixedContentItem['kind'], element: string) => {
+    if (!href) return
+    try {
+      const url = new URL(href, pageUrl)
+      if (url.protocol === 'http:' && !found.has(url.href)) found.set(url.href, { url: url.href, kind, element })
+    } catch {
+      return
+    }
+  }
+
+  for (const resource of resources) {
+    const passive = resource.type === 'image' || resource.type === 'media'
+    add(resource.url, passive ? 'passive' : 'active', resource.type)
+  }
+  for (const element of querySelectorAll(document, 'script[src], link[href], iframe[src], img[src], video[src], audio[src], source[src], form[action]')) {
+    const { attrs } = element
+    if (element.tag === 'link') {
+      const rel = (attrs.rel || '').toLowerCase()
+      if (/stylesheet|preload|modulepreload/.test(rel)) add(attrs.href, 'active', 'link')
+    } else if (element.tag === 'form') {
+      add(attrs.action, 'active', 'form action')
+    } else {
+      add(attrs.src, ['img', 'video', 'audio', 'source'].includes(element.tag) ? 'passive' : 'active', element.tag)
+    }
+  }
+
+  return Array.from(found.values())
+}
+
+function directives(policy: string): Map<string, string[]> {
+  const parsed = new Map<string, string[]>()
+  for (const part of policy.split(';')) {
+    const [name, ...values] = part.trim().split(/\s+/)
+    if (name && !parsed.has(name.toLowerCase())) parsed.set(name.toLowerCase(), values.map(value => value.toLowerCase()))
+  }
+  return parsed
+}
+
+function checkCsp(headers: Record<string, string>): SecurityFinding {
+  const base = { check: 'content-security-policy', title: 'Content-Security-Policy', severity: 'medium' as const }
+  const recommendation = "Send a Content-Security-Policy that limits script sources, e.g. default-src 'self'"
+  const policy = headers['content-security-policy']
+  if (!policy) {
+    return headers['content-security-policy-report-only']
+      ? { ...base, status: 'warn', detail: 'Only Content-Security-Policy-Report-Only is sent, so nothing is enforced', recommendation }
+      : { ...base, status: 'fail', detail: 'No Content-Security-Policy header', recommendation }
+  }
+
+  const parsed = directives(policy)
+  const scripts = parsed.get('script-src') ?? parsed.get('default-src')
+  if (!scripts) {
+    return { ...base, status: 'warn', detail: 'Policy has no script-src or default-src, so scripts are unrestricted', recommendation }
+  }
+
+  const weaknesses: string[] = []
+  const hasNonceOrHash = scripts.some(value => /^'(nonce|sha(256|384|512))-/.test(value))
+  if (scripts.includes("'unsafe-inline'") && !hasNonceOrHash && !scripts.includes("'strict-dynamic'")) weaknesses.push("'unsafe-inline' allows injected inline scripts")
+  if (scripts.includes("'unsafe-eval'")) weaknesses.push("'unsafe-eval' allows eval()")
+  if (scripts.some(value => value === '*' || value === 'http:' || value === 'https:' || value === 'data:')) weaknesses.push('scripts may load from any host')
+
+  return weaknesses.length > 0
+    ? { ...base, status: 'warn', detail: `Script policy is weak: ${weaknesses.join('; ')}`, recommendation: 'Replace unsafe-inline and unsafe-eval with nonces or hashes, and list script hosts explicitly' }
+    : { ...base, status: 'pass', detail: `script sources: ${scripts.join(' ')}` }
+}
+
+function checkFraming(headers: Record<string, string>): SecurityFinding {
+  const base = { check: 'x-frame-options', title: 'Clickjacking protection (X-Frame-Options / frame-ancestors)', severity: 'medium' as const }
+  const frameAncestors = directives(headers['content-security-policy'] || '').get('frame-ancestors')
+  if (frameAncestors) {
+    return frameAncestors.includes('*')
+      ? { ...base, status: 'warn', detail: 'CSP frame-ancestors allows any site to frame the page', recommendation: "Use frame-ancestors 'self' or 'none'" }
+      : { ...base, status: 'pass', detail: `CSP frame-ancestors ${frameAncestors.join(' ')}` }
+  }
+
+  const value = (headers['x-frame-options'] || '').trim().toUpperCase()
+  if (value === 'DENY' || value === 'SAMEORIGIN') {
+    return { ...base, status: 'pass', detail: `X-Frame-Options: ${value}` }
+  }
+  return value
+    ? { ...base, status: 'warn', detail: `X-Frame-Options: ${value} is not supported by current browsers`, recommendation: "Use X-Frame-Options: DENY or CSP frame-ancestors 'self'" }
+    : { ...base, status: 'fail', detail: 'No X-Frame-Options header or CSP frame-ancestors, so other sites can frame the page', recommendation: "Send X-Frame-Options: DENY or CSP frame-ancestors 'self'" }
+}
+
+function checkHsts(headers: Record<string, string>): SecurityFinding {
+  const base = { check: 'strict-transport-security', title: 'Strict-Transport-Security (HSTS)', severity: 'medium' as const }
+  const recommendation = 'Send Strict-Transport-Security: max-age=31536000; includeSubDomains'
+  const value = headers['strict-transport-security']
+  if (!value) {
+    return { ...base, status: 'fail', detail: 'No Strict-Transport-Security header, so the first visit can be downgraded to HTTP', recommendation }
+  }
+  const maxAge = parseInt(value.match(/max-age=["']?(\d+)/i)?.[1] ?? '0', 10)
+  return maxAge >= MIN_HSTS_SECONDS
+    ? { ...base, status: 'pass', detail: value }
+    : { ...base, status: 'warn', detail: `max-age=${maxAge} is shorter than 180 days`, recommendation }
+}
+
+function checkReferrerPolicy(headers: Record<string, string>): SecurityFinding {
+  const base = { check: 'referrer-policy', title: 'Referrer-Policy', severity: 'low' as const }
+  const recommendation = 'Send Referrer-Policy: strict-origin-when-cross-origin'
+  const value = headers['referrer-policy']
+  if (!value) {
+    return { ...base, status: 'warn', detail: "No Referrer-Policy header; browsers fall back to their default", recommendation }
+  }
+  // Several comma-separated policies mean the last one the browser supports applies
+  const policy = value.split(',').map(part => part.trim().toLowerCase()).pop() || ''
+  return SAFE_REFERRER_POLICIES.includes(policy)
+    ? { ...base, status: 'pass', detail: policy }
+    : { ...base, status: 'fail', detail: `${policy} sends full URLs to other sites`, recommendation }
+}
+
+function checkContentTypeOptions(headers: Record<string, string>): SecurityFinding {
+  const base = { check: 'x-content-type-options', title: 'X-Content-Type-Options', severity: 'low' as const }
+  return (headers['x-content-type-options'] || '').trim().toLowerCase() === 'nosniff'
+    ? { ...base, status: 'pass', detail: 'nosniff' }
+    : { ...base, status: 'fail', detail: 'Missing nosniff, so browsers may guess content types', recommendation: 'Send X-Content-Type-Options: nosniff' }
+}
+
+function checkCookies(cookies: string[], https: boolean): SecurityFinding[] {
+  return cookies.slice(0, MAX_COOKIE_FINDINGS).map(cookie => {
+    const [pair, ...attributes] = cookie.split(';').map(part => part.trim())
+    const name = pair.split('=')[0]
+    const flags = attributes.map(attribute => attribute.split('=')[0].toLowerCase())
+    const sameSite = attributes.find(attribute => /^samesite=/i.test(attribute))?.split('=')[1]?.toLowerCase()
+    const session = SESSION_COOKIE.test(name)
+
+    const missing: string[] = []
+    if (https && !flags.includes('secure')) missing.push('Secure')
+    if (!flags.includes('httponly')) missing.push('HttpOnly')
+    if (!sameSite) missing.push('SameSite')
+    else if (sameSite === 'none' && !flags.includes('secure')) missing.push('Secure (required with SameSite=None)')
+
+    const base = { check: 'cookie-flags', title: `Cookie ${name}`, severity: session ? 'high' as const : 'low' as const }
+    if (missing.length === 0) {
+      return { ...base, status: 'pass', detail: `Secure, HttpOnly, SameSite=${sameSite}` }
+    }
+    return {
+      ...base,
+      status: session ? 'fail' : 'warn',
+      detail: `Missing ${missing.join(', ')}${session ? ' on what looks like a session cookie' : ''}`,
+      recommendation: 'Set cookies with Secure, HttpOnly and SameSite=Lax (or Strict)',
+    }
+  })
+}
+
+function checkTls(tls: TlsInfo | null, now: Date): SecurityFinding[] {
+  if (!tls) {
+    return [{ check: 'tls', title: 'TLS', status: 'warn', severity: 'high', detail: 'Could not complete a TLS handshake to inspect the certificate' }]
+  }
+
+  const findings: SecurityFinding[] = []
+  const certificate = { check: 'tls-certificate', title: 'TLS certificate', severity: 'critical' as const }
+  const daysLeft = tls.validTo ? Math.floor((new Date(tls.validTo).getTime() - now.getTime()) / 86400000) : null
+  if (!tls.authorized) {
+    findings.push({ ...certificate, status: 'fail', detail: `Certificate is not trusted: ${tls.authorizationError || 'unknown error'}`, recommendation: 'Serve a certificate from a trusted CA (e.g. Let\'s Encrypt) that matches the host name' })
+  } else if (daysLeft !== null && daysLeft < CERTIFICATE_WARNING_DAYS) {
+    findings.push({ ...certificate, status: 'warn', severity: 'medium', detail: `Certificate expires in ${daysLeft} day(s)`, recommendation: 'Renew the certificate, ideally automatically' })
+  } else {
+    findings.push({ ...certificate, status: 'pass', detail: `Trusted${tls.issuer ? `, issued by ${tls.issuer}` : ''}${daysLeft !== null ? `, ${daysLeft} days left` : ''}` })
+  }
+
+  const modern = tls.protocol === 'TLSv1.2' || tls.protocol === 'TLSv1.3'
+  findings.push({
+    check: 'tls-protocol',
+    title: 'TLS protocol',
+    severity: 'high',
+    status: modern ? 'pass' : 'fail',
+    detail: tls.protocol ? `Negotiated ${tls.protocol}` : 'Protocol unknown',
+    recommendation: modern ? undefined : 'Disable TLS 1.0 and 1.1; support TLS 1.2 and 1.3',
+  })
+  return findings
+}
+
+/**
+ * Grade the collected responses. Each failure costs its severity's penalty and each
+ * warning half of it; a critical failure caps the grade at F.
+ */
+export function analyzeSecurity(probe: SecurityProbe, now = new Date()): SecurityReport {
+  const https = probe.url.startsWith('https://')
+  const findings: SecurityFinding[] = []
+
+  if (!https) {
+    findings.push({ check: 'https', title: 'HTTPS', status: 'fail', severity: 'high', detail: 'Page is served over plain HTTP', recommendation: 'Serve the site over HTTPS only' })
+  } else {
+    findings.push({ check: 'https', title: 'HTTPS', status: 'pass', severity: 'high', detail: 'Page is served over HTTPS' })
+    findings.push(...checkTls(probe.tls, now))
+    if (probe.httpRedirect === 'none') {
+      findings.push({ check: 'http-redirect', title: 'HTTP redirects to HTTPS', status: 'fail', severity: 'medium', detail: 'The http:// address serves the site without redirecting', recommendation: 'Redirect all HTTP requests to HTTPS' })
+    } else if (probe.httpRedirect) {
+      findings.push({ check: 'http-redirect', title: 'HTTP redirects to HTTPS', status: 'pass', severity: 'medium', detail: probe.httpRedirect === 'https' ? 'http:// redirects to https://' : 'Nothing is served over plain HTTP' })
+    }
+    findings.push(checkHsts(probe.headers))
+  }
+
+  findings.push(checkCsp(probe.headers), checkFraming(probe.headers), checkReferrerPolicy(probe.headers), checkContentTypeOptions(probe.headers))
+  findings.push(...checkCookies(probe.cookies, https))
+
+  if (https) {
+    const active = probe.mixedContent.filter(item => item.kind === 'active')
+    const passive = probe.mixedContent.filter(item => item.kind === 'passive')
+    const list = (items: MixedContentItem[]) => items.slice(0, 5).map(item => `${item.element} ${item.url}`).join(', ')
+    if (active.length > 0) {
+      findings.push({ check: 'mixed-content', title: 'Mixed content', status: 'fail', severity: 'high', detail: `${active.length} script, style, frame or form target(s) over HTTP: ${list(active)}`, recommendation: 'Load every resource over HTTPS' })
+    } else if (passive.length > 0) {
+      findings.push({ check: 'mixed-content', title: 'Mixed content', status: 'warn', severity: 'low', detail: `${passive.length} image(s) or media over HTTP: ${list(passive)}`, recommendation: 'Load every resource over HTTPS' })
+    } else {
+      findings.push({ check: 'mixed-content', title: 'Mixed content', status: 'pass', severity: 'high', detail: 'All resources load over HTTPS' })
+    }
+  }
+
+  findings.push(probe.sourceMaps.length > 0
+    ? { check: 'source-maps', title: 'Exposed source maps', status: 'fail', severity: 'medium', detail: `${probe.sourceMaps.length} source map(s) are public: ${probe.sourceMaps.slice(0, 3).join(', ')}`, recommendation: 'Stop deploying .map files, or restrict access to them' }
+    : { check: 'source-maps', title: 'Exposed source maps', status: 'pass', severity: 'medium', detail: 'No public source maps found for the page\'s scripts' })
+  findings.push(probe.gitExposed
+    ? { check: 'git-directory', title: 'Exposed .git directory', status: 'fail', severity: 'critical', detail: `${probe.gitExposed} is readable, so the repository and its history can be downloaded`, recommendation: 'Remove the .git directory from the deployed files and block dotfiles on the server' }
+    : { check: 'git-directory', title: 'Exposed .git directory', status: 'pass', severity: 'critical', detail: '/.git/HEAD is not served' })
+
+  const disclosed = ['server', 'x-powered-by'].filter(name => VERSIONED_HEADER.test(probe.headers[name] || ''))
+  if (disclosed.length > 0) {
+    findings.push({ check: 'version-disclosure', title: 'Server version disclosure', status: 'warn', severity: 'low', detail: disclosed.map(name => `${name}: ${probe.headers[name]}`).join('; '), recommendation: 'Hide software versions in Server and X-Powered-By headers' })
+  }
+
+  const penalty = findings.reduce((sum, finding) => {
+    if (finding.status === 'fail') return sum + SEVERITY_PENALTY[finding.severity]
+    if (finding.status === 'warn') return sum + SEVERITY_PENALTY[finding.severity] / 2
+    return sum
+  }, 0)
+  const score = Math.max(0, Math.round(100 - penalty))
+  const criticalFailure = findings.some(finding => finding.status === 'fail' && finding.severity === 'critical')
+  const grade = criticalFailure ? 'F' : GRADES.find(entry => score >= entry.min)?.grade ?? 'F'
+
+  return { url: probe.url, https, findings, score, grade, tls: probe.tls }
+}
+
+/**
+ * Markdown summary of a security report for the assessment prompt
+ */
+export function formatSecurityReport(report: SecurityReport): string {
+  const lines: string[] = []
+  const icon = (status: SecurityFinding['status']) => status === 'pass' ? '✅' : status === 'warn' ? '⚠️' : '❌'
+
+  lines.push(`Grade: ${report.grade} (${report.score}/100)`)
+  if (report.tls) {
+    lines.push(`TLS: ${report.tls.protocol ?? 'unknown protocol'}${report.tls.issuer ? `, certificate from ${report.tls.issuer}` : ''}${report.tls.validTo ? `, valid until ${report.tls.validTo.slice(0, 10)}` : ''}`)
+  }
+  lines.push('')
+  for (const finding of report.findings) {
+    lines.push(`- ${icon(finding.status)} [${finding.severity}] ${finding.title}: ${finding.detail}`)
+    if (finding.status !== 'pass' && finding.recommendation) lines.push(`  → ${finding.recommendation}`)
+  }
+
+  return lines.join('\n')
+}
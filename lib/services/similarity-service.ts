@@ -0,0 +1,272 @@
+// lib/services/similarity-service.ts
+// Section-level comparison of a submission with a question's base example. Both texts are
+// split into sections at their headings, embedded through the provider layer (TF-IDF cosine
+// when no embeddings API is available) and each exemplar section is aligned with its closest
+// submission section, so feedback can say which parts of the exemplar are missing.
+import { getLLMProvider } from './llm-providers'
+import { textToBlocks } from './document-structure-service'
+
+export interface SimilaritySection {
+  title: string
+  text: string
+}
+
+export type SectionCoverage = 'covered' | 'partial' | 'missing'
+
+export interface SectionAlignment {
+  exemplarSection: string
+  submissionSection: string | null // Closest submission section, if any is related at all
+  similarity: number // Cosine similarity, 0-1
+  coverage: SectionCoverage
+  missingTerms: string[] // Distinctive exemplar terms the matched section never uses
+}
+
+export interface ExemplarComparison {
+  method: 'embeddings' | 'tfidf'
+  model: string | null // "provider/model" when embeddings were used
+  overallSimilarity: number
+  alignments: SectionAlignment[]
+  extraSections: string[] // Submission sections no exemplar section aligned with
+}
+
+// Embedding cosines run much higher than TF-IDF cosines for the same pair of texts
+const COVERAGE_THRESHOLDS: Record<ExemplarComparison['method'], { covered: number; partial: number }> = {
+  embeddings: { covered: 0.75, partial: 0.55 },
+  tfidf: { covered: 0.3, partial: 0.12 },
+}
+
+const MAX_SECTIONS = 30
+const MAX_SECTION_LENGTH = 4000 // Characters embedded per section
+const MAX_DOCUMENT_LENGTH = 8000 // Characters embedded for the whole-document score
+const WORDS_PER_PART = 150 // Window size for texts without headings
+const MISSING_TERMS = 5
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'had', 'her', 'was', 'one', 'our', 'out',
+  'has', 'have', 'been', 'were', 'will', 'with', 'this', 'that', 'from', 'they', 'them', 'their', 'there', 'these',
+  'those', 'what', 'when', 'where', 'which', 'while', 'who', 'why', 'how', 'into', 'than', 'then', 'also', 'such',
+  'each', 'other', 'some', 'more', 'most', 'very', 'over', 'only', 'its', 'may', 'would', 'could', 'should', 'about',
+  'after', 'before', 'because', 'between', 'both', 'does', 'did', 'doing', 'just', 'like', 'use', 'used', 'using',
+  'your', 'his', 'she', 'him', 'being', 'through', 'within', 'without', 'well', 'make', 'made', 'under', 'above',
+])
+
+const normalizeTitle = (title: string) =>
+  title.toLowerCase().replace(/^(\d+(\.\d+)*|[ivx]+)[.)]?\s+/, '').replace(/[^a-z0-9]+/g, ' ').trim()
+
+/**
+ * Split text into sections at its headings. Text without headings is cut into
+ * fixed-size parts so long answers can still be aligned piece by piece.
+ */
+export function splitIntoSections(text: string): SimilaritySection[] {
+  const sections: SimilaritySection[] = []
+  let current: SimilaritySection = { title: 'Opening text', text: '' }
+
+  for (const block of textToBlocks(text)) {
+    if (block.type === 'heading') {
+      sections.push(current)
+      current = { title: block.text, text: '' }
+    } else if (block.type === 'paragraph') {
+      current.text += `${block.text}\n`
+    } else if (block.type === 'table') {
+      current.text += `${block.rows.map(row => row.join(' ')).join('\n')}\n`
+    }
+  }
+  sections.push(current)
+
+  const withText = sections.filter(section => tokenize(section.text).length > 0)
+  if (withText.length >= 2) {
+    return withText.slice(0, MAX_SECTIONS)
+  }
+
+  const words = text.split(/\s+/).filter(Boolean)
+  const parts: SimilaritySection[] = []
+  for (let i = 0; i < words.length && parts.length < MAX_SECTIONS; i += WORDS_PER_PART) {
+    parts.push({ title: `Part ${parts.length + 1}`, text: words.slice(i, i + WORDS_PER_PART).join(' ') })
+  }
+  return parts
+}
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z][a-z0-9]{2,}/g) ?? [])
+    .filter(word => !STOP_WORDS.has(word))
+    // Light stemming so "results" and "result" count as the same term
+    .map(word => word.length > 4 && word.endsWith('ies') ? `${word.slice(0, -3)}y`
+      : word.length > 4 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1)
+      : word)
+}
+
+type TermVector = Map<string, number>
+
+// TF-IDF weighting with document frequencies taken from the given sections
+function createTfidf(corpus: string[]) {
+  const documentFrequency = new Map<string, number>()
+  for (const text of corpus) {
+    for (const term of new Set(tokenize(text))) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1)
+    }
+  }
+
+  return (text: string): TermVector => {
+    const terms = tokenize(text)
+    const counts = new Map<string, number>()
+    terms.forEach(term => counts.set(term, (counts.get(term) ?? 0) + 1))
+
+    const vector: TermVector = new Map()
+    for (const [term, count] of counts) {
+      const idf = Math.log((1 + corpus.length) / (1 + (documentFrequency.get(term) ?? 0))) + 1
+      vector.set(term, (count / terms.length) * idf)
+    }
+    const norm = Math.sqrt([...vector.values()].reduce((sum, value) => sum + value * value, 0)) || 1
+    vector.forEach((value, term) => vector.set(term, value / norm))
+    return vector
+  }
+}
+
+function termCosine(a: TermVector, b: TermVector): number {
+  let dot = 0
+  for (const [term, value] of a) {
+    dot += value * (b.get(term) ?? 0)
+  }
+  return dot
+}
+
+function vectorCosine(a: number[], b: number[]): number {
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0
+}
+
+/**
+ * Embeddings for the texts, or null when the provider has no embeddings API or the call fails.
+ * EMBEDDING_PROVIDER picks a provider for embeddings only, e.g. when courses grade with Groq.
+ */
+async function embedTexts(texts: string[], providerName?: string | null): Promise<{ vectors: number[][]; model: string } | null> {
+  const provider = getLLMProvider(process.env.EMBEDDING_PROVIDER || providerName)
+  if (!provider.defaultEmbeddingModel || !provider.isConfigured()) {
+    return null
+  }
+
+  try {
+    const response = await provider.embed({ model: provider.defaultEmbeddingModel, texts })
+    if (response.embeddings.length !== texts.length) {
+      throw new Error(`expected ${texts.length} embeddings, got ${response.embeddings.length}`)
+    }
+    return { vectors: response.embeddings, model: `${response.provider}/${response.model}` }
+  } catch (error) {
+    console.warn(`⚠️ ${provider.name} embeddings failed, using TF-IDF similarity:`, error instanceof Error ? error.message : error)
+    return null
+  }
+}
+
+const round = (value: number) => Math.round(Math.max(0, value) * 100) / 100
+
+/**
+ * Align each section of the exemplar with the closest section of the submission.
+ * Returns null when either text has nothing to compare.
+ */
+export async function compareWithExemplar(
+  submissionText: string,
+  exemplarText: string,
+  options: { provider?: string | null } = {}
+): Promise<ExemplarComparison | null> {
+  const exemplarSections = splitIntoSections(exemplarText)
+  const submissionSections = splitIntoSections(submissionText)
+  if (exemplarSections.length === 0 || submissionSections.length === 0) {
+    return null
+  }
+
+  // TF-IDF vectors are always built: they pick out the exemplar terms a section is missing
+  const tfidf = createTfidf([...exemplarSections, ...submissionSections].map(section => section.text))
+  const exemplarTerms = exemplarSections.map(section => tfidf(section.text))
+  const submissionTerms = submissionSections.map(section => tfidf(section.text))
+
+  const embedded = await embedTexts([
+    ...exemplarSections.map(section => section.text.slice(0, MAX_SECTION_LENGTH)),
+    ...submissionSections.map(section => section.text.slice(0, MAX_SECTION_LENGTH)),
+    exemplarText.slice(0, MAX_DOCUMENT_LENGTH),
+    submissionText.slice(0, MAX_DOCUMENT_LENGTH),
+  ], options.provider)
+
+  const method: ExemplarComparison['method'] = embedded ? 'embeddings' : 'tfidf'
+  const thresholds = COVERAGE_THRESHOLDS[method]
+  const similarity = (exemplarIndex: number, submissionIndex: number) => embedded
+    ? vectorCosine(embedded.vectors[exemplarIndex], embedded.vectors[exemplarSections.length + submissionIndex])
+    : termCosine(exemplarTerms[exemplarIndex], submissionTerms[submissionIndex])
+  const overallSimilarity = embedded
+    ? vectorCosine(embedded.vectors[embedded.vectors.length - 2], embedded.vectors[embedded.vectors.length - 1])
+    : termCosine(tfidf(exemplarText), tfidf(submissionText))
+
+  const matched = new Set<number>()
+  const alignments = exemplarSections.map((section, exemplarIndex): SectionAlignment => {
+    const scores = submissionSections.map((_, submissionIndex) => similarity(exemplarIndex, submissionIndex))
+    const best = scores.reduce((bestIndex, score, index) => (score > scores[bestIndex] ? index : bestIndex), 0)
+
+    // A section with the same heading is the counterpart even when its content drifted
+    const title = normalizeTitle(section.title)
+    const sameTitle = submissionSections.findIndex(candidate => normalizeTitle(candidate.title) === title)
+    const index = sameTitle !== -1 && !/^part \d+$/.test(title) ? sameTitle : best
+    const score = scores[index]
+
+    const coverage: SectionCoverage = score >= thresholds.covered ? 'covered'
+      : score >= thresholds.partial || index === sameTitle ? 'partial'
+      : 'missing'
+    if (coverage !== 'missing') matched.add(index)
+
+    // The exemplar's most distinctive terms that the aligned section (or, if missing, the whole submission) never uses
+    const compareWith = coverage === 'missing'
+      ? new Set(tokenize(submissionText))
+      : new Set(submissionTerms[index].keys())
+    const missingTerms = [...exemplarTerms[exemplarIndex].entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 15)
+      .map(([term]) => term)
+      .filter(term => !compareWith.has(term))
+      .slice(0, MISSING_TERMS)
+
+    return {
+      exemplarSection: section.title,
+      submissionSection: score > 0 ? submissionSections[index].title : null,
+      similarity: round(score),
+      coverage,
+      missingTerms: coverage === 'covered' ? [] : missingTerms,
+    }
+  })
+
+  return {
+    method,
+    model: embedded?.model ?? null,
+    overallSimilarity: round(overallSimilarity),
+    alignments,
+    extraSections: submissionSections
+      .filter((section, index) => !matched.has(index) && !/^(opening text|part \d+)$/i.test(section.title))
+      .map(section => section.title),
+  }
+}
+
+/**
+ * Alignment summary for the assessment prompt
+ */
+export function formatExemplarComparison(comparison: ExemplarComparison): string {
+  const lines = [`Overall similarity: ${comparison.overallSimilarity} (${comparison.method === 'embeddings' ? `embeddings, ${comparison.model}` : 'TF-IDF word weighting'})`]
+
+  for (const alignment of comparison.alignments) {
+    const match = alignment.submissionSection ? `"${alignment.submissionSection}"` : 'nothing'
+    const terms = alignment.missingTerms.length > 0 ? `; exemplar terms not used: ${alignment.missingTerms.join(', ')}` : ''
+    lines.push(alignment.coverage === 'covered'
+      ? `- "${alignment.exemplarSection}": covered by ${match} (${alignment.similarity})`
+      : alignment.coverage === 'partial'
+        ? `- "${alignment.exemplarSection}": partly covered by ${match} (${alignment.similarity})${terms}`
+        : `- "${alignment.exemplarSection}": missing (closest: ${match}, ${alignment.similarity})${terms}`)
+  }
+
+  if (comparison.extraSections.length > 0) {
+    lines.push(`Submission sections with no exemplar counterpart: ${comparison.extraSections.join(', ')}`)
+  }
+  return lines.join('\n')
+}
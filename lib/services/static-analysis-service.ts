@@ -0,0 +1,711 @@
+// lib/services/static-analysis-service.ts
+// Offline static analysis of a fetched repository: lint-style checks chosen by language and
+// detected project type, cyclomatic complexity per function, dependency manifests, test
+// evidence and committed secrets. It only reads the GitHubFile contents already fetched;
+// nothing from the student's repository is installed or run.
+import type { GitHubFile, ProjectType } from './github-service'
+
+export type FindingSeverity = 'error' | 'warning' | 'info'
+
+// One rule hit in one file; repeated hits are folded into a count
+export interface StaticFinding {
+  rule: string
+  severity: FindingSeverity
+  file: string
+  line?: number // First occurrence
+  count: number
+  message: string
+}
+
+export interface FunctionComplexity {
+  file: string
+  name: string
+  line: number
+  lines: number
+  complexity: number // Cyclomatic: 1 + decision points
+}
+
+export interface DependencyManifest {
+  file: string
+  ecosystem: 'npm' | 'pip' | 'go'
+  dependencies: { name: string; version: string | null; dev: boolean }[]
+  issues: string[]
+}
+
+export interface SecretFinding {
+  file: string
+  line?: number
+  kind: string
+  preview: string // Masked; the secret itself is never stored
+}
+
+export interface StaticAnalysisReport {
+  projectType: ProjectType
+  sourceFiles: number
+  linesOfCode: number // Non-blank lines in source files
+  findings: StaticFinding[] // Most severe first
+  functions: {
+    count: number
+    averageComplexity: number
+    maxComplexity: number
+    mostComplex: FunctionComplexity[]
+  }
+  complexity: 'low' | 'medium' | 'high'
+  dependencies: DependencyManifest[]
+  tests: {
+    testFiles: number
+    testCases: number
+    frameworks: string[]
+  }
+  secrets: SecretFinding[]
+}
+
+type Language = 'javascript' | 'typescript' | 'python' | 'java' | 'csharp' | 'c' | 'cpp' | 'go' | 'rust' | 'php' | 'ruby'
+
+const LANGUAGES: Record<string, Language> = {
+  js: 'javascript', jsx: 'javascript', mjs: 'javascript', cjs: 'javascript',
+  ts: 'typescript', tsx: 'typescript',
+  py: 'python',
+  java: 'java',
+  cs: 'csharp',
+  c: 'c', h: 'c',
+  cpp: 'cpp', cc: 'cpp', hpp: 'cpp',
+  go: 'go',
+  rs: 'rust',
+  php: 'php',
+  rb: 'ruby',
+}
+
+const JS_LANGUAGES: Language[] = ['javascript', 'typescript']
+const C_LIKE_LANGUAGES: Language[] = ['java', 'csharp', 'c', 'cpp']
+const REACT_PROJECTS: ProjectType[] = ['react', 'nextjs', 'mobile-react-native']
+const PYTHON_WEB_PROJECTS: ProjectType[] = ['django', 'flask', 'python-web']
+
+const VENDORED_PATH = /(^|\/)(node_modules|vendor|dist|build|\.next|venv|\.venv|__pycache__|target)\//
+const MINIFIED_PATH = /\.min\.(js|css)$/
+
+const COMPLEX_FUNCTION = 10 // Cyclomatic complexity worth a warning
+const VERY_COMPLEX_FUNCTION = 20
+const LONG_FUNCTION_LINES = 80
+const LONG_FILE_LINES = 500
+const MAX_SIGNATURE_TAIL = 200 // Characters between a parameter list and the body's `{`
+const MAX_REPORTED_FUNCTIONS = 10
+
+const SEVERITY_ORDER: Record<FindingSeverity, number> = { error: 0, warning: 1, info: 2 }
+
+// Comments and string contents are blanked out before checks run, keeping offsets and line numbers
+const MASK_PATTERNS: Record<'c' | 'hash' | 'rust', RegExp> = {
+  c: /\/\/[^\n]*|\/\*[\s\S]*?\*\/|"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'|`(?:\\.|[^`\\])*`/g,
+  hash: /#[^\n]*|"""[\s\S]*?"""|'''[\s\S]*?'''|"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'/g,
+  rust: /\/\/[^\n]*|\/\*[\s\S]*?\*\/|"(?:\\.|[^"\\])*"|'(?:\\.|[^'\\\n])'/g,
+}
+
+interface LintRule {
+  id: string
+  severity: FindingSeverity
+  pattern: RegExp
+  message: string
+  languages: Language[]
+  extensions?: string[] // Narrower than languages, e.g. JSX only
+  projectTypes?: ProjectType[] // Only for these project types
+  skipProjectTypes?: ProjectType[]
+  raw?: boolean // Match against the original content instead of the masked code
+}
+
+const LINT_RULES: LintRule[] = [
+  // JavaScript and TypeScript
+  { id: 'no-eval', severity: 'error', pattern: /\beval\s*\(|\bnew\s+Function\s*\(/g, message: 'eval() or new Function() runs arbitrary code', languages: JS_LANGUAGES },
+  { id: 'no-debugger', severity: 'warning', pattern: /\bdebugger\b/g, message: 'debugger statement left in', languages: JS_LANGUAGES },
+  { id: 'no-console', severity: 'info', pattern: /\bconsole\.(log|debug)\s*\(/g, message: 'console.log left in', languages: JS_LANGUAGES, skipProjectTypes: ['cli-tool'] },
+  { id: 'no-var', severity: 'info', pattern: /\bvar\s+[A-Za-z_$]/g, message: '`var` declaration; prefer let or const', languages: JS_LANGUAGES },
+  { id: 'eqeqeq', severity: 'info', pattern: /[^=!<>]==(?!=)|!=(?!=)/g, message: 'Loose equality (== or !=)', languages: JS_LANGUAGES },
+  { id: 'no-explicit-any', severity: 'info', pattern: /:\s*any\b|\bas\s+any\b|<any>/g, message: 'Type declared as `any`', languages: ['typescript'] },
+  { id: 'dangerous-html', severity: 'warning', pattern: /\bdangerouslySetInnerHTML\b/g, message: 'dangerouslySetInnerHTML renders unescaped HTML', languages: JS_LANGUAGES, projectTypes: REACT_PROJECTS },
+  { id: 'img-alt', severity: 'warning', pattern: /<img\b(?![^>]*\balt\s*=)[^>]*>/g, message: 'Image without alt text', languages: JS_LANGUAGES, extensions: ['jsx', 'tsx'] },
+  { id: 'next-link', severity: 'info', pattern: /<a\s+[^>]*href=["']\/(?!\/)/g, message: 'Internal link uses <a> instead of next/link', languages: JS_LANGUAGES, projectTypes: ['nextjs'], raw: true },
+  { id: 'hardcoded-port', severity: 'info', pattern: /\.listen\(\s*\d{2,5}\s*[,)]/g, message: 'Hard-coded port; read it from the environment', languages: JS_LANGUAGES, projectTypes: ['express-api', 'nodejs-backend'] },
+
+  // Python
+  { id: 'bare-except', severity: 'warning', pattern: /^[ \t]*except\s*:/gm, message: 'Bare except catches everything, including KeyboardInterrupt', languages: ['python'] },
+  { id: 'wildcard-import', severity: 'info', pattern: /^[ \t]*from\s+\S+\s+import\s+\*/gm, message: 'Wildcard import', languages: ['python'] },
+  { id: 'mutable-default', severity: 'warning', pattern: /\bdef\s+\w+\s*\([^)]*=\s*(\[\s*\]|\{\s*\})/g, message: 'Mutable default argument is shared between calls', languages: ['python'] },
+  { id: 'no-eval', severity: 'error', pattern: /\b(eval|exec)\s*\(/g, message: 'eval() or exec() runs arbitrary code', languages: ['python'] },
+  { id: 'no-print', severity: 'info', pattern: /^[ \t]*print\s*\(/gm, message: 'print() instead of logging', languages: ['python'], projectTypes: PYTHON_WEB_PROJECTS },
+  { id: 'debug-enabled', severity: 'warning', pattern: /^[ \t]*DEBUG\s*=\s*True\b|\.run\([^)]*\bdebug\s*=\s*True/gm, message: 'Debug mode enabled', languages: ['python'], projectTypes: PYTHON_WEB_PROJECTS },
+
+  // Other languages
+  { id: 'empty-catch', severity: 'warning', pattern: /\bcatch\s*(\([^)]*\))?\s*\{\s*\}/g, message: 'Empty catch block swallows errors', languages: [...JS_LANGUAGES, ...C_LIKE_LANGUAGES, 'php'] },
+  { id: 'print-stack-trace', severity: 'warning', pattern: /\.printStackTrace\s*\(\s*\)/g, message: 'printStackTrace() instead of logging', languages: ['java'] },
+  { id: 'system-out', severity: 'info', pattern: /\bSystem\.out\.print(ln)?\s*\(/g, message: 'System.out instead of a logger', languages: ['java'], projectTypes: ['java-spring'] },
+  { id: 'ignored-error', severity: 'warning', pattern: /,\s*_\s*:?=\s*[\w.]+\(|^[ \t]*_\s*=\s*[\w.]+\(/gm, message: 'Error return value ignored', languages: ['go'] },
+  { id: 'panic', severity: 'info', pattern: /\bpanic\s*\(/g, message: 'panic() instead of returning an error', languages: ['go'] },
+  { id: 'unwrap', severity: 'info', pattern: /\.unwrap\s*\(\s*\)/g, message: 'unwrap() panics on errors', languages: ['rust'] },
+  { id: 'unsafe-block', severity: 'warning', pattern: /\bunsafe\s*\{/g, message: 'unsafe block', languages: ['rust'] },
+  { id: 'unbounded-buffer', severity: 'error', pattern: /\b(gets|strcpy|strcat|sprintf)\s*\(/g, message: 'Unbounded buffer function (gets, strcpy, strcat, sprintf)', languages: ['c', 'cpp'] },
+
+  // Any language
+  { id: 'sql-concatenation', severity: 'error', pattern: /\b(SELECT|INSERT|UPDATE|DELETE)\b[^;\n]*["'`]\s*(\+|\.)\s*\$?\w|\bexecute\(\s*f["']/gi, message: 'SQL built by string concatenation (injection risk)', languages: [...JS_LANGUAGES, 'python', 'java', 'csharp', 'php'], raw: true },
+  { id: 'todo', severity: 'info', pattern: /\b(TODO|FIXME|HACK|XXX)\b/g, message: 'Unfinished work marker (TODO/FIXME)', languages: Object.values(LANGUAGES), raw: true },
+]
+
+// Where a function's parameter list can start, per language. The match must end at the `(`.
+const FUNCTION_PATTERNS: Partial<Record<Language, { pattern: RegExp; requireArrow?: boolean }[]>> = {
+  javascript: [
+    { pattern: /(?:([A-Za-z_$][\w$]*)\s*[=:]\s*)?(?:async\s+)?\bfunction\b\s*\*?\s*([A-Za-z_$][\w$]*)?\s*\(/g },
+    { pattern: /([A-Za-z_$][\w$]*)\s*[=:]\s*(?:async\s*)?\(/g, requireArrow: true },
+    { pattern: /^[ \t]*(?:(?:public|private|protected|static|async|override|readonly|get|set)[ \t]+)*([A-Za-z_$][\w$]*)[ \t]*\(/gm },
+  ],
+  java: [{ pattern: /^[ \t]*(?:[\w<>[\],.*&:~]+[ \t]+)+[*&]*([A-Za-z_~]\w*)[ \t]*\(/gm }],
+  go: [{ pattern: /\bfunc\s*(?:\([^)]*\)\s*)?([A-Za-z_]\w*)\s*\(/g }],
+  rust: [{ pattern: /\bfn\s+([A-Za-z_]\w*)\s*(?:<[^>]*>)?\s*\(/g }],
+  php: [{ pattern: /\bfunction\s+&?([A-Za-z_]\w*)\s*\(/g }],
+}
+FUNCTION_PATTERNS.typescript = FUNCTION_PATTERNS.javascript
+FUNCTION_PATTERNS.csharp = FUNCTION_PATTERNS.c = FUNCTION_PATTERNS.cpp = FUNCTION_PATTERNS.java
+
+// What may sit between a parameter list and the body, e.g. a return type
+const SIGNATURE_TAILS: Partial<Record<Language, RegExp>> = {
+  javascript: /^\s*(?::[^;{}=]+?)?\s*(=>)?\s*\{/,
+  java: /^\s*(?:const\s*|noexcept\s*|override\s*|throws\s+[\w.,\s]+)*\{/,
+  go: /^[ \t]*[^;{}\n]*\{/,
+  rust: /^\s*(?:->[^;{]+)?(?:where[^;{]+)?\{/,
+  php: /^\s*(?::\s*\??[\w\\]+)?\s*\{/,
+}
+SIGNATURE_TAILS.typescript = SIGNATURE_TAILS.javascript
+SIGNATURE_TAILS.csharp = SIGNATURE_TAILS.c = SIGNATURE_TAILS.cpp = SIGNATURE_TAILS.java
+
+const DECISION_POINTS: Record<Language, RegExp> = {
+  javascript: /\b(?:if|for|while|case|catch)\b|&&|\|\||(?<!\?)\?(?![.?:])/g,
+  typescript: /\b(?:if|for|while|case|catch)\b|&&|\|\||(?<!\?)\?(?![.?:])/g,
+  java: /\b(?:if|for|while|case|catch)\b|&&|\|\||\?(?!\s*(?:extends|super)\b)/g,
+  csharp: /\b(?:if|for|foreach|while|case|catch)\b|&&|\|\||(?<!\?)\?(?![.?:[])/g,
+  c: /\b(?:if|for|while|case)\b|&&|\|\||\?/g,
+  cpp: /\b(?:if|for|while|case|catch)\b|&&|\|\||\?/g,
+  go: /\b(?:if|for|case)\b|&&|\|\|/g,
+  rust: /\b(?:if|for|while)\b|=>|&&|\|\|/g,
+  php: /\b(?:if|elseif|for|foreach|while|case|catch)\b|&&|\|\||\?(?![?:>])/g,
+  python: /\b(?:if|elif|for|while|except|and|or|case)\b/g,
+  ruby: /\b(?:if|elsif|unless|for|while|until|when|rescue)\b|&&|\|\|/g,
+}
+
+const NOT_FUNCTION_NAMES = new Set([
+  'if', 'for', 'while', 'switch', 'catch', 'return', 'function', 'typeof', 'new', 'else', 'do', 'sizeof',
+  'await', 'throw', 'delete', 'void', 'super', 'this', 'import', 'require', 'foreach', 'using', 'lock',
+])
+
+const TEST_PATH = /(^|\/)(tests?|__tests__|spec)\/|[._-](test|spec)\.[a-z]+$|(^|\/)test_[^/]+\.py$|_test\.go$|Tests?\.(java|cs)$/
+const TEST_CASE = /\b(?:it|test)\s*\(\s*["'`]|^[ \t]*(?:async\s+)?def\s+test_\w*|\bfunc\s+Test\w*\s*\(|#\[test\]|@Test\b|\[(?:Fact|Theory|Test|TestMethod)\]/gm
+
+const TEST_FRAMEWORKS: { name: string; dependency?: RegExp; source?: RegExp }[] = [
+  { name: 'Jest', dependency: /^jest$/ },
+  { name: 'Vitest', dependency: /^vitest$/ },
+  { name: 'Mocha', dependency: /^mocha$/ },
+  { name: 'Testing Library', dependency: /^@testing-library\// },
+  { name: 'Cypress', dependency: /^cypress$/ },
+  { name: 'Playwright', dependency: /^@playwright\/test$/ },
+  { name: 'pytest', dependency: /^pytest$/, source: /^\s*import pytest\b/m },
+  { name: 'unittest', source: /^\s*(import unittest|from unittest\b)/m },
+  { name: 'Go testing', source: /"testing"/ },
+  { name: 'JUnit', source: /\bimport\s+org\.junit\b/ },
+  { name: 'xUnit/NUnit', source: /\busing\s+(Xunit|NUnit)\b/ },
+]
+
+const SECRET_PATTERNS: { kind: string; pattern: RegExp }[] = [
+  { kind: 'Private key', pattern: /-----BEGIN (?:RSA |EC |DSA |OPENSSH |PGP )?PRIVATE KEY-----/g },
+  { kind: 'AWS access key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { kind: 'GitHub token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g },
+  { kind: 'OpenAI/Anthropic API key', pattern: /\bsk-(?:proj-|ant-)?[A-Za-z0-9_-]{20,}\b/g },
+  { kind: 'Google API key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  { kind: 'Stripe live key', pattern: /\b(?:sk|rk)_live_[0-9a-zA-Z]{24,}\b/g },
+  { kind: 'Slack token', pattern: /\bxox[abprs]-[0-9A-Za-z-]{10,}\b/g },
+  { kind: 'Connection string with password', pattern: /\b[a-z][a-z0-9+]*:\/\/[^\s:/@"'`]+:[^\s:/@"'`$<{]{3,}@[\w.-]+/g },
+  { kind: 'Hard-coded credential', pattern: /\b\w*(?:api[_-]?key|secret|token|passw(?:or)?d)\w*["']?\s*[:=]\s*["'][^"'\s]{12,}["']/gi },
+]
+
+// Values that are obviously placeholders rather than real credentials
+const PLACEHOLDER_SECRET = /your[_-]|example|placeholder|changeme|dummy|x{4,}|\*{4,}|<[^>]*>|\$\{|process\.env|os\.environ|user:pass(word)?@/i
+// Env values that configure rather than authenticate
+const PLAIN_ENV_VALUE = /^(true|false|yes|no|on|off|\d+|localhost|development|production|test|debug|info)$/i
+const MIN_ENV_SECRET_LENGTH = 8
+
+const ENV_FILE = /(^|\/)\.env(\.[\w-]+)?$/
+const ENV_TEMPLATE = /\.(example|sample|template|dist|defaults?)$/
+
+// Directories and files that shouldn't be committed
+const COMMITTED_ARTIFACTS: { pattern: RegExp; label: string }[] = [
+  { pattern: /(^|\/)node_modules\//, label: 'node_modules' },
+  { pattern: /(^|\/)\.?venv\//, label: 'a Python virtualenv' },
+  { pattern: /(^|\/)__pycache__\/|\.pyc$/, label: 'Python bytecode' },
+  { pattern: /(^|\/)\.DS_Store$/, label: '.DS_Store files' },
+  { pattern: /(^|\/)\.idea\/|(^|\/)\.vscode\/settings\.json$/, label: 'editor settings' },
+]
+
+const NPM_LOCKFILES = /(^|\/)(package-lock\.json|yarn\.lock|pnpm-lock\.yaml|bun\.lockb?)$/
+
+function extensionOf(path: string): string {
+  return path.split('.').pop()?.toLowerCase() || ''
+}
+
+function maskCode(content: string, language: Language): string {
+  const style = language === 'python' || language === 'ruby' ? 'hash' : language === 'rust' ? 'rust' : 'c'
+  return content.replace(MASK_PATTERNS[style], match => {
+    const blank = (text: string) => text.replace(/[^\n]/g, ' ')
+    // Keep string delimiters so `x = ""` still reads as an assignment
+    return /^["'`]/.test(match) ? match[0] + blank(match.slice(1, -1)) + match[match.length - 1] : blank(match)
+  })
+}
+
+// Line number (1-based) of each offset, by binary search over newline positions
+function lineLocator(content: string): (index: number) => number {
+  const newlines: number[] = []
+  for (let i = content.indexOf('\n'); i !== -1; i = content.indexOf('\n', i + 1)) {
+    newlines.push(i)
+  }
+  return index => {
+    let low = 0
+    let high = newlines.length
+    while (low < high) {
+      const mid = (low + high) >> 1
+      if (newlines[mid] < index) low = mid + 1
+      else high = mid
+    }
+    return low + 1
+  }
+}
+
+function closingIndex(code: string, open: number, openChar: string, closeChar: string): number {
+  let depth = 0
+  for (let i = open; i < code.length; i++) {
+    if (code[i] === openChar) depth++
+    else if (code[i] === closeChar && --depth === 0) return i
+  }
+  return -1
+}
+
+function countMatches(text: string, pattern: RegExp): number {
+  pattern.lastIndex = 0
+  return text.match(pattern)?.length || 0
+}
+
+/**
+ * Find functions in a file and their cyclomatic complexity. Brace languages are
+ * matched on their parameter list and body; Python on indentation.
+ */
+function measureFunctions(file: GitHubFile): FunctionComplexity[] {
+  const language = LANGUAGES[extensionOf(file.path)]
+  if (!language) return []
+
+  const code = maskCode(file.content, language)
+  const lineAt = lineLocator(code)
+  const functions: FunctionComplexity[] = []
+  const decisionPoints = DECISION_POINTS[language]
+
+  if (language === 'python') {
+    const lines = code.split('\n')
+    lines.forEach((line, index) => {
+      const match = line.match(/^([ \t]*)(?:async[ \t]+)?def[ \t]+(\w+)\s*\(/)
+      if (!match) return
+
+      const indent = match[1].length
+      let end = index + 1
+      while (end < lines.length && (!lines[end].trim() || lines[end].search(/\S/) > indent)) {
+        end++
+      }
+      const body = lines.slice(index, end).join('\n')
+      functions.push({
+        file: file.path,
+        name: match[2],
+        line: index + 1,
+        lines: end - index,
+        complexity: 1 + countMatches(body, decisionPoints),
+      })
+    })
+    return functions
+  }
+
+  const patterns = FUNCTION_PATTERNS[language]
+  const tail = SIGNATURE_TAILS[language]
+  if (!patterns || !tail) return []
+
+  const seenBodies = new Set<number>()
+  for (const { pattern, requireArrow } of patterns) {
+    pattern.lastIndex = 0
+    for (const match of code.matchAll(pattern)) {
+      const name = match[2] || match[1] || '(anonymous)'
+      if (NOT_FUNCTION_NAMES.has(name)) continue
+
+      const paren = match.index! + match[0].length - 1
+      const close = closingIndex(code, paren, '(', ')')
+      if (close === -1) continue
+
+      const signatureTail = code.slice(close + 1, close + 1 + MAX_SIGNATURE_TAIL).match(tail)
+      if (!signatureTail || (requireArrow && !signatureTail[1])) continue
+
+      const open = close + signatureTail[0].length
+      const end = closingIndex(code, open, '{', '}')
+      if (end === -1 || seenBodies.has(open)) continue
+      seenBodies.add(open)
+
+      const startLine = lineAt(match.index!)
+      functions.push({
+        file: file.path,
+        name,
+        line: startLine,
+        lines: lineAt(end) - startLine + 1,
+        complexity: 1 + countMatches(code.slice(open, end), decisionPoints),
+      })
+    }
+  }
+
+  return functions.sort((a, b) => a.line - b.line)
+}
+
+function lintFile(file: GitHubFile, language: Language, projectType: ProjectType): StaticFinding[] {
+  const extension = extensionOf(file.path)
+  const masked = maskCode(file.content, language)
+  const lineAt = lineLocator(file.content)
+  const findings: StaticFinding[] = []
+
+  for (const rule of LINT_RULES) {
+    if (!rule.languages.includes(language)) continue
+    if (rule.extensions && !rule.extensions.includes(extension)) continue
+    if (rule.projectTypes && !rule.projectTypes.includes(projectType)) continue
+    if (rule.skipProjectTypes?.includes(projectType)) continue
+
+    rule.pattern.lastIndex = 0
+    const matches = [...(rule.raw ? file.content : masked).matchAll(rule.pattern)]
+    if (matches.length === 0) continue
+
+    findings.push({
+      rule: rule.id,
+      severity: rule.severity,
+      file: file.path,
+      line: lineAt(matches[0].index!),
+      count: matches.length,
+      message: rule.message,
+    })
+  }
+
+  const lineCount = file.content.split('\n').length
+  if (lineCount > LONG_FILE_LINES) {
+    findings.push({ rule: 'long-file', severity: 'info', file: file.path, count: 1, message: `Long file (${lineCount} lines)` })
+  }
+
+  return findings
+}
+
+function functionFindings(functions: FunctionComplexity[]): StaticFinding[] {
+  const findings: StaticFinding[] = []
+
+  for (const fn of functions) {
+    if (fn.complexity > COMPLEX_FUNCTION) {
+      findings.push({
+        rule: 'complexity',
+        severity: fn.complexity > VERY_COMPLEX_FUNCTION ? 'error' : 'warning',
+        file: fn.file,
+        line: fn.line,
+        count: 1,
+        message: `${fn.name}() has cyclomatic complexity ${fn.complexity}`,
+      })
+    }
+    if (fn.lines > LONG_FUNCTION_LINES) {
+      findings.push({
+        rule: 'long-function',
+        severity: 'warning',
+        file: fn.file,
+        line: fn.line,
+        count: 1,
+        message: `${fn.name}() is ${fn.lines} lines long`,
+      })
+    }
+  }
+
+  return findings
+}
+
+function repositoryFindings(paths: string[], manifests: DependencyManifest[]): StaticFinding[] {
+  const findings: StaticFinding[] = []
+  if (paths.length === 0) return findings
+
+  for (const artifact of COMMITTED_ARTIFACTS) {
+    const committed = paths.filter(path => artifact.pattern.test(path))
+    if (committed.length > 0) {
+      findings.push({
+        rule: 'committed-artifacts',
+        severity: 'warning',
+        file: committed[0],
+        count: committed.length,
+        message: `Repository contains ${artifact.label}; add it to .gitignore`,
+      })
+    }
+  }
+
+  if (!paths.some(path => /(^|\/)\.gitignore$/.test(path))) {
+    findings.push({ rule: 'gitignore', severity: 'info', file: '.gitignore', count: 1, message: 'No .gitignore' })
+  }
+
+  const hasLockfile = paths.some(path => NPM_LOCKFILES.test(path))
+  if (manifests.some(manifest => manifest.ecosystem === 'npm' && manifest.dependencies.length > 0) && !hasLockfile) {
+    findings.push({
+      rule: 'lockfile',
+      severity: 'info',
+      file: 'package.json',
+      count: 1,
+      message: 'No lockfile (package-lock.json, yarn.lock or pnpm-lock.yaml); installs are not reproducible',
+    })
+  }
+
+  return findings
+}
+
+// The parts of package.json the analysis reads
+interface PackageManifest {
+  dependencies: Record<string, unknown>
+  devDependencies: Record<string, unknown>
+  scripts: Record<string, unknown>
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+function parsePackageJson(file: GitHubFile): DependencyManifest {
+  const manifest: DependencyManifest = { file: file.path, ecosystem: 'npm', dependencies: [], issues: [] }
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(file.content)
+  } catch {
+    manifest.issues.push('Not valid JSON')
+    return manifest
+  }
+  if (!isRecord(parsed)) {
+    manifest.issues.push('Not a JSON object')
+    return manifest
+  }
+
+  const pkg: PackageManifest = {
+    dependencies: isRecord(parsed.dependencies) ? parsed.dependencies : {},
+    devDependencies: isRecord(parsed.devDependencies) ? parsed.devDependencies : {},
+    scripts: isRecord(parsed.scripts) ? parsed.scripts : {},
+  }
+  const entries = (deps: Record<string, unknown>, dev: boolean) =>
+    Object.entries(deps).map(([name, version]) => ({ name, version: String(version), dev }))
+  manifest.dependencies = [...entries(pkg.dependencies, false), ...entries(pkg.devDependencies, true)]
+
+  const unbounded = manifest.dependencies.filter(dep => ['*', '', 'x', 'latest'].includes(dep.version!.trim()))
+  if (unbounded.length > 0) {
+    manifest.issues.push(`Unbounded versions: ${unbounded.map(dep => dep.name).join(', ')}`)
+  }
+  const external = manifest.dependencies.filter(dep => /^(git|github:|file:|https?:)/.test(dep.version!))
+  if (external.length > 0) {
+    manifest.issues.push(`Installed from git, URL or local path: ${external.map(dep => dep.name).join(', ')}`)
+  }
+  const testScript = typeof pkg.scripts.test === 'string' ? pkg.scripts.test : ''
+  if (!testScript || /no test specified/.test(testScript)) {
+    manifest.issues.push('No test script')
+  }
+
+  return manifest
+}
+
+function parseRequirements(file: GitHubFile): DependencyManifest {
+  const manifest: DependencyManifest = { file: file.path, ecosystem: 'pip', dependencies: [], issues: [] }
+
+  for (const rawLine of file.content.split('\n')) {
+    const line = rawLine.replace(/#.*$/, '').trim()
+    if (!line || line.startsWith('-')) continue
+
+    const match = line.match(/^([A-Za-z0-9][\w.-]*)(?:\[[^\]]*\])?\s*(.*)$/)
+    if (match) {
+      manifest.dependencies.push({ name: match[1], version: match[2].split(';')[0].trim() || null, dev: false })
+    }
+  }
+
+  const unpinned = manifest.dependencies.filter(dep => !dep.version?.startsWith('=='))
+  if (unpinned.length > 0) {
+    manifest.issues.push(`${unpinned.length} of ${manifest.dependencies.length} dependencies not pinned with ==`)
+  }
+
+  return manifest
+}
+
+function parseGoMod(file: GitHubFile): DependencyManifest {
+  const manifest: DependencyManifest = { file: file.path, ecosystem: 'go', dependencies: [], issues: [] }
+
+  const requireLines = [
+    ...[...file.content.matchAll(/^require\s*\(([\s\S]*?)^\)/gm)].flatMap(block => block[1].split('\n')),
+    ...[...file.content.matchAll(/^require\s+([^(\s].*)$/gm)].map(single => single[1]),
+  ]
+  for (const line of requireLines) {
+    const match = line.trim().match(/^(\S+)\s+(\S+)(.*)$/)
+    if (match) {
+      // Indirect requirements are pulled in by other modules, much like dev dependencies here
+      manifest.dependencies.push({ name: match[1], version: match[2], dev: /\/\/\s*indirect/.test(match[3]) })
+    }
+  }
+
+  if (!/^go\s+\d/m.test(file.content)) {
+    manifest.issues.push('No go directive')
+  }
+
+  return manifest
+}
+
+function parseManifest(file: GitHubFile): DependencyManifest | null {
+  const name = file.path.split('/').pop()
+  if (name === 'package.json') return parsePackageJson(file)
+  if (name === 'requirements.txt') return parseRequirements(file)
+  if (name === 'go.mod') return parseGoMod(file)
+  return null
+}
+
+function maskSecret(value: string): string {
+  return value.length <= 8 ? '****' : `${value.slice(0, 4)}…(${value.length} characters)`
+}
+
+function findSecrets(file: GitHubFile): SecretFinding[] {
+  const secrets: SecretFinding[] = []
+  const lineAt = lineLocator(file.content)
+  const template = ENV_TEMPLATE.test(file.path)
+
+  if (ENV_FILE.test(file.path) && !template) {
+    // Any assigned value in a committed env file is treated as a credential
+    const assignment = /^\s*(?:export\s+)?([A-Za-z_][\w.]*)\s*=\s*["']?([^"'\s#]+)/gm
+    for (const match of file.content.matchAll(assignment)) {
+      const value = match[2]
+      if (value.length < MIN_ENV_SECRET_LENGTH || PLAIN_ENV_VALUE.test(value) || PLACEHOLDER_SECRET.test(value)) continue
+      secrets.push({ file: file.path, line: lineAt(match.index!), kind: `Committed env file (${match[1]})`, preview: maskSecret(value) })
+    }
+    return secrets
+  }
+
+  for (const { kind, pattern } of SECRET_PATTERNS) {
+    // Generic credential assignments in templates and tests are nearly always fakes
+    if (kind === 'Hard-coded credential' && (template || TEST_PATH.test(file.path))) continue
+
+    pattern.lastIndex = 0
+    for (const match of file.content.matchAll(pattern)) {
+      // Connection strings are judged on their credentials, not their host
+      if (PLACEHOLDER_SECRET.test(match[0].replace(/@[\w.-]+$/, ''))) continue
+      secrets.push({ file: file.path, line: lineAt(match.index!), kind, preview: maskSecret(match[0]) })
+    }
+  }
+
+  return secrets
+}
+
+/**
+ * Analyze the fetched files of a repository. `paths` is every file path in the tree,
+ * used for repository-level checks (committed env files, build artifacts, lockfiles).
+ */
+export function analyzeRepository(files: GitHubFile[], paths: string[], projectType: ProjectType): StaticAnalysisReport {
+  const sourceFiles = files.filter(file =>
+    LANGUAGES[extensionOf(file.path)] && !VENDORED_PATH.test(file.path) && !MINIFIED_PATH.test(file.path)
+  )
+
+  const findings: StaticFinding[] = []
+  const functions: FunctionComplexity[] = []
+  let linesOfCode = 0
+  let testCases = 0
+  const testFiles = new Set<string>()
+
+  for (const file of sourceFiles) {
+    const language = LANGUAGES[extensionOf(file.path)]
+    linesOfCode += file.content.split('\n').filter(line => line.trim()).length
+
+    findings.push(...lintFile(file, language, projectType))
+    functions.push(...measureFunctions(file))
+
+    const cases = countMatches(maskCode(file.content, language), TEST_CASE)
+    testCases += cases
+    if (cases > 0 || TEST_PATH.test(file.path)) testFiles.add(file.path)
+  }
+  findings.push(...functionFindings(functions))
+
+  const dependencies = files
+    .filter(file => !VENDORED_PATH.test(file.path))
+    .map(parseManifest)
+    .filter((manifest): manifest is DependencyManifest => manifest !== null)
+  findings.push(...repositoryFindings(paths, dependencies))
+
+  const secrets = files.filter(file => !VENDORED_PATH.test(file.path)).flatMap(findSecrets)
+  // Env files that exist in the tree but weren't fetched
+  for (const path of paths) {
+    if (ENV_FILE.test(path) && !ENV_TEMPLATE.test(path) && !secrets.some(secret => secret.file === path)) {
+      secrets.push({ file: path, kind: 'Committed env file', preview: 'contents not read' })
+    }
+  }
+
+  const dependencyNames = dependencies.flatMap(manifest => manifest.dependencies.map(dep => dep.name))
+  const frameworks = TEST_FRAMEWORKS
+    .filter(framework =>
+      (framework.dependency && dependencyNames.some(name => framework.dependency!.test(name))) ||
+      (framework.source && sourceFiles.some(file => framework.source!.test(file.content)))
+    )
+    .map(framework => framework.name)
+
+  const complexities = functions.map(fn => fn.complexity)
+  const averageComplexity = complexities.length > 0
+    ? Math.round((complexities.reduce((sum, value) => sum + value, 0) / complexities.length) * 10) / 10
+    : 0
+  const maxComplexity = complexities.length > 0 ? Math.max(...complexities) : 0
+
+  return {
+    projectType,
+    sourceFiles: sourceFiles.length,
+    linesOfCode,
+    findings: findings.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] || b.count - a.count),
+    functions: {
+      count: functions.length,
+      averageComplexity,
+      maxComplexity,
+      mostComplex: [...functions].sort((a, b) => b.complexity - a.complexity).slice(0, MAX_REPORTED_FUNCTIONS),
+    },
+    complexity: maxComplexity > VERY_COMPLEX_FUNCTION || averageComplexity > COMPLEX_FUNCTION
+      ? 'high'
+      : maxComplexity > COMPLEX_FUNCTION || averageComplexity > 5 ? 'medium' : 'low',
+    dependencies,
+    tests: { testFiles: testFiles.size, testCases, frameworks },
+    secrets,
+  }
+}
+
+/**
+ * Format a report as a prompt section, most severe findings first
+ */
+export function formatStaticAnalysis(report: StaticAnalysisReport, maxFindings = 15): string {
+  let section = `## Static Analysis\n`
+  section += `- Source: ${report.linesOfCode} lines of code in ${report.sourceFiles} files analyzed\n`
+
+  if (report.functions.count > 0) {
+    section += `- Functions: ${report.functions.count}, average cyclomatic complexity ${report.functions.averageComplexity}, max ${report.functions.maxComplexity} (overall: ${report.complexity})\n`
+    const complex = report.functions.mostComplex.filter(fn => fn.complexity > COMPLEX_FUNCTION).slice(0, 5)
+    complex.forEach(fn => section += `  - ${fn.file}:${fn.line} ${fn.name}() complexity ${fn.complexity}, ${fn.lines} lines\n`)
+  }
+
+  section += `- Tests: ${report.tests.testCases} test cases in ${report.tests.testFiles} files${report.tests.frameworks.length > 0 ? ` (${report.tests.frameworks.join(', ')})` : ''}\n`
+
+  for (const manifest of report.dependencies) {
+    const dev = manifest.dependencies.filter(dep => dep.dev).length
+    section += `- Dependencies (${manifest.file}): ${manifest.dependencies.length - dev} runtime, ${dev} ${manifest.ecosystem === 'go' ? 'indirect' : 'dev'}`
+    section += manifest.issues.length > 0 ? `; ${manifest.issues.join('; ')}\n` : '\n'
+  }
+
+  if (report.secrets.length > 0) {
+    section += `- Committed Secrets: ${report.secrets.length} possible (${report.secrets.slice(0, 5).map(secret => `${secret.kind} in ${secret.file}${secret.line ? `:${secret.line}` : ''}`).join(', ')})\n`
+  } else {
+    section += `- Committed Secrets: none found\n`
+  }
+
+  const counts = (['error', 'warning', 'info'] as FindingSeverity[])
+    .map(severity => `${report.findings.filter(finding => finding.severity === severity).length} ${severity}`)
+  section += `- Findings: ${counts.join(', ')}\n`
+  report.findings.slice(0, maxFindings).forEach(finding => {
+    section += `  - [${finding.severity}] ${finding.file}${finding.line ? `:${finding.line}` : ''} ${finding.message}${finding.count > 1 ? ` (${finding.count} times)` : ''}\n`
+  })
+  if (report.findings.length > maxFindings) {
+    section += `  - ... and ${report.findings.length - maxFindings} more\n`
+  }
+
+  return section + '\n'
+}
@@ -0,0 +1,353 @@
+// lib/services/website-check-service.ts
+// Scripted checks that question authors write for website submissions, one per line, in a
+// small plain-English syntax, e.g.
+//
+//   page /contact has a form with an email field
+//   navigation contains About
+//   every page has a title
+//   page /menu has at least 3 images
+//   no broken links
+//
+// Checks run against the pages collected by WebsiteService.crawlWebsite().
+import { parseHtml, querySelectorAll, textContent, type HtmlElement } from '../utils/html'
+import type { CrawledPage, WebsiteCrawl } from './website-service'
+
+export type WebsiteCheckStatus = 'passed' | 'failed' | 'unsupported'
+
+export interface WebsiteCheckResult {
+  check: string
+  status: WebsiteCheckStatus // 'unsupported' when the check isn't in the syntax
+  detail: string
+}
+
+interface ElementKind {
+  pattern: RegExp // Singular or plural noun
+  selector: string
+  label: string
+  qualifiable?: boolean // Words before the noun must match the element, e.g. "email field"
+}
+
+const ELEMENT_KINDS: ElementKind[] = [
+  { pattern: /^forms?$/, selector: 'form', label: 'form' },
+  { pattern: /^(fields?|inputs?|text ?boxe?s?)$/, selector: 'input, textarea, select', label: 'field', qualifiable: true },
+  { pattern: /^(textareas?|text areas?)$/, selector: 'textarea', label: 'text area' },
+  { pattern: /^(dropdowns?|selects?)$/, selector: 'select', label: 'dropdown' },
+  { pattern: /^(checkbox|checkboxes)$/, selector: 'input[type=checkbox]', label: 'checkbox' },
+  { pattern: /^buttons?$/, selector: 'button, input[type=submit], input[type=button], [role=button]', label: 'button', qualifiable: true },
+  { pattern: /^links?$/, selector: 'a[href]', label: 'link', qualifiable: true },
+  { pattern: /^(images?|imgs?|pictures?|photos?)$/, selector: 'img, svg[role=img]', label: 'image', qualifiable: true },
+  { pattern: /^tables?$/, selector: 'table', label: 'table' },
+  { pattern: /^videos?$/, selector: 'video, iframe[src*=youtube], iframe[src*=vimeo]', label: 'video' },
+  { pattern: /^maps?$/, selector: 'iframe[src*=map], [id*=map], [class*=map]', label: 'map' },
+  { pattern: /^headings?$/, selector: 'h1, h2, h3, h4, h5, h6, [role=heading]', label: 'heading' },
+  { pattern: /^lists?$/, selector: 'ul, ol', label: 'list' },
+  { pattern: /^(nav|navs|navigation|navbar|menu)$/, selector: 'nav, [role=navigation]', label: 'navigation' },
+  { pattern: /^headers?$/, selector: 'header, [role=banner]', label: 'header' },
+  { pattern: /^footers?$/, selector: 'footer, [role=contentinfo]', label: 'footer' },
+  { pattern: /^(main|main content)$/, selector: 'main, [role=main]', label: 'main content area' },
+  { pattern: /^titles?$/, selector: 'title', label: 'title' },
+]
+
+const TEXT_VERBS = /^(?:contains|includes|mentions|shows|says|displays|has the text)\s+(.+)$/i
+const HAS_VERBS = /^(?:has|have|contains|includes|shows|displays)\s+(.+)$/i
+
+interface ElementQuery {
+  kind: ElementKind
+  qualifiers: string[]
+  text?: string
+  href?: string
+  min: number
+  within?: ElementQuery
+}
+
+const unquote = (text: string) => text.trim().replace(/^["“'](.*)["”']$/, '$1')
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`
+
+/**
+ * Normalise a path for comparison: leading slash, no trailing slash, lower case
+ */
+function normalizePath(path: string): string {
+  const withSlash = path.startsWith('/') ? path : `/${path}`
+  return (withSlash.length > 1 ? withSlash.replace(/\/+$/, '') : withSlash).toLowerCase() || '/'
+}
+
+function parseElementQuery(phrase: string): ElementQuery | null {
+  let rest = phrase.trim().replace(/[.!]$/, '')
+  let within: ElementQuery | undefined
+  let href: string | undefined
+  let text: string | undefined
+
+  const withClause = rest.match(/^(.+?)\s+(?:with|containing)\s+(.+)$/i)
+  if (withClause) {
+    const inner = parseElementQuery(withClause[2])
+    if (inner) {
+      within = inner
+    } else {
+      text = unquote(withClause[2].replace(/^(?:the )?(?:text|label|words?)\s+/i, ''))
+    }
+    rest = withClause[1]
+  }
+
+  const target = rest.match(/^(.+?)\s+(?:linking |pointing |that links )?to\s+(\S+)$/i)
+  if (target) {
+    href = target[2]
+    rest = target[1]
+  }
+
+  const quoted = rest.match(/^(.+?)\s+["“'](.+)["”']$/)
+  if (quoted) {
+    text = quoted[2]
+    rest = quoted[1]
+  }
+
+  let min = 1
+  const count = rest.match(/^(?:at least\s+)?(\d+)\s+(.+)$/i)
+  if (count) {
+    min = parseInt(count[1], 10)
+    rest = count[2]
+  } else {
+    rest = rest.replace(/^(?:an?|the|some|one or more)\s+/i, '')
+  }
+
+  const words = rest.toLowerCase().split(/\s+/).filter(Boolean)
+  for (const size of [2, 1]) {
+    if (words.length < size) continue
+    const noun = words.slice(-size).join(' ')
+    const kind = ELEMENT_KINDS.find(candidate => candidate.pattern.test(noun))
+    if (kind) {
+      return { kind, qualifiers: kind.qualifiable ? words.slice(0, -size) : [], text, href, min, within }
+    }
+  }
+  return null
+}
+
+// What an element can be recognised by: type, name, id, placeholder, label and text
+function descriptors(element: HtmlElement, root: HtmlElement): string {
+  const { attrs } = element
+  const labels = attrs.id ? querySelectorAll(root, `label[for="${attrs.id}"]`).map(textContent) : []
+  for (let node = element.parent; node; node = node.parent) {
+    if (node.tag === 'label') labels.push(textContent(node))
+  }
+  const type = attrs.type || (element.tag === 'button' ? 'submit' : element.tag === 'textarea' ? 'textarea' : '')
+  return [type, attrs.name, attrs.id, attrs.placeholder, attrs['aria-label'], attrs.autocomplete, attrs.value, attrs.class, attrs.alt, attrs.href, ...labels, textContent(element)]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase()
+}
+
+function matchElements(scope: HtmlElement, query: ElementQuery, root: HtmlElement): { candidates: number; matches: HtmlElement[] } {
+  const candidates = querySelectorAll(scope, query.kind.selector)
+  const matches = candidates.filter(element => {
+    if (query.qualifiers.length > 0) {
+      const described = descriptors(element, root)
+      if (!query.qualifiers.every(word => described.includes(word))) return false
+    }
+    if (query.text) {
+      const shown = `${textContent(element)} ${element.attrs.value || ''} ${element.attrs['aria-label'] || ''}`.toLowerCase()
+      if (!shown.includes(query.text.toLowerCase())) return false
+    }
+    if (query.href) {
+      const href = (element.attrs.href || '').toLowerCase()
+      const wanted = query.href.toLowerCase()
+      if (href !== wanted && normalizePath(href.replace(/^https?:\/\/[^/]+/, '')) !== normalizePath(wanted) && !href.includes(wanted)) return false
+    }
+    if (query.within) {
+      if (matchElements(element, query.within, root).matches.length < query.within.min) return false
+    }
+    return true
+  })
+  return { candidates: candidates.length, matches }
+}
+
+function describeQuery(query: ElementQuery): string {
+  let description = [...query.qualifiers, query.kind.label].join(' ')
+  if (query.text) description += ` "${query.text}"`
+  if (query.href) description += ` to ${query.href}`
+  if (query.within) description += ` with ${query.within.min > 1 ? `${query.within.min} ` : ''}${describeQuery(query.within)}`
+  return description
+}
+
+type Predicate = (root: HtmlElement, page: CrawledPage) => { passed: boolean; detail: string }
+
+function parsePredicate(phrase: string): Predicate | null {
+  const rest = phrase.trim().replace(/[.!]$/, '')
+
+  if (/^(exists|loads|works|is reachable|is available|returns 200)$/i.test(rest)) {
+    return (_, page) => ({ passed: true, detail: `loads (status ${page.status})` })
+  }
+
+  const title = rest.match(/^(?:title|has (?:the )?title)\s+(?:is|contains|includes|of)?\s*(.+)$/i)
+  if (title) {
+    const wanted = unquote(title[1]).toLowerCase()
+    return (_, page) => ({
+      passed: (page.title || '').toLowerCase().includes(wanted),
+      detail: `title is "${page.title || ''}"`,
+    })
+  }
+
+  const links = rest.match(/^links to\s+(\S+)$/i)
+  if (links) return parsePredicate(`has a link to ${links[1]}`)
+
+  const textVerb = rest.match(TEXT_VERBS)
+  const hasVerb = rest.match(HAS_VERBS)
+  const query = hasVerb && !/^["“']/.test(hasVerb[1]) ? parseElementQuery(hasVerb[1]) : null
+  if (query) {
+    return (root) => {
+      const { candidates, matches } = matchElements(root, query, root)
+      const label = describeQuery(query)
+      return {
+        passed: matches.length >= query.min,
+        detail: matches.length >= query.min
+          ? `found ${plural(matches.length, label)}`
+          : `has ${matches.length === 0 ? 'no' : `only ${matches.length}`} ${label}${query.min > 1 ? ` (needs ${query.min})` : ''}${candidates > matches.length ? `; ${plural(candidates, query.kind.label)} on the page` : ''}`,
+      }
+    }
+  }
+
+  if (textVerb) {
+    const wanted = unquote(textVerb[1]).toLowerCase()
+    return (root) => {
+      const passed = textContent(root).toLowerCase().includes(wanted)
+      return { passed, detail: passed ? `contains "${unquote(textVerb[1])}"` : `does not contain "${unquote(textVerb[1])}"` }
+    }
+  }
+
+  return null
+}
+
+interface ParsedCheck {
+  scope: 'page' | 'every' | 'any' | 'navigation'
+  path?: string // For 'page'; undefined means the start page
+  predicate: Predicate
+}
+
+function parseCheck(check: string): ParsedCheck | 'broken-links' | { minPages: number } | null {
+  const text = check.trim()
+
+  if (/^(?:there are |has )?no broken links\.?$/i.test(text)) return 'broken-links'
+
+  const pageCount = text.match(/^(?:the )?(?:site|website) has (?:at least )?(\d+) pages\.?$/i)
+  if (pageCount) return { minPages: parseInt(pageCount[1], 10) }
+
+  const navigation = text.match(/^(?:the )?(?:navigation|nav|navbar|menu)\s+(contains|includes|has|links to)\s+(.+)$/i)
+  if (navigation) {
+    const [, verb, object] = navigation
+    // "navigation contains About" means a link or item with that text
+    const predicate = verb.toLowerCase() === 'links to'
+      ? parsePredicate(`links to ${object}`)
+      : parsePredicate(parseElementQuery(object) ? `has ${object}` : `contains ${object}`)
+    return predicate && { scope: 'navigation', predicate }
+  }
+
+  const page = text.match(/^(?:the )?page\s+(\S+)\s+(.+)$/i)
+  if (page) {
+    const predicate = parsePredicate(page[2])
+    return predicate && { scope: 'page', path: page[1], predicate }
+  }
+
+  const every = text.match(/^(?:every|each|all)\s+pages?\s+(.+)$/i)
+  if (every) {
+    const predicate = parsePredicate(every[1].replace(/^have\b/i, 'has'))
+    return predicate && { scope: 'every', predicate }
+  }
+
+  const any = text.match(/^(?:some|any|a|at least one)\s+page\s+(.+)$/i)
+  if (any) {
+    const predicate = parsePredicate(any[1])
+    return predicate && { scope: 'any', predicate }
+  }
+
+  const home = text.match(/^(?:the )?(?:home ?page|landing page|index page|start page)\s+(.+)$/i)
+  const predicate = parsePredicate(home ? home[1] : text)
+  return predicate && { scope: 'page', predicate }
+}
+
+/**
+ * Paths named by "page /path ..." checks, each once however many checks name it. The crawl
+ * fetches them even when nothing links to them, so a check reports what is on the page
+ * rather than that it wasn't found.
+ */
+export function checkedPaths(checks: string[]): string[] {
+  const paths = new Map<string, string>()
+  for (const check of checks) {
+    const path = check.trim().match(/^(?:the )?page\s+(\/\S*)\s+/i)?.[1]
+    // Pages are matched to checks by normalised path, so /About/ and /about are the same page
+    if (path && !paths.has(normalizePath(path))) paths.set(normalizePath(path), path)
+  }
+  return Array.from(paths.values())
+}
+
+/**
+ * Run scripted checks against a crawl. Checks the syntax doesn't cover are reported as
+ * unsupported instead of failing the student.
+ */
+export function runWebsiteChecks(checks: string[], crawl: WebsiteCrawl): WebsiteCheckResult[] {
+  const documents = new Map<CrawledPage, HtmlElement>()
+  const documentOf = (page: CrawledPage) => {
+    if (!documents.has(page)) documents.set(page, parseHtml(page.html || ''))
+    return documents.get(page)!
+  }
+  const loaded = (page: CrawledPage) => page.status !== null && page.status < 400 && page.html !== undefined
+  const startPage = crawl.pages[0]
+
+  return checks.filter(check => check.trim() !== '').map((check): WebsiteCheckResult => {
+    const parsed = parseCheck(check)
+    if (!parsed) {
+      return { check, status: 'unsupported', detail: 'Not a recognised check; see the website check syntax' }
+    }
+
+    if (parsed === 'broken-links') {
+      return crawl.brokenLinks.length === 0
+        ? { check, status: 'passed', detail: `No broken links among ${plural(crawl.pages.length, 'crawled page')}` }
+        : { check, status: 'failed', detail: `${plural(crawl.brokenLinks.length, 'broken link')}: ${crawl.brokenLinks.slice(0, 5).map(link => `${link.url} (${link.status ?? link.error})`).join(', ')}` }
+    }
+
+    if ('minPages' in parsed) {
+      const count = crawl.pages.filter(page => page.depth !== null && loaded(page)).length
+      return {
+        check,
+        status: count >= parsed.minPages ? 'passed' : 'failed',
+        detail: `${plural(count, 'linked page')} loaded (crawl limit ${crawl.maxPages} pages, depth ${crawl.maxDepth})`,
+      }
+    }
+
+    if (parsed.scope === 'every' || parsed.scope === 'any') {
+      const pages = crawl.pages.filter(page => page.depth !== null && loaded(page))
+      if (pages.length === 0) return { check, status: 'failed', detail: 'No pages could be loaded' }
+      const outcomes = pages.map(page => ({ page, ...parsed.predicate(documentOf(page), page) }))
+      const failing = outcomes.filter(outcome => !outcome.passed)
+      if (parsed.scope === 'every') {
+        return failing.length === 0
+          ? { check, status: 'passed', detail: `All ${plural(pages.length, 'crawled page')} pass` }
+          : { check, status: 'failed', detail: failing.slice(0, 5).map(outcome => `${outcome.page.path}: ${outcome.detail}`).join('; ') }
+      }
+      const passing = outcomes.find(outcome => outcome.passed)
+      return passing
+        ? { check, status: 'passed', detail: `${passing.page.path}: ${passing.detail}` }
+        : { check, status: 'failed', detail: `None of the ${plural(pages.length, 'crawled page')} pass` }
+    }
+
+    const page = parsed.path
+      ? crawl.pages.find(candidate => normalizePath(candidate.path) === normalizePath(parsed.path!))
+      : startPage
+    const path = page?.path ?? parsed.path ?? '/'
+    if (!page) return { check, status: 'failed', detail: `${path} was not reached by the crawl${crawl.timedOut ? ' before it ran out of time' : ''}` }
+    if (!loaded(page)) {
+      return { check, status: 'failed', detail: `${path} ${page.status ? `returned ${page.status}` : page.error ? `failed to load (${page.error})` : 'is not an HTML page'}` }
+    }
+
+    const notLinked = page.depth === null ? ' (not linked from the crawled pages)' : ''
+    const root = documentOf(page)
+    if (parsed.scope === 'navigation') {
+      const navigation = querySelectorAll(root, 'nav, [role=navigation]')
+      const regions = navigation.length > 0 ? navigation : querySelectorAll(root, 'header')
+      if (regions.length === 0) return { check, status: 'failed', detail: `No <nav> or <header> on ${path}` }
+      const outcomes = regions.map(region => parsed.predicate(region, page))
+      const passing = outcomes.find(outcome => outcome.passed)
+      return { check, status: passing ? 'passed' : 'failed', detail: `Navigation on ${path} ${(passing ?? outcomes[0]).detail}` }
+    }
+
+    const outcome = parsed.predicate(root, page)
+    return { check, status: outcome.passed ? 'passed' : 'failed', detail: `${path}${notLinked} ${outcome.detail}` }
+  })
+}
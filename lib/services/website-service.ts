@@ -1,5 +1,59 @@
+import { connect } from 'tls';
+import { isIP } from 'net';
 import { sanitizeTextContent } from '../utils/sanitization';
 import { withCache, CacheKeys, CacheTTL } from '../utils/cache';
+import { renderPage, type RenderedPage } from './browser-render-service';
+import {
+  auditAccessibility,
+  formatAccessibilityAudit,
+  mapAuditToCriteria,
+  type AccessibilityAudit,
+  type AccessibilityCriterionResult,
+} from './accessibility-service';
+import { checkedPaths, runWebsiteChecks, type WebsiteCheckResult } from './website-check-service';
+import {
+  analyzePerformance,
+  formatPerformanceReport,
+  resourceTypeFor,
+  type NetworkResource,
+  type PerformanceBudget,
+  type PerformanceReport,
+  type ResourceType,
+} from './performance-service';
+import {
+  analyzeSecurity,
+  findMixedContent,
+  formatSecurityReport,
+  type SecurityReport,
+  type TlsInfo,
+} from './security-service';
+import { parseHtml, querySelectorAll, textContent, type HtmlElement } from '../utils/html';
+
+export const DEFAULT_CRAWL_DEPTH = 1;
+export const DEFAULT_CRAWL_PAGES = 10;
+export const MAX_CRAWL_DEPTH = 3;
+export const MAX_CRAWL_PAGES = 30;
+const CRAWL_TIMEOUT = 8000; // Per request
+// assessWebsite's time limit when the caller doesn't set a deadline
+const WEBSITE_TIMEOUT = 80000;
+// Rendering every viewport, taken from the time left after the first fetch; capped so the stages keep MIN_STAGES_TIMEOUT
+const RENDER_BUDGET = 30000;
+// The crawl, performance and security stages together get what is left of the deadline, but never less than this
+const MIN_STAGES_TIMEOUT = 15000;
+// Default for a request pool created without a deadline
+export const WEBSITE_STAGES_TIMEOUT = 45000;
+const REQUEST_CONCURRENCY = 4; // Requests in flight at once across the stages
+const MAX_LINK_CHECKS = 30; // Links outside the crawl that get a HEAD request
+const MAX_CRAWL_HTML_LENGTH = 500000;
+const MAX_PERFORMANCE_RESOURCES = 40; // Subresources fetched to weigh a page without a browser
+const MAX_RESOURCE_BYTES = 5 * 1024 * 1024; // Bodies without Content-Length are counted up to this, then cancelled
+const SCRIPT_TAIL_LENGTH = 1000; // End of a script searched for its sourceMappingURL comment
+const SOURCE_MAP_SNIFF_BYTES = 100000; // Start of a would-be source map searched for its "mappings" field
+const PRELOAD_TYPES: Record<string, ResourceType> = { style: 'stylesheet', script: 'script', image: 'image', font: 'font' };
+const MAX_SOURCE_MAP_CHECKS = 10; // Same-origin scripts probed for a public source map
+const MAX_HTTP_REDIRECTS = 3; // Hops followed on http:// looking for the switch to HTTPS
+// Links to these are checked but not crawled
+const NON_PAGE_EXTENSION = /\.(pdf|zip|png|jpe?g|gif|svg|webp|ico|mp4|webm|mp3|wav|docx?|xlsx?|pptx?|csv|txt|json|xml|css|js)$/i;
 
 export interface WebsiteInfo {
   url: string;
@@ -14,12 +68,7 @@ export interface WebsiteInfo {
     hasFavicon?: boolean;
     viewport?: string;
   };
-  accessibility?: {
-    hasValidHTML?: boolean;
-    hasAltTags?: boolean;
-    hasAriaLabels?: boolean;
-    colorContrast?: string;
-  };
+  accessibility?: AccessibilityAudit; // Audit of the fetched HTML, without colour contrast
   performance?: {
     loadTime?: number;
     resourceCount?: number;
@@ -32,8 +81,100 @@ export interface WebsiteInfo {
   htmlPreview?: string;
 }
 
+export interface CrawlOptions {
+  maxDepth?: number; // Link hops from the start page, 0 to MAX_CRAWL_DEPTH
+  maxPages?: number; // Page budget, 1 to MAX_CRAWL_PAGES
+  include?: string[]; // Paths to fetch even if nothing links to them
+  startHtml?: string; // Rendered DOM of the start page, so client-rendered links are followed
+  pool?: RequestPool; // Shared with the other stages; a fresh one otherwise
+}
+
+export interface CrawledPage {
+  url: string;
+  path: string; // Pathname and query
+  finalUrl?: string; // When redirected
+  depth: number | null; // Link hops from the start page; null for included pages the crawl didn't reach
+  status: number | null; // Null when the request failed
+  error?: string;
+  contentType?: string;
+  title?: string;
+  loadTime: number;
+  links: string[]; // Same-origin links on the page
+  html?: string; // HTML pages only, up to MAX_CRAWL_HTML_LENGTH
+}
+
+export interface BrokenLink {
+  url: string;
+  status: number | null;
+  error?: string;
+  foundOn: string[]; // Paths of the pages linking to it
+}
+
+export interface WebsiteCrawl {
+  startUrl: string;
+  maxDepth: number;
+  maxPages: number;
+  pages: CrawledPage[]; // Start page first
+  brokenLinks: BrokenLink[]; // Same-origin links answering 4xx/5xx or failing
+  uncheckedLinks: number; // Same-origin links beyond the page budget and MAX_LINK_CHECKS, or left when time ran out
+  externalLinks: number; // Distinct links to other sites; not checked
+  timedOut: boolean; // Stopped early because the stages ran out of time
+}
+
+/**
+ * Requests shared by the crawl, performance and security stages of one assessment: at most
+ * REQUEST_CONCURRENCY at a time, and none once the time is up. Requests still in flight then
+ * are aborted through `signal`, and each stage returns what it has collected so far.
+ */
+export interface RequestPool {
+  signal: AbortSignal;
+  expired(): boolean;
+  run<T>(task: () => Promise<T>): Promise<T | null>; // Null when the time ran out before the task started
+}
+
+export function createRequestPool(timeoutMs = WEBSITE_STAGES_TIMEOUT, concurrency = REQUEST_CONCURRENCY): RequestPool {
+  const signal = AbortSignal.timeout(timeoutMs);
+  const waiting: (() => void)[] = [];
+  let active = 0;
+
+  return {
+    signal,
+    expired: () => signal.aborted,
+    async run(task) {
+      while (active >= concurrency) {
+        await new Promise<void>(resolve => waiting.push(resolve));
+      }
+      if (signal.aborted) {
+        // Pass the turn on, or the tasks queued behind this one never start
+        waiting.shift()?.();
+        return null;
+      }
+      active++;
+      try {
+        return await task();
+      } finally {
+        active--;
+        waiting.shift()?.();
+      }
+    },
+  };
+}
+
+// Per-request timeout, cut short when the pool's time is up
+function requestSignal(pool: RequestPool): AbortSignal {
+  return AbortSignal.any([AbortSignal.timeout(CRAWL_TIMEOUT), pool.signal]);
+}
+
 export interface WebsiteAssessmentData {
   websiteInfo: WebsiteInfo;
+  rendered: RenderedPage | null; // Null when no headless browser is available or the page failed to render
+  accessibility: AccessibilityAudit | null; // Of the rendered page when available, otherwise the fetched HTML
+  accessibilityChecks: AccessibilityCriterionResult[]; // Criteria that mention accessibility, checked against the audit
+  crawl: WebsiteCrawl;
+  checks: WebsiteCheckResult[]; // Question's scripted checks, run against the crawl
+  performance: PerformanceReport | null; // Null when the page couldn't be loaded
+  security: SecurityReport | null; // Null when the page couldn't be fetched
+  timedOut: boolean; // The crawl, performance and security stages ran out of time and are partial
   issues: string[];
   strengths: string[];
   recommendations: string[];
@@ -70,6 +211,7 @@ export class WebsiteService {
           'User-Agent': 'Mozilla/5.0 (Assessment Agent Bot)',
         },
         redirect: 'follow',
+        signal: AbortSignal.timeout(CRAWL_TIMEOUT),
       });
 
       const responseTime = Date.now() - startTime;
@@ -90,6 +232,7 @@ export class WebsiteService {
       // If accessible, fetch full content for more details
       let metadata: WebsiteInfo['metadata'] = { hasHttps };
       let htmlPreview = undefined;
+      let accessibility: AccessibilityAudit | undefined;
 
       if (isAccessible) {
         try {
@@ -97,6 +240,7 @@ export class WebsiteService {
             headers: {
               'User-Agent': 'Mozilla/5.0 (Assessment Agent Bot)',
             },
+            signal: AbortSignal.timeout(CRAWL_TIMEOUT),
           });
 
           const html = await fullResponse.text();
@@ -107,6 +251,7 @@ export class WebsiteService {
             ...metadata,
             ...this.extractMetadata(html),
           };
+          accessibility = auditAccessibility(html);
         } catch (error) {
           console.warn('Could not fetch full HTML:', error);
         }
@@ -119,6 +264,7 @@ export class WebsiteService {
         responseTime,
         headers,
         metadata,
+        accessibility,
         htmlPreview,
       };
     } catch (error) {
@@ -134,14 +280,627 @@ export class WebsiteService {
   }
 
   /**
-   * Assess website against criteria
+   * Render the page in a headless browser within `budget` ms. Not cached: screenshots are
+   * large and resubmissions should see the current deployment.
    */
-  async assessWebsite(url: string, criteria?: string[]): Promise<WebsiteAssessmentData> {
-    const websiteInfo = await this.testWebsite(url);
+  async renderWebsite(url: string, budget?: number): Promise<RenderedPage | null> {
+    try {
+      return await renderPage(this.normalizeUrl(url), { budget });
+    } catch (error) {
+      console.warn('Could not render website:', error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  /**
+   * Crawl same-origin links breadth-first up to a depth and page budget. Links the crawl
+   * doesn't visit (files, or pages past the budget) get a HEAD request so broken ones are
+   * still reported. Not cached, like rendering. When the pool's time runs out, the pages
+   * and links checked so far are returned with `timedOut` set.
+   */
+  async crawlWebsite(url: string, options: CrawlOptions = {}): Promise<WebsiteCrawl> {
+    const startUrl = this.normalizeUrl(url);
+    let origin = new URL(startUrl).origin;
+    const maxDepth = Math.min(Math.max(options.maxDepth ?? DEFAULT_CRAWL_DEPTH, 0), MAX_CRAWL_DEPTH);
+    const maxPages = Math.min(Math.max(options.maxPages ?? DEFAULT_CRAWL_PAGES, 1), MAX_CRAWL_PAGES);
+    const pool = options.pool ?? createRequestPool();
+
+    const pages: CrawledPage[] = [];
+    const linkedFrom = new Map<string, Set<string>>();
+    const externalLinks = new Set<string>();
+    const queued = new Set<string>([startUrl]);
+    const queue = [{ url: startUrl, depth: 0 }];
+    let timedOut = false;
+    // Drops results that didn't run, or failed only because the time ran out
+    const inTime = <T extends { status: number | null }>(result: T | null): T | null => {
+      if (result && (result.status !== null || !pool.expired())) return result;
+      timedOut = true;
+      return null;
+    };
+
+    while (queue.length > 0 && pages.length < maxPages) {
+      if (pool.expired()) {
+        timedOut = true;
+        break;
+      }
+      // Everything queued so far is fetched together, then handled in queue order
+      const batch = queue.splice(0, maxPages - pages.length);
+      const fetched = await Promise.all(batch.map(({ url: pageUrl, depth }) =>
+        pool.run(() => this.fetchPage(pageUrl, depth, pool, depth === 0 ? options.startHtml : undefined))
+      ));
+
+      batch.forEach(({ depth }, index) => {
+        const page = inTime(fetched[index]);
+        if (!page) return;
+        pages.push(page);
+        // Follow the site to where it redirects, e.g. from the bare domain to www
+        if (depth === 0 && page.finalUrl) origin = new URL(page.finalUrl).origin;
+
+        for (const link of page.links) {
+          if (new URL(link).origin !== origin) {
+            externalLinks.add(link);
+            continue;
+          }
+          if (!linkedFrom.has(link)) linkedFrom.set(link, new Set());
+          linkedFrom.get(link)!.add(page.path);
+          if (!queued.has(link) && depth < maxDepth && !NON_PAGE_EXTENSION.test(new URL(link).pathname)) {
+            queued.add(link);
+            queue.push({ url: link, depth: depth + 1 });
+          }
+        }
+      });
+    }
+
+    const withoutTrailingSlash = (path: string) => path.replace(/\/+$/, '') || '/';
+    const included = new Map<string, string>();
+    for (const path of options.include || []) {
+      const target = new URL(path, origin);
+      const key = withoutTrailingSlash(`${target.pathname}${target.search}`);
+      if (!pages.some(page => withoutTrailingSlash(page.path) === key) && !included.has(key)) {
+        included.set(key, target.href.split('#')[0]);
+      }
+    }
+    const includedPages = await Promise.all(Array.from(included.values()).map(pageUrl => pool.run(() => this.fetchPage(pageUrl, null, pool))));
+    includedPages.forEach(page => {
+      const reached = inTime(page);
+      if (reached) pages.push(reached);
+    });
+
+    const statuses = new Map<string, { status: number | null; error?: string }>(
+      pages.map(page => [page.url, { status: page.status, error: page.error }])
+    );
+    const unvisited = Array.from(linkedFrom.keys()).filter(link => !statuses.has(link));
+    const checkedLinks = unvisited.slice(0, MAX_LINK_CHECKS);
+    const linkStatuses = await Promise.all(checkedLinks.map(link => pool.run(() => this.checkLink(link, pool))));
+    checkedLinks.forEach((link, index) => {
+      const result = inTime(linkStatuses[index]);
+      if (result) statuses.set(link, result);
+    });
+
+    const brokenLinks: BrokenLink[] = [];
+    linkedFrom.forEach((foundOn, link) => {
+      const result = statuses.get(link);
+      if (result && (result.status === null || result.status >= 400)) {
+        brokenLinks.push({ url: link, ...result, foundOn: Array.from(foundOn) });
+      }
+    });
+
+    return {
+      startUrl,
+      maxDepth,
+      maxPages,
+      pages: pages.map(page => ({ ...page, links: page.links.filter(link => new URL(link).origin === origin) })),
+      brokenLinks,
+      uncheckedLinks: unvisited.filter(link => !statuses.has(link)).length,
+      externalLinks: externalLinks.size,
+      timedOut,
+    };
+  }
+
+  /**
+   * Fetch one page of a crawl; failures are recorded on the page rather than thrown
+   */
+  private async fetchPage(url: string, depth: number | null, pool: RequestPool, renderedHtml?: string): Promise<CrawledPage> {
+    const { pathname, search } = new URL(url);
+    const startTime = Date.now();
+
+    try {
+      const response = await fetch(url, {
+        headers: {
+          'User-Agent': 'Mozilla/5.0 (Assessment Agent Bot)',
+        },
+        redirect: 'follow',
+        signal: requestSignal(pool),
+      });
+      const contentType = response.headers.get('content-type') || undefined;
+      const isHtml = !!contentType?.includes('html');
+      if (!isHtml || renderedHtml) await response.body?.cancel();
+      // Read no more of the body than is kept, so a huge page can't exhaust memory
+      const fetchedHtml = async () => (await this.readBody(response, MAX_CRAWL_HTML_LENGTH, true)).body.toString('utf-8');
+      const html = isHtml ? (renderedHtml ?? await fetchedHtml()).slice(0, MAX_CRAWL_HTML_LENGTH) : undefined;
+      const document = html ? parseHtml(html) : null;
+      const title = document ? querySelectorAll(document, 'title').map(textContent)[0] : undefined;
+
+      return {
+        url,
+        path: `${pathname}${search}`,
+        finalUrl: response.url && response.url !== url ? response.url : undefined,
+        depth,
+        status: response.status,
+        contentType,
+        title: title ? sanitizeTextContent(title) : undefined,
+        loadTime: Date.now() - startTime,
+        links: document ? this.extractLinks(document, response.url || url) : [],
+        html,
+      };
+    } catch (error) {
+      return {
+        url,
+        path: `${pathname}${search}`,
+        depth,
+        status: null,
+        error: error instanceof Error ? error.message : 'Request failed',
+        loadTime: Date.now() - startTime,
+        links: [],
+      };
+    }
+  }
+
+  /**
+   * Status of a link without downloading it; falls back to GET for servers that reject HEAD
+   */
+  private async checkLink(url: string, pool: RequestPool): Promise<{ status: number | null; error?: string }> {
+    try {
+      const request = (method: string) => fetch(url, {
+        method,
+        headers: {
+          'User-Agent': 'Mozilla/5.0 (Assessment Agent Bot)',
+        },
+        redirect: 'follow',
+        signal: requestSignal(pool),
+      });
+      let response = await request('HEAD');
+      if (response.status === 405 || response.status === 501) {
+        response = await request('GET');
+        await response.body?.cancel();
+      }
+      return { status: response.status };
+    } catch (error) {
+      return { status: null, error: error instanceof Error ? error.message : 'Request failed' };
+    }
+  }
+
+  /**
+   * Absolute http(s) links on a page, without fragments
+   */
+  private extractLinks(document: ReturnType<typeof parseHtml>, baseUrl: string): string[] {
+    const links = new Set<string>();
+    for (const anchor of querySelectorAll(document, 'a[href], area[href]')) {
+      try {
+        const link = new URL(anchor.attrs.href, baseUrl);
+        if (link.protocol !== 'http:' && link.protocol !== 'https:') continue;
+        link.hash = '';
+        links.add(link.href);
+      } catch {
+        continue;
+      }
+    }
+    return Array.from(links);
+  }
+
+  /**
+   * Weigh the start page: from the requests the browser made when rendered, otherwise by
+   * fetching the scripts, stylesheets, images and icons its HTML references. Assets not
+   * fetched before the pool's time runs out are left out of the report.
+   */
+  async measurePerformance(
+    url: string,
+    rendered: RenderedPage | null,
+    budget?: PerformanceBudget,
+    pool: RequestPool = createRequestPool()
+  ): Promise<PerformanceReport | null> {
+    if (rendered && rendered.resources.length > 0) {
+      return analyzePerformance(rendered.resources, {
+        source: 'rendered',
+        sample: rendered.performance,
+        loadTime: rendered.loadTime,
+        budget,
+      });
+    }
+
+    const document = await pool.run(() => this.fetchResource(this.normalizeUrl(url), 'document', false, pool));
+    if (!document?.resource || document.resource.status === null || document.resource.status >= 400 || !document.html) {
+      return null;
+    }
+
+    const resources: NetworkResource[] = [document.resource];
+    const references = this.subresources(parseHtml(document.html), document.resource.url);
+    const fetched = await Promise.all(references.slice(0, MAX_PERFORMANCE_RESOURCES).map(reference =>
+      pool.run(() => this.fetchResource(reference.url, reference.type, reference.renderBlocking, pool))
+    ));
+    fetched.forEach(result => {
+      if (result?.resource) resources.push(result.resource);
+    });
+
+    return analyzePerformance(resources, { source: 'fetched', budget });
+  }
+
+  /**
+   * Assets a browser would request while loading the HTML, with render-blocking judged
+   * the way browsers do: stylesheets, and scripts in <head> without async, defer or type=module
+   */
+  private subresources(document: HtmlElement, baseUrl: string): { url: string; type: ResourceType; renderBlocking: boolean }[] {
+    const found = new Map<string, { url: string; type: ResourceType; renderBlocking: boolean }>();
+    const inHead = (element: HtmlElement) => {
+      for (let node = element.parent; node; node = node.parent) {
+        if (node.tag === 'head') return true;
+      }
+      return false;
+    };
+    const add = (href: string | undefined, type: ResourceType, renderBlocking = false) => {
+      if (!href || href.startsWith('data:')) return;
+      try {
+        const url = new URL(href, baseUrl);
+        if ((url.protocol === 'http:' || url.protocol === 'https:') && !found.has(url.href)) {
+          found.set(url.href, { url: url.href, type, renderBlocking });
+        }
+      } catch {
+        return;
+      }
+    };
+
+    for (const element of querySelectorAll(document, 'link[href], script[src], img[src]')) {
+      const { attrs } = element;
+      if (element.tag === 'script') {
+        add(attrs.src, 'script', inHead(element) && !('async' in attrs) && !('defer' in attrs) && attrs.type !== 'module');
+      } else if (element.tag === 'img') {
+        add(attrs.src, 'image');
+      } else {
+        const rel = (attrs.rel || '').toLowerCase().split(/\s+/);
+        if (rel.includes('stylesheet')) {
+          add(attrs.href, 'stylesheet', !attrs.media || /^(all|screen)$/i.test(attrs.media.trim()));
+        } else if (rel.includes('icon')) {
+          add(attrs.href, 'image');
+        } else if (rel.includes('preload')) {
+          add(attrs.href, PRELOAD_TYPES[attrs.as] ?? 'other');
+        }
+      }
+    }
+
+    return Array.from(found.values());
+  }
+
+  /**
+   * Fetch one resource for the performance stage. The size is Content-Length (the compressed
+   * size) when the server sends it, otherwise the body length after decompression, counted
+   * up to MAX_RESOURCE_BYTES. Only the document's body is kept.
+   */
+  private async fetchResource(
+    url: string,
+    type: ResourceType,
+    renderBlocking: boolean,
+    pool: RequestPool
+  ): Promise<{ resource: NetworkResource | null; html?: string }> {
+    try {
+      const response = await fetch(url, {
+        headers: {
+          'User-Agent': 'Mozilla/5.0 (Assessment Agent Bot)',
+        },
+        redirect: 'follow',
+        signal: requestSignal(pool),
+      });
+      const contentType = response.headers.get('content-type') || undefined;
+      const contentLength = parseInt(response.headers.get('content-length') || '', 10);
+      let html: string | undefined;
+      let bodyLength = 0;
+      if (type === 'document') {
+        const { length, body } = await this.readBody(response, MAX_RESOURCE_BYTES, true);
+        html = body.toString('utf-8').slice(0, MAX_CRAWL_HTML_LENGTH);
+        bodyLength = length;
+      } else if (Number.isNaN(contentLength)) {
+        bodyLength = (await this.readBody(response, MAX_RESOURCE_BYTES, false)).length;
+      } else {
+        await response.body?.cancel();
+      }
+
+      return {
+        resource: {
+          url: response.url || url,
+          type: type === 'document' ? type : resourceTypeFor(contentType, type),
+          status: response.status,
+          transferSize: Number.isNaN(contentLength) ? bodyLength : contentLength,
+          contentType,
+          contentEncoding: response.headers.get('content-encoding') || undefined,
+          cacheControl: response.headers.get('cache-control') || undefined,
+          renderBlocking,
+        },
+        html,
+      };
+    } catch (error) {
+      console.warn(`Could not fetch ${url}:`, error instanceof Error ? error.message : error);
+      return { resource: null };
+    }
+  }
+
+  /**
+   * Read a response body up to `limit` bytes, then cancel the rest. The chunks are kept only
+   * when asked for, so large assets are counted without being held in memory.
+   */
+  private async readBody(response: Response, limit: number, keep: boolean): Promise<{ length: number; body: Buffer }> {
+    const reader = response.body?.getReader();
+    const chunks: Uint8Array[] = [];
+    let length = 0;
+    if (!reader) return { length, body: Buffer.alloc(0) };
+
+    while (length < limit) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      length += value.length;
+      if (keep) chunks.push(value);
+    }
+    if (length >= limit) await reader.cancel();
+    return { length: Math.min(length, limit), body: Buffer.concat(chunks).subarray(0, limit) };
+  }
+
+  /**
+   * Security posture of the start page: the headers and cookies it is served with, the TLS
+   * handshake, what http:// does, mixed content, and probes for public source maps and .git.
+   * Probes the pool's time doesn't allow are reported as not found.
+   */
+  async checkSecurity(url: string, rendered: RenderedPage | null, pool: RequestPool = createRequestPool()): Promise<SecurityReport | null> {
+    const page = await pool.run(async () => {
+      try {
+        const response = await fetch(this.normalizeUrl(url), {
+          headers: {
+            'User-Agent': 'Mozilla/5.0 (Assessment Agent Bot)',
+          },
+          redirect: 'follow',
+          signal: requestSignal(pool),
+        });
+        return { response, html: (await this.readBody(response, MAX_CRAWL_HTML_LENGTH, true)).body.toString('utf-8') };
+      } catch (error) {
+        console.warn('Could not fetch page for security checks:', error instanceof Error ? error.message : error);
+        return null;
+      }
+    });
+    if (!page) return null;
+    const { response, html } = page;
+
+    const pageUrl = response.url || this.normalizeUrl(url);
+    const https = pageUrl.startsWith('https://');
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, key) => {
+      headers[key] = value;
+    });
+
+    // Scripts added at runtime only show up in the browser's requests
+    const document = parseHtml(rendered?.html ?? html);
+    const scripts = (rendered && rendered.resources.length > 0 ? rendered.resources : this.subresources(document, pageUrl))
+      .filter(resource => resource.type === 'script')
+      .map(resource => resource.url);
+    const { hostname } = new URL(pageUrl);
+    const ownScripts = Array.from(new Set(scripts)).filter(script => new URL(script).hostname === hostname);
+
+    const [tls, httpRedirect, sourceMaps, gitExposed] = await Promise.all([
+      https ? pool.run(() => this.inspectTls(pageUrl, pool)) : null,
+      https ? pool.run(() => this.checkHttpRedirect(pageUrl, pool)) : null,
+      this.findSourceMaps(ownScripts.slice(0, MAX_SOURCE_MAP_CHECKS), pool),
+      this.findExposedGit(pageUrl, pool),
+    ]);
+
+    return analyzeSecurity({
+      url: pageUrl,
+      headers,
+      cookies: response.headers.getSetCookie(),
+      tls,
+      httpRedirect,
+      mixedContent: findMixedContent(document, pageUrl, rendered?.resources),
+      sourceMaps,
+      gitExposed,
+    });
+  }
+
+  /**
+   * Negotiated protocol and certificate. Untrusted certificates are accepted so they can be reported.
+   */
+  private inspectTls(url: string, pool: RequestPool): Promise<TlsInfo | null> {
+    const { hostname, port } = new URL(url);
+    return new Promise(resolve => {
+      const socket = connect({
+        host: hostname,
+        port: Number(port) || 443,
+        servername: isIP(hostname) ? undefined : hostname,
+        rejectUnauthorized: false,
+        timeout: CRAWL_TIMEOUT,
+      }, () => {
+        const certificate = socket.getPeerCertificate();
+        resolve({
+          protocol: socket.getProtocol(),
+          authorized: socket.authorized,
+          authorizationError: socket.authorizationError ? String(socket.authorizationError) : undefined,
+          issuer: certificate.issuer?.O || certificate.issuer?.CN,
+          validTo: certificate.valid_to ? new Date(certificate.valid_to).toISOString() : undefined,
+        });
+        socket.end();
+      });
+      const abort = () => {
+        socket.destroy();
+        resolve(null);
+      };
+      pool.signal.addEventListener('abort', abort, { once: true });
+      socket.on('close', () => pool.signal.removeEventListener('abort', abort));
+      socket.on('error', () => resolve(null));
+      socket.on('timeout', abort);
+    });
+  }
+
+  /**
+   * Whether the http:// address redirects to HTTPS, possibly after a few HTTP hops
+   */
+  private async checkHttpRedirect(pageUrl: string, pool: RequestPool): Promise<'https' | 'none' | 'unreachable' | null> {
+    const start = new URL(pageUrl);
+    // A custom HTTPS port has no plain-HTTP counterpart to check
+    if (start.port) return null;
+    start.protocol = 'http:';
+
+    let current = start.href;
+    try {
+      for (let hop = 0; hop <= MAX_HTTP_REDIRECTS; hop++) {
+        const response = await fetch(current, {
+          headers: {
+            'User-Agent': 'Mozilla/5.0 (Assessment Agent Bot)',
+          },
+          redirect: 'manual',
+          signal: requestSignal(pool),
+        });
+        await response.body?.cancel();
+        const location = response.headers.get('location');
+        if (response.status < 300 || response.status >= 400 || !location) return 'none';
+        current = new URL(location, current).href;
+        if (current.startsWith('https://')) return 'https';
+      }
+      return 'none';
+    } catch {
+      // Cut off by the time limit, not the site's fault
+      return pool.expired() ? null : 'unreachable';
+    }
+  }
+
+  /**
+   * Source maps that can be downloaded for the given scripts, found through the
+   * sourceMappingURL comment, the SourceMap header, or the conventional .map suffix
+   */
+  private async findSourceMaps(scripts: string[], pool: RequestPool): Promise<string[]> {
+    const found = await Promise.all(scripts.map(script => pool.run(async () => {
+      try {
+        const response = await fetch(script, {
+          headers: {
+            'User-Agent': 'Mozilla/5.0 (Assessment Agent Bot)',
+          },
+          signal: requestSignal(pool),
+        });
+        if (!response.ok) {
+          await response.body?.cancel();
+          return null;
+        }
+        // A script cut off at the cap has lost its last line, so only the guessed .map URL is tried
+        const { length, body } = await this.readBody(response, MAX_RESOURCE_BYTES, true);
+        const tail = length < MAX_RESOURCE_BYTES ? body.subarray(-SCRIPT_TAIL_LENGTH).toString('utf-8') : '';
+        const reference = response.headers.get('sourcemap') || response.headers.get('x-sourcemap')
+          || tail.match(/\/\/[#@]\s*sourceMappingURL=(\S+)\s*$/)?.[1];
+        // Inline maps ship the original source inside the script itself
+        if (reference?.startsWith('data:')) {
+          return `${script} (inline)`;
+        }
+
+        const mapUrl = new URL(reference || '', script);
+        if (!reference) {
+          mapUrl.pathname += '.map';
+          mapUrl.search = '';
+        }
+        const map = await fetch(mapUrl.href, {
+          headers: {
+            'User-Agent': 'Mozilla/5.0 (Assessment Agent Bot)',
+          },
+          signal: requestSignal(pool),
+        });
+        if (!map.ok) {
+          await map.body?.cancel();
+          return null;
+        }
+        // Single-page app hosts answer unknown paths with index.html, so look for a map's fields
+        const start = (await this.readBody(map, SOURCE_MAP_SNIFF_BYTES, true)).body.toString('utf-8');
+        return /"mappings"\s*:/.test(start) ? mapUrl.href : null;
+      } catch {
+        return null;
+      }
+    })));
+    return found.filter((url): url is string => url !== null);
+  }
+
+  /**
+   * URL of a readable .git/HEAD at the site root or next to the page, if any
+   */
+  private async findExposedGit(pageUrl: string, pool: RequestPool): Promise<string | null> {
+    const candidates = Array.from(new Set([new URL('/.git/HEAD', pageUrl).href, new URL('.git/HEAD', pageUrl).href]));
+    const found = await Promise.all(candidates.map(candidate => pool.run(async () => {
+      try {
+        const response = await fetch(candidate, {
+          headers: {
+            'User-Agent': 'Mozilla/5.0 (Assessment Agent Bot)',
+          },
+          redirect: 'manual',
+          signal: requestSignal(pool),
+        });
+        const body = response.ok ? (await response.text()).trim() : '';
+        if (!response.ok) await response.body?.cancel();
+        // A real HEAD file, not a fallback page that happens to answer 200
+        return /^(ref: refs\/|[0-9a-f]{40}$)/.test(body) ? candidate : null;
+      } catch {
+        return null;
+      }
+    })));
+    return found.find(candidate => candidate !== null) ?? null;
+  }
+
+  /**
+   * Assess website against criteria. Criteria that mention accessibility are
+   * checked against the accessibility audit; scripted checks run against a crawl of the site.
+   */
+  async assessWebsite(
+    url: string,
+    criteria?: string[],
+    options: {
+      crawl?: Pick<CrawlOptions, 'maxDepth' | 'maxPages'>;
+      checks?: string[];
+      budget?: PerformanceBudget;
+      deadline?: number; // Epoch ms to finish by; WEBSITE_TIMEOUT from now by default
+    } = {}
+  ): Promise<WebsiteAssessmentData> {
+    const deadline = options.deadline ?? Date.now() + WEBSITE_TIMEOUT;
+    const testedInfo = await this.testWebsite(url);
+    const rendered = await this.renderWebsite(testedInfo.url, Math.min(RENDER_BUDGET, deadline - Date.now() - MIN_STAGES_TIMEOUT));
+    const checkList = options.checks || [];
+    // The stages share the rest of the time and one request pool, and return what they have when it runs out
+    const pool = createRequestPool(Math.max(deadline - Date.now(), MIN_STAGES_TIMEOUT));
+    const [crawl, performance, security] = await Promise.all([
+      this.crawlWebsite(testedInfo.url, {
+        ...options.crawl,
+        include: checkedPaths(checkList),
+        startHtml: rendered?.html,
+        pool,
+      }),
+      this.measurePerformance(testedInfo.url, rendered, options.budget, pool),
+      this.checkSecurity(testedInfo.url, rendered, pool),
+    ]);
+    const timedOut = pool.expired();
+    const checks = runWebsiteChecks(checkList, crawl);
+
+    // Single-page apps only have their title and meta tags once rendered
+    const renderedMetadata = rendered ? this.extractMetadata(rendered.html) : {};
+    const websiteInfo: WebsiteInfo = rendered ? {
+      ...testedInfo,
+      isAccessible: testedInfo.isAccessible || (rendered.status !== null && rendered.status < 400),
+      statusCode: testedInfo.statusCode ?? rendered.status ?? undefined,
+      metadata: {
+        ...renderedMetadata,
+        ...testedInfo.metadata,
+        hasHttps: testedInfo.url.startsWith('https://'),
+        hasFavicon: testedInfo.metadata?.hasFavicon || renderedMetadata?.hasFavicon,
+      },
+      performance: { ...testedInfo.performance, loadTime: rendered.loadTime },
+    } : testedInfo;
+
     const issues: string[] = [];
     const strengths: string[] = [];
     const recommendations: string[] = [];
 
+    // Audit the DOM the browser built, so client-rendered content is included
+    const accessibility = rendered
+      ? auditAccessibility(rendered.html, { source: 'rendered', contrastSamples: rendered.contrastSamples })
+      : websiteInfo.accessibility ?? null;
+    const accessibilityChecks = accessibility && criteria ? mapAuditToCriteria(criteria, accessibility) : [];
+
     // Check accessibility
     if (!websiteInfo.isAccessible) {
       issues.push(`Website is not accessible (Status: ${websiteInfo.statusCode || 'Unknown'})`);
@@ -188,8 +947,112 @@ export class WebsiteService {
       recommendations.push('Add viewport meta tag for responsive design');
     }
 
+    // Checks that need the rendered page
+    if (rendered) {
+      if (rendered.text.length < 20) {
+        issues.push('Page renders almost no visible text');
+        recommendations.push('Check that the app renders its content without errors in a fresh browser');
+      }
+
+      if (rendered.consoleErrors.length > 0) {
+        issues.push(`${rendered.consoleErrors.length} JavaScript error(s) in the browser console`);
+        recommendations.push('Fix the errors shown in the browser console');
+      } else {
+        strengths.push('No JavaScript errors in the browser console');
+      }
+
+      if (rendered.failedRequests.length > 0) {
+        issues.push(`${rendered.failedRequests.length} resource(s) failed to load`);
+        recommendations.push('Fix broken resource URLs (images, scripts, styles, API calls)');
+      }
+
+      if (rendered.horizontalOverflow) {
+        issues.push('Content is wider than a mobile screen (horizontal scrolling)');
+        recommendations.push('Make the layout responsive so it fits narrow screens');
+      } else {
+        strengths.push('Layout fits a mobile screen');
+      }
+    }
+
+    // Crawl and scripted checks
+    const errorPages = crawl.pages.filter(page => page.depth !== null && page.depth > 0 && page.status !== null && page.status >= 400);
+    if (crawl.brokenLinks.length > 0) {
+      issues.push(`${crawl.brokenLinks.length} broken link(s): ${crawl.brokenLinks.slice(0, 3).map(link => `${new URL(link.url).pathname} (${link.status ?? 'failed'})`).join(', ')}`);
+      recommendations.push('Fix or remove links that lead to missing or failing pages');
+    } else if (crawl.pages.length > 1) {
+      strengths.push(`No broken links across ${crawl.pages.length} crawled pages`);
+    }
+    if (errorPages.length > 0) {
+      issues.push(`${errorPages.length} linked page(s) return an error status`);
+    }
+
+    const failedChecks = checks.filter(check => check.status === 'failed');
+    if (failedChecks.length > 0) {
+      issues.push(`${failedChecks.length} of ${checks.length} scripted check(s) failed`);
+    } else if (checks.some(check => check.status === 'passed')) {
+      strengths.push(`All ${checks.filter(check => check.status === 'passed').length} scripted checks passed`);
+    }
+
+    if (performance) {
+      performance.budget.forEach(result => {
+        if (result.passed === false) {
+          issues.push(`Over performance budget: ${result.label} (actual ${result.actual})`);
+        } else if (result.passed) {
+          strengths.push(`Within performance budget: ${result.label} (${result.actual})`);
+        }
+      });
+      if (performance.uncompressed.length > 0) {
+        issues.push(`${performance.uncompressed.length} text asset(s) served without compression`);
+        recommendations.push('Enable gzip or brotli compression on the server');
+      }
+      if (performance.images.length > 0) {
+        recommendations.push(`Optimize ${performance.images.length} image(s): resize, compress or serve WebP/AVIF`);
+      }
+      if (performance.renderBlocking.length > 0) {
+        recommendations.push(`Reduce render-blocking resources (${performance.renderBlocking.length}): defer scripts and inline critical CSS`);
+      }
+      if (performance.uncached.length > 0) {
+        recommendations.push('Serve static assets with a long Cache-Control max-age');
+      }
+    }
+
+    if (security) {
+      // Plain HTTP is already reported above
+      const findings = security.findings.filter(finding => finding.check !== 'https');
+      findings
+        .filter(finding => finding.status === 'fail' && finding.severity !== 'low')
+        .forEach(finding => issues.push(`Security (${finding.severity}): ${finding.title} - ${finding.detail}`));
+      const advice = findings.filter(finding => finding.status !== 'pass' && finding.recommendation).map(finding => finding.recommendation!);
+      recommendations.push(...Array.from(new Set(advice)).slice(0, 5));
+      if (security.grade === 'A' || security.grade === 'B') {
+        strengths.push(`Security posture grade ${security.grade} (${security.score}/100)`);
+      } else if (security.grade === 'D' || security.grade === 'F') {
+        issues.push(`Weak security posture: grade ${security.grade} (${security.score}/100)`);
+      }
+    }
+
+    if (accessibility) {
+      const serious = accessibility.violations.filter(v => v.impact === 'critical' || v.impact === 'serious');
+      if (serious.length > 0) {
+        issues.push(`${serious.length} critical or serious accessibility violation(s): ${serious.map(v => v.rule).join(', ')}`);
+        recommendations.push(...serious.slice(0, 3).map(v => v.help));
+      } else if (accessibility.violations.length > 0) {
+        recommendations.push(`Fix minor accessibility issues: ${accessibility.violations.map(v => v.rule).join(', ')}`);
+      } else {
+        strengths.push(`No accessibility violations found (${accessibility.passes.length} rules checked)`);
+      }
+    }
+
     return {
       websiteInfo,
+      rendered,
+      accessibility,
+      accessibilityChecks,
+      crawl,
+      checks,
+      performance,
+      security,
+      timedOut,
       issues,
       strengths,
       recommendations,
@@ -263,9 +1126,12 @@ export class WebsiteService {
    * Generate assessment summary for LLM
    */
   generateWebsiteSummary(assessmentData: WebsiteAssessmentData): string {
-    const { websiteInfo, issues, strengths, recommendations } = assessmentData;
+    const { websiteInfo, rendered, accessibility, accessibilityChecks, crawl, checks, performance, security, timedOut, issues, strengths, recommendations } = assessmentData;
 
     let summary = `# Website Assessment: ${websiteInfo.url}\n\n`;
+    if (timedOut) {
+      summary += `> The crawl, performance and security checks ran out of time; their results cover only what was fetched in time. Don't penalise what wasn't checked.\n\n`;
+    }
 
     summary += `## Accessibility Status\n`;
     summary += `- **Status:** ${websiteInfo.isAccessible ? '✓ Accessible' : '✗ Not Accessible'}\n`;
@@ -303,7 +1169,63 @@ export class WebsiteService {
       summary += '\n';
     }
 
-    if (websiteInfo.htmlPreview) {
+    if (checks.length > 0) {
+      summary += `## Scripted Checks\n`;
+      checks.forEach(check => summary += `- ${check.status === 'passed' ? '✅' : check.status === 'failed' ? '❌' : '❔'} ${check.check}: ${check.detail}\n`);
+      summary += '\n';
+    }
+
+    summary += `## Site Crawl\n`;
+    summary += `- **Pages Crawled:** ${crawl.pages.filter(page => page.depth !== null).length} (depth ${crawl.maxDepth}, limit ${crawl.maxPages})\n`;
+    summary += `- **External Links:** ${crawl.externalLinks} (not checked)\n`;
+    if (crawl.uncheckedLinks > 0) {
+      summary += `- **Unchecked Links:** ${crawl.uncheckedLinks}\n`;
+    }
+    if (crawl.timedOut) {
+      summary += `- **Stopped Early:** ran out of time\n`;
+    }
+    crawl.pages.slice(0, 30).forEach(page => {
+      summary += `  - ${page.path} - ${page.status ?? page.error ?? 'failed'}${page.title ? ` "${page.title}"` : ''}${page.depth === null ? ' (not linked)' : ''}\n`;
+    });
+    if (crawl.brokenLinks.length > 0) {
+      summary += `- **Broken Links:**\n`;
+      crawl.brokenLinks.slice(0, 10).forEach(link => summary += `  - ${link.url} (${link.status ?? link.error ?? 'failed'}), linked from ${link.foundOn.slice(0, 3).join(', ')}\n`);
+    }
+    summary += '\n';
+
+    if (performance) {
+      summary += `## Performance\n`;
+      summary += `${formatPerformanceReport(performance)}\n\n`;
+    }
+
+    if (security) {
+      summary += `## Security Posture\n`;
+      summary += `${formatSecurityReport(security)}\n\n`;
+    }
+
+    if (accessibility) {
+      summary += `## Accessibility Audit\n`;
+      summary += `${formatAccessibilityAudit(accessibility, accessibilityChecks)}\n\n`;
+    }
+
+    if (rendered) {
+      summary += `## Rendered Page (headless browser)\n`;
+      summary += `- **Final URL:** ${rendered.finalUrl}\n`;
+      summary += `- **Load Time:** ${rendered.loadTime}ms\n`;
+      summary += `- **Screenshots Attached:** ${rendered.screenshots.map(s => `${s.viewport} (${s.width}px wide)`).join(', ')}\n`;
+      summary += `- **Mobile Layout:** ${rendered.horizontalOverflow ? 'Overflows horizontally' : 'Fits the screen'}\n`;
+      if (rendered.consoleErrors.length > 0) {
+        summary += `- **Console Errors:**\n`;
+        rendered.consoleErrors.slice(0, 5).forEach(e => summary += `  - ${e.slice(0, 200)}\n`);
+      }
+      if (rendered.failedRequests.length > 0) {
+        summary += `- **Failed Requests:**\n`;
+        rendered.failedRequests.slice(0, 5).forEach(r => summary += `  - ${r.resourceType} ${r.url} (${r.status ?? r.error ?? 'failed'})\n`);
+      }
+      summary += `\n### Visible Text (first 1500 characters)\n${rendered.text.slice(0, 1500) || '(none)'}\n\n`;
+      summary += `### Rendered HTML (first 1000 characters)\n`;
+      summary += `\`\`\`html\n${rendered.html.substring(0, 1000)}\n\`\`\`\n`;
+    } else if (websiteInfo.htmlPreview) {
       summary += `## HTML Preview (First 500 characters)\n`;
       summary += `\`\`\`html\n${websiteInfo.htmlPreview.substring(0, 500)}\n\`\`\`\n`;
     }
@@ -0,0 +1,41 @@
+// lib/types/document-formats.ts
+// Shared between the document service, the upload route and the submit pages.
+
+export interface DocumentFormat {
+  mimeType: string
+  extensions: string[] // First one is shown to students
+  description: string
+  maxFileSize: number // In bytes
+}
+
+const MB = 1024 * 1024
+
+export const DOCUMENT_FORMATS: DocumentFormat[] = [
+  { mimeType: 'application/pdf', extensions: ['.pdf'], description: 'PDF Document', maxFileSize: 10 * MB },
+  { mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', extensions: ['.docx'], description: 'Word Document', maxFileSize: 10 * MB },
+  { mimeType: 'application/vnd.oasis.opendocument.text', extensions: ['.odt'], description: 'OpenDocument Text', maxFileSize: 10 * MB },
+  // Slide decks carry images we never read, so they get more room
+  { mimeType: 'application/vnd.openxmlformats-officedocument.presentationml.presentation', extensions: ['.pptx'], description: 'PowerPoint Presentation', maxFileSize: 25 * MB },
+  { mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', extensions: ['.xlsx'], description: 'Excel Workbook', maxFileSize: 10 * MB },
+  { mimeType: 'text/csv', extensions: ['.csv'], description: 'CSV Data', maxFileSize: 5 * MB },
+  // Notebooks embed plot outputs as base64 images
+  { mimeType: 'application/x-ipynb+json', extensions: ['.ipynb'], description: 'Jupyter Notebook', maxFileSize: 20 * MB },
+  { mimeType: 'text/markdown', extensions: ['.md', '.markdown'], description: 'Markdown', maxFileSize: 2 * MB },
+  { mimeType: 'text/plain', extensions: ['.txt'], description: 'Plain Text', maxFileSize: 10 * MB },
+]
+
+// Value for an <input type="file"> accept attribute
+export const DOCUMENT_ACCEPT = DOCUMENT_FORMATS.flatMap(format => format.extensions).join(',')
+
+export function documentFormatForFilename(filename: string): DocumentFormat | undefined {
+  const name = filename.toLowerCase()
+  return DOCUMENT_FORMATS.find(format => format.extensions.some(extension => name.endsWith(extension)))
+}
+
+export function documentFormatForMimeType(mimeType: string): DocumentFormat | undefined {
+  return DOCUMENT_FORMATS.find(format => format.mimeType === mimeType)
+}
+
+export function formatFileSize(bytes: number): string {
+  return bytes >= MB ? `${Math.round(bytes / MB)}MB` : `${Math.round(bytes / 1024)}KB`
+}
@@ -0,0 +1,6 @@
+// lib/types/pdf-parse.d.ts
+// The lib entry point skips the debug harness in the package index; same API
+declare module 'pdf-parse/lib/pdf-parse.js' {
+  import pdf from 'pdf-parse'
+  export default pdf
+}
@@ -0,0 +1,114 @@
+// lib/types/rubric.ts
+// Shared between the admin rubric editor, the rubric service and the LLM prompt.
+
+export const RUBRIC_LEVELS = ['Excellent', 'Good', 'Can Improve', 'Needs Improvement'] as const
+
+export type RubricLevelLabel = typeof RUBRIC_LEVELS[number]
+
+export type RubricCriterionKind = 'CRITERION' | 'RED_FLAG' | 'BONUS'
+
+// Whether a criterion was satisfied. For red flags and bonuses, "met" means the item applies.
+export const CRITERION_STATUSES = ['met', 'partial', 'not_met'] as const
+
+export type CriterionStatus = typeof CRITERION_STATUSES[number]
+
+// Share of a criterion's points awarded at each level unless the rubric says otherwise
+const DEFAULT_LEVEL_RATIOS: Record<RubricLevelLabel, number> = {
+  'Excellent': 1,
+  'Good': 0.8,
+  'Can Improve': 0.6,
+  'Needs Improvement': 0.3,
+}
+
+export const DEFAULT_CRITERION_POINTS = 10
+export const DEFAULT_RED_FLAG_POINTS = 5 // Deducted when the red flag is present
+export const DEFAULT_BONUS_POINTS = 2
+
+export interface RubricLevelInput {
+  label: RubricLevelLabel
+  descriptor: string
+  points: number
+}
+
+export interface RubricCriterionInput {
+  id?: string
+  kind: RubricCriterionKind
+  title: string
+  description?: string | null
+  points: number // Max points (CRITERION/BONUS) or deduction (RED_FLAG)
+  levels: RubricLevelInput[] // Only used by CRITERION
+}
+
+export function defaultLevels(title: string, points: number): RubricLevelInput[] {
+  const descriptors: Record<RubricLevelLabel, string> = {
+    'Excellent': `Fully and convincingly demonstrates: ${title}`,
+    'Good': `Demonstrates ${title.charAt(0).toLowerCase()}${title.slice(1)} with minor gaps`,
+    'Can Improve': `Partially demonstrates ${title.charAt(0).toLowerCase()}${title.slice(1)}; notable gaps remain`,
+    'Needs Improvement': `Little or no evidence of ${title.charAt(0).toLowerCase()}${title.slice(1)}`,
+  }
+
+  return RUBRIC_LEVELS.map(label => ({
+    label,
+    descriptor: descriptors[label],
+    points: Math.round(points * DEFAULT_LEVEL_RATIOS[label]),
+  }))
+}
+
+export function createCriterion(title: string, points = DEFAULT_CRITERION_POINTS): RubricCriterionInput {
+  return { kind: 'CRITERION', title, description: null, points, levels: defaultLevels(title, points) }
+}
+
+/**
+ * Convert the legacy criteria/redFlags/conditionalChecks arrays into rubric criteria
+ */
+export function rubricFromLegacyArrays(
+  criteria: string[],
+  redFlags: string[],
+  conditionalChecks: string[]
+): RubricCriterionInput[] {
+  const clean = (items: string[]) => items.map(item => item.trim()).filter(Boolean)
+
+  return [
+    ...clean(criteria).map(title => createCriterion(title)),
+    ...clean(redFlags).map(title => ({
+      kind: 'RED_FLAG' as const, title, description: null, points: DEFAULT_RED_FLAG_POINTS, levels: [],
+    })),
+    ...clean(conditionalChecks).map(title => ({
+      kind: 'BONUS' as const, title, description: null, points: DEFAULT_BONUS_POINTS, levels: [],
+    })),
+  ]
+}
+
+/**
+ * The legacy arrays, derived from a rubric so older readers keep working
+ */
+export function legacyArraysFromRubric(rubric: RubricCriterionInput[]) {
+  const titles = (kind: RubricCriterionKind) => rubric.filter(c => c.kind === kind).map(c => c.title)
+  return {
+    criteria: titles('CRITERION'),
+    redFlags: titles('RED_FLAG'),
+    conditionalChecks: titles('BONUS'),
+  }
+}
+
+// Points a student can earn from the scored criteria (bonuses are extra credit)
+export function rubricMaxPoints(rubric: RubricCriterionInput[]): number {
+  return rubric.filter(c => c.kind === 'CRITERION').reduce((sum, c) => sum + c.points, 0)
+}
+
+/**
+ * Overall remark for a rubric score, using the same bands the prompt describes
+ */
+export function remarkFromPercentage(percentage: number): RubricLevelLabel {
+  if (percentage >= 85) return 'Excellent'
+  if (percentage >= 70) return 'Good'
+  if (percentage >= 40) return 'Can Improve'
+  return 'Needs Improvement'
+}
+
+// Status implied by a scored criterion's level
+export function statusFromLevel(level: RubricLevelLabel): CriterionStatus {
+  if (level === 'Excellent' || level === 'Good') return 'met'
+  if (level === 'Can Improve') return 'partial'
+  return 'not_met'
+}
@@ -5,7 +5,7 @@
  * distributed caching system for multi-instance deployments.
  *
  * Usage:
- * - GitHub repo data: 1 hour cache (repos don't change frequently during grading)
+ * - GitHub repo data: 1 hour cache per commit SHA (content at a commit never changes)
  * - Website tests: 30 minutes cache (sites may update more often)
  * - Document processing: No cache (each submission is unique)
  */
@@ -23,8 +23,8 @@ class SimpleCache {
     this.cache = new Map();
     this.maxSize = maxSize;
 
-    // Clean up expired entries every 5 minutes
-    setInterval(() => this.cleanup(), 5 * 60 * 1000);
+    // Clean up expired entries every 5 minutes, without keeping scripts and tests alive
+    setInterval(() => this.cleanup(), 5 * 60 * 1000).unref?.();
   }
 
   /**
@@ -116,7 +116,7 @@ export const cache = new SimpleCache(1000);
  * Cache key generators for different resource types
  */
 export const CacheKeys = {
-  github: (owner: string, repo: string) => `github:${owner}/${repo}`,
+  github: (owner: string, repo: string, sha: string) => `github:${owner}/${repo}@${sha}`,
   website: (url: string) => `website:${url}`,
   document: (url: string) => `document:${url}`, // Rarely used since documents are unique per submission
 };
@@ -125,7 +125,7 @@ export const CacheKeys = {
  * Cache TTL configurations (in milliseconds)
  */
 export const CacheTTL = {
-  GITHUB_REPO: 60 * 60 * 1000,      // 1 hour - repos don't change during grading period
+  GITHUB_REPO: 60 * 60 * 1000,      // 1 hour - keyed by commit SHA, so entries never go stale
   WEBSITE_TEST: 30 * 60 * 1000,     // 30 minutes - sites may update
   DOCUMENT: 15 * 60 * 1000,         // 15 minutes - rarely cached
 };
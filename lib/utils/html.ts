@@ -0,0 +1,220 @@
+// lib/utils/html.ts
+// Small HTML parser and selector matcher for auditing and checking fetched pages without a browser.
+
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr'])
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'textarea', 'title', 'noscript', 'template'])
+// Elements whose start tag closes an open element of the listed kinds, e.g. <li> after <li>
+const IMPLICIT_CLOSE: Record<string, string[]> = {
+  li: ['li'],
+  dt: ['dt', 'dd'],
+  dd: ['dt', 'dd'],
+  option: ['option'],
+  tr: ['tr', 'td', 'th'],
+  td: ['td', 'th'],
+  th: ['td', 'th'],
+  p: ['p'],
+}
+const MAX_SOURCE_LENGTH = 120 // Opening tags are kept for snippets, truncated to this
+
+export interface HtmlElement {
+  tag: string
+  attrs: Record<string, string>
+  children: HtmlNode[]
+  parent: HtmlElement | null
+  source: string // Opening tag as written
+}
+
+export type HtmlNode = HtmlElement | string
+
+export const isElement = (node: HtmlNode): node is HtmlElement => typeof node !== 'string'
+
+export const decodeEntities = (text: string) => text
+  .replace(/&nbsp;/g, ' ')
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&quot;/g, '"')
+  .replace(/&#39;|&apos;/g, "'")
+  .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+  .replace(/&amp;/g, '&')
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {}
+  const pattern = /([^\s"'<>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(source))) {
+    const name = match[1].toLowerCase()
+    if (!(name in attrs)) attrs[name] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '')
+  }
+  return attrs
+}
+
+/**
+ * Forgiving HTML parser: enough structure to query a page, not a spec-compliant tree.
+ * Unclosed elements are closed by their parent's end tag; stray end tags are ignored.
+ */
+export function parseHtml(html: string): HtmlElement {
+  const root: HtmlElement = { tag: '#document', attrs: {}, children: [], parent: null, source: '' }
+  const stack: HtmlElement[] = [root]
+  const tokens = /<!--[\s\S]*?-->|<![^>]*>|<\/([A-Za-z][\w:-]*)\s*>|<([A-Za-z][\w:-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/g
+  let lastIndex = 0
+  let match: RegExpExecArray | null
+
+  const current = () => stack[stack.length - 1]
+  const addText = (text: string, parent = current()) => {
+    if (text.trim()) parent.children.push(decodeEntities(text))
+  }
+
+  while ((match = tokens.exec(html))) {
+    addText(html.slice(lastIndex, match.index))
+    lastIndex = tokens.lastIndex
+
+    const [source, closing, opening, attributeSource] = match
+    if (closing) {
+      const tag = closing.toLowerCase()
+      const index = stack.map(element => element.tag).lastIndexOf(tag)
+      if (index > 0) stack.length = index
+      continue
+    }
+    if (!opening) continue // Comment or doctype
+
+    const tag = opening.toLowerCase()
+    const closes = IMPLICIT_CLOSE[tag]
+    if (closes && closes.includes(current().tag)) stack.pop()
+
+    const element: HtmlElement = {
+      tag,
+      attrs: parseAttributes(attributeSource.replace(/\/\s*$/, '')),
+      children: [],
+      parent: current(),
+      source: source.slice(0, MAX_SOURCE_LENGTH),
+    }
+    current().children.push(element)
+
+    if (RAW_TEXT_ELEMENTS.has(tag)) {
+      const end = html.toLowerCase().indexOf(`</${tag}`, lastIndex)
+      const content = html.slice(lastIndex, end === -1 ? html.length : end)
+      if (tag === 'title' || tag === 'textarea') addText(content, element)
+      const close = end === -1 ? html.length : html.indexOf('>', end)
+      tokens.lastIndex = lastIndex = close === -1 ? html.length : close + 1
+    } else if (!VOID_ELEMENTS.has(tag) && !/\/\s*$/.test(attributeSource)) {
+      stack.push(element)
+    }
+  }
+  addText(html.slice(lastIndex))
+
+  return root
+}
+
+/**
+ * Every element below this one, in document order
+ */
+export function descendants(element: HtmlElement): HtmlElement[] {
+  const found: HtmlElement[] = []
+  const visit = (node: HtmlElement) => {
+    for (const child of node.children) {
+      if (isElement(child)) {
+        found.push(child)
+        visit(child)
+      }
+    }
+  }
+  visit(element)
+  return found
+}
+
+/**
+ * CSS selector locating an element: its nearest id, then tag names with :nth-of-type where needed
+ */
+export function selectorFor(element: HtmlElement): string {
+  const parts: string[] = []
+  for (let node: HtmlElement | null = element; node && node.tag !== '#document' && node.tag !== 'html'; node = node.parent) {
+    if (node.attrs.id && /^[A-Za-z][\w-]*$/.test(node.attrs.id)) {
+      parts.unshift(`#${node.attrs.id}`)
+      break
+    }
+    const siblings = node.parent ? node.parent.children.filter(child => isElement(child) && child.tag === node!.tag) : []
+    parts.unshift(siblings.length > 1 ? `${node.tag}:nth-of-type(${siblings.indexOf(node) + 1})` : node.tag)
+  }
+  return parts.join(' > ') || element.tag
+}
+
+/**
+ * Text of an element as a reader would get it: scripts and aria-hidden content are skipped,
+ * images contribute their alt text
+ */
+export function textContent(element: HtmlElement): string {
+  return element.children
+    .map(child => {
+      if (!isElement(child)) return child
+      if (child.tag === 'script' || child.tag === 'style' || child.attrs['aria-hidden'] === 'true') return ''
+      if (child.tag === 'img' || (child.tag === 'input' && child.attrs.type === 'image')) return child.attrs.alt || ''
+      if (child.tag === 'svg') return child.attrs['aria-label'] || textContent(child)
+      return textContent(child)
+    })
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+interface CompoundSelector {
+  tag?: string
+  id?: string
+  classes: string[]
+  attributes: { name: string; operator?: '=' | '*=' | '^=' | '$='; value?: string }[]
+}
+
+function parseCompound(source: string): CompoundSelector {
+  const compound: CompoundSelector = { classes: [], attributes: [] }
+  const pattern = /^[a-z][\w-]*|^\*|#[\w-]+|\.[\w-]+|\[\s*([\w:-]+)\s*(?:([*^$]?=)\s*(?:"([^"]*)"|'([^']*)'|([^\]\s]+)))?\s*\]/gi
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(source))) {
+    const token = match[0]
+    if (token.startsWith('#')) compound.id = token.slice(1)
+    else if (token.startsWith('.')) compound.classes.push(token.slice(1))
+    else if (token.startsWith('[')) {
+      compound.attributes.push({
+        name: match[1].toLowerCase(),
+        operator: match[2] as CompoundSelector['attributes'][number]['operator'],
+        value: (match[3] ?? match[4] ?? match[5])?.toLowerCase(),
+      })
+    } else if (token !== '*') compound.tag = token.toLowerCase()
+  }
+  return compound
+}
+
+function matchesCompound(element: HtmlElement, compound: CompoundSelector): boolean {
+  if (compound.tag && element.tag !== compound.tag) return false
+  if (compound.id && element.attrs.id !== compound.id) return false
+  const classes = (element.attrs.class || '').split(/\s+/)
+  if (!compound.classes.every(name => classes.includes(name))) return false
+  return compound.attributes.every(({ name, operator, value }) => {
+    const actual = element.attrs[name]?.toLowerCase()
+    if (actual === undefined) return false
+    if (!operator || value === undefined) return true
+    if (operator === '=') return actual === value
+    if (operator === '^=') return actual.startsWith(value)
+    if (operator === '$=') return actual.endsWith(value)
+    return actual.includes(value)
+  })
+}
+
+/**
+ * Elements under root matching a selector. Supports tag, #id, .class and [attr], [attr=value],
+ * [attr*=value], [attr^=value], [attr$=value] (values compared case-insensitively), the
+ * descendant combinator and comma-separated lists.
+ */
+export function querySelectorAll(root: HtmlElement, selector: string): HtmlElement[] {
+  const alternatives = selector.split(',').map(part => part.trim().split(/\s+/).filter(Boolean).map(parseCompound))
+
+  return descendants(root).filter(element => alternatives.some(chain => {
+    if (chain.length === 0 || !matchesCompound(element, chain[chain.length - 1])) return false
+    // Match the remaining compounds against ancestors, right to left
+    let ancestor = element.parent
+    for (let i = chain.length - 2; i >= 0; i--) {
+      while (ancestor && !matchesCompound(ancestor, chain[i])) ancestor = ancestor.parent
+      if (!ancestor) return false
+      ancestor = ancestor.parent
+    }
+    return true
+  }))
+}
@@ -0,0 +1,114 @@
+// lib/utils/zip.ts
+// Minimal ZIP reader for Office and OpenDocument files, which are ZIP archives of XML parts.
+// Only stored and deflated entries are supported, which covers every file Office writes.
+// ZIP64 archives (over 4 GB or 65535 entries) are rejected; no upload comes close.
+import { inflateRawSync } from 'zlib'
+
+// Guards against archives that inflate to far more than they claim (zip bombs)
+const MAX_ENTRY_SIZE = 50 * 1024 * 1024
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50
+const LOCAL_FILE_HEADER = 0x04034b50
+
+// Stored in place of a count or offset that only fits in the ZIP64 record
+const ZIP64_COUNT = 0xffff
+const ZIP64_OFFSET = 0xffffffff
+
+interface ZipEntry {
+  name: string
+  method: number
+  compressedSize: number
+  localOffset: number
+}
+
+const corrupt = (detail: string) => new Error(`Corrupt ZIP archive: ${detail}`)
+
+function readCentralDirectory(buffer: Buffer): ZipEntry[] {
+  // The end-of-central-directory record sits in the last 64KB + 22 bytes
+  const searchStart = Math.max(0, buffer.length - 65557)
+  let eocd = -1
+  for (let i = buffer.length - 22; i >= searchStart; i--) {
+    if (buffer.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+      eocd = i
+      break
+    }
+  }
+  if (eocd === -1) {
+    throw new Error('Not a valid ZIP archive')
+  }
+
+  const count = buffer.readUInt16LE(eocd + 10)
+  let offset = buffer.readUInt32LE(eocd + 16)
+  if (count === ZIP64_COUNT || offset === ZIP64_OFFSET) {
+    throw new Error('ZIP64 archives are not supported')
+  }
+
+  const entries: ZipEntry[] = []
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > eocd || buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw corrupt(`central directory ends after ${i} of ${count} entries`)
+    }
+    const nameLength = buffer.readUInt16LE(offset + 28)
+    const entry = {
+      name: buffer.toString('utf8', offset + 46, offset + 46 + nameLength),
+      method: buffer.readUInt16LE(offset + 10),
+      compressedSize: buffer.readUInt32LE(offset + 20),
+      localOffset: buffer.readUInt32LE(offset + 42),
+    }
+    if (entry.compressedSize === ZIP64_OFFSET || entry.localOffset === ZIP64_OFFSET) {
+      throw new Error('ZIP64 archives are not supported')
+    }
+    entries.push(entry)
+    offset += 46 + nameLength + buffer.readUInt16LE(offset + 30) + buffer.readUInt16LE(offset + 32)
+  }
+  return entries
+}
+
+/**
+ * Names of all files in a ZIP archive
+ */
+export function listZipEntries(buffer: Buffer): string[] {
+  return readCentralDirectory(buffer).map(entry => entry.name)
+}
+
+/**
+ * Contents of one file in a ZIP archive, or null if it is missing
+ */
+export function readZipEntry(buffer: Buffer, name: string): Buffer | null {
+  const entry = readCentralDirectory(buffer).find(candidate => candidate.name === name)
+  if (!entry) return null
+
+  const { localOffset } = entry
+  if (localOffset + 30 > buffer.length || buffer.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+    throw corrupt(`no local header for ${name}`)
+  }
+  const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28)
+  if (dataStart + entry.compressedSize > buffer.length) {
+    throw corrupt(`${name} is truncated`)
+  }
+  const data = buffer.subarray(dataStart, dataStart + entry.compressedSize)
+
+  if (entry.method === 0) {
+    if (data.length > MAX_ENTRY_SIZE) throw new Error(`${name} is larger than ${MAX_ENTRY_SIZE} bytes`)
+    return data
+  }
+  if (entry.method === 8) {
+    try {
+      return inflateRawSync(data, { maxOutputLength: MAX_ENTRY_SIZE })
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+        throw new Error(`${name} is larger than ${MAX_ENTRY_SIZE} bytes`)
+      }
+      throw corrupt(`${name} could not be decompressed`)
+    }
+  }
+  throw new Error(`Unsupported ZIP compression method ${entry.method} for ${name}`)
+}
+
+/**
+ * Text of one file in a ZIP archive, or null if it is missing
+ */
+export function readZipText(buffer: Buffer, name: string): string | null {
+  return readZipEntry(buffer, name)?.toString('utf8') ?? null
+}
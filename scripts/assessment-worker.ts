@@ -0,0 +1,22 @@
+// scripts/assessment-worker.ts
+// Standalone worker for self-hosted deployments: npm run worker
+import { runAssessmentWorker } from '../lib/services/assessment-queue'
+
+const controller = new AbortController()
+
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.on(signal, () => {
+    console.log(`🛑 Received ${signal}, finishing current job...`)
+    controller.abort()
+  })
+}
+
+runAssessmentWorker({
+  pollIntervalMs: parseInt(process.env.ASSESSMENT_WORKER_POLL_MS || '5000', 10),
+  signal: controller.signal,
+})
+  .catch((error) => {
+    console.error('❌ Assessment worker crashed:', error)
+    process.exit(1)
+  })
+  .finally(() => process.exit(0))
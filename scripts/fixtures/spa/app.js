@@ -0,0 +1,25 @@
+// Renders the page client-side, then fails the way student deployments often do:
+// a missing image, a failing API call and an uncaught error
+document.title = 'Recipe Finder'
+
+const meta = document.createElement('meta')
+meta.name = 'description'
+meta.content = 'Search recipes by ingredient'
+document.head.appendChild(meta)
+
+document.getElementById('root').innerHTML = `
+  <header><h1>Recipe Finder</h1></header>
+  <main>
+    <p>Search thousands of recipes by the ingredients you already have.</p>
+    <img src="/missing-hero.png" alt="A table of dishes">
+    <div style="width: 600px">This banner is wider than a phone screen.</div>
+  </main>
+`
+
+fetch('/api/recipes').then(response => {
+  if (!response.ok) console.error(`Failed to load recipes: ${response.status}`)
+})
+
+setTimeout(() => {
+  throw new Error('recipes is undefined')
+}, 0)
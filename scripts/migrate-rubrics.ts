@@ -0,0 +1,34 @@
+// scripts/migrate-rubrics.ts
+// One-off data migration: npm run db:migrate-rubrics
+// Builds a structured rubric for every question that only has the legacy
+// criteria/redFlags/conditionalChecks arrays. Safe to re-run.
+import { prisma } from '../lib/prisma'
+import { saveQuestionRubric } from '../lib/services/rubric-service'
+import { rubricFromLegacyArrays } from '../lib/types/rubric'
+
+async function migrateRubrics() {
+  const questions = await prisma.question.findMany({
+    where: { rubric: null },
+    select: { id: true, title: true, criteria: true, redFlags: true, conditionalChecks: true },
+  })
+
+  console.log(`📋 ${questions.length} question(s) without a rubric`)
+
+  let migrated = 0
+  for (const question of questions) {
+    const rubric = rubricFromLegacyArrays(question.criteria, question.redFlags, question.conditionalChecks)
+
+    await prisma.$transaction((tx) => saveQuestionRubric(question.id, rubric, tx))
+    migrated++
+    console.log(`✅ ${question.title}: ${rubric.length} rubric item(s)`)
+  }
+
+  console.log(`🎉 Migrated ${migrated} question(s)`)
+}
+
+migrateRubrics()
+  .catch((error) => {
+    console.error('❌ Rubric migration failed:', error)
+    process.exitCode = 1
+  })
+  .finally(() => prisma.$disconnect())
@@ -0,0 +1,115 @@
+// scripts/render-website.ts
+// Render a website the way website submissions are assessed: npm run render-website -- <url> [options]
+//
+//   --serve <dir>      Serve a directory on a local static server and render that instead of a URL.
+//                      Unknown paths fall back to index.html, like a single-page app host.
+//                      Try it with scripts/fixtures/spa.
+//   --out <dir>        Save the desktop and mobile screenshots here
+//   --summary <true>   Also print the summary the assessment prompt receives
+//
+// Needs Chromium for playwright-core (`npx playwright install chromium`) or BROWSER_WS_ENDPOINT
+// pointing at a remote browser.
+import type { Server } from 'http'
+import { mkdirSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import type { AddressInfo } from 'net'
+import { isBrowserRenderingAvailable, renderPage } from '../lib/services/browser-render-service'
+import { auditAccessibility } from '../lib/services/accessibility-service'
+import { analyzePerformance, formatBytes } from '../lib/services/performance-service'
+import { websiteService } from '../lib/services/website-service'
+import { serveDirectory } from './static-server'
+
+function parseArgs(argv: string[]) {
+  const options: Record<string, string> = {}
+  let url: string | undefined
+  for (let i = 0; i < argv.length; i++) {
+    if (!argv[i].startsWith('--')) {
+      url = argv[i]
+      continue
+    }
+    if (argv[i + 1] === undefined) {
+      throw new Error(`Missing value for ${argv[i]}`)
+    }
+    options[argv[i].slice(2)] = argv[++i]
+  }
+  if (!url && !options.serve) {
+    throw new Error('Usage: npm run render-website -- <url> | --serve <dir> [--out dir] [--summary true]')
+  }
+  return { url, options }
+}
+
+async function main() {
+  const { url: targetUrl, options } = parseArgs(process.argv.slice(2))
+
+  let server: Server | undefined
+  let url = targetUrl!
+  if (options.serve) {
+    server = await serveDirectory(options.serve)
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`
+    console.log(`📂 Serving ${options.serve} at ${url}`)
+  }
+
+  try {
+    if (!(await isBrowserRenderingAvailable())) {
+      throw new Error('No headless browser: install playwright-core and Chromium, or set BROWSER_WS_ENDPOINT')
+    }
+
+    console.log(`🌐 Rendering ${url}`)
+    const rendered = await renderPage(url)
+    if (!rendered) {
+      throw new Error('The headless browser could not be started')
+    }
+
+    console.log(`\n   Final URL:     ${rendered.finalUrl} (status ${rendered.status ?? 'n/a'})`)
+    console.log(`   Title:         ${rendered.title || '(none)'}`)
+    console.log(`   Load time:     ${rendered.loadTime}ms`)
+    console.log(`   Visible text:  ${rendered.text.length} characters`)
+    console.log(`   Mobile layout: ${rendered.horizontalOverflow ? 'overflows horizontally' : 'fits'}`)
+    console.log(`   Console errors (${rendered.consoleErrors.length}):`)
+    rendered.consoleErrors.forEach(error => console.log(`     - ${error}`))
+    console.log(`   Failed requests (${rendered.failedRequests.length}):`)
+    rendered.failedRequests.forEach(request => console.log(`     - ${request.resourceType} ${request.url} (${request.status ?? request.error})`))
+
+    const performance = analyzePerformance(rendered.resources, { source: 'rendered', sample: rendered.performance, loadTime: rendered.loadTime })
+    console.log(`   Page weight:   ${formatBytes(performance.totalBytes)} in ${performance.requestCount} requests`)
+    console.log(`   Render-blocking (${performance.renderBlocking.length}):`)
+    performance.renderBlocking.forEach(resource => console.log(`     - ${resource.type} ${resource.url}`))
+
+    const security = await websiteService.checkSecurity(url, rendered)
+    console.log(`   Security:      ${security ? `grade ${security.grade} (${security.score}/100)` : 'not checked'}`)
+    security?.findings
+      .filter(finding => finding.status !== 'pass')
+      .forEach(finding => console.log(`     - [${finding.severity}] ${finding.title}: ${finding.detail}`))
+
+    const audit = auditAccessibility(rendered.html, { source: 'rendered', contrastSamples: rendered.contrastSamples })
+    console.log(`   Accessibility violations (${audit.violations.length}):`)
+    audit.violations.forEach(violation => console.log(`     - [${violation.impact}] ${violation.rule} x${violation.count}: ${violation.nodes[0].selector}`))
+
+    for (const screenshot of rendered.screenshots) {
+      const size = `${screenshot.width}x${screenshot.height}${screenshot.pageHeight > screenshot.height ? ` of ${screenshot.pageHeight}` : ''}`
+      if (options.out) {
+        mkdirSync(options.out, { recursive: true })
+        const path = join(options.out, `${screenshot.viewport}.jpg`)
+        writeFileSync(path, screenshot.image)
+        console.log(`   📸 ${screenshot.viewport} ${size} saved to ${path}`)
+      } else {
+        console.log(`   📸 ${screenshot.viewport} ${size} (${(screenshot.image.length / 1024).toFixed(1)} KB)`)
+      }
+    }
+
+    if (options.summary === 'true') {
+      const assessmentData = await websiteService.assessWebsite(url)
+      console.log(`\n${websiteService.generateWebsiteSummary(assessmentData)}`)
+    }
+  } finally {
+    server?.close()
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Rendering failed:', error instanceof Error ? error.message : error)
+    process.exitCode = 1
+  })
+  // The cache's cleanup timer would keep the process alive
+  .finally(() => process.exit())
@@ -0,0 +1,139 @@
+// scripts/run-calibration.ts
+// Golden-set regression check: npm run calibrate -- <golden-set.json> [options]
+//
+//   --provider <name>      Provider to grade with (default: mock)
+//   --record <file>        Grade with --provider and save its responses for replay
+//   --replay <file>        Grade with responses saved by --record, offline
+//   --out <file>           Write the full report as JSON
+//   --baseline <file>      Fail if agreement, precision or recall drop below this earlier report
+//   --tolerance <n>        Allowed drop against the baseline (default: 0.02)
+//   --min-agreement <n>    Fail if remark agreement is below this
+//
+// Routing rules and active prompt templates are read from the database when it is
+// reachable; otherwise the built-in defaults are used.
+import { readFileSync, writeFileSync } from 'fs'
+import { prisma } from '../lib/prisma'
+import { getLLMProvider, isLLMProviderName, registerLLMProvider } from '../lib/services/llm-providers'
+import {
+  RecordingLLMProvider,
+  ReplayLLMProvider,
+  buildCalibrationReport,
+  calibrationRecordingSchema,
+  findCalibrationRegressions,
+  goldenSetSchema,
+  runCalibration,
+  type CalibrationReport,
+} from '../lib/services/calibration-service'
+
+function parseArgs(argv: string[]) {
+  const [setPath, ...rest] = argv
+  const options: Record<string, string> = {}
+  for (let i = 0; i < rest.length; i += 2) {
+    if (!rest[i].startsWith('--') || rest[i + 1] === undefined) {
+      throw new Error(`Unexpected argument: ${rest[i]}`)
+    }
+    options[rest[i].slice(2)] = rest[i + 1]
+  }
+  if (!setPath) {
+    throw new Error('Usage: npm run calibrate -- <golden-set.json> [--provider name] [--record file | --replay file] [--out file] [--baseline file]')
+  }
+  return { setPath, options }
+}
+
+const readJson = (path: string) => JSON.parse(readFileSync(path, 'utf8'))
+const formatRatio = (value: number | null) => (value === null ? 'n/a' : `${Math.round(value * 1000) / 10}%`)
+
+function printReport(report: CalibrationReport) {
+  console.log(`\n📊 ${report.name}: ${report.cases} case(s), ${report.failedCases.length} failed`)
+  console.log(`   Remark agreement:   ${formatRatio(report.remark.agreement)} (within one level: ${formatRatio(report.remark.adjacentAgreement)}, kappa: ${report.remark.kappa ?? 'n/a'})`)
+
+  const { micro } = report.criteria
+  console.log(`   Criteria (met):     precision ${formatRatio(micro.precision)}, recall ${formatRatio(micro.recall)}, F1 ${micro.f1 ?? 'n/a'}, exact status ${formatRatio(micro.statusAgreement)}`)
+
+  console.log('\n   Confusion matrix (rows: instructor, columns: AI)')
+  console.table(report.remark.confusionMatrix)
+
+  const criteria = Object.entries(report.criteria.byCriterion)
+  if (criteria.length > 0) {
+    console.table(Object.fromEntries(criteria.map(([criterion, metrics]) => [criterion, {
+      support: metrics.support,
+      precision: formatRatio(metrics.precision),
+      recall: formatRatio(metrics.recall),
+      status: formatRatio(metrics.statusAgreement),
+    }])))
+  }
+}
+
+async function main() {
+  const { setPath, options } = parseArgs(process.argv.slice(2))
+
+  const parsedSet = goldenSetSchema.safeParse(readJson(setPath))
+  if (!parsedSet.success) {
+    throw new Error('Invalid golden set: ' + parsedSet.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', '))
+  }
+  const set = parsedSet.data
+
+  let providerName = options.provider || 'mock'
+  if (!isLLMProviderName(providerName)) {
+    throw new Error(`Unknown provider "${providerName}"`)
+  }
+
+  let replay: ReplayLLMProvider | undefined
+  let recorder: RecordingLLMProvider | undefined
+  if (options.replay) {
+    replay = new ReplayLLMProvider(calibrationRecordingSchema.parse(readJson(options.replay)))
+    registerLLMProvider(replay)
+    providerName = replay.name
+  } else if (options.record) {
+    recorder = new RecordingLLMProvider(getLLMProvider(providerName))
+    registerLLMProvider(recorder)
+  }
+
+  console.log(`🎯 Calibrating "${set.name}" with ${options.replay ? `replay of ${options.replay}` : providerName}`)
+
+  const results = await runCalibration(set, {
+    provider: providerName,
+    tracker: replay ?? recorder,
+    onCase: result => {
+      const verdict = result.error
+        ? `❌ ${result.error}`
+        : `${result.actualRemark === result.expectedRemark ? '✅' : '⚠️'} expected ${result.expectedRemark}, got ${result.actualRemark}`
+      console.log(`   ${result.id}: ${verdict}`)
+    },
+  })
+
+  const report = buildCalibrationReport(set.name, results)
+  printReport(report)
+
+  if (recorder) {
+    writeFileSync(options.record, JSON.stringify(recorder.recording, null, 2))
+    console.log(`💾 Recorded responses saved to ${options.record}`)
+  }
+  if (replay && replay.staleCases.size > 0) {
+    console.warn(`⚠️ The prompt changed since recording for: ${[...replay.staleCases].join(', ')}. Re-record with --record to measure the new prompt.`)
+  }
+  if (options.out) {
+    writeFileSync(options.out, JSON.stringify(report, null, 2))
+    console.log(`💾 Report saved to ${options.out}`)
+  }
+
+  const regressions = findCalibrationRegressions(report, {
+    baseline: options.baseline ? readJson(options.baseline) : undefined,
+    tolerance: options.tolerance ? parseFloat(options.tolerance) : undefined,
+    minAgreement: options['min-agreement'] ? parseFloat(options['min-agreement']) : undefined,
+  })
+  if (regressions.length > 0) {
+    console.error('\n❌ Calibration regressed:')
+    regressions.forEach(regression => console.error(`   - ${regression}`))
+    process.exitCode = 1
+  } else {
+    console.log('\n🎉 No regressions')
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Calibration failed:', error instanceof Error ? error.message : error)
+    process.exitCode = 1
+  })
+  .finally(() => prisma.$disconnect())
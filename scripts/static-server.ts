@@ -0,0 +1,48 @@
+// scripts/static-server.ts
+// Local static file server for rendering fixtures such as scripts/fixtures/spa, used by
+// render-website.ts and the browser rendering test.
+import { createServer, type Server } from 'http'
+import { existsSync, readFileSync, statSync } from 'fs'
+import { extname, join, resolve, sep } from 'path'
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.mjs': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.ico': 'image/x-icon',
+}
+
+// Static file server; missing files (other than assets) get index.html so client-side routes work
+export function serveDirectory(dir: string): Promise<Server> {
+  const root = resolve(dir)
+  const server = createServer((request, response) => {
+    const pathname = decodeURIComponent(new URL(request.url || '/', 'http://localhost').pathname)
+    let filePath = resolve(join(root, pathname))
+    if (filePath !== root && !filePath.startsWith(root + sep)) {
+      response.writeHead(403).end()
+      return
+    }
+    if (existsSync(filePath) && statSync(filePath).isDirectory()) {
+      filePath = join(filePath, 'index.html')
+    }
+    if (!existsSync(filePath)) {
+      if (extname(pathname) || pathname.startsWith('/api/')) {
+        response.writeHead(404).end('Not found')
+        return
+      }
+      filePath = join(root, 'index.html')
+    }
+    response.writeHead(200, { 'Content-Type': CONTENT_TYPES[extname(filePath)] || 'application/octet-stream' })
+    response.end(readFileSync(filePath))
+  })
+
+  return new Promise(resolveServer => server.listen(0, '127.0.0.1', () => resolveServer(server)))
+}